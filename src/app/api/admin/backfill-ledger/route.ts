@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { backfillLedger, getLoanReceivableDiscrepancies, getTrialBalance } from '@/lib/ledger';
+
+// POST /api/admin/backfill-ledger - Build the ledger from existing records (Admin only)
+export const POST = withErrorHandling(
+    withAdmin(async (request: AuthenticatedRequest) => {
+        await connectToDatabase();
+
+        try {
+            // Entries already in step with their source documents are left alone, so this can be re-run
+            const results = await backfillLedger(request.user.userId);
+            const trialBalance = await getTrialBalance();
+            const loanDiscrepancies = await getLoanReceivableDiscrepancies();
+
+            const postedCount = Object.values(results)
+                .reduce((sum, counts) => sum + counts.posted + counts.reposted + counts.reversed, 0);
+
+            return NextResponse.json({
+                success: true,
+                message: `Ledger backfill complete: ${postedCount} entries posted or corrected`,
+                data: {
+                    results,
+                    isBalanced: trialBalance.isBalanced,
+                    totalDebit: trialBalance.totalDebit,
+                    totalCredit: trialBalance.totalCredit,
+                    loanDiscrepancies,
+                }
+            });
+
+        } catch (error) {
+            console.error('Error backfilling ledger:', error);
+            return NextResponse.json(
+                {
+                    success: false,
+                    message: 'Failed to backfill ledger',
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                },
+                { status: 500 }
+            );
+        }
+    })
+);
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import connectToDatabase from '@/lib/mongodb';
 import Loan from '@/models/Loan';
+import Repayment from '@/models/Repayment';
 import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { calculateLoanInterestAccrual } from '@/lib/loan-calculations';
 
 // POST /api/admin/recalculate-loan-interest - Recalculate interest for all existing loans (Admin only)
 export const POST = withErrorHandling(
@@ -28,27 +30,17 @@ export const POST = withErrorHandling(
                 const oldTotalDue = loan.totalAmountDue;
                 const oldInterest = oldTotalDue - loan.approvedAmount;
 
-                // Calculate new interest based on current date and approval date
+                // Accrue interest on the outstanding principal between repayments
                 const principal = loan.approvedAmount;
                 const approvalDate = new Date(loan.approvalDate);
+                const repayments = await Repayment.find({ loanId: loan._id }).lean();
                 const currentDate = new Date();
+                const accrual = calculateLoanInterestAccrual(loan, repayments as any[], currentDate);
 
-                // Calculate months elapsed since approval
-                const yearsDiff = currentDate.getFullYear() - approvalDate.getFullYear();
-                const monthsDiff = currentDate.getMonth() - approvalDate.getMonth();
-                const daysDiff = currentDate.getDate() - approvalDate.getDate();
-
-                // Total months elapsed (including partial months)
-                let totalMonths = yearsDiff * 12 + monthsDiff;
-                if (daysDiff > 0) {
-                    totalMonths += daysDiff / 30; // Add partial month
-                }
-                totalMonths = Math.max(0, totalMonths); // Ensure non-negative
-
-                // Simple interest calculation based on actual time elapsed
-                const newInterest = principal * (loan.interestRate / 100) * (totalMonths / 12);
+                const newInterest = accrual.totalInterestAccrued;
                 const newTotalDue = principal + newInterest;
-                const newRemainingBalance = newTotalDue - loan.amountPaid;
+                const newRemainingBalance = accrual.outstandingPrincipal + accrual.accruedUnpaidInterest;
+                const totalMonths = Math.max(0, (currentDate.getTime() - approvalDate.getTime()) / (1000 * 3600 * 24 * 30.44));
 
                 // Update the loan
                 loan.totalAmountDue = newTotalDue;
@@ -63,6 +55,8 @@ export const POST = withErrorHandling(
                     principal: principal,
                     approvalDate: approvalDate,
                     monthsElapsed: totalMonths.toFixed(2),
+                    outstandingPrincipal: accrual.outstandingPrincipal.toFixed(2),
+                    accruedUnpaidInterest: accrual.accruedUnpaidInterest.toFixed(2),
                     oldInterest: oldInterest.toFixed(2),
                     newInterest: newInterest.toFixed(2),
                     oldTotalDue: oldTotalDue.toFixed(2),
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import { withAdmin, withErrorHandling } from '@/middleware/auth';
+import { migrateRecordNumbers } from '@/lib/numbering-migration';
+
+// POST /api/admin/renumber-records - Move receipts and member IDs onto sequential counters (Admin only)
+export const POST = withErrorHandling(
+    withAdmin(async () => {
+        await connectToDatabase();
+
+        try {
+            // Numbering follows record dates, so re-running leaves already migrated records as they are
+            const results = await migrateRecordNumbers();
+
+            const renumbered = Object.values(results.receipts)
+                .reduce((sum, counts) => sum + counts.renumbered, 0);
+
+            return NextResponse.json({
+                success: true,
+                message: `Numbering migration complete: ${renumbered} receipts renumbered`,
+                data: results,
+            });
+
+        } catch (error) {
+            console.error('Error migrating record numbers:', error);
+            return NextResponse.json(
+                {
+                    success: false,
+                    message: 'Failed to migrate record numbers',
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                },
+                { status: 500 }
+            );
+        }
+    })
+);
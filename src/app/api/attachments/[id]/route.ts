@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectToDatabase from '@/lib/mongodb';
+import Attachment from '@/models/Attachment';
+import { withAuth, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { deleteAttachment, findAttachmentOwner, readAttachment } from '@/lib/attachments';
+
+// GET /api/attachments/[id] - The file itself, shown inline
+export const GET = withErrorHandling(
+  withAuth(async (request: AuthenticatedRequest) => {
+    const id = request.nextUrl.pathname.split('/').pop() as string;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid attachment ID' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const attachment = await Attachment.findById(id);
+
+    if (!attachment || (request.user.role !== 'admin' && attachment.userId.toString() !== request.user.userId)) {
+      return NextResponse.json(
+        { success: false, message: 'Attachment not found' },
+        { status: 404 }
+      );
+    }
+
+    const data = await readAttachment(attachment);
+    const disposition = new URL(request.url).searchParams.get('download') === 'true' ? 'attachment' : 'inline';
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': attachment.contentType,
+        'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+        'Content-Length': String(data.length),
+        'Cache-Control': 'private, max-age=3600',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  })
+);
+
+// DELETE /api/attachments/[id] - Remove an attachment; members only from contributions still awaiting approval
+export const DELETE = withErrorHandling(
+  withAuth(async (request: AuthenticatedRequest) => {
+    const id = request.nextUrl.pathname.split('/').pop() as string;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid attachment ID' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const attachment = await Attachment.findById(id);
+
+    if (!attachment || (request.user.role !== 'admin' && attachment.userId.toString() !== request.user.userId)) {
+      return NextResponse.json(
+        { success: false, message: 'Attachment not found' },
+        { status: 404 }
+      );
+    }
+
+    if (request.user.role !== 'admin') {
+      const owner = await findAttachmentOwner(attachment.ownerType, attachment.ownerId.toString());
+      if (!owner || owner.settled) {
+        return NextResponse.json(
+          { success: false, message: 'Proof on an approved payment can only be removed by an admin' },
+          { status: 403 }
+        );
+      }
+    }
+
+    await deleteAttachment(attachment);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Attachment deleted',
+    });
+  })
+);
@@ -0,0 +1,149 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectToDatabase from '@/lib/mongodb';
+import Attachment from '@/models/Attachment';
+import { withAuth, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { findAttachmentOwner, saveAttachment } from '@/lib/attachments';
+import { COMMUNITY_CONFIG } from '@/config/community';
+
+const OWNER_TYPES = ['contribution', 'repayment'];
+
+// GET /api/attachments?ownerType=&ownerIds= - Proof-of-payment files on contributions or repayments
+export const GET = withErrorHandling(
+  withAuth(async (request: AuthenticatedRequest) => {
+    const { searchParams } = new URL(request.url);
+    const ownerType = searchParams.get('ownerType') || '';
+    const ownerIds = (searchParams.get('ownerIds') || '')
+      .split(',')
+      .filter((id) => mongoose.Types.ObjectId.isValid(id));
+
+    if (!OWNER_TYPES.includes(ownerType)) {
+      return NextResponse.json(
+        { success: false, message: 'Owner type must be contribution or repayment' },
+        { status: 400 }
+      );
+    }
+
+    if (ownerIds.length === 0 || ownerIds.length > 200) {
+      return NextResponse.json(
+        { success: false, message: 'Between 1 and 200 owner IDs are required' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const query: any = {
+      ownerType,
+      ownerId: { $in: ownerIds.map((id) => new mongoose.Types.ObjectId(id)) },
+    };
+
+    // Members only see proof on their own records
+    if (request.user.role !== 'admin') {
+      query.userId = new mongoose.Types.ObjectId(request.user.userId);
+    }
+
+    const attachments = await Attachment.find(query)
+      .select('-storage -storageKey')
+      .populate('uploadedBy', 'name')
+      .sort({ createdAt: 1 })
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      data: attachments,
+    });
+  })
+);
+
+// POST /api/attachments - Upload a bank slip or wallet screenshot as multipart form data (file, ownerType, ownerId)
+export const POST = withErrorHandling(
+  withAuth(async (request: AuthenticatedRequest) => {
+    // Refuse oversized bodies before reading them into memory
+    const contentLength = Number(request.headers.get('content-length') || 0);
+    if (contentLength > COMMUNITY_CONFIG.ATTACHMENT_RULES.MAX_SIZE_BYTES + 64 * 1024) {
+      return NextResponse.json(
+        { success: false, message: 'File is too large' },
+        { status: 413 }
+      );
+    }
+
+    const form = await request.formData().catch(() => null);
+    const file = form?.get('file');
+    const ownerType = form?.get('ownerType');
+    const ownerId = form?.get('ownerId');
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { success: false, message: 'File is required' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof ownerType !== 'string' || !OWNER_TYPES.includes(ownerType)) {
+      return NextResponse.json(
+        { success: false, message: 'Owner type must be contribution or repayment' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof ownerId !== 'string' || !mongoose.Types.ObjectId.isValid(ownerId)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid owner ID' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const owner = await findAttachmentOwner(ownerType as 'contribution' | 'repayment', ownerId);
+
+    if (!owner) {
+      return NextResponse.json(
+        { success: false, message: `${ownerType === 'contribution' ? 'Contribution' : 'Repayment'} not found` },
+        { status: 404 }
+      );
+    }
+
+    // Members attach proof to their own contributions while they await approval;
+    // repayments are recorded by admins, so only admins attach to them
+    if (request.user.role !== 'admin' && (owner.userId.toString() !== request.user.userId || owner.settled)) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const result = await saveAttachment({
+      ownerType: ownerType as 'contribution' | 'repayment',
+      ownerId: new mongoose.Types.ObjectId(ownerId),
+      userId: owner.userId,
+      fileName: file.name,
+      data: Buffer.from(await file.arrayBuffer()),
+      uploadedBy: request.user.userId,
+    });
+
+    if (result.error) {
+      return NextResponse.json(
+        { success: false, message: result.error },
+        { status: 400 }
+      );
+    }
+
+    const attachment = result.attachment!;
+
+    return NextResponse.json({
+      success: true,
+      message: 'Attachment uploaded',
+      data: {
+        _id: attachment._id,
+        ownerType: attachment.ownerType,
+        ownerId: attachment.ownerId,
+        fileName: attachment.fileName,
+        contentType: attachment.contentType,
+        size: attachment.size,
+        createdAt: attachment.createdAt,
+      },
+    }, { status: 201 });
+  })
+);
@@ -0,0 +1,125 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectToDatabase from '@/lib/mongodb';
+import AuditLog from '@/models/AuditLog';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { convertToCSV } from '@/lib/csv';
+
+const MAX_EXPORT_ROWS = 10000;
+
+const formatValue = (value: unknown) =>
+  value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// GET /api/audit-logs - Browse or export the audit trail (Admin only)
+export const GET = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const { searchParams } = new URL(request.url);
+
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '25'), 100);
+    const format = searchParams.get('format');
+    const userId = searchParams.get('userId');
+    const actorId = searchParams.get('actorId');
+    const entityType = searchParams.get('entityType');
+    const entityId = searchParams.get('entityId');
+    const action = searchParams.get('action');
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+
+    await connectToDatabase();
+
+    // Build query
+    const query: any = {};
+
+    if (userId) {
+      query.userId = new mongoose.Types.ObjectId(userId);
+    }
+
+    if (actorId) {
+      query.actorId = new mongoose.Types.ObjectId(actorId);
+    }
+
+    if (entityType) {
+      query.entityType = entityType;
+    }
+
+    if (entityId) {
+      query.entityId = new mongoose.Types.ObjectId(entityId);
+    }
+
+    if (action) {
+      query.action = action;
+    }
+
+    if (startDate || endDate) {
+      query.createdAt = {};
+      if (startDate) query.createdAt.$gte = new Date(startDate);
+      if (endDate) query.createdAt.$lte = new Date(`${endDate}T23:59:59.999`);
+    }
+
+    if (format === 'csv') {
+      const logs = await AuditLog.find(query)
+        .populate('userId', 'name memberId')
+        .populate('actorId', 'name memberId')
+        .sort({ createdAt: -1 })
+        .limit(MAX_EXPORT_ROWS)
+        .lean();
+
+      // One row per changed field so before/after values stay readable in a spreadsheet
+      const rows = logs.flatMap((log) => {
+        const member = log.userId as any;
+        const actor = log.actorId as any;
+        const base = {
+          timestamp: new Date(log.createdAt).toISOString(),
+          actor: actor ? `${actor.name} (${actor.memberId})` : log.actorEmail || log.actorRole,
+          actorRole: log.actorRole,
+          action: log.action,
+          entityType: log.entityType,
+          entityId: log.entityId.toString(),
+          member: member ? `${member.name} (${member.memberId})` : '',
+          route: log.route ? `${log.method} ${log.route}` : '',
+          ipAddress: log.ipAddress || '',
+        };
+
+        return log.changes.map((change) => ({
+          ...base,
+          field: change.field,
+          before: formatValue(change.before),
+          after: formatValue(change.after),
+        }));
+      });
+
+      return new NextResponse(convertToCSV(rows), {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="audit_log_${new Date().toISOString().split('T')[0]}.csv"`,
+        },
+      });
+    }
+
+    const [total, logs] = await Promise.all([
+      AuditLog.countDocuments(query),
+      AuditLog.find(query)
+        .populate('userId', 'name memberId')
+        .populate('actorId', 'name memberId')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return NextResponse.json({
+      success: true,
+      data: logs,
+      pagination: {
+        current: page,
+        total,
+        pages: totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  })
+);
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import { requestPasswordReset } from '@/lib/password-reset';
+import { getAppUrl } from '@/lib/app-url';
+import { withErrorHandling, withRateLimit } from '@/middleware/auth';
+
+export const POST = withErrorHandling(
+  withRateLimit(5, 15 * 60 * 1000)( // 5 attempts per 15 minutes
+    async (request: NextRequest) => {
+      const { identifier } = await request.json();
+
+      if (!identifier || typeof identifier !== 'string' || !identifier.trim()) {
+        return NextResponse.json(
+          { success: false, message: 'Email address or phone number is required' },
+          { status: 400 }
+        );
+      }
+
+      // Reset links point at the configured site only; without it none are sent
+      const baseUrl = getAppUrl();
+      if (!baseUrl) {
+        console.error('APP_URL is not set; password reset links cannot be sent');
+        return NextResponse.json(
+          { success: false, message: 'Password reset is not available. Please contact an admin.' },
+          { status: 503 }
+        );
+      }
+
+      await connectToDatabase();
+
+      // Sent after responding, so the answer and its timing are the same whether or not an account matched
+      after(() => requestPasswordReset(identifier, baseUrl).catch((error) => {
+        console.error('Failed to start password reset:', error);
+      }));
+
+      return NextResponse.json({
+        success: true,
+        message: 'If an account matches, a reset link is on its way. It expires soon, so use it right away.',
+      });
+    }
+  )
+);
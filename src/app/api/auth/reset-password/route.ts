@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import { resetPassword } from '@/lib/password-reset';
+import { withErrorHandling, withRateLimit } from '@/middleware/auth';
+
+export const POST = withErrorHandling(
+  withRateLimit(10, 15 * 60 * 1000)( // 10 attempts per 15 minutes
+    async (request: NextRequest) => {
+      const { token, password, confirmPassword } = await request.json();
+
+      if (!token || typeof token !== 'string' || !password || typeof password !== 'string') {
+        return NextResponse.json(
+          { success: false, message: 'Reset token and new password are required' },
+          { status: 400 }
+        );
+      }
+
+      if (password !== confirmPassword) {
+        return NextResponse.json(
+          { success: false, message: 'Passwords do not match' },
+          { status: 400 }
+        );
+      }
+
+      await connectToDatabase();
+
+      const result = await resetPassword(token, password);
+
+      if (result.error) {
+        return NextResponse.json(
+          { success: false, message: result.error },
+          { status: 400 }
+        );
+      }
+
+      const response = NextResponse.json({
+        success: true,
+        message: 'Password updated. Please sign in with your new password.',
+      });
+
+      // Any session in this browser ended with the reset
+      response.cookies.set('auth-token', '', {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'strict',
+        maxAge: 0,
+        path: '/',
+      });
+
+      return response;
+    }
+  )
+);
@@ -0,0 +1,64 @@
+import { NextResponse, after } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import BankImport from '@/models/BankImport';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { postBankImportRows, BankImportSelection } from '@/lib/bank-import';
+import { notifyLoanStatusChange, notifyUser } from '@/lib/notifications';
+
+// POST /api/bank-imports/[id]/post - Post confirmed matches as paid contributions and repayments, or ignore rows (Admin only)
+export const POST = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const segments = request.nextUrl.pathname.split('/');
+    const id = segments[segments.length - 2];
+    const { selections } = await request.json();
+
+    if (!Array.isArray(selections) || selections.length === 0) {
+      return NextResponse.json(
+        { success: false, message: 'Select at least one row to post or ignore' },
+        { status: 400 }
+      );
+    }
+
+    const invalid = selections.some((selection: BankImportSelection) =>
+      typeof selection?.rowNumber !== 'number' ||
+      (!selection.ignore && typeof selection.candidateIndex !== 'number')
+    );
+    if (invalid) {
+      return NextResponse.json(
+        { success: false, message: 'Each selection needs a row number and a candidate or ignore' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const bankImport = await BankImport.findById(id);
+
+    if (!bankImport) {
+      return NextResponse.json(
+        { success: false, message: 'Import not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await postBankImportRows(bankImport, selections, request.user.userId);
+
+    for (const { userId, month, amount } of result.paidContributions) {
+      after(() => notifyUser(userId, 'contribution-approved', { month, amount }));
+    }
+    for (const loan of result.completedLoans) {
+      after(() => notifyLoanStatusChange(loan));
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Posted ${result.posted} credits${result.ignored ? `, ignored ${result.ignored}` : ''}${result.failed.length ? `, ${result.failed.length} failed` : ''}`,
+      data: {
+        posted: result.posted,
+        ignored: result.ignored,
+        failed: result.failed,
+        bankImport,
+      },
+    });
+  })
+);
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import BankImport from '@/models/BankImport';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+
+// GET /api/bank-imports/[id] - A bank statement import with every row and its candidate matches (Admin only)
+export const GET = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const id = request.nextUrl.pathname.split('/').pop();
+
+    await connectToDatabase();
+
+    const bankImport = await BankImport.findById(id).populate('uploadedBy', 'name');
+
+    if (!bankImport) {
+      return NextResponse.json(
+        { success: false, message: 'Import not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: bankImport,
+    });
+  })
+);
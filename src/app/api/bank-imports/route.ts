@@ -0,0 +1,128 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import BankImport from '@/models/BankImport';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { createBankImport } from '@/lib/bank-import';
+import { BANK_STATEMENT_FORMATS } from '@/config/community';
+import { BankDateFormat, IBankStatementFormat } from '@/types';
+
+const DATE_FORMATS: BankDateFormat[] = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD-MMM-YYYY', 'BS'];
+
+// Statements larger than this are split by date before uploading
+const MAX_STATEMENT_LENGTH = 2 * 1024 * 1024;
+
+// GET /api/bank-imports - Recent bank statement imports with row counts (Admin only)
+export const GET = withErrorHandling(
+  withAdmin(async () => {
+    await connectToDatabase();
+
+    const imports = await BankImport.aggregate([
+      { $sort: { createdAt: -1 } },
+      { $limit: 20 },
+      {
+        $lookup: {
+          from: 'users',
+          localField: 'uploadedBy',
+          foreignField: '_id',
+          pipeline: [{ $project: { name: 1 } }],
+          as: 'uploadedBy',
+        },
+      },
+      {
+        $project: {
+          fileName: 1,
+          format: 1,
+          createdAt: 1,
+          skippedRows: 1,
+          uploadedBy: { $first: '$uploadedBy' },
+          total: { $size: '$rows' },
+          counts: {
+            $arrayToObject: {
+              $map: {
+                input: ['matched', 'ambiguous', 'unmatched', 'duplicate', 'posting', 'posted', 'ignored'],
+                as: 'status',
+                in: {
+                  k: '$$status',
+                  v: { $size: { $filter: { input: '$rows', cond: { $eq: ['$$this.status', '$$status'] } } } },
+                },
+              },
+            },
+          },
+        },
+      },
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: imports,
+    });
+  })
+);
+
+// POST /api/bank-imports - Upload a bank statement CSV and match its credits (Admin only)
+export const POST = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const { fileName, content, format, mapping } = await request.json();
+
+    if (!content || typeof content !== 'string') {
+      return NextResponse.json(
+        { success: false, message: 'Statement file content is required' },
+        { status: 400 }
+      );
+    }
+
+    if (content.length > MAX_STATEMENT_LENGTH) {
+      return NextResponse.json(
+        { success: false, message: 'Statement is too large; upload a shorter date range' },
+        { status: 400 }
+      );
+    }
+
+    let statementFormat: string | IBankStatementFormat | undefined;
+
+    if (format === 'custom') {
+      if (
+        !mapping?.date ||
+        !mapping?.description ||
+        (!mapping?.credit && !mapping?.amount) ||
+        !DATE_FORMATS.includes(mapping?.dateFormat)
+      ) {
+        return NextResponse.json(
+          { success: false, message: 'Custom mapping needs date, description, credit or amount columns and a date format' },
+          { status: 400 }
+        );
+      }
+      statementFormat = { label: 'Custom', ...mapping };
+    } else if (format && format !== 'auto') {
+      if (!BANK_STATEMENT_FORMATS[format]) {
+        return NextResponse.json(
+          { success: false, message: 'Unknown bank statement format' },
+          { status: 400 }
+        );
+      }
+      statementFormat = format;
+    }
+
+    await connectToDatabase();
+
+    const { bankImport, error } = await createBankImport(
+      (fileName || 'statement.csv').toString().slice(0, 200),
+      content,
+      statementFormat,
+      request.user.userId
+    );
+
+    if (error || !bankImport) {
+      return NextResponse.json(
+        { success: false, message: error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Read ${bankImport.rows.length} credits from the statement`,
+      data: bankImport,
+    }, { status: 201 });
+  })
+);
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withAuth, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
-import { COMMUNITY_CONFIG } from '@/config/community';
+import connectToDatabase from '@/lib/mongodb';
+import { getSettings } from '@/lib/settings';
+import { getContributionSchedule, toMonthString } from '@/lib/contribution-amounts';
 
 interface PaymentBreakdown {
     yearNumber: number;
@@ -44,10 +46,12 @@ const getHandler = withAuth(async (request: AuthenticatedRequest) => {
             );
         }
 
+        await connectToDatabase();
+        const [settings, schedule] = await Promise.all([getSettings(), getContributionSchedule()]);
+
         const joiningDate = new Date(joiningDateParam);
-        const communityStartDate = new Date(COMMUNITY_CONFIG.OPENING_DATE);
-        const monthlyContribution = COMMUNITY_CONFIG.DEFAULT_CONTRIBUTION_AMOUNT;
-        const annualInterestRate = COMMUNITY_CONFIG.ANNUAL_INTEREST_RATE / 100; // Convert to decimal
+        const communityStartDate = new Date(settings.openingDate);
+        const annualInterestRate = settings.annualInterestRate / 100; // Convert to decimal
 
         // Validate joining date
         if (joiningDate <= communityStartDate) {
@@ -87,8 +91,11 @@ const getHandler = withAuth(async (request: AuthenticatedRequest) => {
             const endMonth = Math.min(currentMonth + 11, monthsDiff);
             const monthsInThisYear = endMonth - startMonth + 1;
 
-            // Base contribution for this year
-            const baseContribution = monthsInThisYear * monthlyContribution;
+            // Base contribution for this year, at the community amount scheduled for each month
+            const months = Array.from({ length: monthsInThisYear }, (_, i) => toMonthString(
+                new Date(communityStartDate.getFullYear(), communityStartDate.getMonth() + startMonth - 1 + i, 1)
+            ));
+            const baseContribution = schedule.totalFor(months);
 
             // Interest period: Year 1 gets interest for (totalYears), Year 2 gets (totalYears-1), etc.
             // For partial years, calculate proportionally
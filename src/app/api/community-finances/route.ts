@@ -5,55 +5,32 @@ import Contribution from '@/models/Contribution';
 import Loan from '@/models/Loan';
 import Repayment from '@/models/Repayment';
 import HistoricalInterest from '@/models/HistoricalInterest';
+import Penalty from '@/models/Penalty';
+import MemberWithdrawal from '@/models/MemberWithdrawal';
 import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
-import { CommunityFinances, LoanSummary } from '@/types';
+import { getCommunityFunds } from '@/lib/community-funds';
+import { getSettings } from '@/lib/settings';
+import { formatContributionMonth, getContributionMonth, getPeriodStart, shiftMonth } from '@/lib/periods';
+import { CommunityFinances, ContributionCalendar, LoanSummary } from '@/types';
 
 // GET /api/community-finances - Get detailed community financial breakdown (Admin only)
 export const GET = withErrorHandling(
   withAdmin(async (request: AuthenticatedRequest) => {
     await connectToDatabase();
 
-    const [
-      // Total contributions all time
-      totalContributionsResult,
+    const { contributionCalendar } = await getSettings();
 
-      // Active loans with details
-      activeLoansResult,
+    const [
+      // Contributions, income, active loan principal, exit payouts and liquid funds
+      funds,
 
       // All loans for loan summaries
       allLoansResult,
 
-      // Total interest collected from repayments
-      totalInterestResult,
-
-      // Historical interest collected
-      historicalInterestResult,
-
       // Monthly financial history (last 12 months)
       monthlyHistoryResult,
     ] = await Promise.all([
-      // Total contributions all time
-      Contribution.aggregate([
-        { $match: { paidStatus: 'paid' } },
-        { $group: { _id: null, total: { $sum: '$amount' } } }
-      ]),
-
-      // Active loans with principals
-      Loan.aggregate([
-        {
-          $match: {
-            status: { $in: ['approved', 'disbursed'] },
-            remainingBalance: { $gt: 0 }
-          }
-        },
-        {
-          $group: {
-            _id: null,
-            totalPrincipal: { $sum: '$approvedAmount' },
-            count: { $sum: 1 }
-          }
-        }
-      ]),
+      getCommunityFunds(),
 
       // All loans with user details for loan summaries
       Loan.find({
@@ -64,33 +41,18 @@ export const GET = withErrorHandling(
         .populate('repayments')
         .lean(),
 
-      // Total interest collected from repayments
-      Repayment.aggregate([
-        {
-          $group: {
-            _id: null,
-            totalInterest: { $sum: '$interestAmount' }
-          }
-        }
-      ]),
-
-      // Historical interest collected
-      HistoricalInterest.getTotalHistoricalInterest(),
-
       // Monthly history for last 12 months
-      getMonthlyFinancialHistory()
+      getMonthlyFinancialHistory(contributionCalendar)
     ]);
 
-    const totalContributions = totalContributionsResult[0]?.total || 0;
-    const activeLoansPrincipal = activeLoansResult[0]?.totalPrincipal || 0;
-    const totalInterestFromRepayments = totalInterestResult[0]?.totalInterest || 0;
-    const historicalInterest = historicalInterestResult || 0;
-
-    // Total interest collected includes both repayment interest and historical interest
-    const totalInterestCollected = totalInterestFromRepayments + historicalInterest;
-
-    // Calculate available funds (contributions + all interest earned - active loan principals)
-    const availableLiquidFunds = totalContributions + totalInterestCollected - activeLoansPrincipal;
+    const {
+      totalContributions,
+      activeLoansPrincipal,
+      totalInterestCollected,
+      totalPenaltiesCollected,
+      totalWithdrawals,
+      availableLiquidFunds,
+    } = funds;
 
     // Calculate expected annual interest from active loans
     let expectedAnnualInterest = 0;
@@ -129,6 +91,8 @@ export const GET = withErrorHandling(
       totalContributionsAllTime: totalContributions,
       totalActiveLoans: activeLoansPrincipal,
       totalInterestCollected,
+      totalPenaltiesCollected,
+      totalWithdrawals,
       availableLiquidFunds,
       expectedAnnualInterest,
       loanSummaries,
@@ -142,18 +106,17 @@ export const GET = withErrorHandling(
   })
 );
 
-async function getMonthlyFinancialHistory() {
+async function getMonthlyFinancialHistory(calendar: ContributionCalendar) {
   const months = [];
-  const now = new Date();
+  const currentMonth = getContributionMonth(new Date(), calendar);
 
-  // Get last 12 months
+  // Get last 12 months, in the group's calendar
   for (let i = 11; i >= 0; i--) {
-    const date = new Date(now.getFullYear(), now.getMonth() - i, 1);
-    const monthStr = date.toISOString().slice(0, 7); // YYYY-MM
-    const year = date.getFullYear();
-    const month = date.getMonth() + 1;
+    const monthStr = shiftMonth(currentMonth, -i); // YYYY-MM
+    const date = getPeriodStart(monthStr, calendar);
+    const nextMonthStart = getPeriodStart(shiftMonth(monthStr, 1), calendar);
 
-    const [contributions, loansGiven, interestCollected, historicalInterestForMonth] = await Promise.all([
+    const [contributions, loansGiven, interestCollected, historicalInterestForMonth, penaltiesForMonth, withdrawalsForMonth] = await Promise.all([
       // Contributions for this month
       Contribution.aggregate([
         {
@@ -175,8 +138,8 @@ async function getMonthlyFinancialHistory() {
         {
           $match: {
             $or: [
-              { approvalDate: { $gte: date, $lt: new Date(year, month, 1) } },
-              { disbursementDate: { $gte: date, $lt: new Date(year, month, 1) } }
+              { approvalDate: { $gte: date, $lt: nextMonthStart } },
+              { disbursementDate: { $gte: date, $lt: nextMonthStart } }
             ],
             status: { $in: ['approved', 'disbursed', 'completed'] }
           }
@@ -189,11 +152,13 @@ async function getMonthlyFinancialHistory() {
         }
       ]),
 
-      // Interest collected from repayments in this month
+      // Interest collected from repayments in this month; recoveries from
+      // guarantors' savings bring no cash in
       Repayment.aggregate([
         {
           $match: {
-            paymentDate: { $gte: date, $lt: new Date(year, month, 1) }
+            paymentDate: { $gte: date, $lt: nextMonthStart },
+            paymentMethod: { $ne: 'guarantee_recovery' }
           }
         },
         {
@@ -208,7 +173,7 @@ async function getMonthlyFinancialHistory() {
       HistoricalInterest.aggregate([
         {
           $match: {
-            interestDate: { $gte: date, $lt: new Date(year, month, 1) }
+            interestDate: { $gte: date, $lt: nextMonthStart }
           }
         },
         {
@@ -217,6 +182,38 @@ async function getMonthlyFinancialHistory() {
             total: { $sum: '$amount' }
           }
         }
+      ]),
+
+      // Penalties collected in this month
+      Penalty.aggregate([
+        {
+          $match: {
+            status: 'paid',
+            paidDate: { $gte: date, $lt: nextMonthStart }
+          }
+        },
+        {
+          $group: {
+            _id: null,
+            total: { $sum: '$amount' }
+          }
+        }
+      ]),
+
+      // Exit payouts in this month
+      MemberWithdrawal.aggregate([
+        {
+          $match: {
+            status: 'approved',
+            exitDate: { $gte: date, $lt: nextMonthStart }
+          }
+        },
+        {
+          $group: {
+            _id: null,
+            total: { $sum: '$netPayout' }
+          }
+        }
       ])
     ]);
 
@@ -224,16 +221,18 @@ async function getMonthlyFinancialHistory() {
     const loansAmount = loansGiven[0]?.total || 0;
     const repaymentInterestAmount = interestCollected[0]?.total || 0;
     const historicalInterestAmount = historicalInterestForMonth[0]?.total || 0;
+    const penaltiesAmount = penaltiesForMonth[0]?.total || 0;
+    const withdrawalsAmount = withdrawalsForMonth[0]?.total || 0;
 
-    // Total interest for the month includes both repayment and historical interest
-    const totalInterestAmount = repaymentInterestAmount + historicalInterestAmount;
+    // Total interest for the month includes repayment interest, historical interest and penalties
+    const totalInterestAmount = repaymentInterestAmount + historicalInterestAmount + penaltiesAmount;
 
     months.push({
-      month: date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' }),
+      month: formatContributionMonth(monthStr, calendar),
       contributions: contributionsAmount,
       loansGiven: loansAmount,
       interestCollected: totalInterestAmount,
-      netGrowth: contributionsAmount + totalInterestAmount - loansAmount
+      netGrowth: contributionsAmount + totalInterestAmount - loansAmount - withdrawalsAmount
     });
   }
 
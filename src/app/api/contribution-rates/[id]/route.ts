@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import ContributionRate from '@/models/ContributionRate';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+
+// PUT /api/contribution-rates/[id] - Update the note, or end a member override (Admin only)
+export const PUT = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const segments = request.nextUrl.pathname.split('/');
+    const rateId = segments[segments.length - 1];
+
+    const { effectiveTo, note } = await request.json();
+
+    await connectToDatabase();
+
+    const rate = await ContributionRate.findById(rateId);
+
+    if (!rate) {
+      return NextResponse.json(
+        { success: false, message: 'Scheduled amount not found' },
+        { status: 404 }
+      );
+    }
+
+    if (effectiveTo !== undefined) {
+      if (effectiveTo && !/^\d{4}-\d{2}$/.test(effectiveTo)) {
+        return NextResponse.json(
+          { success: false, message: 'End month must be in format YYYY-MM' },
+          { status: 400 }
+        );
+      }
+      // Model validation rejects end months on community amounts or before the start
+      rate.effectiveTo = effectiveTo || undefined;
+    }
+    if (note !== undefined) {
+      rate.note = note?.trim() || undefined;
+    }
+
+    const updatedRate = await rate.save();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Scheduled amount updated successfully',
+      data: updatedRate,
+    });
+  })
+);
+
+// DELETE /api/contribution-rates/[id] - Remove a scheduled amount entered in error (Admin only)
+// Contributions already created keep their amount
+export const DELETE = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const segments = request.nextUrl.pathname.split('/');
+    const rateId = segments[segments.length - 1];
+
+    await connectToDatabase();
+
+    const rate = await ContributionRate.findByIdAndDelete(rateId);
+
+    if (!rate) {
+      return NextResponse.json(
+        { success: false, message: 'Scheduled amount not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Scheduled amount removed successfully',
+    });
+  })
+);
@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import ContributionRate from '@/models/ContributionRate';
+import User from '@/models/User';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { getSettings } from '@/lib/settings';
+import { buildContributionSchedule, toMonthString, validateContributionRate } from '@/lib/contribution-amounts';
+
+// GET /api/contribution-rates - Contribution amount schedule and the amount due this month (Admin only)
+export const GET = withErrorHandling(
+  withAdmin(async () => {
+    await connectToDatabase();
+
+    const [entries, settings] = await Promise.all([
+      ContributionRate.find()
+        .populate('userId', 'name memberId')
+        .populate('createdBy', 'name')
+        .sort({ effectiveFrom: -1 })
+        .lean(),
+      getSettings(),
+    ]);
+
+    const schedule = buildContributionSchedule(entries, settings.monthlyContributionAmount);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        entries,
+        openingAmount: settings.monthlyContributionAmount,
+        currentAmount: schedule.amountFor(toMonthString(new Date())),
+      },
+    });
+  })
+);
+
+// POST /api/contribution-rates - Schedule a contribution amount, for everyone or one member (Admin only)
+// Contributions already created keep the amount they were created with
+export const POST = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const { effectiveFrom, effectiveTo, amount, userId, note } = await request.json();
+
+    const validationError = validateContributionRate({ effectiveFrom, effectiveTo, amount, userId });
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, message: validationError },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    if (userId) {
+      const member = await User.findById(userId);
+      if (!member) {
+        return NextResponse.json(
+          { success: false, message: 'User not found' },
+          { status: 404 }
+        );
+      }
+    }
+
+    const existing = await ContributionRate.findOne({ userId: userId || null, effectiveFrom });
+    if (existing) {
+      return NextResponse.json(
+        { success: false, message: `An amount is already scheduled from ${effectiveFrom}${userId ? ' for this member' : ''}` },
+        { status: 409 }
+      );
+    }
+
+    const rate = await ContributionRate.create({
+      effectiveFrom,
+      effectiveTo: effectiveTo || undefined,
+      amount: Number(amount),
+      userId: userId || undefined,
+      note: note?.trim() || undefined,
+      createdBy: request.user.userId,
+    });
+
+    await rate.populate('userId', 'name memberId');
+
+    return NextResponse.json({
+      success: true,
+      message: 'Contribution amount scheduled successfully',
+      data: rate,
+    }, { status: 201 });
+  })
+);
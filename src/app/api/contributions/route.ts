@@ -1,9 +1,14 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import mongoose from 'mongoose';
 import connectToDatabase from '@/lib/mongodb';
 import Contribution from '@/models/Contribution';
 import User from '@/models/User';
 import { withAuth, withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { syncContributionEntry } from '@/lib/ledger';
+import { getContributionSchedule } from '@/lib/contribution-amounts';
+import { notifyUser } from '@/lib/notifications';
+import { getFiscalYearMonths, parseContributionMonth } from '@/lib/periods';
+import { getClosedPeriodError } from '@/lib/period-close';
 import { ContributionFilter, PaginatedResponse, IContribution } from '@/types';
 
 // GET /api/contributions - Get contributions (filtered by user role)
@@ -18,7 +23,9 @@ export const GET = withErrorHandling(
       sortOrder: (searchParams.get('sortOrder') as 'asc' | 'desc') || 'desc',
       userId: searchParams.get('userId') || undefined,
       month: searchParams.get('month') || undefined,
+      bsMonth: searchParams.get('bsMonth') || undefined,
       year: parseInt(searchParams.get('year') || '0') || undefined,
+      fiscalYear: parseInt(searchParams.get('fiscalYear') || '0') || undefined,
       status: searchParams.get('status') as any || undefined,
     };
 
@@ -38,6 +45,22 @@ export const GET = withErrorHandling(
     if (filters.month) {
       query.month = filters.month;
     }
+
+    if (filters.bsMonth) {
+      const month = parseContributionMonth(filters.bsMonth, 'BS');
+      if (!month) {
+        return NextResponse.json(
+          { success: false, message: 'BS month must be in format YYYY-MM' },
+          { status: 400 }
+        );
+      }
+      query.month = month;
+    }
+
+    if (filters.fiscalYear) {
+      const months = getFiscalYearMonths(filters.fiscalYear);
+      query.month = query.month ? { $eq: query.month, $in: months } : { $in: months };
+    }
     
     if (filters.year) {
       query.year = filters.year;
@@ -100,10 +123,19 @@ export const POST = withErrorHandling(
         );
       }
 
+      const monthStr = `${year}-${String(month).padStart(2, '0')}`;
+      const closedError = await getClosedPeriodError({ months: [monthStr] });
+      if (closedError) {
+        return NextResponse.json(
+          { success: false, message: closedError },
+          { status: 409 }
+        );
+      }
+
       let contributions: any[] = [];
       if (selectedUserIds && Array.isArray(selectedUserIds) && selectedUserIds.length > 0) {
         // Create contributions for selected users only
-        const monthStr = `${year}-${String(month).padStart(2, '0')}`;
+        const schedule = await getContributionSchedule();
         const contributionsToCreate: any[] = [];
         
         for (const userId of selectedUserIds) {
@@ -119,7 +151,7 @@ export const POST = withErrorHandling(
             if (user) {
               contributionsToCreate.push({
                 userId: userId,
-                amount: 2000,
+                amount: schedule.amountFor(monthStr, userId),
                 month: monthStr,
                 year,
                 paidStatus: 'pending',
@@ -177,6 +209,14 @@ export const POST = withErrorHandling(
         );
       }
 
+      const closedError = await getClosedPeriodError({ months: [contribution.month] });
+      if (closedError) {
+        return NextResponse.json(
+          { success: false, message: closedError },
+          { status: 409 }
+        );
+      }
+
       // Admin recording - mark as paid directly
       contribution.paidStatus = 'paid';
       contribution.paidDate = new Date();
@@ -186,6 +226,12 @@ export const POST = withErrorHandling(
       contribution.recordedBy = new mongoose.Types.ObjectId(request.user.userId);
 
       await contribution.save();
+      await syncContributionEntry(contribution, { postedBy: request.user.userId });
+
+      const memberId = contribution.userId.toString();
+      const { month: paidMonth, amount: paidAmount } = contribution;
+      after(() => notifyUser(memberId, 'contribution-approved', { month: paidMonth, amount: paidAmount }));
+
       await contribution.populate('userId', 'name email memberId');
       await contribution.populate('recordedBy', 'name');
 
@@ -223,11 +269,29 @@ export const POST = withErrorHandling(
         );
       }
 
+      // The member's payment date stands, so it must be open too
+      const closedError = await getClosedPeriodError({
+        months: [contribution.month],
+        dates: [contribution.paidDate],
+      });
+      if (closedError) {
+        return NextResponse.json(
+          { success: false, message: closedError },
+          { status: 409 }
+        );
+      }
+
       // Approve the contribution
       contribution.paidStatus = 'paid';
       contribution.recordedBy = new mongoose.Types.ObjectId(request.user.userId);
 
       await contribution.save();
+      await syncContributionEntry(contribution, { postedBy: request.user.userId });
+
+      const memberId = contribution.userId.toString();
+      const { month: paidMonth, amount: paidAmount } = contribution;
+      after(() => notifyUser(memberId, 'contribution-approved', { month: paidMonth, amount: paidAmount }));
+
       await contribution.populate('userId', 'name email memberId');
       await contribution.populate('recordedBy', 'name');
 
@@ -288,6 +352,14 @@ export const PATCH = withErrorHandling(
         );
       }
 
+      const closedError = await getClosedPeriodError({ months: [contribution.month] });
+      if (closedError) {
+        return NextResponse.json(
+          { success: false, message: closedError },
+          { status: 409 }
+        );
+      }
+
       // Member contribution - mark as pending for admin approval
       contribution.paidStatus = 'pending';
       contribution.paidDate = new Date();
@@ -6,6 +6,10 @@ import Contribution from '@/models/Contribution';
 import Loan from '@/models/Loan';
 import HistoricalInterest from '@/models/HistoricalInterest';
 import { withAuth, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { getMemberSavingsBalance } from '@/lib/guarantees';
+import { getCommunityFunds } from '@/lib/community-funds';
+import { getSettings } from '@/lib/settings';
+import { getContributionMonth, getFiscalYearOfDate, getFiscalYearRange } from '@/lib/periods';
 import { IDashboardStats, IMemberStats } from '@/types';
 
 // GET /api/dashboard - Get dashboard statistics
@@ -18,25 +22,30 @@ export const GET = withErrorHandling(
 
     if (request.user.role === 'admin') {
       // Admin dashboard - overview of entire system
+      const { contributionCalendar } = await getSettings();
+      const currentMonth = getContributionMonth(new Date(), contributionCalendar);
+      const [currentYear, currentMonthNumber] = currentMonth.split('-').map(Number);
+      const fiscalYear = getFiscalYearOfDate();
+      const fiscalYearRange = getFiscalYearRange(fiscalYear);
+      const inFiscalYear = { $gte: fiscalYearRange.start, $lte: fiscalYearRange.end };
+
       const [
-        totalSavingsResult,
+        funds,
         totalLoansResult,
         outstandingLoansResult,
-        interestCollected,
-        historicalInterestCollected,
         totalMembers,
         activeMembers,
         currentMonthStats,
         activeLoansPrincipalResult,
-        totalInterestEarnedResult,
         expectedYearlyInterestResult,
-        accruedInterestResult
+        accruedInterestResult,
+        fiscalYearContributionStats,
+        fiscalYearRepaymentInterestResult,
+        fiscalYearHistoricalInterestResult,
+        fiscalYearLoansResult
       ] = await Promise.all([
-        // Total savings (all paid contributions)
-        Contribution.aggregate([
-          { $match: { paidStatus: 'paid' } },
-          { $group: { _id: null, total: { $sum: '$amount' } } }
-        ]),
+        // Savings, income and liquid funds, worked out the same way as for loan approvals
+        getCommunityFunds(),
 
         // Total loans given
         Loan.getTotalLoansGiven(),
@@ -44,20 +53,14 @@ export const GET = withErrorHandling(
         // Outstanding loans
         Loan.getOutstandingLoans(),
 
-        // Interest collected from loan repayments
-        Loan.getInterestCollected(),
-
-        // Historical interest collected
-        HistoricalInterest.getTotalHistoricalInterest(),
-
         // Total members count
         User.countDocuments(),
 
         // Active members count
         User.countDocuments({ isActive: true }),
 
-        // Current month contribution stats
-        Contribution.getMonthlyStats(new Date().getFullYear(), new Date().getMonth() + 1),
+        // Current month contribution stats, in the group's calendar
+        Contribution.getMonthlyStats(currentYear, currentMonthNumber),
 
         // Outstanding loans principal (remaining balance)
         Loan.aggregate([
@@ -75,16 +78,6 @@ export const GET = withErrorHandling(
           }
         ]),
 
-        // Total interest earned (from repayments)
-        mongoose.model('Repayment').aggregate([
-          {
-            $group: {
-              _id: null,
-              totalInterest: { $sum: '$interestAmount' }
-            }
-          }
-        ]),
-
         // Expected yearly interest from active loans
         Loan.aggregate([
           {
@@ -139,25 +132,44 @@ export const GET = withErrorHandling(
               }
             }
           }
+        ]),
+
+        // Contributions for the months of the current fiscal year
+        Contribution.getFiscalYearStats(fiscalYear),
+
+        // Interest from repayments made this fiscal year
+        mongoose.model('Repayment').aggregate([
+          { $match: { paymentDate: inFiscalYear } },
+          { $group: { _id: null, totalInterest: { $sum: '$interestAmount' } } }
+        ]),
+
+        // Historical interest dated this fiscal year
+        HistoricalInterest.aggregate([
+          { $match: { interestDate: inFiscalYear } },
+          { $group: { _id: null, total: { $sum: '$amount' } } }
+        ]),
+
+        // Loans disbursed this fiscal year
+        Loan.aggregate([
+          { $match: { disbursementDate: inFiscalYear } },
+          { $group: { _id: null, total: { $sum: { $ifNull: ['$approvedAmount', '$requestedAmount'] } } } }
         ])
       ]);
 
-      const totalSavings = totalSavingsResult[0]?.total || 0;
+      const totalSavings = funds.totalContributions;
       const outstandingLoanPrincipal = activeLoansPrincipalResult[0]?.totalPrincipal || 0;
-      const totalInterestEarned = totalInterestEarnedResult[0]?.totalInterest || 0;
-      const historicalInterest = historicalInterestCollected || 0;
       const expectedYearlyInterest = expectedYearlyInterestResult[0]?.expectedInterest || 0;
       const accruedInterestToDate = accruedInterestResult[0]?.totalAccruedInterest || 0;
 
-      // Total interest earned includes both repayment interest and historical interest
-      const totalInterestCollectedCombined = totalInterestEarned + historicalInterest;
+      // Total interest earned includes repayment interest, historical interest and penalties
+      const totalInterestCollectedCombined = funds.totalInterestCollected;
 
-      // Available funds = contributions + all interest earned - money currently loaned out
-      const availableFunds = totalSavings + totalInterestCollectedCombined - outstandingLoanPrincipal;
+      // Available funds match the liquidity check loan approvals are held to
+      const availableFunds = funds.availableLiquidFunds;
 
-      // Total Community Value = Available Funds + Outstanding Loans + Accrued Interest to Date
+      // Total Community Value = Available Funds + Active Loan Principal + Accrued Interest to Date
       // This represents: liquid funds + loaned principal + interest accrued from loan start dates
-      const totalCommunityValue = availableFunds + outstandingLoanPrincipal + accruedInterestToDate;
+      const totalCommunityValue = availableFunds + funds.activeLoansPrincipal + accruedInterestToDate;
 
       const loanToSavingsRatio = totalSavings > 0 ? (outstandingLoanPrincipal / totalSavings) * 100 : 0;
 
@@ -177,12 +189,19 @@ export const GET = withErrorHandling(
         totalInterestEarned: totalInterestCollectedCombined,
         activeLoansPrincipal: outstandingLoanPrincipal,
         loanToSavingsRatio,
+        currentMonth,
+        fiscalYear,
+        fiscalYearContributions: fiscalYearContributionStats.totals.paid.totalAmount,
+        fiscalYearInterestEarned: (fiscalYearRepaymentInterestResult[0]?.totalInterest || 0) +
+          (fiscalYearHistoricalInterestResult[0]?.total || 0),
+        fiscalYearLoansDisbursed: fiscalYearLoansResult[0]?.total || 0,
       };
 
       return NextResponse.json({
         success: true,
         stats,
         monthlyBreakdown: currentMonthStats,
+        fiscalYearBreakdown: fiscalYearContributionStats,
       });
 
     } else {
@@ -199,6 +218,7 @@ export const GET = withErrorHandling(
 
       const [
         savingsResult,
+        savingsBalance,
         currentLoan,
         loanHistory,
         contributionHistory
@@ -206,6 +226,9 @@ export const GET = withErrorHandling(
         // User's total savings
         Contribution.getUserTotalSavings(targetUserId),
 
+        // Savings still held, net of exits and guarantee recoveries
+        getMemberSavingsBalance(targetUserId),
+
         // Current active loan
         Loan.getUserCurrentLoan(targetUserId),
 
@@ -224,7 +247,7 @@ export const GET = withErrorHandling(
         currentLoan: currentLoan || undefined,
         loanHistory: loanHistory || [],
         contributionHistory: contributionHistory || [],
-        savingsBalance: savingsResult.totalSavings || 0, // Same as total savings for now
+        savingsBalance,
       };
 
       return NextResponse.json({
@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import DividendDistribution from '@/models/DividendDistribution';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { previewDividendDistribution, postDividendDistribution } from '@/lib/dividends';
+
+// GET /api/dividends/distributions - Get posted dividend distributions (Admin only)
+export const GET = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    await connectToDatabase();
+
+    const distributions = await DividendDistribution.find()
+      .populate('postedBy', 'name')
+      .sort({ year: -1 })
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      data: distributions,
+    });
+  })
+);
+
+// POST /api/dividends/distributions - Post a year's dividends as member credits (Admin only)
+export const POST = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const { year, reservePercentage, notes } = await request.json();
+
+    const distributionYear = parseInt(year);
+    const reserve = parseFloat(reservePercentage);
+
+    if (isNaN(distributionYear) || distributionYear < 2020) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid year' },
+        { status: 400 }
+      );
+    }
+
+    if (distributionYear >= new Date().getFullYear()) {
+      return NextResponse.json(
+        { success: false, message: 'Dividends can only be posted after the year has ended' },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(reserve) || reserve < 0 || reserve > 100) {
+      return NextResponse.json(
+        { success: false, message: 'Reserve percentage must be between 0 and 100' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const existing = await DividendDistribution.findOne({ year: distributionYear });
+    if (existing) {
+      return NextResponse.json(
+        { success: false, message: `Dividends for ${distributionYear} have already been distributed` },
+        { status: 409 }
+      );
+    }
+
+    const preview = await previewDividendDistribution(distributionYear, reserve);
+
+    if (preview.distributableAmount <= 0 || preview.shares.length === 0) {
+      return NextResponse.json(
+        { success: false, message: `There is no income or paid savings to distribute for ${distributionYear}` },
+        { status: 400 }
+      );
+    }
+
+    const distribution = await postDividendDistribution(
+      preview,
+      request.user.userId,
+      notes?.trim() || undefined
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: `Distributed ${preview.distributableAmount} to ${preview.shares.length} members`,
+      data: {
+        distribution,
+        shares: preview.shares,
+      },
+    }, { status: 201 });
+  })
+);
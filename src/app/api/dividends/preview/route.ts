@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import DividendDistribution from '@/models/DividendDistribution';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { previewDividendDistribution } from '@/lib/dividends';
+import { COMMUNITY_CONFIG } from '@/config/community';
+
+// GET /api/dividends/preview - Preview a year's dividend split without posting it (Admin only)
+export const GET = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const { searchParams } = new URL(request.url);
+    const year = parseInt(searchParams.get('year') || String(new Date().getFullYear() - 1));
+    const reserveParam = searchParams.get('reservePercentage');
+    const reservePercentage = reserveParam !== null
+      ? parseFloat(reserveParam)
+      : COMMUNITY_CONFIG.DIVIDEND_RULES.DEFAULT_RESERVE_PERCENTAGE;
+
+    if (isNaN(year) || year < 2020 || year > new Date().getFullYear()) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid year' },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(reservePercentage) || reservePercentage < 0 || reservePercentage > 100) {
+      return NextResponse.json(
+        { success: false, message: 'Reserve percentage must be between 0 and 100' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const [preview, existing] = await Promise.all([
+      previewDividendDistribution(year, reservePercentage),
+      DividendDistribution.findOne({ year }).lean(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...preview,
+        alreadyDistributed: !!existing,
+      },
+    });
+  })
+);
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectToDatabase from '@/lib/mongodb';
+import Dividend from '@/models/Dividend';
+import { withAuth, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+
+// GET /api/dividends - Get dividend credits (members see only their own)
+export const GET = withErrorHandling(
+  withAuth(async (request: AuthenticatedRequest) => {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    const year = searchParams.get('year');
+
+    await connectToDatabase();
+
+    const query: any = {};
+
+    if (request.user.role === 'member') {
+      query.userId = new mongoose.Types.ObjectId(request.user.userId);
+    } else if (userId) {
+      query.userId = new mongoose.Types.ObjectId(userId);
+    }
+
+    if (year) {
+      query.year = parseInt(year);
+    }
+
+    const dividends = await Dividend.find(query)
+      .populate('userId', 'name memberId')
+      .populate('distributionId', 'totalIncome reservePercentage distributedAmount postedDate')
+      .sort({ year: -1, amount: -1 })
+      .lean();
+
+    const totalDividends = dividends.reduce((sum, dividend) => sum + dividend.amount, 0);
+
+    return NextResponse.json({
+      success: true,
+      data: dividends,
+      totalDividends: Math.round(totalDividends * 100) / 100,
+    });
+  })
+);
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectToDatabase from '@/lib/mongodb';
+import Loan from '@/models/Loan';
+import GuaranteeRecovery from '@/models/GuaranteeRecovery';
+import { withAuth, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { getGuaranteeCapacity } from '@/lib/guarantees';
+
+// GET /api/guarantees - Loans a member guarantees, their remaining guarantee capacity and recoveries taken from their savings
+export const GET = withErrorHandling(
+  withAuth(async (request: AuthenticatedRequest) => {
+    const { searchParams } = new URL(request.url);
+
+    // Members see their own guarantees, admins can look up any member
+    const userId = request.user.role === 'admin' && searchParams.get('userId')
+      ? searchParams.get('userId')!
+      : request.user.userId;
+
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid user ID' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const [loans, capacity, recoveries] = await Promise.all([
+      Loan.find({ 'guarantors.userId': new mongoose.Types.ObjectId(userId) })
+        .select('userId requestedAmount approvedAmount purpose status requestDate remainingBalance guarantors')
+        .populate('userId', 'name memberId')
+        .sort({ requestDate: -1 })
+        .lean(),
+      getGuaranteeCapacity(userId),
+      GuaranteeRecovery.find({ userId })
+        .populate('borrowerId', 'name memberId')
+        .sort({ recoveryDate: -1 })
+        .lean(),
+    ]);
+
+    const guarantees = loans.map(({ guarantors, ...loan }) => ({
+      ...loan,
+      guarantee: (guarantors || []).find((guarantor) => guarantor.userId.toString() === userId),
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data: guarantees,
+      capacity,
+      recoveries,
+    });
+  })
+);
@@ -4,7 +4,12 @@ import User from '@/models/User';
 import Contribution from '@/models/Contribution';
 import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
 import mongoose from 'mongoose';
-import { COMMUNITY_CONFIG, getRequiredContributionStartDate } from '@/config/community';
+import { getContributionMonths } from '@/lib/contribution-status';
+import { syncContributionEntry } from '@/lib/ledger';
+import { getSettings } from '@/lib/settings';
+import { getContributionSchedule } from '@/lib/contribution-amounts';
+import { getClosedPeriodError } from '@/lib/period-close';
+import { nextSequenceNumber } from '@/lib/counters';
 
 // POST /api/historical-contributions - Create historical contributions (Admin only)
 export const POST = withErrorHandling(
@@ -12,7 +17,7 @@ export const POST = withErrorHandling(
     const {
       userId,
       months, // Array of month strings in YYYY-MM format
-      amount,
+      amount, // Optional; each month uses the scheduled amount when omitted
       paymentMethod,
       notes,
       markAsPaid = false // Whether to mark as paid immediately
@@ -25,9 +30,9 @@ export const POST = withErrorHandling(
       );
     }
 
-    if (!amount || amount < 0) {
+    if (amount !== undefined && amount !== null && (isNaN(Number(amount)) || Number(amount) <= 0)) {
       return NextResponse.json(
-        { success: false, message: 'Valid amount is required' },
+        { success: false, message: 'Amount must be positive' },
         { status: 400 }
       );
     }
@@ -43,6 +48,15 @@ export const POST = withErrorHandling(
       );
     }
 
+    const closedError = await getClosedPeriodError({ months });
+    if (closedError) {
+      return NextResponse.json(
+        { success: false, message: closedError },
+        { status: 409 }
+      );
+    }
+
+    const schedule = await getContributionSchedule();
     const contributionsToCreate = [];
     const existingContributions = [];
     const errors = [];
@@ -68,15 +82,20 @@ export const POST = withErrorHandling(
         }
 
         const [year] = month.split('-');
+        const paidDate = markAsPaid ? new Date() : undefined;
 
         contributionsToCreate.push({
           userId: userId,
-          amount: amount,
+          amount: amount ? Number(amount) : schedule.amountFor(month, userId),
           month: month,
           year: parseInt(year),
           paidStatus: markAsPaid ? 'paid' : 'pending',
-          paidDate: markAsPaid ? new Date() : undefined,
+          paidDate,
           paymentMethod: markAsPaid ? paymentMethod : undefined,
+          // insertMany skips the save hooks, so paid contributions are numbered here
+          receiptNumber: paidDate
+            ? await nextSequenceNumber('contribution-receipt', { date: paidDate })
+            : undefined,
           notes: notes?.trim(),
           recordedBy: markAsPaid ? new mongoose.Types.ObjectId(request.user.userId) : undefined
         });
@@ -91,8 +110,9 @@ export const POST = withErrorHandling(
       try {
         createdContributions = await Contribution.insertMany(contributionsToCreate);
 
-        // Populate user details for response
+        // Post paid contributions to the ledger, then populate user details for response
         for (let contribution of createdContributions) {
+          await syncContributionEntry(contribution, { postedBy: request.user.userId });
           await contribution.populate('userId', 'name email memberId');
           if (contribution.recordedBy) {
             await contribution.populate('recordedBy', 'name');
@@ -134,7 +154,7 @@ export const GET = withErrorHandling(
     await connectToDatabase();
 
     // Verify user exists
-    const user = await User.findById(userId).select('name email memberId joinDate');
+    const user = await User.findById(userId).select('name email memberId joinDate membershipPeriods');
     if (!user) {
       return NextResponse.json(
         { success: false, message: 'User not found' },
@@ -143,58 +163,26 @@ export const GET = withErrorHandling(
     }
 
     // Get all contributions for this user
-    const existingContributions = await Contribution.find({ userId })
-      .sort({ month: -1 })
-      .populate('recordedBy', 'name');
-
-    // Generate required months (from community opening date or join date, whichever is later)
-    const joinDate = new Date(user.joinDate);
-    const now = new Date();
-    // For end-of-month policy: exclude current month since contributions are made at month end
-    const lastCompletedMonth = now.getFullYear() * 12 + now.getMonth() - 1; // Previous month
-    const requiredMonths = [];
-    const missingMonths = [];
-
-    // Start from community opening date or member join date (whichever is later)
-    const startDate = getRequiredContributionStartDate(user.joinDate);
-    startDate.setDate(1); // First day of month
-    startDate.setHours(0, 0, 0, 0); // Reset time to avoid timezone issues
-
-    // Generate all months from start date to last completed month (excluding current month)
-    const tempDate = new Date(startDate);
-
-    while (true) {
-      const tempMonth = tempDate.getFullYear() * 12 + tempDate.getMonth();
-
-      // Break if we've passed the last completed month (current month - 1)
-      if (tempMonth > lastCompletedMonth) {
-        break;
-      }
-
-      const monthStr = tempDate.toISOString().slice(0, 7); // YYYY-MM
-      requiredMonths.push({
-        month: monthStr,
-        year: tempDate.getFullYear(),
-        monthName: tempDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
-      });
-
-      // Check if this month exists in contributions
-      const existingContribution = existingContributions.find(c => c.month === monthStr);
-      if (!existingContribution) {
-        missingMonths.push({
-          month: monthStr,
-          year: tempDate.getFullYear(),
-          monthName: tempDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
-        });
-      }
-
-      // Move to next month
-      tempDate.setMonth(tempDate.getMonth() + 1);
-    }
-
-    // Calculate totals
-    const totalRequired = requiredMonths.length * COMMUNITY_CONFIG.DEFAULT_CONTRIBUTION_AMOUNT;
-    const totalMissing = missingMonths.length * COMMUNITY_CONFIG.DEFAULT_CONTRIBUTION_AMOUNT;
+    const [existingContributions, settings, schedule] = await Promise.all([
+      Contribution.find({ userId })
+        .sort({ month: -1 })
+        .populate('recordedBy', 'name'),
+      getSettings(),
+      getContributionSchedule(),
+    ]);
+
+    // Required months run up to the last completed month, since contributions are made at month end
+    const { requiredMonths, missingMonths } = getContributionMonths(
+      user,
+      existingContributions.map(c => c.month),
+      settings.openingDate,
+      new Date(),
+      settings.contributionCalendar
+    );
+
+    // Calculate totals at the amount scheduled for each month
+    const totalRequired = schedule.totalFor(requiredMonths.map(m => m.month), userId);
+    const totalMissing = schedule.totalFor(missingMonths.map(m => m.month), userId);
     const totalPaid = existingContributions
       .filter(c => c.paidStatus === 'paid')
       .reduce((sum, c) => sum + c.amount, 0);
@@ -227,7 +215,7 @@ export const GET = withErrorHandling(
           pendingMonthsCount: existingContributions.filter(c => c.paidStatus === 'pending').length
         },
         requiredMonths,
-        missingMonths,
+        missingMonths: missingMonths.map(m => ({ ...m, amount: schedule.amountFor(m.month, userId) })),
         existingContributions
       }
     });
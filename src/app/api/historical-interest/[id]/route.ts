@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { withAuth, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
 import connectDB from '@/lib/mongodb';
 import HistoricalInterest from '@/models/HistoricalInterest';
+import { reverseSourceEntry, syncHistoricalInterestEntry } from '@/lib/ledger';
+import { getClosedPeriodError } from '@/lib/period-close';
 import { IHistoricalInterestEdit } from '@/types';
 
 // GET /api/historical-interest/[id] - Get specific historical interest record
@@ -99,6 +101,17 @@ const putHandler = withAuth(async (request: AuthenticatedRequest) => {
             );
         }
 
+        // Both the date it had and the date it is moving to must be open
+        const closedError = await getClosedPeriodError({
+            dates: [existingRecord.interestDate, data.interestDate],
+        });
+        if (closedError) {
+            return NextResponse.json(
+                { success: false, error: closedError },
+                { status: 409 }
+            );
+        }
+
         // Prepare update object
         const updateData: any = {};
 
@@ -135,9 +148,7 @@ const putHandler = withAuth(async (request: AuthenticatedRequest) => {
             id,
             updateData,
             { new: true, runValidators: true }
-        )
-            .populate('recordedBy', 'name')
-            .populate('userId', 'name memberId');
+        );
 
         if (!updatedRecord) {
             return NextResponse.json(
@@ -146,6 +157,11 @@ const putHandler = withAuth(async (request: AuthenticatedRequest) => {
             );
         }
 
+        // Reverse and repost the ledger entry if the amount, date or source changed
+        await syncHistoricalInterestEntry(updatedRecord, { postedBy: request.user.userId });
+        await updatedRecord.populate('recordedBy', 'name');
+        await updatedRecord.populate('userId', 'name memberId');
+
         return NextResponse.json({
             success: true,
             data: updatedRecord,
@@ -178,6 +194,23 @@ const deleteHandler = withAuth(async (request: AuthenticatedRequest) => {
         const pathname = request.nextUrl.pathname;
         const id = pathname.split('/').pop();
 
+        const record = await HistoricalInterest.findById(id);
+
+        if (!record) {
+            return NextResponse.json(
+                { success: false, error: 'Historical interest record not found' },
+                { status: 404 }
+            );
+        }
+
+        const closedError = await getClosedPeriodError({ dates: [record.interestDate] });
+        if (closedError) {
+            return NextResponse.json(
+                { success: false, error: closedError },
+                { status: 409 }
+            );
+        }
+
         const deletedRecord = await HistoricalInterest.findByIdAndDelete(id);
 
         if (!deletedRecord) {
@@ -187,6 +220,8 @@ const deleteHandler = withAuth(async (request: AuthenticatedRequest) => {
             );
         }
 
+        await reverseSourceEntry('historical_interest', deletedRecord._id, { postedBy: request.user.userId });
+
         return NextResponse.json({
             success: true,
             message: 'Historical interest record deleted successfully',
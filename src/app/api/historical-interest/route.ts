@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { withAuth, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
 import connectDB from '@/lib/mongodb';
 import HistoricalInterest from '@/models/HistoricalInterest';
+import { syncHistoricalInterestEntry } from '@/lib/ledger';
+import { getClosedPeriodError } from '@/lib/period-close';
 import { IHistoricalInterestCreate } from '@/types';
 
 // GET /api/historical-interest - Get historical interest records with optional filtering
@@ -171,6 +173,14 @@ const postHandler = withAuth(async (request: AuthenticatedRequest) => {
             );
         }
 
+        const closedError = await getClosedPeriodError({ dates: [interestDate] });
+        if (closedError) {
+            return NextResponse.json(
+                { success: false, error: closedError },
+                { status: 409 }
+            );
+        }
+
         // Create new historical interest record
         const newRecord = await HistoricalInterest.create({
             amount: data.amount,
@@ -183,6 +193,8 @@ const postHandler = withAuth(async (request: AuthenticatedRequest) => {
             recordedBy: request.user.userId,
         });
 
+        await syncHistoricalInterestEntry(newRecord, { postedBy: request.user.userId });
+
         // Populate recordedBy and userId for response
         await newRecord.populate('recordedBy', 'name');
         await newRecord.populate('userId', 'name memberId');
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { withAuth, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
 import connectDB from '@/lib/mongodb';
 import HistoricalInterest from '@/models/HistoricalInterest';
+import { formatFiscalYear, getFiscalYearOfDate, getFiscalYearRange } from '@/lib/periods';
 
 // GET /api/historical-interest/summary - Get summary statistics for historical interest
 const getHandler = withAuth(async (request: AuthenticatedRequest) => {
@@ -18,6 +19,7 @@ const getHandler = withAuth(async (request: AuthenticatedRequest) => {
 
         const { searchParams } = new URL(request.url);
         const year = searchParams.get('year');
+        const fiscalYear = searchParams.get('fiscalYear');
 
         // Get total historical interest
         const totalHistoricalInterest = await HistoricalInterest.getTotalHistoricalInterest();
@@ -28,6 +30,12 @@ const getHandler = withAuth(async (request: AuthenticatedRequest) => {
             yearlyData = await HistoricalInterest.getHistoricalInterestByYear(parseInt(year));
         }
 
+        // Get BS month breakdown if a Nepali fiscal year is specified
+        let fiscalYearData = null;
+        if (fiscalYear) {
+            fiscalYearData = await HistoricalInterest.getHistoricalInterestByFiscalYear(parseInt(fiscalYear));
+        }
+
         // Get summary by source
         const summaryBySource = await HistoricalInterest.aggregate([
             {
@@ -64,11 +72,57 @@ const getHandler = withAuth(async (request: AuthenticatedRequest) => {
             },
         ]);
 
+        // Get Nepali fiscal year totals for chart, from the first record's year to the last's
+        const [dateRange] = await HistoricalInterest.aggregate([
+            {
+                $group: {
+                    _id: null,
+                    first: { $min: '$interestDate' },
+                    last: { $max: '$interestDate' },
+                },
+            },
+        ]);
+
+        let fiscalYearTotals: { fiscalYear: number; label: string; totalAmount: number; count: number }[] = [];
+        if (dateRange) {
+            const firstYear = getFiscalYearOfDate(new Date(dateRange.first));
+            const lastYear = getFiscalYearOfDate(new Date(dateRange.last));
+            const fiscalYears = Array.from({ length: lastYear - firstYear + 1 }, (_, i) => firstYear + i);
+            const boundaries = [
+                ...fiscalYears.map((fy) => getFiscalYearRange(fy).start),
+                getFiscalYearRange(lastYear + 1).start,
+            ];
+
+            const buckets = await HistoricalInterest.aggregate([
+                {
+                    $bucket: {
+                        groupBy: '$interestDate',
+                        boundaries,
+                        output: {
+                            totalAmount: { $sum: '$amount' },
+                            count: { $sum: 1 },
+                        },
+                    },
+                },
+            ]);
+
+            fiscalYearTotals = fiscalYears.map((fy, i) => {
+                const bucket = buckets.find((b) => new Date(b._id).getTime() === boundaries[i].getTime());
+                return {
+                    fiscalYear: fy,
+                    label: formatFiscalYear(fy),
+                    totalAmount: bucket ? bucket.totalAmount : 0,
+                    count: bucket ? bucket.count : 0,
+                };
+            });
+        }
+
         return NextResponse.json({
             success: true,
             data: {
                 totalHistoricalInterest,
                 yearlyData,
+                fiscalYearData,
                 summaryBySource,
                 recentRecords,
                 yearlyTotals: yearlyTotals.map(y => ({
@@ -76,6 +130,7 @@ const getHandler = withAuth(async (request: AuthenticatedRequest) => {
                     totalAmount: y.totalAmount,
                     count: y.count,
                 })),
+                fiscalYearTotals,
             },
         });
 
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectToDatabase from '@/lib/mongodb';
+import ScheduledJob from '@/models/ScheduledJob';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { ensureScheduledJobs } from '@/lib/job-scheduler';
+import { JobName } from '@/types';
+
+// PUT /api/jobs/[name] - Enable, disable or reschedule a job (Admin only)
+export const PUT = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const segments = request.nextUrl.pathname.split('/');
+    const jobName = segments[segments.length - 1] as JobName;
+
+    const { enabled, dayOfMonth, hour } = await request.json();
+
+    await connectToDatabase();
+    await ensureScheduledJobs();
+
+    const job = await ScheduledJob.findOne({ name: jobName });
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, message: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    if (enabled !== undefined) {
+      job.enabled = !!enabled;
+    }
+    if (dayOfMonth !== undefined && job.frequency === 'monthly') {
+      job.dayOfMonth = Number(dayOfMonth);
+    }
+    if (hour !== undefined) {
+      job.hour = Number(hour);
+    }
+    job.updatedBy = new mongoose.Types.ObjectId(request.user.userId);
+
+    const updatedJob = await job.save();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Job schedule updated successfully',
+      data: updatedJob,
+    });
+  })
+);
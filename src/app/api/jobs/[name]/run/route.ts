@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { runJobNow } from '@/lib/job-scheduler';
+import { JOB_DEFINITIONS } from '@/lib/jobs';
+import { JobName } from '@/types';
+
+// POST /api/jobs/[name]/run - Run a job now, outside its schedule (Admin only)
+export const POST = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const segments = request.nextUrl.pathname.split('/');
+    const jobName = segments[segments.length - 2] as JobName;
+
+    if (!JOB_DEFINITIONS[jobName]) {
+      return NextResponse.json(
+        { success: false, message: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const run = await runJobNow(jobName, request.user.userId);
+
+    if (run.status === 'failed') {
+      return NextResponse.json(
+        { success: false, message: `${JOB_DEFINITIONS[jobName].label} failed: ${run.error}`, data: run },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `${JOB_DEFINITIONS[jobName].label} finished`,
+      data: run,
+    });
+  })
+);
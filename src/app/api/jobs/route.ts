@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import JobRun from '@/models/JobRun';
+import { withAdmin, withErrorHandling } from '@/middleware/auth';
+import { getJobOverview } from '@/lib/job-scheduler';
+
+// GET /api/jobs - Scheduled jobs with their next run, and the latest runs (Admin only)
+export const GET = withErrorHandling(
+  withAdmin(async () => {
+    await connectToDatabase();
+
+    const [jobs, runs] = await Promise.all([
+      getJobOverview(),
+      JobRun.find()
+        .populate('triggeredBy', 'name')
+        .sort({ startedAt: -1 })
+        .limit(50)
+        .lean(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: { jobs, runs },
+    });
+  })
+);
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import { withErrorHandling } from '@/middleware/auth';
+import { runDueJobs } from '@/lib/job-scheduler';
+
+// POST /api/jobs/tick - Run due jobs, for deployments that schedule with an external cron
+// Authorised with "Authorization: Bearer <CRON_SECRET>" rather than a user session
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { success: false, message: 'Invalid cron secret' },
+      { status: 401 }
+    );
+  }
+
+  await connectToDatabase();
+
+  const runs = await runDueJobs();
+
+  return NextResponse.json({
+    success: true,
+    message: `Ran ${runs.length} due job${runs.length === 1 ? '' : 's'}`,
+    data: runs.map((run) => ({ jobName: run.jobName, runKey: run.runKey, status: run.status, result: run.result, error: run.error })),
+  });
+});
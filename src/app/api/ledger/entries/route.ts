@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectToDatabase from '@/lib/mongodb';
+import JournalEntry from '@/models/JournalEntry';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+
+// GET /api/ledger/entries - List journal entries (Admin only)
+export const GET = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const { searchParams } = new URL(request.url);
+
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200);
+    const account = searchParams.get('account');
+    const sourceType = searchParams.get('sourceType');
+    const userId = searchParams.get('userId');
+    const loanId = searchParams.get('loanId');
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+
+    await connectToDatabase();
+
+    // Build query
+    const query: any = {};
+
+    if (account) {
+      query['lines.account'] = account;
+    }
+
+    if (sourceType) {
+      query.sourceType = sourceType;
+    }
+
+    if (userId) {
+      query.userId = new mongoose.Types.ObjectId(userId);
+    }
+
+    if (loanId) {
+      query.loanId = new mongoose.Types.ObjectId(loanId);
+    }
+
+    if (startDate || endDate) {
+      query.entryDate = {};
+      if (startDate) query.entryDate.$gte = new Date(startDate);
+      if (endDate) query.entryDate.$lte = new Date(endDate);
+    }
+
+    const [total, entries] = await Promise.all([
+      JournalEntry.countDocuments(query),
+      JournalEntry.find(query)
+        .populate('userId', 'name memberId')
+        .populate('postedBy', 'name')
+        .sort({ entryDate: -1, createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return NextResponse.json({
+      success: true,
+      data: entries,
+      pagination: {
+        current: page,
+        total,
+        pages: totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  })
+);
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { getTrialBalance } from '@/lib/ledger';
+
+// GET /api/ledger/trial-balance - Debit and credit totals per account (Admin only)
+export const GET = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const { searchParams } = new URL(request.url);
+    const asOfParam = searchParams.get('asOf');
+    const asOf = asOfParam ? new Date(`${asOfParam}T23:59:59.999`) : new Date();
+
+    if (isNaN(asOf.getTime())) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid as-of date' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const trialBalance = await getTrialBalance(asOf);
+
+    return NextResponse.json({
+      success: true,
+      data: trialBalance,
+    });
+  })
+);
@@ -0,0 +1,120 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import LoanProduct from '@/models/LoanProduct';
+import Loan from '@/models/Loan';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { validateLoanProduct } from '@/lib/loan-products';
+
+// PUT /api/loan-products/[id] - Update or deactivate a loan product (Admin only)
+// Existing loans keep the terms they were requested on
+export const PUT = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const segments = request.nextUrl.pathname.split('/');
+    const productId = segments[segments.length - 1];
+
+    const updates = await request.json();
+
+    await connectToDatabase();
+
+    const product = await LoanProduct.findById(productId);
+
+    if (!product) {
+      return NextResponse.json(
+        { success: false, message: 'Loan product not found' },
+        { status: 404 }
+      );
+    }
+
+    const validationError = validateLoanProduct({
+      ...updates,
+      minAmount: updates.minAmount ?? product.minAmount,
+      maxAmount: updates.maxAmount ?? product.maxAmount,
+    });
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, message: validationError },
+        { status: 400 }
+      );
+    }
+
+    if (updates.name !== undefined && updates.name.trim().toLowerCase() !== product.name.toLowerCase()) {
+      const existing = await LoanProduct.findOne({ name: updates.name.trim(), _id: { $ne: product._id } })
+        .collation({ locale: 'en', strength: 2 });
+      if (existing) {
+        return NextResponse.json(
+          { success: false, message: `A product named ${existing.name} already exists` },
+          { status: 409 }
+        );
+      }
+      product.name = updates.name.trim();
+    }
+
+    if (updates.description !== undefined) {
+      product.description = updates.description?.trim() || undefined;
+    }
+    if (updates.interestRate !== undefined) {
+      product.interestRate = Number(updates.interestRate);
+    }
+    if (updates.minAmount !== undefined) {
+      product.minAmount = Number(updates.minAmount);
+    }
+    if (updates.maxAmount !== undefined) {
+      product.maxAmount = Number(updates.maxAmount);
+    }
+    if (updates.maxTermMonths !== undefined) {
+      product.maxTermMonths = Number(updates.maxTermMonths);
+    }
+    if (updates.interestMethod !== undefined) {
+      product.interestMethod = updates.interestMethod;
+    }
+    if (updates.requiresGuarantor !== undefined) {
+      product.requiresGuarantor = !!updates.requiresGuarantor;
+    }
+    if (updates.isActive !== undefined) {
+      product.isActive = !!updates.isActive;
+    }
+
+    const updatedProduct = await product.save();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Loan product updated successfully',
+      data: updatedProduct,
+    });
+  })
+);
+
+// DELETE /api/loan-products/[id] - Delete a loan product no loan has used (Admin only)
+export const DELETE = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const segments = request.nextUrl.pathname.split('/');
+    const productId = segments[segments.length - 1];
+
+    await connectToDatabase();
+
+    const product = await LoanProduct.findById(productId);
+
+    if (!product) {
+      return NextResponse.json(
+        { success: false, message: 'Loan product not found' },
+        { status: 404 }
+      );
+    }
+
+    // Loans point back at their product, so used products are only deactivated
+    const loanCount = await Loan.countDocuments({ productId: product._id });
+    if (loanCount > 0) {
+      return NextResponse.json(
+        { success: false, message: `${loanCount} loan${loanCount === 1 ? ' uses' : 's use'} this product. Deactivate it instead.` },
+        { status: 400 }
+      );
+    }
+
+    await LoanProduct.findByIdAndDelete(product._id);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Loan product deleted successfully',
+    });
+  })
+);
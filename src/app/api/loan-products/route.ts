@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import LoanProduct from '@/models/LoanProduct';
+import { withAuth, withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { validateLoanProduct } from '@/lib/loan-products';
+
+// GET /api/loan-products - List loan products (members see active products only)
+export const GET = withErrorHandling(
+  withAuth(async (request: AuthenticatedRequest) => {
+    const { searchParams } = new URL(request.url);
+    const includeInactive = request.user.role === 'admin' && searchParams.get('includeInactive') === 'true';
+
+    await connectToDatabase();
+
+    const products = await LoanProduct.find(includeInactive ? {} : { isActive: true })
+      .populate('createdBy', 'name')
+      .sort({ isActive: -1, name: 1 })
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      data: products,
+    });
+  })
+);
+
+// POST /api/loan-products - Create a loan product (Admin only)
+export const POST = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const {
+      name,
+      description,
+      interestRate,
+      minAmount,
+      maxAmount,
+      maxTermMonths,
+      interestMethod,
+      requiresGuarantor,
+    } = await request.json();
+
+    if (!name || interestRate === undefined || !minAmount || !maxAmount || !maxTermMonths) {
+      return NextResponse.json(
+        { success: false, message: 'Name, interest rate, amount limits and maximum term are required' },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateLoanProduct({ name, interestRate, minAmount, maxAmount, maxTermMonths, interestMethod });
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, message: validationError },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const existing = await LoanProduct.findOne({ name: name.trim() })
+      .collation({ locale: 'en', strength: 2 });
+    if (existing) {
+      return NextResponse.json(
+        { success: false, message: `A product named ${existing.name} already exists` },
+        { status: 409 }
+      );
+    }
+
+    const product = await LoanProduct.create({
+      name: name.trim(),
+      description: description?.trim() || undefined,
+      interestRate: Number(interestRate),
+      minAmount: Number(minAmount),
+      maxAmount: Number(maxAmount),
+      maxTermMonths: Number(maxTermMonths),
+      interestMethod: interestMethod || 'emi',
+      requiresGuarantor: !!requiresGuarantor,
+      createdBy: request.user.userId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Loan product created successfully',
+      data: product,
+    }, { status: 201 });
+  })
+);
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import Loan from '@/models/Loan';
+import Repayment from '@/models/Repayment';
+import { withAuth, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { calculateLoanInterestAccrual } from '@/lib/loan-calculations';
+
+// GET /api/loans/[id]/accrual - Get reducing-balance interest accrual as of a date
+export const GET = withErrorHandling(
+  withAuth(async (request: AuthenticatedRequest) => {
+    const segments = request.nextUrl.pathname.split('/');
+    const loanId = segments[segments.length - 2]; // Get loan ID from path
+
+    const asOfParam = request.nextUrl.searchParams.get('asOf');
+    const asOfDate = asOfParam ? new Date(asOfParam) : new Date();
+
+    if (isNaN(asOfDate.getTime())) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid asOf date' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const loan = await Loan.findById(loanId);
+    if (!loan) {
+      return NextResponse.json(
+        { success: false, message: 'Loan not found' },
+        { status: 404 }
+      );
+    }
+
+    // Members can only view their own loan accruals
+    if (request.user.role === 'member' && loan.userId.toString() !== request.user.userId) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const repayments = await Repayment.find({ loanId }).sort({ paymentDate: 1 }).lean();
+    const accrual = calculateLoanInterestAccrual(loan, repayments as any[], asOfDate);
+
+    return NextResponse.json({
+      success: true,
+      data: accrual,
+    });
+  })
+);
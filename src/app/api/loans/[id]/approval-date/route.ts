@@ -3,6 +3,8 @@ import mongoose from 'mongoose';
 import connectToDatabase from '@/lib/mongodb';
 import Loan from '@/models/Loan';
 import { withAuth, withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { syncLoanDisbursementEntry } from '@/lib/ledger';
+import { getClosedPeriodError } from '@/lib/period-close';
 
 // PATCH /api/loans/[id]/approval-date - Update loan approval date (Admin only)
 export const PATCH = withErrorHandling(
@@ -48,10 +50,22 @@ export const PATCH = withErrorHandling(
       );
     }
 
+    // Moving the date out of a closed period changes that period's figures as much as moving it in
+    const closedError = await getClosedPeriodError({ dates: [loan.approvalDate, approvalDateObj] });
+    if (closedError) {
+      return NextResponse.json(
+        { success: false, message: closedError },
+        { status: 409 }
+      );
+    }
+
     // Update the approval date
     loan.approvalDate = approvalDateObj;
     await loan.save();
 
+    // Loans disbursed without a recorded disbursement date are booked on the approval date
+    await syncLoanDisbursementEntry(loan, { postedBy: request.user.userId });
+
     return NextResponse.json({
       success: true,
       message: 'Approval date updated successfully',
@@ -0,0 +1,165 @@
+import { NextResponse, after } from 'next/server';
+import mongoose from 'mongoose';
+import connectToDatabase from '@/lib/mongodb';
+import Loan from '@/models/Loan';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { syncLoanDisbursementEntry } from '@/lib/ledger';
+import { applyPendingAction, LOAN_ACTION_STATUS } from '@/lib/loan-approval';
+import { getGuarantorApprovalError } from '@/lib/guarantees';
+import { checkLoanEligibility, getEligibilityFailure } from '@/lib/loan-eligibility';
+import { notifyLoanStatusChange } from '@/lib/notifications';
+import { getClosedPeriodError } from '@/lib/period-close';
+
+// POST /api/loans/[id]/confirm - Confirm or decline a loan approval or disbursement awaiting a second admin (Admin only)
+export const POST = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const segments = request.nextUrl.pathname.split('/');
+    const loanId = segments[segments.length - 2];
+
+    const { decision } = await request.json();
+
+    if (!['confirm', 'decline'].includes(decision)) {
+      return NextResponse.json(
+        { success: false, message: 'Decision must be confirm or decline' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const loan = await Loan.findById(loanId);
+
+    if (!loan) {
+      return NextResponse.json(
+        { success: false, message: 'Loan not found' },
+        { status: 404 }
+      );
+    }
+
+    const pending = loan.pendingAction;
+
+    if (!pending) {
+      return NextResponse.json(
+        { success: false, message: 'This loan has nothing awaiting confirmation' },
+        { status: 400 }
+      );
+    }
+
+    // Either admin may withdraw or turn down the proposal
+    if (decision === 'decline') {
+      const declined = await Loan.updateOne(
+        { _id: loan._id, 'pendingAction.requestedDate': pending.requestedDate },
+        { $unset: { pendingAction: 1 } }
+      );
+
+      if (declined.matchedCount === 0) {
+        return NextResponse.json(
+          { success: false, message: 'This loan action was confirmed or declined by another admin' },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: `Loan ${pending.action} declined`,
+      });
+    }
+
+    if (pending.requestedBy.toString() === request.user.userId) {
+      return NextResponse.json(
+        { success: false, message: 'A different admin must confirm this loan action' },
+        { status: 403 }
+      );
+    }
+
+    if (loan.status !== LOAN_ACTION_STATUS[pending.action].from) {
+      return NextResponse.json(
+        { success: false, message: `Loan is ${loan.status} and can no longer be ${LOAN_ACTION_STATUS[pending.action].to}` },
+        { status: 400 }
+      );
+    }
+
+    const guarantorError = pending.action === 'approve' ? getGuarantorApprovalError(loan) : null;
+    if (guarantorError) {
+      return NextResponse.json(
+        { success: false, message: guarantorError },
+        { status: 400 }
+      );
+    }
+
+    if (pending.action === 'approve') {
+      const eligibility = await checkLoanEligibility(
+        loan.userId.toString(),
+        pending.approvedAmount || loan.approvedAmount || loan.requestedAmount,
+        { excludeLoanId: loan._id.toString(), product: loan.productTerms }
+      );
+
+      if (!eligibility.eligible) {
+        return NextResponse.json(
+          { success: false, message: getEligibilityFailure(eligibility), eligibility },
+          { status: 400 }
+        );
+      }
+    }
+
+    // The period may have been closed since the disbursement was proposed
+    const closedError = await getClosedPeriodError({ dates: [pending.disbursementDate] });
+    if (closedError) {
+      return NextResponse.json(
+        { success: false, message: closedError },
+        { status: 409 }
+      );
+    }
+
+    const session = await mongoose.startSession();
+    let alreadyDecided = false;
+
+    try {
+      await session.withTransaction(async () => {
+        // Claim the proposal first, so a second confirmation or a decline cannot act on it too
+        const claimed = await Loan.updateOne(
+          {
+            _id: loan._id,
+            status: LOAN_ACTION_STATUS[pending.action].from,
+            'pendingAction.requestedDate': pending.requestedDate,
+          },
+          { $unset: { pendingAction: 1 } },
+          { session }
+        );
+
+        if (claimed.matchedCount === 0) {
+          alreadyDecided = true;
+          throw new Error('Loan action was decided during confirmation');
+        }
+
+        applyPendingAction(loan, new mongoose.Types.ObjectId(request.user.userId));
+        await loan.save({ session });
+        await syncLoanDisbursementEntry(loan, { session, postedBy: request.user.userId });
+      });
+    } catch (error) {
+      if (!alreadyDecided) {
+        throw error;
+      }
+    } finally {
+      await session.endSession();
+    }
+
+    if (alreadyDecided) {
+      return NextResponse.json(
+        { success: false, message: 'This loan action was confirmed or declined by another admin' },
+        { status: 409 }
+      );
+    }
+
+    after(() => notifyLoanStatusChange(loan));
+
+    await loan.populate('userId', 'name email memberId');
+    await loan.populate('approvedBy', 'name');
+
+    return NextResponse.json({
+      success: true,
+      message: `Loan ${loan.status} with confirmation from a second admin`,
+      loan,
+    });
+  })
+);
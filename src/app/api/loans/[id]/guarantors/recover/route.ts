@@ -0,0 +1,136 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import Loan from '@/models/Loan';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { planGuaranteeRecovery, recoverFromGuarantors } from '@/lib/guarantees';
+import { getClosedPeriodError } from '@/lib/period-close';
+
+const parseRecoveryDate = (value?: string | null) => {
+  const recoveryDate = value ? new Date(value) : new Date();
+
+  if (isNaN(recoveryDate.getTime())) {
+    return { error: 'Invalid recovery date' };
+  }
+  if (recoveryDate > new Date()) {
+    return { error: 'Recovery date cannot be in the future' };
+  }
+  return { recoveryDate };
+};
+
+const loadRecoverableLoan = async (loanId: string) => {
+  const loan = await Loan.findById(loanId);
+
+  if (!loan) {
+    return { error: 'Loan not found', status: 404 };
+  }
+  if (loan.status !== 'disbursed') {
+    return { error: 'Can only recover disbursed loans', status: 400 };
+  }
+  if (!(loan.guarantors || []).some((guarantor) => guarantor.status === 'accepted')) {
+    return { error: 'This loan has no guarantors to recover from', status: 400 };
+  }
+  return { loan };
+};
+
+// GET /api/loans/[id]/guarantors/recover - Preview what can be recovered from the guarantors (Admin only)
+export const GET = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const segments = request.nextUrl.pathname.split('/');
+    const loanId = segments[segments.length - 3]; // Get loan ID from path
+
+    const { recoveryDate, error: dateError } = parseRecoveryDate(request.nextUrl.searchParams.get('recoveryDate'));
+    if (!recoveryDate) {
+      return NextResponse.json(
+        { success: false, message: dateError },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const { loan, error, status } = await loadRecoverableLoan(loanId);
+    if (!loan) {
+      return NextResponse.json(
+        { success: false, message: error },
+        { status }
+      );
+    }
+
+    const plan = await planGuaranteeRecovery(loan, recoveryDate);
+
+    return NextResponse.json({
+      success: true,
+      data: plan,
+    });
+  })
+);
+
+// POST /api/loans/[id]/guarantors/recover - Recover a defaulted loan from its guarantors' savings (Admin only)
+export const POST = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const segments = request.nextUrl.pathname.split('/');
+    const loanId = segments[segments.length - 3]; // Get loan ID from path
+
+    const { recoveryDate: recoveryDateParam, notes } = await request.json();
+
+    const { recoveryDate, error: dateError } = parseRecoveryDate(recoveryDateParam);
+    if (!recoveryDate) {
+      return NextResponse.json(
+        { success: false, message: dateError },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const { loan, error, status } = await loadRecoverableLoan(loanId);
+    if (!loan) {
+      return NextResponse.json(
+        { success: false, message: error },
+        { status }
+      );
+    }
+
+    if (loan.approvalDate && recoveryDate < new Date(loan.approvalDate)) {
+      return NextResponse.json(
+        { success: false, message: 'Recovery date cannot be before the loan approval date' },
+        { status: 400 }
+      );
+    }
+
+    // A back-dated recovery would change figures already reported
+    const closedError = await getClosedPeriodError({ dates: [recoveryDate] });
+    if (closedError) {
+      return NextResponse.json(
+        { success: false, message: closedError },
+        { status: 409 }
+      );
+    }
+
+    const plan = await planGuaranteeRecovery(loan, recoveryDate);
+
+    if (plan.recoveredAmount <= 0) {
+      return NextResponse.json(
+        { success: false, message: 'Nothing can be recovered: the loan is paid up or the guarantors have no savings left to cover it' },
+        { status: 400 }
+      );
+    }
+
+    const recovered = await recoverFromGuarantors(loan, plan, request.user.userId, notes);
+
+    if (!recovered) {
+      return NextResponse.json(
+        { success: false, message: 'Loan was updated by another request, please retry the recovery' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: plan.remainingPrincipal > 0
+        ? 'Partially recovered from guarantors'
+        : 'Loan fully recovered from guarantors',
+      data: plan,
+    }, { status: 201 });
+  })
+);
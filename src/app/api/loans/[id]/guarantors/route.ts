@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectToDatabase from '@/lib/mongodb';
+import Loan from '@/models/Loan';
+import { withAuth, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { getGuaranteeCapacity } from '@/lib/guarantees';
+
+// POST /api/loans/[id]/guarantors - Accept or decline a request to guarantee a loan (Guarantor only)
+export const POST = withErrorHandling(
+  withAuth(async (request: AuthenticatedRequest) => {
+    const segments = request.nextUrl.pathname.split('/');
+    const loanId = segments[segments.length - 2]; // Get loan ID from path
+
+    const { decision } = await request.json();
+
+    if (!['accept', 'decline'].includes(decision)) {
+      return NextResponse.json(
+        { success: false, message: 'Decision must be accept or decline' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const loan = await Loan.findById(loanId);
+    if (!loan) {
+      return NextResponse.json(
+        { success: false, message: 'Loan not found' },
+        { status: 404 }
+      );
+    }
+
+    const guarantor = (loan.guarantors || []).find(
+      (candidate) => candidate.userId.toString() === request.user.userId
+    );
+
+    if (!guarantor) {
+      return NextResponse.json(
+        { success: false, message: 'You are not a guarantor on this loan' },
+        { status: 403 }
+      );
+    }
+
+    if (loan.status !== 'pending' || guarantor.status !== 'pending') {
+      return NextResponse.json(
+        { success: false, message: 'This guarantee request has already been answered' },
+        { status: 400 }
+      );
+    }
+
+    // Savings may have changed since the request was made
+    if (decision === 'accept') {
+      const capacity = await getGuaranteeCapacity(request.user.userId, loanId);
+      if (guarantor.amount > capacity.available) {
+        return NextResponse.json(
+          { success: false, message: `You can guarantee at most NPR ${capacity.available.toLocaleString()} more with your current savings` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const result = await Loan.updateOne(
+      {
+        _id: loan._id,
+        status: 'pending',
+        guarantors: { $elemMatch: { userId: new mongoose.Types.ObjectId(request.user.userId), status: 'pending' } },
+      },
+      {
+        $set: {
+          'guarantors.$.status': decision === 'accept' ? 'accepted' : 'declined',
+          'guarantors.$.respondedDate': new Date(),
+        },
+      }
+    );
+
+    if (result.matchedCount === 0) {
+      return NextResponse.json(
+        { success: false, message: 'This guarantee request has already been answered' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: decision === 'accept' ? 'Guarantee accepted' : 'Guarantee declined',
+    });
+  })
+);
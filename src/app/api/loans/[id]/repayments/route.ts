@@ -1,9 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import mongoose from 'mongoose';
 import connectToDatabase from '@/lib/mongodb';
 import Loan from '@/models/Loan';
 import Repayment from '@/models/Repayment';
 import { withAuth, withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { syncRepaymentEntry } from '@/lib/ledger';
+import { notifyLoanStatusChange } from '@/lib/notifications';
+import { getClosedPeriodError } from '@/lib/period-close';
 
 // GET /api/loans/[id]/repayments - Get loan repayments
 export const GET = withErrorHandling(
@@ -112,6 +115,14 @@ export const POST = withErrorHandling(
       );
     }
 
+    const closedError = await getClosedPeriodError({ dates: [paymentDate || new Date()] });
+    if (closedError) {
+      return NextResponse.json(
+        { success: false, message: closedError },
+        { status: 409 }
+      );
+    }
+
     // Calculate payment breakdown based on type
     let finalPrincipalAmount = 0;
     let finalInterestAmount = 0;
@@ -154,6 +165,7 @@ export const POST = withErrorHandling(
     });
 
     const savedRepayment = await repayment.save();
+    await syncRepaymentEntry(savedRepayment, { postedBy: request.user.userId });
 
     // Update loan with new payment
     loan.amountPaid += finalPrincipalAmount; // Only principal counts towards amountPaid
@@ -170,6 +182,10 @@ export const POST = withErrorHandling(
 
     await loan.save();
 
+    if (loan.status === 'completed') {
+      after(() => notifyLoanStatusChange(loan));
+    }
+
     // Populate the saved repayment for response
     await savedRepayment.populate('recordedBy', 'name');
 
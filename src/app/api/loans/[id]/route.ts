@@ -1,9 +1,17 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import mongoose from 'mongoose';
 import connectToDatabase from '@/lib/mongodb';
 import Loan from '@/models/Loan';
 import { withAuth, withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
 import { addDynamicCalculationsToLoan } from '@/lib/loan-calculations';
+import { syncLoanDisbursementEntry } from '@/lib/ledger';
+import { recordSignoff, requiresSecondApproval } from '@/lib/loan-approval';
+import { getGuarantorApprovalError, withRemovedGuarantors } from '@/lib/guarantees';
+import { checkLoanEligibility, getEligibilityFailure } from '@/lib/loan-eligibility';
+import { getProductPlanError } from '@/lib/loan-products';
+import { matchRepaymentsToSchedule, summarizeSchedule, validateRepaymentPlan } from '@/lib/loan-schedule';
+import { notifyLoanStatusChange } from '@/lib/notifications';
+import { getClosedPeriodError } from '@/lib/period-close';
 
 // GET /api/loans/[id] - Get loan details
 export const GET = withErrorHandling(
@@ -16,6 +24,10 @@ export const GET = withErrorHandling(
     const loan = await Loan.findById(loanId)
       .populate('userId', 'name email memberId')
       .populate('approvedBy', 'name')
+      .populate('pendingAction.requestedBy', 'name')
+      .populate('approvalHistory.requestedBy', 'name')
+      .populate('approvalHistory.confirmedBy', 'name')
+      .populate('guarantors.userId', 'name memberId')
       .populate('repayments');
 
     if (!loan) {
@@ -25,8 +37,11 @@ export const GET = withErrorHandling(
       );
     }
 
-    // Members can only view their own loans
-    if (request.user.role === 'member' && loan.userId._id.toString() !== request.user.userId) {
+    // Members can only view their own loans and loans they guarantee
+    const isGuarantor = (loan.guarantors || []).some(
+      (guarantor) => (guarantor.userId as any)?._id.toString() === request.user.userId
+    );
+    if (request.user.role === 'member' && loan.userId._id.toString() !== request.user.userId && !isGuarantor) {
       return NextResponse.json(
         { success: false, message: 'Access denied' },
         { status: 403 }
@@ -34,7 +49,14 @@ export const GET = withErrorHandling(
     }
 
     // Apply dynamic calculations to the loan
-    const loanWithDynamicCalculations = addDynamicCalculationsToLoan(loan.toObject());
+    const loanWithDynamicCalculations = addDynamicCalculationsToLoan(withRemovedGuarantors(loan.toObject()));
+
+    // Match recorded repayments against the installment schedule
+    if (loan.schedule && loan.schedule.length > 0) {
+      const installments = matchRepaymentsToSchedule(loan.schedule, loanWithDynamicCalculations.repayments || []);
+      loanWithDynamicCalculations.schedule = installments;
+      loanWithDynamicCalculations.scheduleSummary = summarizeSchedule(installments);
+    }
 
     return NextResponse.json({
       success: true,
@@ -55,7 +77,8 @@ export const PUT = withErrorHandling(
       interestRate,
       status,
       rejectionReason,
-      disbursementDate
+      disbursementDate,
+      repaymentPlan
     } = updates;
 
     await connectToDatabase();
@@ -85,6 +108,46 @@ export const PUT = withErrorHandling(
       );
     }
 
+    // Only a rejection can overtake a transition that is waiting for a second admin
+    if (loan.pendingAction && status !== 'rejected') {
+      return NextResponse.json(
+        { success: false, message: `This loan has a pending ${loan.pendingAction.action} awaiting confirmation by a second admin` },
+        { status: 409 }
+      );
+    }
+
+    // Terms are set when the loan is approved. Changing them afterwards would get
+    // around the second admin's confirmation of the approved amount.
+    const termsChanged = approvedAmount !== undefined || interestRate !== undefined || repaymentPlan !== undefined;
+    if (termsChanged && loan.status !== 'pending') {
+      return NextResponse.json(
+        { success: false, message: `Loan terms cannot be changed once the loan is ${loan.status}` },
+        { status: 400 }
+      );
+    }
+
+    // A back-dated disbursement would change figures already reported
+    const closedError = await getClosedPeriodError({
+      dates: [status === 'disbursed' ? disbursementDate : undefined],
+    });
+    if (closedError) {
+      return NextResponse.json(
+        { success: false, message: closedError },
+        { status: 409 }
+      );
+    }
+
+    // Every guarantor has to accept before the loan can be approved
+    if (status === 'approved') {
+      const guarantorError = getGuarantorApprovalError(loan);
+      if (guarantorError) {
+        return NextResponse.json(
+          { success: false, message: guarantorError },
+          { status: 400 }
+        );
+      }
+    }
+
     // Update loan fields
     if (approvedAmount !== undefined) {
       if (approvedAmount > loan.requestedAmount) {
@@ -96,6 +159,22 @@ export const PUT = withErrorHandling(
       loan.approvedAmount = approvedAmount;
     }
 
+    // Eligibility may have changed since the loan was requested
+    if (status === 'approved') {
+      const eligibility = await checkLoanEligibility(
+        loan.userId.toString(),
+        loan.approvedAmount || loan.requestedAmount,
+        { excludeLoanId: loan._id.toString(), product: loan.productTerms }
+      );
+
+      if (!eligibility.eligible) {
+        return NextResponse.json(
+          { success: false, message: getEligibilityFailure(eligibility), eligibility },
+          { status: 400 }
+        );
+      }
+    }
+
     if (interestRate !== undefined) {
       if (interestRate < 0 || interestRate > 100) {
         return NextResponse.json(
@@ -106,12 +185,80 @@ export const PUT = withErrorHandling(
       loan.interestRate = interestRate;
     }
 
+    if (repaymentPlan !== undefined) {
+      if (loan.repayments.length > 0) {
+        return NextResponse.json(
+          { success: false, message: 'Repayment plan cannot be changed after repayments have been recorded' },
+          { status: 400 }
+        );
+      }
+
+      if (repaymentPlan === null) {
+        loan.repaymentPlan = undefined;
+        loan.schedule = undefined;
+      } else {
+        const planError = validateRepaymentPlan(repaymentPlan) || getProductPlanError(loan.productTerms, repaymentPlan);
+        if (planError) {
+          return NextResponse.json(
+            { success: false, message: planError },
+            { status: 400 }
+          );
+        }
+        loan.repaymentPlan = {
+          termMonths: Number(repaymentPlan.termMonths),
+          frequency: repaymentPlan.frequency,
+          method: repaymentPlan.method,
+        };
+      }
+    }
+
+    const adminId = new mongoose.Types.ObjectId(request.user.userId);
+    const action = status === 'approved' ? 'approve' : status === 'disbursed' ? 'disburse' : undefined;
+
+    // Large approvals and disbursements are held until a different admin confirms them
+    if (action && requiresSecondApproval(action, loan.approvedAmount || loan.requestedAmount)) {
+      const held = await Loan.updateOne(
+        { _id: loan._id, pendingAction: { $exists: false } },
+        {
+          $set: {
+            pendingAction: {
+              action,
+              requestedBy: adminId,
+              requestedDate: new Date(),
+              approvedAmount: loan.approvedAmount,
+              interestRate: loan.interestRate,
+              repaymentPlan: repaymentPlan ? loan.repaymentPlan : undefined,
+              disbursementDate: disbursementDate ? new Date(disbursementDate) : undefined,
+            },
+          },
+        }
+      );
+
+      // Another admin put a transition on hold since the loan was loaded
+      if (held.matchedCount === 0) {
+        return NextResponse.json(
+          { success: false, message: 'This loan already has a pending action awaiting confirmation by a second admin' },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          pendingConfirmation: true,
+          message: `Loan ${action === 'approve' ? 'approval' : 'disbursement'} recorded. A second admin must confirm it before it takes effect.`,
+        },
+        { status: 202 }
+      );
+    }
+
     if (status) {
       loan.status = status;
 
       // Set approvedBy when approving
-      if (status === 'approved' || status === 'disbursed') {
-        loan.approvedBy = new mongoose.Types.ObjectId(request.user.userId);
+      if (action) {
+        loan.approvedBy = adminId;
+        recordSignoff(loan, action, adminId, new Date());
       }
     }
 
@@ -119,11 +266,21 @@ export const PUT = withErrorHandling(
       loan.rejectionReason = rejectionReason.trim();
     }
 
+    if (status === 'rejected') {
+      loan.pendingAction = undefined;
+    }
+
     if (disbursementDate && status === 'disbursed') {
       loan.disbursementDate = new Date(disbursementDate);
     }
 
     const updatedLoan = await loan.save();
+    await syncLoanDisbursementEntry(updatedLoan, { postedBy: request.user.userId });
+
+    if (status) {
+      after(() => notifyLoanStatusChange(updatedLoan));
+    }
+
     await updatedLoan.populate('userId', 'name email memberId');
     await updatedLoan.populate('approvedBy', 'name');
 
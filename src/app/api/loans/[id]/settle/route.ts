@@ -0,0 +1,203 @@
+import { NextResponse, after } from 'next/server';
+import mongoose from 'mongoose';
+import connectToDatabase from '@/lib/mongodb';
+import Loan from '@/models/Loan';
+import Repayment from '@/models/Repayment';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { calculateLoanPayoff } from '@/lib/loan-calculations';
+import { syncRepaymentEntry } from '@/lib/ledger';
+import { notifyUser } from '@/lib/notifications';
+import { getClosedPeriodError } from '@/lib/period-close';
+
+type SettlementType = 'interest-only' | 'full';
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+// POST /api/loans/[id]/settle - Settle loan interest or the full loan in one transaction (Admin only)
+export const POST = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const segments = request.nextUrl.pathname.split('/');
+    const loanId = segments[segments.length - 2]; // Get loan ID from path
+
+    const { type, settlementDate, notes } = await request.json();
+
+    if (!type || !['interest-only', 'full'].includes(type)) {
+      return NextResponse.json(
+        { success: false, message: 'Settlement type must be interest-only or full' },
+        { status: 400 }
+      );
+    }
+
+    const settlementDateObj = settlementDate ? new Date(settlementDate) : new Date();
+
+    if (isNaN(settlementDateObj.getTime())) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid settlement date' },
+        { status: 400 }
+      );
+    }
+
+    if (settlementDateObj > new Date()) {
+      return NextResponse.json(
+        { success: false, message: 'Settlement date cannot be in the future' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const loan = await Loan.findById(loanId).populate('userId', 'name email memberId');
+    if (!loan) {
+      return NextResponse.json(
+        { success: false, message: 'Loan not found' },
+        { status: 404 }
+      );
+    }
+
+    if (loan.status !== 'disbursed') {
+      return NextResponse.json(
+        { success: false, message: 'Can only settle disbursed loans' },
+        { status: 400 }
+      );
+    }
+
+    if (loan.approvalDate && settlementDateObj < new Date(loan.approvalDate)) {
+      return NextResponse.json(
+        { success: false, message: 'Settlement date cannot be before the loan approval date' },
+        { status: 400 }
+      );
+    }
+
+    const closedError = await getClosedPeriodError({ dates: [settlementDateObj] });
+    if (closedError) {
+      return NextResponse.json(
+        { success: false, message: closedError },
+        { status: 409 }
+      );
+    }
+
+    // Compute amounts from the repayment ledger on the server
+    const repayments = await Repayment.find({ loanId: loan._id }).lean();
+    const { outstandingPrincipal, outstandingInterest, accrual } = calculateLoanPayoff(loan, repayments as any[], settlementDateObj);
+
+    const settlementType = type as SettlementType;
+    const interestAmount = outstandingInterest;
+    const principalAmount = settlementType === 'full' ? outstandingPrincipal : 0;
+    const totalAmount = roundCurrency(principalAmount + interestAmount);
+
+    if (totalAmount <= 0) {
+      return NextResponse.json(
+        { success: false, message: settlementType === 'full' ? 'Nothing is owed on this loan' : 'No interest is due for this period' },
+        { status: 400 }
+      );
+    }
+
+    const interestFromDate = accrual.lastInterestPaymentDate || accrual.startDate;
+    const periodText = `${interestFromDate.toISOString().split('T')[0]} to ${settlementDateObj.toISOString().split('T')[0]}`;
+    const settlementNotes = notes?.trim() || (settlementType === 'full'
+      ? `Full loan settlement with interest from ${periodText}`
+      : `Interest-only settlement from ${periodText}`);
+    const remainingPrincipal = roundCurrency(outstandingPrincipal - principalAmount);
+
+    const loanUpdate: Record<string, any> = {
+      $set: { lastInterestPaidDate: settlementDateObj },
+      $inc: { amountPaid: principalAmount },
+    };
+
+    if (settlementType === 'full') {
+      loanUpdate.$set.status = 'completed';
+      loanUpdate.$set.actualRepaymentDate = settlementDateObj;
+      loanUpdate.$set.totalAmountDue = roundCurrency(accrual.originalPrincipal + accrual.totalInterestAccrued);
+      loanUpdate.$set.remainingBalance = 0;
+    }
+
+    // Write the repayment and update the loan atomically
+    const session = await mongoose.startSession();
+    let savedRepayment: any = null;
+    let loanChanged = false;
+
+    try {
+      await session.withTransaction(async () => {
+        const [repayment] = await Repayment.create([{
+          loanId: loan._id,
+          userId: loan.userId._id,
+          amount: totalAmount,
+          paymentDate: settlementDateObj,
+          paymentMethod: 'settlement',
+          principalAmount,
+          interestAmount,
+          remainingBalance: remainingPrincipal,
+          recordedBy: new mongoose.Types.ObjectId(request.user.userId),
+          notes: settlementNotes,
+        }], { session });
+
+        // Guard against a concurrent repayment or settlement on the same loan
+        const result = await Loan.updateOne(
+          { _id: loan._id, status: 'disbursed', repayments: { $size: loan.repayments.length } },
+          { ...loanUpdate, $push: { repayments: repayment._id } },
+          { session }
+        );
+
+        if (result.matchedCount === 0) {
+          loanChanged = true;
+          throw new Error('Loan was modified during settlement');
+        }
+
+        await syncRepaymentEntry(repayment, { session, postedBy: request.user.userId });
+
+        savedRepayment = repayment;
+      });
+    } catch (error) {
+      if (!loanChanged) {
+        throw error;
+      }
+    } finally {
+      await session.endSession();
+    }
+
+    if (loanChanged || !savedRepayment) {
+      return NextResponse.json(
+        { success: false, message: 'Loan was updated by another request, please retry the settlement' },
+        { status: 409 }
+      );
+    }
+
+    const borrower = loan.userId as any;
+
+    if (settlementType === 'full') {
+      after(() => notifyUser(borrower._id.toString(), 'loan-status-changed', {
+        status: 'completed',
+        amount: accrual.originalPrincipal,
+      }));
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: settlementType === 'full' ? 'Loan fully settled' : 'Interest settled successfully',
+      statement: {
+        loanId: loan._id,
+        borrower: {
+          name: borrower.name,
+          memberId: borrower.memberId,
+        },
+        type: settlementType,
+        settlementDate: settlementDateObj,
+        receiptNumber: savedRepayment.receiptNumber,
+        interestPeriod: {
+          fromDate: interestFromDate,
+          toDate: settlementDateObj,
+        },
+        interestRate: loan.interestRate,
+        originalPrincipal: accrual.originalPrincipal,
+        outstandingPrincipalBefore: outstandingPrincipal,
+        principalPaid: principalAmount,
+        interestAccrued: roundCurrency(accrual.totalInterestAccrued),
+        interestPreviouslyPaid: roundCurrency(accrual.interestPaid),
+        interestPaid: interestAmount,
+        totalPaid: totalAmount,
+        outstandingPrincipalAfter: remainingPrincipal,
+        loanStatus: settlementType === 'full' ? 'completed' : loan.status,
+      },
+    }, { status: 201 });
+  })
+);
@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectToDatabase from '@/lib/mongodb';
+import Loan from '@/models/Loan';
+import LoanProduct from '@/models/LoanProduct';
+import { withAuth, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { checkLoanEligibility } from '@/lib/loan-eligibility';
+
+// GET /api/loans/eligibility - Eligibility checklist for a loan amount and optional product, or for an existing loan with ?loanId=
+export const GET = withErrorHandling(
+  withAuth(async (request: AuthenticatedRequest) => {
+    const { searchParams } = new URL(request.url);
+    const loanId = searchParams.get('loanId');
+
+    await connectToDatabase();
+
+    if (loanId) {
+      if (!mongoose.Types.ObjectId.isValid(loanId)) {
+        return NextResponse.json(
+          { success: false, message: 'Invalid loan ID' },
+          { status: 400 }
+        );
+      }
+
+      const loan = await Loan.findById(loanId).select('userId requestedAmount approvedAmount pendingAction productTerms').lean();
+      if (!loan) {
+        return NextResponse.json(
+          { success: false, message: 'Loan not found' },
+          { status: 404 }
+        );
+      }
+
+      // Members can only check their own loans
+      if (request.user.role === 'member' && loan.userId.toString() !== request.user.userId) {
+        return NextResponse.json(
+          { success: false, message: 'Access denied' },
+          { status: 403 }
+        );
+      }
+
+      const amount = loan.pendingAction?.approvedAmount || loan.approvedAmount || loan.requestedAmount;
+      const eligibility = await checkLoanEligibility(loan.userId.toString(), amount, {
+        excludeLoanId: loanId,
+        product: loan.productTerms,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: eligibility,
+      });
+    }
+
+    const amount = parseFloat(searchParams.get('amount') || '');
+    if (isNaN(amount) || amount <= 0) {
+      return NextResponse.json(
+        { success: false, message: 'A positive amount is required' },
+        { status: 400 }
+      );
+    }
+
+    // Members check themselves, admins can check any member
+    const userId = request.user.role === 'admin' && searchParams.get('userId')
+      ? searchParams.get('userId')!
+      : request.user.userId;
+
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid user ID' },
+        { status: 400 }
+      );
+    }
+
+    // Apply the product's amount limits when one has been picked
+    const productId = searchParams.get('productId');
+    const product = productId && mongoose.Types.ObjectId.isValid(productId)
+      ? await LoanProduct.findById(productId).select('name minAmount maxAmount').lean()
+      : null;
+
+    const eligibility = await checkLoanEligibility(userId, amount, { product: product || undefined });
+
+    return NextResponse.json({
+      success: true,
+      data: eligibility,
+    });
+  })
+);
@@ -2,10 +2,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import connectToDatabase from '@/lib/mongodb';
 import Loan from '@/models/Loan';
 import User from '@/models/User';
-import Contribution from '@/models/Contribution';
+import LoanProduct from '@/models/LoanProduct';
 import { withAuth, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
-import { LoanFilter, PaginatedResponse, ILoan } from '@/types';
+import { LoanFilter, PaginatedResponse, ILoan, ILoanProductTerms } from '@/types';
 import { addDynamicCalculationsToLoans } from '@/lib/loan-calculations';
+import { validateRepaymentPlan } from '@/lib/loan-schedule';
+import { buildLoanGuarantors, withRemovedGuarantors } from '@/lib/guarantees';
+import { checkLoanEligibility, getEligibilityFailure } from '@/lib/loan-eligibility';
+import { getProductPlanError, getProductTerms } from '@/lib/loan-products';
 
 // GET /api/loans - Get loans (filtered by user role)
 export const GET = withErrorHandling(
@@ -22,6 +26,7 @@ export const GET = withErrorHandling(
       fromDate: searchParams.get('fromDate') || undefined,
       toDate: searchParams.get('toDate') || undefined,
       search: searchParams.get('search') || undefined,
+      awaitingConfirmation: searchParams.get('awaitingConfirmation') === 'true',
     };
 
     await connectToDatabase();
@@ -41,6 +46,10 @@ export const GET = withErrorHandling(
       query.status = filters.status;
     }
 
+    if (filters.awaitingConfirmation) {
+      query.pendingAction = { $exists: true };
+    }
+
     if (filters.fromDate || filters.toDate) {
       query.requestDate = {};
       if (filters.fromDate) {
@@ -99,6 +108,8 @@ export const GET = withErrorHandling(
     const loans = await Loan.find(query)
       .populate('userId', 'name email memberId')
       .populate('approvedBy', 'name')
+      .populate('pendingAction.requestedBy', 'name')
+      .populate('guarantors.userId', 'name memberId')
       .populate('repayments')
       .sort(sortObj)
       .skip((filters.page! - 1) * filters.limit!)
@@ -106,7 +117,7 @@ export const GET = withErrorHandling(
       .lean();
 
     // Apply dynamic calculations to each loan
-    const loansWithDynamicCalculations = addDynamicCalculationsToLoans(loans);
+    const loansWithDynamicCalculations = addDynamicCalculationsToLoans(loans.map(withRemovedGuarantors));
 
     const response: PaginatedResponse<ILoan> = {
       data: loansWithDynamicCalculations as unknown as ILoan[],
@@ -134,29 +145,39 @@ export const POST = withErrorHandling(
       purpose,
       expectedRepaymentDate,
       collateral,
-      guarantor,
-      guarantorContact,
-      interestRate,
+      guarantors: guarantorRequests, // Optional [{ userId, amount? }] of members standing surety
+      interestRate, // Admins only, overrides the product rate
+      productId, // Loan product whose terms the loan is requested on
+      repaymentPlan, // Optional installment plan
       userId // Only for admin creating loans for other users
     } = await request.json();
 
     // Validation
-    if (!requestedAmount || !purpose || !expectedRepaymentDate) {
+    if (!requestedAmount || !purpose || (!expectedRepaymentDate && !repaymentPlan)) {
       return NextResponse.json(
         { success: false, message: 'Requested amount, purpose, and expected repayment date are required' },
         { status: 400 }
       );
     }
 
-    if (requestedAmount < 1000 || requestedAmount > 200000) {
-      return NextResponse.json(
-        { success: false, message: 'Loan amount must be between 1000 and 200000' },
-        { status: 400 }
-      );
+    if (repaymentPlan) {
+      const planError = validateRepaymentPlan(repaymentPlan);
+      if (planError) {
+        return NextResponse.json(
+          { success: false, message: planError },
+          { status: 400 }
+        );
+      }
     }
 
-    const repaymentDate = new Date(expectedRepaymentDate);
     const today = new Date();
+    let repaymentDate = new Date(expectedRepaymentDate);
+
+    // Without an explicit date, expect repayment at the end of the plan's term
+    if (!expectedRepaymentDate) {
+      repaymentDate = new Date(today);
+      repaymentDate.setMonth(repaymentDate.getMonth() + Number(repaymentPlan.termMonths));
+    }
 
     if (repaymentDate <= today) {
       return NextResponse.json(
@@ -183,25 +204,61 @@ export const POST = withErrorHandling(
       }
     }
 
-    // Check if user has an active loan
-    const existingActiveLoan = await Loan.findOne({
-      userId: targetUserId,
-      status: { $in: ['approved', 'disbursed'] }
-    });
+    // Members request loans under a product; its terms are copied onto the loan
+    let productTerms: ILoanProductTerms | undefined;
+
+    if (productId) {
+      const product = await LoanProduct.findById(productId);
+      if (!product || !product.isActive) {
+        return NextResponse.json(
+          { success: false, message: 'Loan product not found or inactive' },
+          { status: 400 }
+        );
+      }
+      productTerms = getProductTerms(product);
+    } else if (request.user.role !== 'admin' && await LoanProduct.exists({ isActive: true })) {
+      return NextResponse.json(
+        { success: false, message: 'Please choose a loan product' },
+        { status: 400 }
+      );
+    }
+
+    if (repaymentPlan) {
+      const productPlanError = getProductPlanError(productTerms, repaymentPlan);
+      if (productPlanError) {
+        return NextResponse.json(
+          { success: false, message: productPlanError },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (productTerms?.requiresGuarantor && !(guarantorRequests || []).length) {
+      return NextResponse.json(
+        { success: false, message: `${productTerms.name} loans need at least one guarantor` },
+        { status: 400 }
+      );
+    }
+
+    // Savings, contribution record, existing loans and group liquidity
+    const eligibility = await checkLoanEligibility(targetUserId, Number(requestedAmount), { product: productTerms });
 
-    if (existingActiveLoan) {
+    if (!eligibility.eligible) {
       return NextResponse.json(
-        { success: false, message: 'User already has an active loan' },
+        { success: false, message: getEligibilityFailure(eligibility), eligibility },
         { status: 400 }
       );
     }
 
-    // Check user's savings eligibility (should have some contribution history)
-    const userSavings = await Contribution.getUserTotalSavings(targetUserId);
+    const { guarantors, error: guarantorError } = await buildLoanGuarantors(
+      targetUserId,
+      guarantorRequests || [],
+      requestedAmount
+    );
 
-    if (userSavings.totalSavings === 0) {
+    if (guarantorError) {
       return NextResponse.json(
-        { success: false, message: 'User must have contribution history before requesting a loan' },
+        { success: false, message: guarantorError },
         { status: 400 }
       );
     }
@@ -210,13 +267,22 @@ export const POST = withErrorHandling(
     const newLoan = new Loan({
       userId: targetUserId,
       requestedAmount,
-      interestRate: interestRate || 16, // Default 16% if not specified
+      // Without an admin rate or a product, the schema applies the community rate from settings
+      interestRate: request.user.role === 'admin' && interestRate !== undefined && interestRate !== null
+        ? Number(interestRate)
+        : productTerms?.interestRate,
       requestDate: new Date(),
       expectedRepaymentDate: repaymentDate,
       purpose: purpose.trim(),
       collateral: collateral?.trim(),
-      guarantor: guarantor?.trim(),
-      guarantorContact: guarantorContact?.trim(),
+      guarantors: guarantors && guarantors.length > 0 ? guarantors : undefined,
+      productId: productTerms ? productId : undefined,
+      productTerms,
+      repaymentPlan: repaymentPlan ? {
+        termMonths: Number(repaymentPlan.termMonths),
+        frequency: repaymentPlan.frequency,
+        method: repaymentPlan.method,
+      } : undefined,
       status: 'pending',
       totalAmountDue: 0, // Will be calculated by pre-save middleware
       amountPaid: 0,
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectToDatabase from '@/lib/mongodb';
+import Notification from '@/models/Notification';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+
+// GET /api/notifications - Browse the email and SMS delivery log (Admin only)
+export const GET = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const { searchParams } = new URL(request.url);
+
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '25'), 100);
+    const userId = searchParams.get('userId');
+    const status = searchParams.get('status');
+    const channel = searchParams.get('channel');
+    const event = searchParams.get('event');
+
+    await connectToDatabase();
+
+    // Build query
+    const query: any = {};
+
+    if (userId) {
+      query.userId = new mongoose.Types.ObjectId(userId);
+    }
+
+    if (status) {
+      query.status = status;
+    }
+
+    if (channel) {
+      query.channel = channel;
+    }
+
+    if (event) {
+      query.event = event;
+    }
+
+    const [total, notifications] = await Promise.all([
+      Notification.countDocuments(query),
+      Notification.find(query)
+        .populate('userId', 'name memberId')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return NextResponse.json({
+      success: true,
+      data: notifications,
+      pagination: {
+        current: page,
+        total,
+        pages: totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  })
+);
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import { withErrorHandling } from '@/middleware/auth';
+import { completeWalletPayment } from '@/lib/wallet-payments';
+import { notifyLoanStatusChange, notifyUser } from '@/lib/notifications';
+import { getAppUrl } from '@/lib/app-url';
+
+// Public: the member's browser arrives here from the wallet, so the payment is
+// trusted only after the provider's signature or lookup checks out
+async function handleCallback(request: NextRequest) {
+  const provider = request.nextUrl.pathname.split('/').pop() as string;
+  const params = new URLSearchParams(request.nextUrl.searchParams);
+
+  // Some wallets post the result instead of appending it to the URL
+  if (request.method === 'POST') {
+    const form = await request.formData().catch(() => null);
+    form?.forEach((value, key) => {
+      if (typeof value === 'string') {
+        params.set(key, value);
+      }
+    });
+  }
+
+  await connectToDatabase();
+
+  const result = await completeWalletPayment(provider, params);
+
+  if (result.paidContribution) {
+    const { userId, month, amount } = result.paidContribution;
+    after(() => notifyUser(userId.toString(), 'contribution-approved', { month, amount }));
+  }
+  if (result.completedLoan) {
+    const loan = result.completedLoan;
+    after(() => notifyLoanStatusChange(loan));
+  }
+
+  // "unposted" means the money arrived but an admin has to apply it
+  const outcome = result.error ? 'error' : result.payment!.postingError ? 'unposted' : result.payment!.status;
+
+  // The payment is settled either way; the member is only sent back to the configured site
+  const siteUrl = getAppUrl();
+  if (!siteUrl) {
+    return NextResponse.json({ success: !result.error, outcome });
+  }
+
+  const redirectUrl = new URL('/dashboard', siteUrl);
+  redirectUrl.searchParams.set('payment', outcome);
+  if (result.payment) {
+    redirectUrl.searchParams.set('purpose', result.payment.purpose);
+  }
+
+  return NextResponse.redirect(redirectUrl, 303);
+}
+
+// GET /api/payments/callback/[provider] - Return from a wallet checkout and settle the payment
+export const GET = withErrorHandling(handleCallback);
+
+// POST /api/payments/callback/[provider] - Same, for wallets that post their result
+export const POST = withErrorHandling(handleCallback);
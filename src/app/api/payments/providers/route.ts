@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { withAuth, withErrorHandling } from '@/middleware/auth';
+import { getWalletProviders } from '@/lib/wallet-providers';
+
+// GET /api/payments/providers - Wallets members can pay with
+export const GET = withErrorHandling(
+  withAuth(async () => {
+    return NextResponse.json({
+      success: true,
+      data: getWalletProviders().map((provider) => ({ name: provider.name, label: provider.label })),
+    });
+  })
+);
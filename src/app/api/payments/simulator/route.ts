@@ -0,0 +1,107 @@
+import { randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { withErrorHandling } from '@/middleware/auth';
+import {
+  getWalletProvider,
+  signSimulatorResult,
+  verifySimulatorCheckout,
+} from '@/lib/wallet-providers';
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+// Refuses unless the simulator is enabled and the checkout link is the one the app signed
+function checkoutError(params: URLSearchParams): NextResponse | null {
+  if (!getWalletProvider('simulator')) {
+    return NextResponse.json(
+      { success: false, message: 'Wallet simulator is not enabled' },
+      { status: 404 }
+    );
+  }
+
+  if (!verifySimulatorCheckout(params)) {
+    return NextResponse.json(
+      { success: false, message: 'Invalid checkout signature' },
+      { status: 400 }
+    );
+  }
+
+  return null;
+}
+
+// GET /api/payments/simulator - Checkout page of the local wallet simulator
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const params = request.nextUrl.searchParams;
+  const error = checkoutError(params);
+  if (error) {
+    return error;
+  }
+
+  const hiddenFields = ['orderId', 'amount', 'description', 'returnUrl', 'signature']
+    .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name) || '')}">`)
+    .join('');
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Wallet Simulator</title>
+<style>
+  body { font-family: system-ui, sans-serif; background: #f3f4f6; display: flex; justify-content: center; padding: 48px 16px; }
+  main { background: #fff; border-radius: 8px; padding: 24px; max-width: 360px; width: 100%; box-shadow: 0 1px 3px rgba(0,0,0,.1); }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  p { color: #6b7280; font-size: 14px; margin: 0 0 16px; }
+  .amount { font-size: 28px; font-weight: 700; color: #111827; margin-bottom: 24px; }
+  form { display: inline; }
+  button { border: 0; border-radius: 6px; padding: 10px 16px; font-size: 14px; cursor: pointer; margin-right: 8px; }
+  .pay { background: #16a34a; color: #fff; }
+  .cancel { background: #e5e7eb; color: #111827; }
+</style>
+</head>
+<body>
+<main>
+  <h1>Wallet Simulator</h1>
+  <p>${escapeHtml(params.get('description') || '')} &middot; Order ${escapeHtml(params.get('orderId') || '')}</p>
+  <div class="amount">NPR ${escapeHtml(params.get('amount') || '')}</div>
+  <form method="post">${hiddenFields}<button class="pay" name="action" value="pay">Pay</button></form>
+  <form method="post">${hiddenFields}<button class="cancel" name="action" value="cancel">Cancel</button></form>
+  <p style="margin-top:16px">Development only: no money moves.</p>
+</main>
+</body>
+</html>`;
+
+  return new NextResponse(html, {
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+  });
+});
+
+// POST /api/payments/simulator - Pay or cancel, then return to the app with a signed result
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const form = await request.formData();
+  const params = new URLSearchParams();
+  form.forEach((value, key) => {
+    if (typeof value === 'string') {
+      params.set(key, value);
+    }
+  });
+
+  const error = checkoutError(params);
+  if (error) {
+    return error;
+  }
+
+  const orderId = params.get('orderId') as string;
+  const amount = params.get('amount') as string;
+  const status = params.get('action') === 'pay' ? 'COMPLETE' : 'CANCELLED';
+  const transactionId = status === 'COMPLETE' ? `SIM-${randomUUID().slice(0, 8).toUpperCase()}` : '';
+
+  const returnUrl = new URL(params.get('returnUrl') as string);
+  returnUrl.searchParams.set('orderId', orderId);
+  returnUrl.searchParams.set('amount', amount);
+  returnUrl.searchParams.set('status', status);
+  returnUrl.searchParams.set('transactionId', transactionId);
+  returnUrl.searchParams.set('signature', signSimulatorResult(orderId, amount, status, transactionId));
+
+  return NextResponse.redirect(returnUrl, 303);
+});
@@ -0,0 +1,114 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectToDatabase from '@/lib/mongodb';
+import WalletPayment from '@/models/WalletPayment';
+import { withAuth, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { startWalletPayment } from '@/lib/wallet-payments';
+import { getAppUrl } from '@/lib/app-url';
+
+// GET /api/payments/wallet - Wallet payments; members see their own, admins everyone's
+export const GET = withErrorHandling(
+  withAuth(async (request: AuthenticatedRequest) => {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const userId = request.user.role === 'admin' ? searchParams.get('userId') : request.user.userId;
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200);
+
+    await connectToDatabase();
+
+    const query: any = {};
+
+    if (userId) {
+      query.userId = new mongoose.Types.ObjectId(userId);
+    }
+
+    if (status) {
+      query.status = status;
+    }
+
+    const payments = await WalletPayment.find(query)
+      .populate('userId', 'name memberId')
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      data: payments,
+    });
+  })
+);
+
+// POST /api/payments/wallet - Start paying a pending contribution or loan installment through a wallet
+export const POST = withErrorHandling(
+  withAuth(async (request: AuthenticatedRequest) => {
+    const { purpose, targetId, provider, amount } = await request.json();
+
+    if (!['contribution', 'repayment'].includes(purpose)) {
+      return NextResponse.json(
+        { success: false, message: 'Purpose must be contribution or repayment' },
+        { status: 400 }
+      );
+    }
+
+    if (!targetId || !mongoose.Types.ObjectId.isValid(targetId)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid contribution or loan ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!provider || typeof provider !== 'string') {
+      return NextResponse.json(
+        { success: false, message: 'Payment provider is required' },
+        { status: 400 }
+      );
+    }
+
+    const customAmount = amount === undefined || amount === null || amount === '' ? undefined : Number(amount);
+    if (customAmount !== undefined && (purpose !== 'repayment' || !Number.isFinite(customAmount) || customAmount <= 0)) {
+      return NextResponse.json(
+        { success: false, message: 'A custom amount must be positive and is only allowed for loan repayments' },
+        { status: 400 }
+      );
+    }
+
+    // Wallets send the member back to the configured site only
+    const siteUrl = getAppUrl();
+    if (!siteUrl) {
+      console.error('APP_URL is not set; wallet payments cannot be started');
+      return NextResponse.json(
+        { success: false, message: 'Wallet payments are not available. Please contact an admin.' },
+        { status: 503 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const result = await startWalletPayment({
+      userId: request.user.userId,
+      purpose,
+      targetId,
+      provider,
+      amount: customAmount,
+      siteUrl,
+    });
+
+    if (result.error) {
+      return NextResponse.json(
+        { success: false, message: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Payment started',
+      data: {
+        orderId: result.payment!.orderId,
+        amount: result.payment!.amount,
+        checkout: result.checkout,
+      },
+    }, { status: 201 });
+  })
+);
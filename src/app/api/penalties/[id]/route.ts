@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectToDatabase from '@/lib/mongodb';
+import Penalty from '@/models/Penalty';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { syncPenaltyEntry } from '@/lib/ledger';
+import { getClosedPeriodError } from '@/lib/period-close';
+
+// PATCH /api/penalties/[id] - Collect or waive a penalty (Admin only)
+export const PATCH = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const segments = request.nextUrl.pathname.split('/');
+    const penaltyId = segments[segments.length - 1];
+
+    const { action, ...data } = await request.json();
+
+    await connectToDatabase();
+
+    const penalty = await Penalty.findById(penaltyId);
+
+    if (!penalty) {
+      return NextResponse.json(
+        { success: false, message: 'Penalty not found' },
+        { status: 404 }
+      );
+    }
+
+    if (penalty.status !== 'outstanding') {
+      return NextResponse.json(
+        { success: false, message: `Penalty is already ${penalty.status}` },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'waive') {
+      const { reason } = data;
+
+      if (!reason || !reason.trim()) {
+        return NextResponse.json(
+          { success: false, message: 'A reason is required to waive a penalty' },
+          { status: 400 }
+        );
+      }
+
+      penalty.status = 'waived';
+      penalty.waiverReason = reason.trim();
+      penalty.waivedBy = new mongoose.Types.ObjectId(request.user.userId);
+      penalty.waivedDate = new Date();
+    } else if (action === 'collect') {
+      const { paymentMethod, paidDate } = data;
+      const paidDateObj = paidDate ? new Date(paidDate) : new Date();
+
+      if (isNaN(paidDateObj.getTime()) || paidDateObj > new Date()) {
+        return NextResponse.json(
+          { success: false, message: 'Payment date must be a valid date that is not in the future' },
+          { status: 400 }
+        );
+      }
+
+      // A back-dated collection would change figures already reported
+      const closedError = await getClosedPeriodError({ dates: [paidDateObj] });
+      if (closedError) {
+        return NextResponse.json(
+          { success: false, message: closedError },
+          { status: 409 }
+        );
+      }
+
+      penalty.status = 'paid';
+      penalty.paidDate = paidDateObj;
+      penalty.paymentMethod = paymentMethod || 'cash';
+      penalty.collectedBy = new mongoose.Types.ObjectId(request.user.userId);
+    } else {
+      return NextResponse.json(
+        { success: false, message: 'Invalid action' },
+        { status: 400 }
+      );
+    }
+
+    await penalty.save();
+    await syncPenaltyEntry(penalty, { postedBy: request.user.userId });
+    await penalty.populate('userId', 'name memberId');
+
+    return NextResponse.json({
+      success: true,
+      message: action === 'waive' ? 'Penalty waived successfully' : 'Penalty collected successfully',
+      penalty,
+    });
+  })
+);
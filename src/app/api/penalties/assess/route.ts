@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { assessLatePenalties } from '@/lib/penalties';
+
+// POST /api/penalties/assess - Mark overdue contributions and charge late penalties (Admin only)
+export const POST = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const { asOfDate } = await request.json().catch(() => ({}));
+
+    const asOf = asOfDate ? new Date(asOfDate) : new Date();
+
+    if (isNaN(asOf.getTime()) || asOf > new Date()) {
+      return NextResponse.json(
+        { success: false, message: 'Assessment date must be a valid date that is not in the future' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const result = await assessLatePenalties(asOf, request.user.userId);
+
+    return NextResponse.json({
+      success: true,
+      message: `Assessed ${result.contributionPenaltiesCreated + result.loanPenaltiesCreated} new penalties`,
+      data: result,
+    });
+  })
+);
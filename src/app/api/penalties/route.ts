@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectToDatabase from '@/lib/mongodb';
+import Penalty from '@/models/Penalty';
+import { withAuth, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+
+// GET /api/penalties - Get penalties (members see only their own)
+export const GET = withErrorHandling(
+  withAuth(async (request: AuthenticatedRequest) => {
+    const { searchParams } = new URL(request.url);
+
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100);
+    const status = searchParams.get('status');
+    const type = searchParams.get('type');
+    const userId = searchParams.get('userId');
+
+    await connectToDatabase();
+
+    // Build query
+    const query: any = {};
+
+    if (request.user.role === 'member') {
+      query.userId = new mongoose.Types.ObjectId(request.user.userId);
+    } else if (userId) {
+      query.userId = new mongoose.Types.ObjectId(userId);
+    }
+
+    if (status) {
+      query.status = status;
+    }
+
+    if (type) {
+      query.type = type;
+    }
+
+    const [total, penalties, totalsByStatus] = await Promise.all([
+      Penalty.countDocuments(query),
+      Penalty.find(query)
+        .populate('userId', 'name memberId')
+        .populate('waivedBy', 'name')
+        .populate('collectedBy', 'name')
+        .sort({ assessedDate: -1, createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      Penalty.aggregate([
+        { $match: { ...query, status: { $in: ['outstanding', 'paid', 'waived'] } } },
+        { $group: { _id: '$status', totalAmount: { $sum: '$amount' }, count: { $sum: 1 } } },
+      ]),
+    ]);
+
+    const summary = {
+      outstanding: { totalAmount: 0, count: 0 },
+      paid: { totalAmount: 0, count: 0 },
+      waived: { totalAmount: 0, count: 0 },
+    };
+
+    totalsByStatus.forEach((row) => {
+      if (summary[row._id as keyof typeof summary]) {
+        summary[row._id as keyof typeof summary] = {
+          totalAmount: row.totalAmount,
+          count: row.count,
+        };
+      }
+    });
+
+    const totalPages = Math.ceil(total / limit);
+
+    return NextResponse.json({
+      success: true,
+      data: penalties,
+      summary,
+      pagination: {
+        current: page,
+        total,
+        pages: totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  })
+);
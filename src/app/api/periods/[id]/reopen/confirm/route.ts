@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectToDatabase from '@/lib/mongodb';
+import PeriodClose from '@/models/PeriodClose';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { confirmPeriodReopen } from '@/lib/period-close';
+
+// POST /api/periods/[id]/reopen/confirm - Confirm or decline a reopen awaiting a second admin (Admin only)
+export const POST = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const segments = request.nextUrl.pathname.split('/');
+    const id = segments[segments.length - 3];
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid period ID' },
+        { status: 400 }
+      );
+    }
+
+    const { decision } = await request.json();
+
+    if (!['confirm', 'decline'].includes(decision)) {
+      return NextResponse.json(
+        { success: false, message: 'Decision must be confirm or decline' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const periodClose = await PeriodClose.findById(id);
+
+    if (!periodClose) {
+      return NextResponse.json(
+        { success: false, message: 'Period not found' },
+        { status: 404 }
+      );
+    }
+
+    const pending = periodClose.pendingReopen;
+
+    if (!pending) {
+      return NextResponse.json(
+        { success: false, message: `${periodClose.label} has no reopen awaiting confirmation` },
+        { status: 400 }
+      );
+    }
+
+    // Either admin may withdraw or turn down the request; the period stays closed
+    if (decision === 'decline') {
+      periodClose.pendingReopen = undefined;
+      await periodClose.save();
+
+      return NextResponse.json({
+        success: true,
+        message: `Reopen of ${periodClose.label} declined`,
+        data: periodClose,
+      });
+    }
+
+    if (pending.requestedBy.toString() === request.user.userId) {
+      return NextResponse.json(
+        { success: false, message: 'A different admin must confirm this reopen' },
+        { status: 403 }
+      );
+    }
+
+    const result = await confirmPeriodReopen(periodClose, request.user.userId);
+
+    if (result.error) {
+      return NextResponse.json(
+        { success: false, message: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `${periodClose.label} reopened with confirmation from a second admin`,
+      data: result.periodClose,
+    });
+  })
+);
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectToDatabase from '@/lib/mongodb';
+import PeriodClose from '@/models/PeriodClose';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { requestPeriodReopen } from '@/lib/period-close';
+
+// POST /api/periods/[id]/reopen - Ask to reopen a closed period so its records can be corrected; a reason is required
+// and, under dual control, a second admin must confirm (Admin only)
+export const POST = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const segments = request.nextUrl.pathname.split('/');
+    const id = segments[segments.length - 2];
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid period ID' },
+        { status: 400 }
+      );
+    }
+
+    const { reason } = await request.json();
+
+    await connectToDatabase();
+
+    const periodClose = await PeriodClose.findById(id);
+
+    if (!periodClose) {
+      return NextResponse.json(
+        { success: false, message: 'Period not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await requestPeriodReopen(periodClose, request.user.userId, reason);
+
+    if (result.error) {
+      return NextResponse.json(
+        { success: false, message: result.error },
+        { status: 400 }
+      );
+    }
+
+    if (result.pendingConfirmation) {
+      return NextResponse.json(
+        {
+          success: true,
+          pendingConfirmation: true,
+          message: `Reopen of ${periodClose.label} recorded. A second admin must confirm it before the period is unlocked.`,
+          data: result.periodClose,
+        },
+        { status: 202 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `${periodClose.label} reopened`,
+      data: result.periodClose,
+    });
+  })
+);
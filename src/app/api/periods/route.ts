@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import PeriodClose from '@/models/PeriodClose';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { closePeriod } from '@/lib/period-close';
+
+// GET /api/periods - Closed and reopened periods with their snapshot totals (Admin only)
+export const GET = withErrorHandling(
+  withAdmin(async () => {
+    await connectToDatabase();
+
+    const periods = await PeriodClose.find()
+      .populate('closedBy', 'name')
+      .populate('reopenedBy', 'name')
+      .populate('history.by', 'name')
+      .populate('history.confirmedBy', 'name')
+      .populate('pendingReopen.requestedBy', 'name')
+      .sort({ startDate: -1, periodType: 1 })
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      data: periods,
+    });
+  })
+);
+
+// POST /api/periods - Close a month or fiscal year, locking the records in it (Admin only)
+export const POST = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const { periodType, period, notes } = await request.json();
+
+    if (!['month', 'fiscal_year'].includes(periodType)) {
+      return NextResponse.json(
+        { success: false, message: 'Period type must be month or fiscal_year' },
+        { status: 400 }
+      );
+    }
+
+    if (!period) {
+      return NextResponse.json(
+        { success: false, message: 'Period is required' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const result = await closePeriod(periodType, String(period), request.user.userId, notes?.trim() || undefined);
+
+    if (result.error) {
+      return NextResponse.json(
+        { success: false, message: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `${result.periodClose!.label} closed`,
+      data: result.periodClose,
+    }, { status: 201 });
+  })
+);
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import { withAuth, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { getReceipt, renderReceiptPdf, RECEIPT_TYPES, ReceiptType } from '@/lib/receipts';
+
+// GET /api/receipts/[type]/[id] - Printable PDF receipt for a contribution or loan repayment
+export const GET = withErrorHandling(
+  withAuth(async (request: AuthenticatedRequest) => {
+    const segments = request.nextUrl.pathname.split('/');
+    const type = segments[segments.length - 2] as ReceiptType;
+    const id = segments[segments.length - 1];
+    const { searchParams } = new URL(request.url);
+
+    if (!RECEIPT_TYPES.includes(type)) {
+      return NextResponse.json(
+        { success: false, message: 'Receipt type must be contribution or repayment' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const receipt = await getReceipt(type, id);
+
+    if (!receipt) {
+      return NextResponse.json(
+        { success: false, message: type === 'contribution' ? 'No receipt: contribution not found, not yet paid or not yet numbered' : 'Repayment not found' },
+        { status: 404 }
+      );
+    }
+
+    // Members can only print their own receipts
+    if (request.user.role !== 'admin' && receipt.userId !== request.user.userId) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const disposition = searchParams.get('download') === 'true' ? 'attachment' : 'inline';
+
+    return new NextResponse(new Uint8Array(renderReceiptPdf(receipt)), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `${disposition}; filename="receipt_${receipt.receiptNumber}.pdf"`,
+      },
+    });
+  })
+);
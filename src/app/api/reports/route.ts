@@ -4,6 +4,28 @@ import connectDB from '@/lib/mongodb';
 import User from '@/models/User';
 import Contribution from '@/models/Contribution';
 import Loan from '@/models/Loan';
+import Repayment from '@/models/Repayment';
+import HistoricalInterest from '@/models/HistoricalInterest';
+import { convertToCSV } from '@/lib/csv';
+import { getSettings } from '@/lib/settings';
+import {
+  formatContributionMonth,
+  formatFiscalYear,
+  getFiscalYearMonths,
+  getFiscalYearOfDate,
+  getFiscalYearOfMonth,
+  getFiscalYearRange,
+  getPeriodEnd,
+  getPeriodStart,
+} from '@/lib/periods';
+import { ContributionCalendar } from '@/types';
+
+// Contributions count towards a fiscal year by their month; everything else by its date
+interface ReportPeriod {
+  dateFrom?: string | null;
+  dateTo?: string | null;
+  fiscalYear?: number;
+}
 
 // GET /api/reports - Generate various reports (Admin only)
 const getHandler = withAuth(async (request: AuthenticatedRequest) => {
@@ -24,6 +46,19 @@ const getHandler = withAuth(async (request: AuthenticatedRequest) => {
     const dateFrom = searchParams.get('dateFrom');
     const dateTo = searchParams.get('dateTo');
     const status = searchParams.get('status');
+    const fiscalYearParam = searchParams.get('fiscalYear');
+    const fiscalYear = fiscalYearParam ? parseInt(fiscalYearParam) : undefined;
+
+    if (fiscalYear !== undefined && (isNaN(fiscalYear) || fiscalYear < 2000 || fiscalYear > 2200)) {
+      return NextResponse.json(
+        { success: false, error: 'Fiscal year must be a BS year such as 2081' },
+        { status: 400 }
+      );
+    }
+
+    const { contributionCalendar } = await getSettings();
+    const period: ReportPeriod = { dateFrom, dateTo, fiscalYear };
+    const periodSuffix = fiscalYear ? `_FY${fiscalYear}` : '';
 
     let data: any[] = [];
     let filename = '';
@@ -34,17 +69,23 @@ const getHandler = withAuth(async (request: AuthenticatedRequest) => {
         filename = `users_report`;
         break;
       case 'contributions':
-        data = await generateContributionsReport(dateFrom, dateTo, status);
-        filename = `contributions_report`;
+        data = await generateContributionsReport(period, status, contributionCalendar);
+        filename = `contributions_report${periodSuffix}`;
         break;
       case 'loans':
-        data = await generateLoansReport(dateFrom, dateTo, status);
-        filename = `loans_report`;
+        data = await generateLoansReport(period, status);
+        filename = `loans_report${periodSuffix}`;
         break;
       case 'financial-summary':
-        data = await generateFinancialSummaryReport(dateFrom, dateTo);
-        filename = `financial_summary_report`;
+        data = await generateFinancialSummaryReport(period);
+        filename = `financial_summary_report${periodSuffix}`;
+        break;
+      case 'fiscal-year': {
+        const year = fiscalYear ?? getFiscalYearOfDate();
+        data = await generateFiscalYearReport(year);
+        filename = `fiscal_year_report_FY${year}`;
         break;
+      }
       default:
         return NextResponse.json(
           { success: false, error: 'Invalid report type' },
@@ -105,10 +146,27 @@ async function generateUsersReport(status?: string | null) {
   }));
 }
 
-async function generateContributionsReport(dateFrom?: string | null, dateTo?: string | null, status?: string | null) {
+// Date range of a report: the fiscal year when one is given, otherwise dateFrom and dateTo
+function getDateQuery(period: ReportPeriod) {
+  const dateQuery: any = {};
+  if (period.fiscalYear) {
+    const { start, end } = getFiscalYearRange(period.fiscalYear);
+    dateQuery.$gte = start;
+    dateQuery.$lte = end;
+  } else {
+    if (period.dateFrom) dateQuery.$gte = new Date(period.dateFrom);
+    if (period.dateTo) dateQuery.$lte = new Date(period.dateTo);
+  }
+  return dateQuery;
+}
+
+async function generateContributionsReport(period: ReportPeriod, status: string | null, calendar: ContributionCalendar) {
   const query: any = {};
-  
-  if (dateFrom || dateTo) {
+  const { dateFrom, dateTo } = period;
+
+  if (period.fiscalYear) {
+    query.month = { $in: getFiscalYearMonths(period.fiscalYear) };
+  } else if (dateFrom || dateTo) {
     query.paidDate = {};
     if (dateFrom) query.paidDate.$gte = new Date(dateFrom);
     if (dateTo) query.paidDate.$lte = new Date(dateTo);
@@ -129,6 +187,8 @@ async function generateContributionsReport(dateFrom?: string | null, dateTo?: st
     memberEmail: (contribution.userId as any)?.email || 'N/A',
     amount: contribution.amount,
     month: contribution.month,
+    monthName: formatContributionMonth(contribution.month, calendar),
+    fiscalYear: formatFiscalYear(getFiscalYearOfMonth(contribution.month)),
     year: contribution.year,
     paidStatus: contribution.paidStatus,
     paidDate: contribution.paidDate ? new Date(contribution.paidDate).toLocaleDateString() : 'Not paid',
@@ -137,13 +197,12 @@ async function generateContributionsReport(dateFrom?: string | null, dateTo?: st
   }));
 }
 
-async function generateLoansReport(dateFrom?: string | null, dateTo?: string | null, status?: string | null) {
+async function generateLoansReport(period: ReportPeriod, status: string | null) {
   const query: any = {};
-  
-  if (dateFrom || dateTo) {
-    query.requestDate = {};
-    if (dateFrom) query.requestDate.$gte = new Date(dateFrom);
-    if (dateTo) query.requestDate.$lte = new Date(dateTo);
+  const dateQuery = getDateQuery(period);
+
+  if (Object.keys(dateQuery).length > 0) {
+    query.requestDate = dateQuery;
   }
   
   if (status) {
@@ -168,17 +227,15 @@ async function generateLoansReport(dateFrom?: string | null, dateTo?: string | n
     status: loan.status,
     purpose: loan.purpose || '',
     requestDate: new Date(loan.requestDate).toLocaleDateString(),
+    fiscalYear: formatFiscalYear(getFiscalYearOfDate(new Date(loan.requestDate))),
     approvedBy: (loan.approvedBy as any)?.name || 'N/A',
     repayments: loan.repayments?.length || 0,
   }));
 }
 
-async function generateFinancialSummaryReport(dateFrom?: string | null, dateTo?: string | null) {
-  const dateQuery: any = {};
-  if (dateFrom || dateTo) {
-    if (dateFrom) dateQuery.$gte = new Date(dateFrom);
-    if (dateTo) dateQuery.$lte = new Date(dateTo);
-  }
+async function generateFinancialSummaryReport(period: ReportPeriod) {
+  const { dateFrom, dateTo, fiscalYear } = period;
+  const dateQuery = getDateQuery(period);
 
   // Total users
   const totalUsers = await User.countDocuments({ status: 'approved' });
@@ -186,7 +243,9 @@ async function generateFinancialSummaryReport(dateFrom?: string | null, dateTo?:
 
   // Contributions summary
   const contributionQuery: any = {};
-  if (Object.keys(dateQuery).length > 0) {
+  if (fiscalYear) {
+    contributionQuery.month = { $in: getFiscalYearMonths(fiscalYear) };
+  } else if (Object.keys(dateQuery).length > 0) {
     contributionQuery.paidDate = dateQuery;
   }
 
@@ -240,7 +299,9 @@ async function generateFinancialSummaryReport(dateFrom?: string | null, dateTo?:
 
   return [{
     reportDate: new Date().toLocaleDateString(),
-    dateRange: dateFrom && dateTo ? `${dateFrom} to ${dateTo}` : 'All time',
+    dateRange: fiscalYear
+      ? `FY ${formatFiscalYear(fiscalYear)}`
+      : dateFrom && dateTo ? `${dateFrom} to ${dateTo}` : 'All time',
     totalUsers,
     activeUsers,
     totalContributions: contribData.totalContributions || 0,
@@ -256,25 +317,61 @@ async function generateFinancialSummaryReport(dateFrom?: string | null, dateTo?:
   }];
 }
 
-function convertToCSV(data: any[]): string {
-  if (data.length === 0) return '';
-
-  const headers = Object.keys(data[0]);
-  const csvContent = [
-    headers.join(','),
-    ...data.map(row => 
-      headers.map(header => {
-        const value = row[header];
-        // Escape quotes and wrap in quotes if value contains comma
-        if (typeof value === 'string' && (value.includes(',') || value.includes('"'))) {
-          return `"${value.replace(/"/g, '""')}"`;
-        }
-        return value;
-      }).join(',')
-    )
-  ].join('\n');
-
-  return csvContent;
+// One row per BS month of a Nepali fiscal year, Shrawan to Ashadh, with the
+// year's totals as the last row. Contributions are those for the AD month
+// the BS month starts in when the group keeps AD months.
+async function generateFiscalYearReport(fiscalYear: number) {
+  const months = getFiscalYearMonths(fiscalYear);
+  const { start, end } = getFiscalYearRange(fiscalYear);
+
+  const [contributionStats, loans, repayments, historicalInterest] = await Promise.all([
+    Contribution.getFiscalYearStats(fiscalYear),
+    Loan.find({ disbursementDate: { $gte: start, $lte: end } }).select('approvedAmount requestedAmount disbursementDate').lean(),
+    Repayment.find({ paymentDate: { $gte: start, $lte: end } }).select('principalAmount interestAmount paymentDate').lean(),
+    HistoricalInterest.find({ interestDate: { $gte: start, $lte: end } }).select('amount interestDate').lean(),
+  ]);
+
+  // Loans, repayments and interest fall in the BS month their date is in
+  const inMonth = (date: Date | undefined, month: string) =>
+    !!date && new Date(date) >= getPeriodStart(month, 'BS') && new Date(date) <= getPeriodEnd(month, 'BS');
+
+  const rows = months.map((month, i) => {
+    const contributions = contributionStats.months[i];
+    const monthLoans = loans.filter((loan) => inMonth(loan.disbursementDate, month));
+    const monthRepayments = repayments.filter((repayment) => inMonth(repayment.paymentDate, month));
+    const monthInterest = historicalInterest.filter((record) => inMonth(record.interestDate, month));
+
+    return {
+      fiscalYear: formatFiscalYear(fiscalYear),
+      month: formatContributionMonth(month, 'BS'),
+      adMonth: formatContributionMonth(month),
+      contributionsPaid: contributions.paid.totalAmount,
+      contributionsPending: contributions.pending.totalAmount,
+      contributionsOverdue: contributions.overdue.totalAmount,
+      loansDisbursed: monthLoans.reduce((sum, loan) => sum + (loan.approvedAmount || loan.requestedAmount), 0),
+      principalRepaid: monthRepayments.reduce((sum, repayment) => sum + repayment.principalAmount, 0),
+      interestEarned: monthRepayments.reduce((sum, repayment) => sum + repayment.interestAmount, 0),
+      historicalInterest: monthInterest.reduce((sum, record) => sum + record.amount, 0),
+    };
+  });
+
+  const sum = (key: keyof typeof rows[number]) => rows.reduce((total, row) => total + (row[key] as number), 0);
+
+  return [
+    ...rows,
+    {
+      fiscalYear: formatFiscalYear(fiscalYear),
+      month: 'Total',
+      adMonth: '',
+      contributionsPaid: sum('contributionsPaid'),
+      contributionsPending: sum('contributionsPending'),
+      contributionsOverdue: sum('contributionsOverdue'),
+      loansDisbursed: sum('loansDisbursed'),
+      principalRepaid: sum('principalRepaid'),
+      interestEarned: sum('interestEarned'),
+      historicalInterest: sum('historicalInterest'),
+    },
+  ];
 }
 
 export const GET = withErrorHandling(getHandler);
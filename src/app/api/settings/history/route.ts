@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import Settings from '@/models/Settings';
+import { withAdmin, withErrorHandling } from '@/middleware/auth';
+
+// GET /api/settings/history - Every saved settings version, newest first (Admin only)
+export const GET = withErrorHandling(
+  withAdmin(async () => {
+    await connectToDatabase();
+
+    const versions = await Settings.find()
+      .populate('changedBy', 'name email')
+      .sort({ version: -1 })
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      data: versions,
+    });
+  })
+);
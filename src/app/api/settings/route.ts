@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import { withAuth, withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { getSettings, updateSettings, validateSettingsChanges } from '@/lib/settings';
+
+// GET /api/settings - Current community settings
+export const GET = withErrorHandling(
+  withAuth(async () => {
+    await connectToDatabase();
+
+    const settings = await getSettings();
+
+    return NextResponse.json({
+      success: true,
+      data: settings,
+    });
+  })
+);
+
+// PUT /api/settings - Save changed settings as a new version (Admin only)
+export const PUT = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const {
+      communityName,
+      openingDate,
+      monthlyContributionAmount,
+      annualInterestRate,
+      contributionCalendar,
+      policies,
+      changeNote,
+    } = await request.json();
+
+    const changes = { communityName, openingDate, monthlyContributionAmount, annualInterestRate, contributionCalendar, policies };
+
+    const validationError = validateSettingsChanges(changes);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, message: validationError },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const saved = await updateSettings(changes, request.user.userId, changeNote);
+
+    if (!saved) {
+      return NextResponse.json(
+        { success: false, message: 'No settings were changed' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Settings saved as version ${saved.version}`,
+      data: await getSettings(),
+    });
+  })
+);
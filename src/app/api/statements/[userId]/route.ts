@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectToDatabase from '@/lib/mongodb';
+import { withAuth, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { convertToCSV } from '@/lib/csv';
+import { getMemberStatement, getStatementCsvRows, renderStatementPdf } from '@/lib/statements';
+
+const STATEMENT_FORMATS = ['json', 'pdf', 'csv'];
+
+// GET /api/statements/[userId] - Account statement for a period as JSON, PDF or CSV
+export const GET = withErrorHandling(
+  withAuth(async (request: AuthenticatedRequest) => {
+    const userId = request.nextUrl.pathname.split('/').pop() as string;
+    const { searchParams } = new URL(request.url);
+    const fromParam = searchParams.get('from');
+    const toParam = searchParams.get('to');
+    const format = searchParams.get('format') || 'json';
+
+    // Members can only pull their own statement
+    if (request.user.role !== 'admin' && userId !== request.user.userId) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid user ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!STATEMENT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { success: false, message: 'Format must be json, pdf or csv' },
+        { status: 400 }
+      );
+    }
+
+    const from = fromParam ? new Date(`${fromParam}T00:00:00.000`) : undefined;
+    const to = toParam ? new Date(`${toParam}T23:59:59.999`) : new Date();
+
+    if ((from && isNaN(from.getTime())) || isNaN(to.getTime())) {
+      return NextResponse.json(
+        { success: false, message: 'Dates must be in YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
+
+    if (from && from > to) {
+      return NextResponse.json(
+        { success: false, message: 'Start date must be before end date' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const statement = await getMemberStatement(userId, { from, to });
+
+    if (!statement) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const filename = `statement_${statement.member.memberId}_${statement.from.toISOString().split('T')[0]}_${statement.to.toISOString().split('T')[0]}`;
+
+    if (format === 'csv') {
+      return new NextResponse(convertToCSV(getStatementCsvRows(statement)), {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="${filename}.csv"`,
+        },
+      });
+    }
+
+    if (format === 'pdf') {
+      const disposition = searchParams.get('download') === 'true' ? 'attachment' : 'inline';
+
+      return new NextResponse(new Uint8Array(renderStatementPdf(statement)), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `${disposition}; filename="${filename}.pdf"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: statement,
+    });
+  })
+);
@@ -1,7 +1,8 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { withAuth, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
 import connectDB from '@/lib/mongodb';
 import User from '@/models/User';
+import { notifyUser } from '@/lib/notifications';
 
 // PATCH /api/users/[id]/approve - Approve a pending user
 const patchHandler = withAuth(async (request: AuthenticatedRequest) => {
@@ -41,6 +42,9 @@ const patchHandler = withAuth(async (request: AuthenticatedRequest) => {
     user.isActive = true;
     await user.save();
 
+    // Sent once the response is on its way, so a slow provider does not hold up the admin
+    after(() => notifyUser(userId, 'registration-approved', { memberId: user.memberId }));
+
     return NextResponse.json({
       success: true,
       data: {
@@ -91,6 +91,13 @@ const putHandler = withAuth(async (request: AuthenticatedRequest) => {
             }
         }
 
+        if (updateData.preferredLanguage !== undefined && !['en', 'ne'].includes(updateData.preferredLanguage)) {
+            return NextResponse.json(
+                { success: false, error: 'Preferred language must be English or Nepali' },
+                { status: 400 }
+            );
+        }
+
         if (updateData.password !== undefined) {
             if (updateData.password) {
                 const passwordValidation = validatePassword(updateData.password);
@@ -126,6 +133,10 @@ const putHandler = withAuth(async (request: AuthenticatedRequest) => {
             updateObject.isActive = updateData.isActive;
         }
 
+        if (updateData.preferredLanguage !== undefined) {
+            updateObject.preferredLanguage = updateData.preferredLanguage;
+        }
+
         // Update the user
         const updatedUser = await User.findByIdAndUpdate(
             id,
@@ -151,6 +162,7 @@ const putHandler = withAuth(async (request: AuthenticatedRequest) => {
             status: updatedUser.status,
             isActive: updatedUser.isActive,
             hasLoginAccess: updatedUser.hasLoginAccess,
+            preferredLanguage: updatedUser.preferredLanguage,
             joinDate: updatedUser.joinDate,
             lastLogin: updatedUser.lastLogin,
         };
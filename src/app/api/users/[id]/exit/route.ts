@@ -0,0 +1,151 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectToDatabase from '@/lib/mongodb';
+import User from '@/models/User';
+import MemberWithdrawal from '@/models/MemberWithdrawal';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { getGuarantorExitError } from '@/lib/guarantees';
+import { calculateExitStatement, getCurrentMembershipStart, getExitLoanError } from '@/lib/member-exit';
+
+const parseExitDate = (value?: string | null) => {
+  const exitDate = value ? new Date(value) : new Date();
+  return isNaN(exitDate.getTime()) || exitDate > new Date() ? null : exitDate;
+};
+
+// GET /api/users/[id]/exit - Preview a member's exit payout statement (Admin only)
+export const GET = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const segments = request.nextUrl.pathname.split('/');
+    const userId = segments[segments.length - 2]; // Get user ID from path
+
+    const exitDate = parseExitDate(request.nextUrl.searchParams.get('exitDate'));
+    if (!exitDate) {
+      return NextResponse.json(
+        { success: false, message: 'Exit date must be a valid date that is not in the future' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const user = await User.findById(userId);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const statement = await calculateExitStatement(user, exitDate);
+
+    return NextResponse.json({
+      success: true,
+      data: statement,
+    });
+  })
+);
+
+// POST /api/users/[id]/exit - Open an exit request for a member (Admin only)
+export const POST = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const segments = request.nextUrl.pathname.split('/');
+    const userId = segments[segments.length - 2]; // Get user ID from path
+
+    const { exitDate: exitDateInput, paymentMethod, reason, notes } = await request.json();
+
+    const exitDate = parseExitDate(exitDateInput);
+    if (!exitDate) {
+      return NextResponse.json(
+        { success: false, message: 'Exit date must be a valid date that is not in the future' },
+        { status: 400 }
+      );
+    }
+
+    if (userId === request.user.userId) {
+      return NextResponse.json(
+        { success: false, message: 'Cannot process your own exit' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const user = await User.findById(userId);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!user.isActive) {
+      return NextResponse.json(
+        { success: false, message: 'Member is not active' },
+        { status: 400 }
+      );
+    }
+
+    if (exitDate < getCurrentMembershipStart(user)) {
+      return NextResponse.json(
+        { success: false, message: 'Exit date cannot be before the member joined' },
+        { status: 400 }
+      );
+    }
+
+    const pending = await MemberWithdrawal.findOne({ userId, status: 'pending' });
+    if (pending) {
+      return NextResponse.json(
+        { success: false, message: 'Member already has a pending exit request' },
+        { status: 409 }
+      );
+    }
+
+    const loanError = await getExitLoanError(userId);
+    if (loanError) {
+      return NextResponse.json(
+        { success: false, message: loanError },
+        { status: 400 }
+      );
+    }
+
+    const guarantorError = await getGuarantorExitError(userId);
+    if (guarantorError) {
+      return NextResponse.json(
+        { success: false, message: guarantorError },
+        { status: 400 }
+      );
+    }
+
+    const statement = await calculateExitStatement(user, exitDate);
+
+    const withdrawal = new MemberWithdrawal({
+      userId: user._id,
+      membershipStart: statement.membershipStart,
+      exitDate,
+      status: 'pending',
+      totalContributions: statement.totalContributions,
+      dividendsCredited: statement.dividendsCredited,
+      interestShare: statement.interestShare,
+      interestShareFrom: statement.interestShareFrom,
+      grossEntitlement: statement.grossEntitlement,
+      loanId: statement.loanId,
+      outstandingLoanPrincipal: statement.outstandingLoanPrincipal,
+      outstandingLoanInterest: statement.outstandingLoanInterest,
+      outstandingLoanBalance: statement.outstandingLoanBalance,
+      netPayout: statement.netPayout,
+      paymentMethod: paymentMethod || 'cash',
+      reason: reason?.trim() || undefined,
+      notes: notes?.trim() || undefined,
+      requestedBy: new mongoose.Types.ObjectId(request.user.userId),
+    });
+
+    await withdrawal.save();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Exit request created and awaiting approval',
+      data: withdrawal,
+      statement,
+    }, { status: 201 });
+  })
+);
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import User from '@/models/User';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { getMembershipPeriods } from '@/lib/member-exit';
+
+// POST /api/users/[id]/rejoin - Start a new membership period for a former member (Admin only)
+export const POST = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const segments = request.nextUrl.pathname.split('/');
+    const userId = segments[segments.length - 2]; // Get user ID from path
+
+    const { joinDate } = await request.json().catch(() => ({}));
+    const rejoinDate = joinDate ? new Date(joinDate) : new Date();
+
+    if (isNaN(rejoinDate.getTime()) || rejoinDate > new Date()) {
+      return NextResponse.json(
+        { success: false, message: 'Join date must be a valid date that is not in the future' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const user = await User.findById(userId).lean();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const periods = getMembershipPeriods(user);
+    const lastPeriod = periods[periods.length - 1];
+
+    if (user.isActive || !lastPeriod.exitDate) {
+      return NextResponse.json(
+        { success: false, message: 'Only members who have exited can rejoin' },
+        { status: 400 }
+      );
+    }
+
+    if (rejoinDate <= new Date(lastPeriod.exitDate)) {
+      return NextResponse.json(
+        { success: false, message: 'Rejoin date must be after the last exit date' },
+        { status: 400 }
+      );
+    }
+
+    // joinDate always reflects the current period so contribution rules start fresh
+    await User.updateOne(
+      { _id: user._id },
+      {
+        $set: { isActive: true, joinDate: rejoinDate },
+        $push: { membershipPeriods: { joinDate: rejoinDate } },
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: 'Member rejoined successfully',
+      data: {
+        membershipPeriods: [...periods, { joinDate: rejoinDate }],
+      },
+    });
+  })
+);
@@ -3,26 +3,21 @@ import { withAuth, withErrorHandling, AuthenticatedRequest } from '@/middleware/
 import connectDB from '@/lib/mongodb';
 import User from '@/models/User';
 
-// GET /api/users/members-list - Get list of all active members for dropdowns (Admin only)
+// GET /api/users/members-list - Get list of all active members for dropdowns
 const getHandler = withAuth(async (request: AuthenticatedRequest) => {
     try {
         await connectDB();
 
-        // Only admin can view members list
-        if (request.user.role !== 'admin') {
-            return NextResponse.json(
-                { success: false, error: 'Admin access required' },
-                { status: 403 }
-            );
-        }
+        const isAdmin = request.user.role === 'admin';
 
-        // Get all active members
+        // Get all active members. Members choosing guarantors only see names, and not themselves.
         const members = await User.find({
             role: 'member',
             isActive: true,
-            status: 'approved'
+            status: 'approved',
+            ...(isAdmin ? {} : { _id: { $ne: request.user.userId } }),
         })
-            .select('_id name memberId email phone')
+            .select(isAdmin ? '_id name memberId email phone' : '_id name memberId')
             .sort({ name: 1 })
             .lean();
 
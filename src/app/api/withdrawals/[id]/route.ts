@@ -0,0 +1,173 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectToDatabase from '@/lib/mongodb';
+import User from '@/models/User';
+import MemberWithdrawal from '@/models/MemberWithdrawal';
+import { withAuth, withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+import { getGuarantorExitError } from '@/lib/guarantees';
+import { calculateExitStatement, completeMemberExit, getExitLoanError } from '@/lib/member-exit';
+import { getClosedPeriodError } from '@/lib/period-close';
+
+// GET /api/withdrawals/[id] - Get an exit payout statement
+export const GET = withErrorHandling(
+  withAuth(async (request: AuthenticatedRequest) => {
+    const segments = request.nextUrl.pathname.split('/');
+    const withdrawalId = segments[segments.length - 1];
+
+    await connectToDatabase();
+
+    const withdrawal = await MemberWithdrawal.findById(withdrawalId)
+      .populate('userId', 'name memberId')
+      .populate('requestedBy', 'name')
+      .populate('approvedBy', 'name')
+      .lean();
+
+    if (!withdrawal) {
+      return NextResponse.json(
+        { success: false, message: 'Exit request not found' },
+        { status: 404 }
+      );
+    }
+
+    // Members can only view their own exit statement
+    const member = withdrawal.userId as any;
+    if (request.user.role === 'member' && member._id.toString() !== request.user.userId) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: withdrawal,
+    });
+  })
+);
+
+// PATCH /api/withdrawals/[id] - Approve or reject an exit request (Admin only)
+export const PATCH = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const segments = request.nextUrl.pathname.split('/');
+    const withdrawalId = segments[segments.length - 1];
+
+    const { action, paymentMethod, rejectionReason } = await request.json();
+
+    await connectToDatabase();
+
+    const withdrawal = await MemberWithdrawal.findById(withdrawalId);
+    if (!withdrawal) {
+      return NextResponse.json(
+        { success: false, message: 'Exit request not found' },
+        { status: 404 }
+      );
+    }
+
+    if (withdrawal.status !== 'pending') {
+      return NextResponse.json(
+        { success: false, message: `Exit request is already ${withdrawal.status}` },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'reject') {
+      if (!rejectionReason || !rejectionReason.trim()) {
+        return NextResponse.json(
+          { success: false, message: 'Rejection reason is required' },
+          { status: 400 }
+        );
+      }
+
+      withdrawal.status = 'rejected';
+      withdrawal.rejectionReason = rejectionReason.trim();
+      withdrawal.approvedBy = new mongoose.Types.ObjectId(request.user.userId);
+      withdrawal.approvalDate = new Date();
+      await withdrawal.save();
+
+      return NextResponse.json({
+        success: true,
+        message: 'Exit request rejected',
+        data: withdrawal,
+      });
+    }
+
+    if (action !== 'approve') {
+      return NextResponse.json(
+        { success: false, message: 'Invalid action' },
+        { status: 400 }
+      );
+    }
+
+    const user = await User.findById(withdrawal.userId);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    // The payout and any loan offset are booked on the exit date
+    const closedError = await getClosedPeriodError({ dates: [withdrawal.exitDate] });
+    if (closedError) {
+      return NextResponse.json(
+        { success: false, message: closedError },
+        { status: 409 }
+      );
+    }
+
+    const loanError = await getExitLoanError(withdrawal.userId.toString());
+    if (loanError) {
+      return NextResponse.json(
+        { success: false, message: loanError },
+        { status: 400 }
+      );
+    }
+
+    const guarantorError = await getGuarantorExitError(withdrawal.userId.toString());
+    if (guarantorError) {
+      return NextResponse.json(
+        { success: false, message: guarantorError },
+        { status: 400 }
+      );
+    }
+
+    // Recalculate in case payments or loans changed since the request was opened
+    const statement = await calculateExitStatement(user, withdrawal.exitDate);
+
+    if (statement.netPayout < 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Outstanding loan exceeds the member's entitlement by ${Math.abs(statement.netPayout)}. The member must repay the difference before exiting.`,
+          statement,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (paymentMethod) {
+      withdrawal.paymentMethod = paymentMethod;
+      await withdrawal.save();
+    }
+
+    const completed = await completeMemberExit(withdrawal, statement, request.user.userId);
+    if (!completed) {
+      return NextResponse.json(
+        { success: false, message: 'Exit request was approved or rejected by another admin. Refresh and try again.' },
+        { status: 409 }
+      );
+    }
+
+    const updated = await MemberWithdrawal.findById(withdrawalId)
+      .populate('userId', 'name memberId')
+      .populate('approvedBy', 'name')
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Member exit approved and payout recorded',
+      data: updated,
+      statement,
+    });
+  })
+);
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import MemberWithdrawal from '@/models/MemberWithdrawal';
+import { withAdmin, withErrorHandling, AuthenticatedRequest } from '@/middleware/auth';
+
+// GET /api/withdrawals - Get member exit requests and payouts (Admin only)
+export const GET = withErrorHandling(
+  withAdmin(async (request: AuthenticatedRequest) => {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const userId = searchParams.get('userId');
+
+    await connectToDatabase();
+
+    const query: any = {};
+    if (status) {
+      query.status = status;
+    }
+    if (userId) {
+      query.userId = userId;
+    }
+
+    const withdrawals = await MemberWithdrawal.find(query)
+      .populate('userId', 'name memberId isActive')
+      .populate('requestedBy', 'name')
+      .populate('approvedBy', 'name')
+      .sort({ createdAt: -1 })
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      data: withdrawals,
+    });
+  })
+);
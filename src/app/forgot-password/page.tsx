@@ -0,0 +1,122 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { apiRequest } from "@/lib/utils";
+
+export default function ForgotPasswordPage() {
+  const [identifier, setIdentifier] = useState("");
+  const [error, setError] = useState("");
+  const [sentMessage, setSentMessage] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!identifier.trim()) {
+      setError("Email address or phone number is required");
+      return;
+    }
+
+    setLoading(true);
+    setError("");
+    try {
+      const result = await apiRequest("/api/auth/forgot-password", {
+        method: "POST",
+        body: JSON.stringify({ identifier: identifier.trim() }),
+      });
+
+      if (result.success) {
+        setSentMessage(result.message || "Check your email or phone for a reset link");
+      } else {
+        setError(result.error || result.message || "Could not send a reset link");
+      }
+    } catch (error) {
+      setError("An unexpected error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 mobile-container py-8">
+      <div className="w-full max-w-md space-y-8 animate-fade-in">
+        <div className="text-center animate-slide-up">
+          <h1 className="mobile-heading">Community Savings</h1>
+          <p className="mt-2 text-sm sm:text-base text-gray-600">
+            Digital platform for community savings and loans
+          </p>
+        </div>
+
+        <Card className="w-full animate-scale-in">
+          <CardHeader>
+            <CardTitle className="text-xl sm:text-2xl text-center">
+              Forgot Password
+            </CardTitle>
+            <CardDescription className="text-center">
+              Enter the email address or phone number on your account and
+              we&apos;ll send you a link to choose a new password
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {sentMessage ? (
+              <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
+                {sentMessage}
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="identifier">Email Address or Phone</Label>
+                  <Input
+                    id="identifier"
+                    name="identifier"
+                    value={identifier}
+                    onChange={(e) => {
+                      setIdentifier(e.target.value);
+                      setError("");
+                    }}
+                    placeholder="Enter your email or phone number"
+                    className={error ? "border-red-500" : ""}
+                  />
+                </div>
+
+                {error && (
+                  <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+                    {error}
+                  </div>
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full smooth-button"
+                  disabled={loading}
+                >
+                  {loading ? "Sending..." : "Send Reset Link"}
+                </Button>
+              </form>
+            )}
+
+            <div className="mt-6 text-center text-sm">
+              <Link
+                href="/login"
+                className="font-medium text-primary hover:text-primary/80"
+              >
+                Back to sign in
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
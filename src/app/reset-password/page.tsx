@@ -0,0 +1,204 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { apiRequest, removeLocalStorage } from "@/lib/utils";
+
+function ResetPasswordForm() {
+  const token = useSearchParams().get("token") || "";
+  const [formData, setFormData] = useState({
+    password: "",
+    confirmPassword: "",
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [done, setDone] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+
+    if (errors[name]) {
+      setErrors((prev) => ({ ...prev, [name]: "" }));
+    }
+  };
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!formData.password) {
+      newErrors.password = "New password is required";
+    } else if (formData.password.length < 6) {
+      newErrors.password = "Password must be at least 6 characters long";
+    }
+
+    if (formData.confirmPassword !== formData.password) {
+      newErrors.confirmPassword = "Passwords do not match";
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) return;
+
+    setLoading(true);
+    try {
+      const result = await apiRequest("/api/auth/reset-password", {
+        method: "POST",
+        body: JSON.stringify({ token, ...formData }),
+      });
+
+      if (result.success) {
+        // Sessions signed in before the reset have ended
+        removeLocalStorage("token");
+        removeLocalStorage("user");
+        setDone(true);
+      } else {
+        setErrors({ submit: result.error || result.message || "Password reset failed" });
+      }
+    } catch (error) {
+      setErrors({ submit: "An unexpected error occurred" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <div className="space-y-4 text-center">
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          This reset link is incomplete. Please request a new one.
+        </div>
+        <Link
+          href="/forgot-password"
+          className="text-sm font-medium text-primary hover:text-primary/80"
+        >
+          Request a new link
+        </Link>
+      </div>
+    );
+  }
+
+  if (done) {
+    return (
+      <div className="space-y-4">
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
+          Your password has been updated and you have been signed out
+          everywhere. Sign in with your new password.
+        </div>
+        <Button asChild className="w-full smooth-button">
+          <Link href="/login">Sign In</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="password">New Password</Label>
+        <Input
+          id="password"
+          name="password"
+          type="password"
+          value={formData.password}
+          onChange={handleInputChange}
+          placeholder="At least 6 characters, with a letter and a number"
+          className={errors.password ? "border-red-500" : ""}
+        />
+        {errors.password && (
+          <p className="text-sm text-red-500">{errors.password}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="confirmPassword">Confirm New Password</Label>
+        <Input
+          id="confirmPassword"
+          name="confirmPassword"
+          type="password"
+          value={formData.confirmPassword}
+          onChange={handleInputChange}
+          placeholder="Enter the new password again"
+          className={errors.confirmPassword ? "border-red-500" : ""}
+        />
+        {errors.confirmPassword && (
+          <p className="text-sm text-red-500">{errors.confirmPassword}</p>
+        )}
+      </div>
+
+      {errors.submit && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {errors.submit}{" "}
+          <Link href="/forgot-password" className="font-medium underline">
+            Request a new link
+          </Link>
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full smooth-button"
+        disabled={loading}
+      >
+        {loading ? "Saving..." : "Set New Password"}
+      </Button>
+    </form>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 mobile-container py-8">
+      <div className="w-full max-w-md space-y-8 animate-fade-in">
+        <div className="text-center animate-slide-up">
+          <h1 className="mobile-heading">Community Savings</h1>
+          <p className="mt-2 text-sm sm:text-base text-gray-600">
+            Digital platform for community savings and loans
+          </p>
+        </div>
+
+        <Card className="w-full animate-scale-in">
+          <CardHeader>
+            <CardTitle className="text-xl sm:text-2xl text-center">
+              Choose a New Password
+            </CardTitle>
+            <CardDescription className="text-center">
+              Setting a new password signs you out on every device
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {/* The token comes from the query string, which is only known in the browser */}
+            <Suspense fallback={null}>
+              <ResetPasswordForm />
+            </Suspense>
+
+            <div className="mt-6 text-center text-sm">
+              <Link
+                href="/login"
+                className="font-medium text-primary hover:text-primary/80"
+              >
+                Back to sign in
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
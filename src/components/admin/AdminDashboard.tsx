@@ -4,12 +4,22 @@ import { useState, useEffect } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import LoanManagement from "./LoanManagement";
+import LoanProductManagement from "./LoanProductManagement";
 import ContributionTracking from "./ContributionTracking";
+import BankStatementImport from "./BankStatementImport";
 import UserApproval from "./UserApproval";
 import ReportGeneration from "./ReportGeneration";
 import HistoricalContributions from "./HistoricalContributions";
 import HistoricalInterestManager from "./HistoricalInterestManager";
 import NewMemberCalculator from "./NewMemberCalculator";
+import PenaltyManagement from "./PenaltyManagement";
+import DividendDistribution from "./DividendDistribution";
+import PeriodCloseManagement from "./PeriodCloseManagement";
+import MemberExitManagement from "./MemberExitManagement";
+import AuditLogViewer from "./AuditLogViewer";
+import SettingsManagement from "./SettingsManagement";
+import ContributionRateManagement from "./ContributionRateManagement";
+import JobManagement from "./JobManagement";
 import OverviewTab from "./tabs/OverviewTab";
 import MembersTab from "./tabs/MembersTab";
 import CommunityFinancesTab from "./tabs/CommunityFinancesTab";
@@ -40,14 +50,23 @@ export default function AdminDashboard({ user }: Props) {
       [
         "overview",
         "loans",
+        "loan-products",
         "contributions",
+        "bank-import",
+        "penalties",
         "members",
+        "exits",
         "approval",
         // "reports", // Commented out as requested
         "finances",
+        "dividends",
+        "periods",
         "historical",
         "historical-interest",
         "calculator",
+        "audit",
+        "jobs",
+        "settings",
       ].includes(tabParam)
     ) {
       setActiveTab(tabParam);
@@ -102,13 +121,28 @@ export default function AdminDashboard({ user }: Props) {
               <span className="sm:hidden">Loans</span>
               <span className="hidden sm:inline">Loan Management</span>
             </TabsTrigger>
+            <TabsTrigger value="loan-products" className={tabTriggerClasses}>
+              <span className="sm:hidden">Products</span>
+              <span className="hidden sm:inline">Loan Products</span>
+            </TabsTrigger>
             <TabsTrigger value="contributions" className={tabTriggerClasses}>
               <span className="sm:hidden">Contributions</span>
               <span className="hidden sm:inline">Contributions</span>
             </TabsTrigger>
+            <TabsTrigger value="bank-import" className={tabTriggerClasses}>
+              <span className="sm:hidden">Bank</span>
+              <span className="hidden sm:inline">Bank Import</span>
+            </TabsTrigger>
+            <TabsTrigger value="penalties" className={tabTriggerClasses}>
+              Penalties
+            </TabsTrigger>
             <TabsTrigger value="members" className={tabTriggerClasses}>
               Members
             </TabsTrigger>
+            <TabsTrigger value="exits" className={tabTriggerClasses}>
+              <span className="sm:hidden">Exits</span>
+              <span className="hidden sm:inline">Member Exits</span>
+            </TabsTrigger>
             <TabsTrigger value="approval" className={tabTriggerClasses}>
               <span className="sm:hidden">Approval</span>
               <span className="hidden sm:inline">User Approval</span>
@@ -124,6 +158,13 @@ export default function AdminDashboard({ user }: Props) {
               <span className="sm:hidden">Finances</span>
               <span className="hidden sm:inline">Community Finances</span>
             </TabsTrigger>
+            <TabsTrigger value="dividends" className={tabTriggerClasses}>
+              Dividends
+            </TabsTrigger>
+            <TabsTrigger value="periods" className={tabTriggerClasses}>
+              <span className="sm:hidden">Periods</span>
+              <span className="hidden sm:inline">Period Close</span>
+            </TabsTrigger>
             <TabsTrigger value="historical" className={tabTriggerClasses}>
               <span className="sm:hidden">Historical</span>
               <span className="hidden sm:inline">Historical Contributions</span>
@@ -132,6 +173,16 @@ export default function AdminDashboard({ user }: Props) {
               <span className="sm:hidden">Interest</span>
               <span className="hidden sm:inline">Historical Interest</span>
             </TabsTrigger>
+            <TabsTrigger value="audit" className={tabTriggerClasses}>
+              <span className="sm:hidden">Audit</span>
+              <span className="hidden sm:inline">Audit Log</span>
+            </TabsTrigger>
+            <TabsTrigger value="jobs" className={tabTriggerClasses}>
+              Jobs
+            </TabsTrigger>
+            <TabsTrigger value="settings" className={tabTriggerClasses}>
+              Settings
+            </TabsTrigger>
           </TabsList>
         </div>
 
@@ -145,16 +196,36 @@ export default function AdminDashboard({ user }: Props) {
           <LoanManagement user={user} />
         </TabsContent>
 
+        {/* Loan Products Tab */}
+        <TabsContent value="loan-products" className="animate-fade-in">
+          <LoanProductManagement />
+        </TabsContent>
+
         {/* Contributions Tab */}
         <TabsContent value="contributions" className="animate-fade-in">
           <ContributionTracking user={user} />
         </TabsContent>
 
+        {/* Bank Statement Import Tab */}
+        <TabsContent value="bank-import" className="animate-fade-in">
+          <BankStatementImport />
+        </TabsContent>
+
+        {/* Penalties Tab */}
+        <TabsContent value="penalties" className="animate-fade-in">
+          <PenaltyManagement />
+        </TabsContent>
+
         {/* Members Tab */}
         <TabsContent value="members">
           <MembersTab onNavigateToHistorical={handleNavigateToHistorical} />
         </TabsContent>
 
+        {/* Member Exits Tab */}
+        <TabsContent value="exits" className="animate-fade-in">
+          <MemberExitManagement />
+        </TabsContent>
+
         {/* User Approval Tab */}
         <TabsContent value="approval" className="animate-fade-in">
           <UserApproval />
@@ -175,6 +246,16 @@ export default function AdminDashboard({ user }: Props) {
           <CommunityFinancesTab />
         </TabsContent>
 
+        {/* Dividends Tab */}
+        <TabsContent value="dividends" className="animate-fade-in">
+          <DividendDistribution />
+        </TabsContent>
+
+        {/* Period Close Tab */}
+        <TabsContent value="periods" className="animate-fade-in">
+          <PeriodCloseManagement currentUserId={user._id} />
+        </TabsContent>
+
         {/* Historical Contributions Tab */}
         <TabsContent value="historical" className="animate-fade-in">
           <HistoricalContributions />
@@ -184,6 +265,24 @@ export default function AdminDashboard({ user }: Props) {
         <TabsContent value="historical-interest" className="animate-fade-in">
           <HistoricalInterestManager />
         </TabsContent>
+
+        {/* Audit Log Tab */}
+        <TabsContent value="audit" className="animate-fade-in">
+          <AuditLogViewer />
+        </TabsContent>
+
+        {/* Jobs Tab */}
+        <TabsContent value="jobs" className="animate-fade-in">
+          <JobManagement />
+        </TabsContent>
+
+        {/* Settings Tab */}
+        <TabsContent value="settings" className="animate-fade-in">
+          <div className="space-y-6">
+            <SettingsManagement />
+            <ContributionRateManagement />
+          </div>
+        </TabsContent>
       </Tabs>
     </div>
   );
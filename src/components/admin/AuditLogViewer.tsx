@@ -0,0 +1,475 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { SearchableSelect } from "@/components/ui/searchable-select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TableSkeleton } from "@/components/ui/loading-skeletons";
+import { Download, RefreshCw } from "lucide-react";
+import { showToast } from "@/lib/toast";
+import { apiRequest } from "@/lib/utils";
+
+interface UserOption {
+  _id: string;
+  name: string;
+  memberId: string;
+}
+
+interface AuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+interface AuditLogEntry {
+  _id: string;
+  action: "create" | "update" | "delete";
+  entityType: string;
+  entityId: string;
+  userId?: UserOption;
+  actorId?: UserOption;
+  actorEmail?: string;
+  actorRole: "admin" | "member" | "system";
+  route?: string;
+  method?: string;
+  changes: AuditChange[];
+  createdAt: string;
+}
+
+const ENTITY_TYPES = [
+  "User",
+  "Contribution",
+  "Loan",
+  "Repayment",
+  "Penalty",
+  "HistoricalInterest",
+  "DividendDistribution",
+  "Dividend",
+  "MemberWithdrawal",
+  "GuaranteeRecovery",
+  "LoanProduct",
+  "Settings",
+  "ContributionRate",
+  "ScheduledJob",
+  "Attachment",
+  "PeriodClose",
+];
+
+const selectClassName =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const emptyFilters = {
+  userId: "",
+  actorId: "",
+  entityType: "",
+  action: "",
+  startDate: "",
+  endDate: "",
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null) return "—";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+};
+
+export default function AuditLogViewer() {
+  const [logs, setLogs] = useState<AuditLogEntry[]>([]);
+  const [members, setMembers] = useState<UserOption[]>([]);
+  const [admins, setAdmins] = useState<UserOption[]>([]);
+  const [filters, setFilters] = useState(emptyFilters);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [pagination, setPagination] = useState({
+    current: 1,
+    pages: 1,
+    total: 0,
+    hasNext: false,
+    hasPrev: false,
+  });
+
+  const buildParams = useCallback(() => {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+    return params;
+  }, [filters]);
+
+  const loadLogs = useCallback(
+    async (page = 1) => {
+      setLoading(true);
+      try {
+        const params = buildParams();
+        params.set("page", page.toString());
+
+        const response = await fetch(`/api/audit-logs?${params.toString()}`);
+        const result = await response.json();
+
+        if (result.success) {
+          setLogs(result.data || []);
+          setPagination(result.pagination);
+        } else {
+          showToast.error("Failed to load audit log", result.message);
+        }
+      } catch (error) {
+        console.error("Error loading audit log:", error);
+        showToast.error("Failed to load audit log");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [buildParams]
+  );
+
+  useEffect(() => {
+    const loadUsers = async () => {
+      const [membersResult, adminsResponse] = await Promise.all([
+        apiRequest<UserOption[]>("/api/users/members-list"),
+        fetch("/api/users?role=admin&limit=50").then((response) =>
+          response.json()
+        ),
+      ]);
+
+      if (membersResult.success && membersResult.data) {
+        setMembers(membersResult.data);
+      }
+      if (adminsResponse.success) {
+        setAdmins(adminsResponse.data || []);
+      }
+    };
+
+    loadUsers();
+  }, []);
+
+  useEffect(() => {
+    loadLogs();
+  }, [loadLogs]);
+
+  const exportLogs = async () => {
+    setExporting(true);
+    try {
+      const params = buildParams();
+      params.set("format", "csv");
+
+      const response = await fetch(`/api/audit-logs?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error(`Server error: ${response.status}`);
+      }
+
+      const csvData = await response.text();
+      const blob = new Blob([csvData], { type: "text/csv" });
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `audit_log_${new Date().toISOString().split("T")[0]}.csv`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+
+      showToast.success("Audit log exported");
+    } catch (error) {
+      console.error("Error exporting audit log:", error);
+      showToast.error("Failed to export audit log");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const getActionColor = (action: string) => {
+    switch (action) {
+      case "create":
+        return "bg-green-100 text-green-800";
+      case "update":
+        return "bg-blue-100 text-blue-800";
+      case "delete":
+        return "bg-red-100 text-red-800";
+      default:
+        return "bg-gray-100 text-gray-800";
+    }
+  };
+
+  const describeUser = (user?: UserOption, fallback?: string) =>
+    user ? `${user.name} (${user.memberId})` : fallback || "—";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h2 className="mobile-heading">Audit Log</h2>
+          <p className="text-muted-foreground text-sm sm:text-base">
+            Every change to member, contribution, loan and interest records
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => loadLogs()}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+          <Button size="sm" onClick={exportLogs} disabled={exporting}>
+            <Download className="h-4 w-4 mr-2" />
+            {exporting ? "Exporting..." : "Export CSV"}
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Filters</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <SearchableSelect
+              label="Member"
+              value={filters.userId}
+              options={members.map((member) => ({
+                value: member._id,
+                label: `${member.name} (${member.memberId})`,
+              }))}
+              onChange={(value) => setFilters({ ...filters, userId: value })}
+              placeholder="All members"
+            />
+            <div className="space-y-2">
+              <Label htmlFor="audit-actor">Changed By</Label>
+              <select
+                id="audit-actor"
+                value={filters.actorId}
+                onChange={(e) =>
+                  setFilters({ ...filters, actorId: e.target.value })
+                }
+                className={selectClassName}
+              >
+                <option value="">Anyone</option>
+                {admins.map((admin) => (
+                  <option key={admin._id} value={admin._id}>
+                    {admin.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-entity">Record Type</Label>
+              <select
+                id="audit-entity"
+                value={filters.entityType}
+                onChange={(e) =>
+                  setFilters({ ...filters, entityType: e.target.value })
+                }
+                className={selectClassName}
+              >
+                <option value="">All records</option>
+                {ENTITY_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-action">Action</Label>
+              <select
+                id="audit-action"
+                value={filters.action}
+                onChange={(e) =>
+                  setFilters({ ...filters, action: e.target.value })
+                }
+                className={selectClassName}
+              >
+                <option value="">All actions</option>
+                <option value="create">Create</option>
+                <option value="update">Update</option>
+                <option value="delete">Delete</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-start">From</Label>
+              <Input
+                id="audit-start"
+                type="date"
+                value={filters.startDate}
+                onChange={(e) =>
+                  setFilters({ ...filters, startDate: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-end">To</Label>
+              <Input
+                id="audit-end"
+                type="date"
+                value={filters.endDate}
+                onChange={(e) =>
+                  setFilters({ ...filters, endDate: e.target.value })
+                }
+              />
+            </div>
+          </div>
+          <div className="mt-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setFilters(emptyFilters)}
+            >
+              Clear Filters
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Changes</CardTitle>
+          <CardDescription>
+            {pagination.total} entries. Entries cannot be edited or deleted.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <TableSkeleton rows={5} columns={6} />
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Changed By</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Record</TableHead>
+                    <TableHead>Member</TableHead>
+                    <TableHead>Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {logs.length > 0 ? (
+                    logs.map((log) => (
+                      <TableRow key={log._id} className="align-top">
+                        <TableCell className="whitespace-nowrap">
+                          {new Date(log.createdAt).toLocaleString()}
+                        </TableCell>
+                        <TableCell>
+                          {describeUser(
+                            log.actorId,
+                            log.actorEmail || log.actorRole
+                          )}
+                          {log.route && (
+                            <p className="text-xs text-muted-foreground">
+                              {log.method} {log.route}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={getActionColor(log.action)}>
+                            {log.action}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          {log.entityType}
+                          <p className="text-xs text-muted-foreground font-mono">
+                            {log.entityId}
+                          </p>
+                        </TableCell>
+                        <TableCell>{describeUser(log.userId)}</TableCell>
+                        <TableCell className="text-xs">
+                          {(expanded === log._id
+                            ? log.changes
+                            : log.changes.slice(0, 3)
+                          ).map((change) => (
+                            <p key={change.field}>
+                              <span className="font-medium">
+                                {change.field}:
+                              </span>{" "}
+                              {log.action !== "create" && (
+                                <>
+                                  <span className="text-red-700">
+                                    {formatValue(change.before)}
+                                  </span>{" "}
+                                  →{" "}
+                                </>
+                              )}
+                              <span className="text-green-700">
+                                {formatValue(change.after)}
+                              </span>
+                            </p>
+                          ))}
+                          {log.changes.length > 3 && (
+                            <button
+                              className="text-blue-600 hover:underline"
+                              onClick={() =>
+                                setExpanded(
+                                  expanded === log._id ? null : log._id
+                                )
+                              }
+                            >
+                              {expanded === log._id
+                                ? "Show less"
+                                : `Show all ${log.changes.length} fields`}
+                            </button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell
+                        colSpan={6}
+                        className="text-center py-6 text-muted-foreground"
+                      >
+                        No audit entries match these filters
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {/* Pagination */}
+          {pagination.pages > 1 && (
+            <div className="flex justify-between items-center mt-4">
+              <div className="text-sm text-muted-foreground">
+                Page {pagination.current} of {pagination.pages}
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!pagination.hasPrev}
+                  onClick={() => loadLogs(pagination.current - 1)}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!pagination.hasNext}
+                  onClick={() => loadLogs(pagination.current + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
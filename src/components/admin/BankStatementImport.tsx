@@ -0,0 +1,645 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TableSkeleton } from "@/components/ui/loading-skeletons";
+import { ArrowLeft, RefreshCw, Upload } from "lucide-react";
+import { showToast } from "@/lib/toast";
+import { apiRequest, formatCurrency, formatDate } from "@/lib/utils";
+import { BANK_STATEMENT_FORMATS } from "@/config/community";
+import { BankDateFormat, BankImportRowStatus } from "@/types";
+
+interface Candidate {
+  kind: "contribution" | "repayment";
+  memberName: string;
+  memberId: string;
+  month?: string;
+  principalAmount?: number;
+  interestAmount?: number;
+  score: number;
+  reasons: string[];
+}
+
+interface ImportRow {
+  rowNumber: number;
+  date: string;
+  description: string;
+  reference?: string;
+  amount: number;
+  status: BankImportRowStatus;
+  candidates: Candidate[];
+  error?: string;
+}
+
+interface BankImportDetail {
+  _id: string;
+  fileName: string;
+  format: string;
+  skippedRows: number;
+  createdAt: string;
+  rows: ImportRow[];
+}
+
+interface BankImportSummary {
+  _id: string;
+  fileName: string;
+  format: string;
+  createdAt: string;
+  total: number;
+  uploadedBy?: { name: string };
+  counts: Record<BankImportRowStatus, number>;
+}
+
+interface RowChoice {
+  selected: boolean;
+  candidateIndex: number;
+}
+
+const DATE_FORMATS: BankDateFormat[] = [
+  "YYYY-MM-DD",
+  "DD/MM/YYYY",
+  "MM/DD/YYYY",
+  "DD-MMM-YYYY",
+  "BS",
+];
+
+const emptyMapping = {
+  date: "",
+  description: "",
+  reference: "",
+  credit: "",
+  amount: "",
+  dateFormat: "DD/MM/YYYY" as BankDateFormat,
+};
+
+const selectClasses =
+  "px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+// Rows still waiting for a decision can be posted or ignored
+const isOpen = (row: ImportRow) =>
+  ["matched", "ambiguous", "unmatched", "ignored"].includes(row.status);
+
+const getStatusColor = (status: BankImportRowStatus) => {
+  switch (status) {
+    case "matched":
+      return "bg-green-100 text-green-800";
+    case "ambiguous":
+      return "bg-yellow-100 text-yellow-800";
+    case "posted":
+      return "bg-blue-100 text-blue-800";
+    case "unmatched":
+      return "bg-red-100 text-red-800";
+    default:
+      return "bg-gray-100 text-gray-600";
+  }
+};
+
+const describeCandidate = (candidate: Candidate) =>
+  candidate.kind === "contribution"
+    ? `Contribution ${candidate.month} - ${candidate.memberName} (${candidate.memberId})`
+    : `Loan repayment - ${candidate.memberName} (${candidate.memberId}): principal ${formatCurrency(
+        candidate.principalAmount || 0
+      )}, interest ${formatCurrency(candidate.interestAmount || 0)}`;
+
+/**
+ * Upload a bank statement CSV, review how its credits were matched to pending
+ * contributions and open loans, then post the confirmed ones in one go
+ */
+export default function BankStatementImport() {
+  const [imports, setImports] = useState<BankImportSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState("auto");
+  const [mapping, setMapping] = useState(emptyMapping);
+  const [uploading, setUploading] = useState(false);
+  const [current, setCurrent] = useState<BankImportDetail | null>(null);
+  const [choices, setChoices] = useState<Record<number, RowChoice>>({});
+  const [statusFilter, setStatusFilter] = useState("");
+  const [posting, setPosting] = useState(false);
+
+  const loadImports = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await apiRequest<BankImportSummary[]>("/api/bank-imports");
+      if (result.success && result.data) {
+        setImports(result.data);
+      }
+    } catch (error) {
+      console.error("Error loading bank imports:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadImports();
+  }, [loadImports]);
+
+  // Matched rows start ticked; ambiguous ones wait for the treasurer to confirm
+  const openImport = (bankImport: BankImportDetail) => {
+    setCurrent(bankImport);
+    setStatusFilter("");
+    setChoices(
+      Object.fromEntries(
+        bankImport.rows.map((row) => [
+          row.rowNumber,
+          { selected: row.status === "matched", candidateIndex: 0 },
+        ])
+      )
+    );
+  };
+
+  const loadImport = async (id: string) => {
+    const result = await apiRequest<BankImportDetail>(`/api/bank-imports/${id}`);
+    if (result.success && result.data) {
+      openImport(result.data);
+    } else {
+      showToast.error("Failed to load import", result.message || result.error);
+    }
+  };
+
+  const uploadStatement = async () => {
+    if (!file) {
+      showToast.error("Choose a statement file first");
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const result = await apiRequest<BankImportDetail>("/api/bank-imports", {
+        method: "POST",
+        body: JSON.stringify({
+          fileName: file.name,
+          content: await file.text(),
+          format,
+          mapping: format === "custom" ? mapping : undefined,
+        }),
+      });
+
+      if (result.success && result.data) {
+        showToast.success("Statement imported", result.message);
+        setFile(null);
+        openImport(result.data);
+        loadImports();
+      } else {
+        showToast.error(
+          "Failed to import statement",
+          result.message || result.error || "Please check the file"
+        );
+      }
+    } catch (error) {
+      console.error("Error importing statement:", error);
+      showToast.error("Failed to import statement");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const submitRows = async (ignore: boolean) => {
+    if (!current) return;
+
+    const rows = current.rows.filter(
+      (row) => isOpen(row) && choices[row.rowNumber]?.selected
+    );
+    const selections = rows
+      .filter((row) => ignore || row.candidates.length > 0)
+      .map((row) =>
+        ignore
+          ? { rowNumber: row.rowNumber, ignore: true }
+          : {
+              rowNumber: row.rowNumber,
+              candidateIndex: choices[row.rowNumber].candidateIndex,
+            }
+      );
+
+    if (selections.length === 0) {
+      showToast.error(
+        ignore ? "Select rows to ignore" : "Select matched rows to post"
+      );
+      return;
+    }
+
+    setPosting(true);
+    try {
+      const result = await apiRequest<{
+        failed: { rowNumber: number; message: string }[];
+        bankImport: BankImportDetail;
+      }>(`/api/bank-imports/${current._id}/post`, {
+        method: "POST",
+        body: JSON.stringify({ selections }),
+      });
+
+      if (result.success && result.data) {
+        if (result.data.failed.length > 0) {
+          showToast.error(
+            result.message || "Some rows failed",
+            result.data.failed
+              .map((failure) => `Row ${failure.rowNumber}: ${failure.message}`)
+              .join("; ")
+          );
+        } else {
+          showToast.success(result.message || "Rows posted");
+        }
+        openImport(result.data.bankImport);
+        loadImports();
+      } else {
+        showToast.error(
+          "Failed to post rows",
+          result.message || result.error || "Please try again"
+        );
+      }
+    } catch (error) {
+      console.error("Error posting bank import rows:", error);
+      showToast.error("Failed to post rows");
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const updateChoice = (rowNumber: number, change: Partial<RowChoice>) => {
+    setChoices((previous) => ({
+      ...previous,
+      [rowNumber]: { ...previous[rowNumber], ...change },
+    }));
+  };
+
+  if (current) {
+    const counts = current.rows.reduce<Record<string, number>>((totals, row) => {
+      totals[row.status] = (totals[row.status] || 0) + 1;
+      return totals;
+    }, {});
+    const visibleRows = current.rows.filter(
+      (row) => !statusFilter || row.status === statusFilter
+    );
+    const selectedCount = current.rows.filter(
+      (row) => isOpen(row) && choices[row.rowNumber]?.selected
+    ).length;
+
+    return (
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="outline" size="sm" onClick={() => setCurrent(null)}>
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Back
+            </Button>
+            <div>
+              <h2 className="mobile-heading">Review Bank Statement</h2>
+              <p className="text-muted-foreground text-sm">
+                {current.fileName} -{" "}
+                {BANK_STATEMENT_FORMATS[current.format]?.label || "Custom mapping"}
+                {current.skippedRows > 0 &&
+                  ` - ${current.skippedRows} debit or non-transaction rows skipped`}
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => submitRows(true)}
+              disabled={posting || selectedCount === 0}
+            >
+              Ignore Selected
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => submitRows(false)}
+              disabled={posting || selectedCount === 0}
+            >
+              {posting ? "Posting..." : `Post ${selectedCount} Selected`}
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {["matched", "ambiguous", "unmatched", "duplicate", "posted", "ignored"].map(
+            (status) => (
+              <Badge key={status} className={getStatusColor(status as BankImportRowStatus)}>
+                {status}: {counts[status] || 0}
+              </Badge>
+            )
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <CardTitle>Credits</CardTitle>
+                <CardDescription>
+                  Tick the rows to post and check the match chosen for each one
+                </CardDescription>
+              </div>
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value)}
+                className={selectClasses}
+              >
+                <option value="">All rows</option>
+                <option value="matched">Matched</option>
+                <option value="ambiguous">Ambiguous</option>
+                <option value="unmatched">Unmatched</option>
+                <option value="duplicate">Duplicate</option>
+                <option value="posted">Posted</option>
+                <option value="ignored">Ignored</option>
+              </select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead></TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Narration</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Match</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-6 text-muted-foreground">
+                        No rows with this status
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    visibleRows.map((row) => {
+                      const choice = choices[row.rowNumber];
+                      const candidate = row.candidates[choice?.candidateIndex ?? 0];
+
+                      return (
+                        <TableRow key={row.rowNumber}>
+                          <TableCell>
+                            {isOpen(row) && (
+                              <input
+                                type="checkbox"
+                                checked={choice?.selected || false}
+                                onChange={(e) =>
+                                  updateChoice(row.rowNumber, {
+                                    selected: e.target.checked,
+                                  })
+                                }
+                              />
+                            )}
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {formatDate(row.date)}
+                          </TableCell>
+                          <TableCell>
+                            <div className="max-w-xs truncate">{row.description}</div>
+                            {row.reference && (
+                              <div className="text-xs text-muted-foreground">
+                                Ref {row.reference}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            {formatCurrency(row.amount)}
+                          </TableCell>
+                          <TableCell>
+                            <Badge className={getStatusColor(row.status)}>
+                              {row.status}
+                            </Badge>
+                            {row.error && (
+                              <div className="text-xs text-red-600 mt-1">{row.error}</div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {row.candidates.length === 0 ? (
+                              <span className="text-sm text-muted-foreground">
+                                {row.status === "duplicate"
+                                  ? "Already posted from an earlier upload"
+                                  : "No pending contribution or loan fits; record it by hand"}
+                              </span>
+                            ) : isOpen(row) ? (
+                              <div className="space-y-1">
+                                <select
+                                  value={choice?.candidateIndex ?? 0}
+                                  onChange={(e) =>
+                                    updateChoice(row.rowNumber, {
+                                      candidateIndex: Number(e.target.value),
+                                    })
+                                  }
+                                  className={`${selectClasses} max-w-md text-sm`}
+                                >
+                                  {row.candidates.map((option, index) => (
+                                    <option key={index} value={index}>
+                                      {describeCandidate(option)}
+                                    </option>
+                                  ))}
+                                </select>
+                                {candidate && (
+                                  <div className="text-xs text-muted-foreground">
+                                    Matched on {candidate.reasons.join(", ")}
+                                  </div>
+                                )}
+                              </div>
+                            ) : (
+                              <span className="text-sm">
+                                {candidate ? describeCandidate(candidate) : "-"}
+                              </span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="mobile-heading">Bank Statement Import</h2>
+          <p className="text-muted-foreground text-sm sm:text-base">
+            Match bank transfers to pending contributions and loan repayments
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={loadImports}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Upload Statement</CardTitle>
+          <CardDescription>
+            CSV export from the bank. Only credits are imported; nothing is
+            posted until you confirm the matches.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="statement-file">Statement file</Label>
+              <Input
+                id="statement-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="statement-format">Bank format</Label>
+              <select
+                id="statement-format"
+                value={format}
+                onChange={(e) => setFormat(e.target.value)}
+                className={`${selectClasses} w-full`}
+              >
+                <option value="auto">Detect automatically</option>
+                {Object.entries(BANK_STATEMENT_FORMATS).map(([key, layout]) => (
+                  <option key={key} value={key}>
+                    {layout.label}
+                  </option>
+                ))}
+                <option value="custom">Map columns myself</option>
+              </select>
+            </div>
+          </div>
+
+          {format === "custom" && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {(
+                [
+                  ["date", "Date column"],
+                  ["description", "Description column"],
+                  ["reference", "Reference column (optional)"],
+                  ["credit", "Credit column"],
+                  ["amount", "Or signed amount column"],
+                ] as const
+              ).map(([field, label]) => (
+                <div key={field} className="space-y-2">
+                  <Label htmlFor={`mapping-${field}`}>{label}</Label>
+                  <Input
+                    id={`mapping-${field}`}
+                    value={mapping[field]}
+                    onChange={(e) =>
+                      setMapping({ ...mapping, [field]: e.target.value })
+                    }
+                    placeholder="Header as it appears in the file"
+                  />
+                </div>
+              ))}
+              <div className="space-y-2">
+                <Label htmlFor="mapping-date-format">Date format</Label>
+                <select
+                  id="mapping-date-format"
+                  value={mapping.dateFormat}
+                  onChange={(e) =>
+                    setMapping({
+                      ...mapping,
+                      dateFormat: e.target.value as BankDateFormat,
+                    })
+                  }
+                  className={`${selectClasses} w-full`}
+                >
+                  {DATE_FORMATS.map((dateFormat) => (
+                    <option key={dateFormat} value={dateFormat}>
+                      {dateFormat === "BS" ? "BS (YYYY/MM/DD Miti)" : dateFormat}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          <Button onClick={uploadStatement} disabled={uploading || !file}>
+            <Upload className="h-4 w-4 mr-2" />
+            {uploading ? "Matching..." : "Upload and Match"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Imports</CardTitle>
+          <CardDescription>Open an import to finish reviewing it</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <TableSkeleton />
+          ) : imports.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground">
+              No statements imported yet
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>File</TableHead>
+                  <TableHead>Uploaded</TableHead>
+                  <TableHead>Credits</TableHead>
+                  <TableHead>Posted</TableHead>
+                  <TableHead>To Review</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {imports.map((bankImport) => (
+                  <TableRow key={bankImport._id}>
+                    <TableCell className="font-medium">{bankImport.fileName}</TableCell>
+                    <TableCell>
+                      {formatDate(bankImport.createdAt)}
+                      {bankImport.uploadedBy && (
+                        <div className="text-xs text-muted-foreground">
+                          {bankImport.uploadedBy.name}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{bankImport.total}</TableCell>
+                    <TableCell>{bankImport.counts.posted}</TableCell>
+                    <TableCell>
+                      {bankImport.counts.matched +
+                        bankImport.counts.ambiguous +
+                        bankImport.counts.unmatched}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => loadImport(bankImport._id)}
+                      >
+                        Review
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,381 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TableSkeleton } from "@/components/ui/loading-skeletons";
+import { showToast } from "@/lib/toast";
+import { apiRequest, formatCurrency } from "@/lib/utils";
+import { useCommunitySettings } from "@/hooks/useCommunitySettings";
+import { formatContributionMonth } from "@/lib/periods";
+
+interface Member {
+  _id: string;
+  name: string;
+  memberId: string;
+}
+
+interface ContributionRate {
+  _id: string;
+  effectiveFrom: string;
+  effectiveTo?: string;
+  amount: number;
+  userId?: Member;
+  note?: string;
+  createdBy?: { name: string };
+}
+
+interface ScheduleData {
+  entries: ContributionRate[];
+  openingAmount: number;
+  currentAmount: number;
+}
+
+const emptyForm = {
+  userId: "",
+  effectiveFrom: "",
+  effectiveTo: "",
+  amount: "",
+  note: "",
+};
+
+/**
+ * Monthly contribution amounts by effective month, with optional overrides
+ * for individual members. Contributions keep the amount they were created
+ * with, so changes here only affect months not yet generated.
+ */
+export default function ContributionRateManagement() {
+  const [schedule, setSchedule] = useState<ScheduleData | null>(null);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formData, setFormData] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const { settings } = useCommunitySettings();
+  const formatMonth = (month: string) =>
+    formatContributionMonth(month, settings.contributionCalendar);
+
+  const loadSchedule = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [scheduleResult, membersResult] = await Promise.all([
+        apiRequest<ScheduleData>("/api/contribution-rates"),
+        apiRequest<Member[]>("/api/users/members-list"),
+      ]);
+      if (scheduleResult.success && scheduleResult.data) {
+        setSchedule(scheduleResult.data);
+      }
+      if (membersResult.success && membersResult.data) {
+        setMembers(membersResult.data);
+      }
+    } catch (error) {
+      console.error("Error loading contribution schedule:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSchedule();
+  }, [loadSchedule]);
+
+  const addRate = async () => {
+    setSaving(true);
+    try {
+      const result = await apiRequest<ContributionRate>(
+        "/api/contribution-rates",
+        {
+          method: "POST",
+          body: JSON.stringify({
+            userId: formData.userId || undefined,
+            effectiveFrom: formData.effectiveFrom,
+            effectiveTo: formData.userId
+              ? formData.effectiveTo || undefined
+              : undefined,
+            amount: parseFloat(formData.amount),
+            note: formData.note,
+          }),
+        }
+      );
+
+      if (result.success) {
+        showToast.success("Contribution amount scheduled", result.message);
+        setFormData(emptyForm);
+        loadSchedule();
+      } else {
+        showToast.error(
+          "Failed to schedule amount",
+          result.error || result.message || "Please try again"
+        );
+      }
+    } catch (error) {
+      console.error("Error scheduling contribution amount:", error);
+      showToast.error("Failed to schedule amount");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const endOverride = async (rate: ContributionRate) => {
+    const effectiveTo = window.prompt(
+      `Last month (YYYY-MM) ${rate.userId?.name} pays ${formatCurrency(
+        rate.amount
+      )}. Leave empty for no end.`,
+      rate.effectiveTo || ""
+    );
+    if (effectiveTo === null) {
+      return;
+    }
+
+    const result = await apiRequest(`/api/contribution-rates/${rate._id}`, {
+      method: "PUT",
+      body: JSON.stringify({ effectiveTo: effectiveTo.trim() }),
+    });
+
+    if (result.success) {
+      showToast.success("Override updated");
+      loadSchedule();
+    } else {
+      showToast.error(
+        "Failed to update override",
+        result.error || result.message || "Please try again"
+      );
+    }
+  };
+
+  const removeRate = async (rate: ContributionRate) => {
+    if (
+      !window.confirm(
+        `Remove the ${formatCurrency(rate.amount)} amount from ${formatMonth(
+          rate.effectiveFrom
+        )}? Contributions already created keep their amount.`
+      )
+    ) {
+      return;
+    }
+
+    const result = await apiRequest(`/api/contribution-rates/${rate._id}`, {
+      method: "DELETE",
+    });
+
+    if (result.success) {
+      showToast.success("Scheduled amount removed");
+      loadSchedule();
+    } else {
+      showToast.error(
+        "Failed to remove amount",
+        result.error || result.message || "Please try again"
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Contribution Schedule</CardTitle>
+            <CardDescription>
+              Each amount applies from its month until a later one replaces
+              it. Months before the first entry use the opening contribution
+              {schedule ? ` of ${formatCurrency(schedule.openingAmount)}` : ""}.
+            </CardDescription>
+          </div>
+          {schedule && (
+            <Badge variant="secondary">
+              This month: {formatCurrency(schedule.currentAmount)}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="rate-member">Applies To</Label>
+            <select
+              id="rate-member"
+              value={formData.userId}
+              onChange={(e) =>
+                setFormData({
+                  ...formData,
+                  userId: e.target.value,
+                  effectiveTo: "",
+                })
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All members</option>
+              {members.map((member) => (
+                <option key={member._id} value={member._id}>
+                  {member.name} ({member.memberId})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rate-from">Effective From</Label>
+            <Input
+              id="rate-from"
+              type="month"
+              value={formData.effectiveFrom}
+              onChange={(e) =>
+                setFormData({ ...formData, effectiveFrom: e.target.value })
+              }
+            />
+            {settings.contributionCalendar === "BS" && formData.effectiveFrom && (
+              <p className="text-xs text-muted-foreground">
+                {formatMonth(formData.effectiveFrom)}
+              </p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rate-to">Ends (optional)</Label>
+            <Input
+              id="rate-to"
+              type="month"
+              value={formData.effectiveTo}
+              min={formData.effectiveFrom || undefined}
+              onChange={(e) =>
+                setFormData({ ...formData, effectiveTo: e.target.value })
+              }
+              disabled={!formData.userId}
+              title={
+                formData.userId
+                  ? undefined
+                  : "Community amounts end when a later amount starts"
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rate-amount">Amount (NPR)</Label>
+            <Input
+              id="rate-amount"
+              type="number"
+              min="1"
+              value={formData.amount}
+              onChange={(e) =>
+                setFormData({ ...formData, amount: e.target.value })
+              }
+            />
+          </div>
+          <Button
+            onClick={addRate}
+            disabled={saving || !formData.effectiveFrom || !formData.amount}
+          >
+            {saving ? "Saving..." : "Add Amount"}
+          </Button>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rate-note">Note (optional)</Label>
+          <Input
+            id="rate-note"
+            value={formData.note}
+            onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+            placeholder="e.g. Raised at the annual meeting"
+          />
+        </div>
+
+        {loading ? (
+          <TableSkeleton rows={3} columns={6} />
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Effective From</TableHead>
+                  <TableHead>Applies To</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Ends</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {schedule && schedule.entries.length > 0 ? (
+                  schedule.entries.map((rate) => (
+                    <TableRow key={rate._id}>
+                      <TableCell className="font-medium">
+                        {formatMonth(rate.effectiveFrom)}
+                      </TableCell>
+                      <TableCell>
+                        {rate.userId ? (
+                          <div>
+                            <div>{rate.userId.name}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {rate.userId.memberId}
+                            </div>
+                          </div>
+                        ) : (
+                          <Badge variant="outline">All members</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatCurrency(rate.amount)}</TableCell>
+                      <TableCell>
+                        {rate.effectiveTo ? formatMonth(rate.effectiveTo) : "-"}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {rate.note || "-"}
+                        {rate.createdBy && (
+                          <div className="text-xs text-muted-foreground">
+                            Added by {rate.createdBy.name}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          {rate.userId && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => endOverride(rate)}
+                            >
+                              {rate.effectiveTo ? "Change End" : "End"}
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="text-red-600"
+                            onClick={() => removeRate(rate)}
+                          >
+                            Remove
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell
+                      colSpan={6}
+                      className="text-center py-6 text-muted-foreground"
+                    >
+                      No changes scheduled. Every month uses the opening
+                      contribution.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
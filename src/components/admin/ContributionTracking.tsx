@@ -27,6 +27,14 @@ import {
   StatsCardSkeleton,
 } from "@/components/ui/loading-skeletons";
 import { showToast, contributionToasts } from "@/lib/toast";
+import ReceiptButton from "@/components/shared/ReceiptButton";
+import { ContributionMonthInput } from "@/components/ui/contribution-month-input";
+import { useCommunitySettings } from "@/hooks/useCommunitySettings";
+import { formatContributionMonth, getContributionMonth } from "@/lib/periods";
+import PaymentProof, {
+  AttachmentInfo,
+  loadPaymentProofs,
+} from "@/components/shared/PaymentProof";
 
 interface User {
   _id: string;
@@ -42,7 +50,7 @@ interface Contribution {
   amount: number;
   month: string;
   year: number;
-  paidStatus: "pending" | "paid" | "partial";
+  paidStatus: "pending" | "paid" | "partial" | "overdue";
   paidDate?: string;
   paymentMethod?: string;
   notes?: string;
@@ -63,27 +71,30 @@ export default function ContributionTracking({ user }: Props) {
   const [contributions, setContributions] = useState<Contribution[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
-  const [selectedMonth, setSelectedMonth] = useState(() => {
-    const now = new Date();
-    return now.toISOString().slice(0, 7); // YYYY-MM format
-  });
+  const { settings } = useCommunitySettings();
+  const calendar = settings.contributionCalendar;
+  const [selectedMonth, setSelectedMonth] = useState(() =>
+    getContributionMonth(new Date())
+  );
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [showRecordPaymentForm, setShowRecordPaymentForm] = useState(false);
   const [selectedUsers, setSelectedUsers] = useState<Set<string>>(new Set());
   const [paymentData, setPaymentData] = useState({
-    amount: "2000",
+    amount: "",
     paymentMethod: "cash",
     notes: "",
   });
   const [processing, setProcessing] = useState(false);
+  const [proofs, setProofs] = useState<Record<string, AttachmentInfo[]>>({});
   const [showApprovalForm, setShowApprovalForm] = useState(false);
   const [showAdminContributionForm, setShowAdminContributionForm] =
     useState(false);
   const [adminContributionData, setAdminContributionData] = useState({
-    amount: "2000",
+    amount: "",
     paymentMethod: "cash",
     notes: "",
   });
+  const monthName = formatContributionMonth(selectedMonth, calendar);
 
   const loadUsers = useCallback(async () => {
     try {
@@ -105,6 +116,13 @@ export default function ContributionTracking({ user }: Props) {
       );
       if (result.success && result.data) {
         setContributions(result.data);
+        // Proof members attached when reporting a payment, for reviewing before approval
+        setProofs(
+          await loadPaymentProofs(
+            "contribution",
+            result.data.filter((c) => c.paidStatus !== "paid").map((c) => c._id)
+          )
+        );
       }
     } catch (error) {
       console.error("Error loading contributions:", error);
@@ -117,6 +135,11 @@ export default function ContributionTracking({ user }: Props) {
     loadUsers();
   }, [loadUsers]);
 
+  // Open on the month in progress in the group's calendar once settings load
+  useEffect(() => {
+    setSelectedMonth(getContributionMonth(new Date(), calendar));
+  }, [calendar]);
+
   useEffect(() => {
     loadContributions();
   }, [selectedMonth, loadContributions]);
@@ -194,7 +217,7 @@ export default function ContributionTracking({ user }: Props) {
       // Record payment for each selected user
       for (const userId of selectedUsers) {
         const contribution = contributions.find(
-          (c) => c.userId._id === userId && c.paidStatus === "pending"
+          (c) => c.userId._id === userId && c.paidStatus !== "paid"
         );
         if (contribution) {
           const result = await apiRequest("/api/contributions", {
@@ -203,7 +226,7 @@ export default function ContributionTracking({ user }: Props) {
               action: "record-payment",
               userId: userId,
               month: selectedMonth,
-              amount: parseFloat(paymentData.amount) || 2000,
+              amount: parseFloat(paymentData.amount) || undefined,
               paymentMethod: paymentData.paymentMethod,
               notes: paymentData.notes,
             }),
@@ -223,7 +246,7 @@ export default function ContributionTracking({ user }: Props) {
 
       setShowRecordPaymentForm(false);
       setSelectedUsers(new Set());
-      setPaymentData({ amount: "2000", paymentMethod: "cash", notes: "" });
+      setPaymentData({ amount: "", paymentMethod: "cash", notes: "" });
       loadContributions();
 
       if (successCount > 0) {
@@ -266,7 +289,7 @@ export default function ContributionTracking({ user }: Props) {
       // Approve each selected contribution
       for (const userId of selectedUsers) {
         const contribution = contributions.find(
-          (c) => c.userId._id === userId && c.paidStatus === "pending"
+          (c) => c.userId._id === userId && c.paidStatus !== "paid"
         );
         if (contribution) {
           const result = await apiRequest("/api/contributions", {
@@ -325,7 +348,7 @@ export default function ContributionTracking({ user }: Props) {
           action: "member-contribute",
           userId: user._id, // Admin's own ID
           month: selectedMonth,
-          amount: parseFloat(adminContributionData.amount) || 2000,
+          amount: parseFloat(adminContributionData.amount) || undefined,
           paymentMethod: adminContributionData.paymentMethod,
           notes: adminContributionData.notes,
         }),
@@ -334,21 +357,17 @@ export default function ContributionTracking({ user }: Props) {
       if (result.success) {
         setShowAdminContributionForm(false);
         setAdminContributionData({
-          amount: "2000",
+          amount: "",
           paymentMethod: "cash",
           notes: "",
         });
         loadContributions();
 
-        const monthName = new Date(selectedMonth + "-01").toLocaleDateString(
-          "en-US",
-          {
-            month: "long",
-            year: "numeric",
-          }
-        );
         contributionToasts.adminSelfContribution(
-          parseFloat(adminContributionData.amount) || 2000,
+          parseFloat(adminContributionData.amount) ||
+            (result as { contribution?: { amount: number } }).contribution
+              ?.amount ||
+            0,
           monthName
         );
       } else {
@@ -394,7 +413,9 @@ export default function ContributionTracking({ user }: Props) {
   const paidContributions =
     contributions?.filter((c) => c.paidStatus === "paid").length || 0;
   const pendingContributions =
-    contributions?.filter((c) => c.paidStatus === "pending").length || 0;
+    contributions?.filter((c) => c.paidStatus !== "paid").length || 0;
+  const overdueContributions =
+    contributions?.filter((c) => c.paidStatus === "overdue").length || 0;
 
   return (
     <>
@@ -414,11 +435,11 @@ export default function ContributionTracking({ user }: Props) {
               <Label htmlFor="month" className="text-sm font-medium">
                 Month:
               </Label>
-              <Input
+              <ContributionMonthInput
                 id="month"
-                type="month"
                 value={selectedMonth}
-                onChange={(e) => setSelectedMonth(e.target.value)}
+                onChange={setSelectedMonth}
+                calendar={calendar}
                 className="w-auto min-w-[140px]"
               />
             </div>
@@ -485,7 +506,11 @@ export default function ContributionTracking({ user }: Props) {
               <div className="text-2xl font-bold text-red-600">
                 {pendingContributions}
               </div>
-              <p className="text-xs text-muted-foreground">Pending</p>
+              <p className="text-xs text-muted-foreground">
+                Pending
+                {overdueContributions > 0 &&
+                  ` (${overdueContributions} overdue)`}
+              </p>
             </CardContent>
           </Card>
           <Card>
@@ -509,10 +534,7 @@ export default function ContributionTracking({ user }: Props) {
             <CardTitle>Monthly Contributions</CardTitle>
             <CardDescription>
               Track and record member contributions for{" "}
-              {new Date(selectedMonth + "-01").toLocaleDateString("en-US", {
-                month: "long",
-                year: "numeric",
-              })}
+              {monthName}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -540,6 +562,7 @@ export default function ContributionTracking({ user }: Props) {
                     <TableHead>Paid Date</TableHead>
                     <TableHead>Payment Method</TableHead>
                     <TableHead>Quick Status</TableHead>
+                    <TableHead>Receipt</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -580,11 +603,25 @@ export default function ContributionTracking({ user }: Props) {
                               : "Overdue"}
                           </Badge>
                         </TableCell>
+                        <TableCell>
+                          {contribution.paidStatus === "paid" ? (
+                            <ReceiptButton
+                              type="contribution"
+                              id={contribution._id}
+                            />
+                          ) : proofs[contribution._id] ? (
+                            <PaymentProof
+                              attachments={proofs[contribution._id]}
+                            />
+                          ) : (
+                            "-"
+                          )}
+                        </TableCell>
                       </TableRow>
                     ))
                   ) : (
                     <TableRow>
-                      <TableCell colSpan={6} className="text-center py-6">
+                      <TableCell colSpan={7} className="text-center py-6">
                         <div className="text-muted-foreground">
                           <p>No contribution records found</p>
                           <p className="text-sm mt-1">
@@ -611,16 +648,14 @@ export default function ContributionTracking({ user }: Props) {
                 <CardTitle>Setup Month Contributions</CardTitle>
                 <CardDescription>
                   Select members to create contribution records for{" "}
-                  {new Date(selectedMonth + "-01").toLocaleDateString("en-US", {
-                    month: "long",
-                    year: "numeric",
-                  })}
+                  {monthName}
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
                 <div className="flex items-center justify-between">
                   <div className="text-sm text-gray-600">
-                    <p>• Amount: NPR 2,000 per member</p>
+                    <p>• Amount: as scheduled for the month</p>
+                    <p>• Also created automatically by the monthly job</p>
                     <p>• Active members: {users?.length || 0}</p>
                     <p>• Selected: {selectedUsers.size}</p>
                   </div>
@@ -705,10 +740,7 @@ export default function ContributionTracking({ user }: Props) {
                 <CardTitle>Record Bulk Payments</CardTitle>
                 <CardDescription>
                   Select members and record their contribution payments for{" "}
-                  {new Date(selectedMonth + "-01").toLocaleDateString("en-US", {
-                    month: "long",
-                    year: "numeric",
-                  })}
+                  {monthName}
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -727,7 +759,7 @@ export default function ContributionTracking({ user }: Props) {
                           amount: e.target.value,
                         }))
                       }
-                      placeholder="2000"
+                      placeholder="Amount due"
                     />
                   </div>
                   <div className="space-y-2">
@@ -769,7 +801,7 @@ export default function ContributionTracking({ user }: Props) {
                     <p>
                       • Pending contributions:{" "}
                       {
-                        contributions.filter((c) => c.paidStatus === "pending")
+                        contributions.filter((c) => c.paidStatus !== "paid")
                           .length
                       }
                     </p>
@@ -780,7 +812,7 @@ export default function ContributionTracking({ user }: Props) {
                     size="sm"
                     onClick={() => {
                       const pendingUserIds = contributions
-                        .filter((c) => c.paidStatus === "pending")
+                        .filter((c) => c.paidStatus !== "paid")
                         .map((c) => c.userId._id);
 
                       if (selectedUsers.size === pendingUserIds.length) {
@@ -791,7 +823,7 @@ export default function ContributionTracking({ user }: Props) {
                     }}
                   >
                     {selectedUsers.size ===
-                    contributions.filter((c) => c.paidStatus === "pending")
+                    contributions.filter((c) => c.paidStatus !== "paid")
                       .length
                       ? "Deselect All"
                       : "Select All Pending"}
@@ -812,13 +844,13 @@ export default function ContributionTracking({ user }: Props) {
                           onChange={() =>
                             toggleUserSelection(contribution.userId._id)
                           }
-                          disabled={contribution.paidStatus !== "pending"}
+                          disabled={contribution.paidStatus === "paid"}
                           className="h-4 w-4 rounded border-gray-300"
                         />
                         <label
                           htmlFor={`payment-${contribution._id}`}
                           className={`flex-1 text-sm ${
-                            contribution.paidStatus !== "pending"
+                            contribution.paidStatus === "paid"
                               ? "text-gray-400"
                               : "text-gray-700"
                           }`}
@@ -848,7 +880,7 @@ export default function ContributionTracking({ user }: Props) {
                       setShowRecordPaymentForm(false);
                       setSelectedUsers(new Set());
                       setPaymentData({
-                        amount: "2000",
+                        amount: "",
                         paymentMethod: "cash",
                         notes: "",
                       });
@@ -880,10 +912,7 @@ export default function ContributionTracking({ user }: Props) {
                 <CardTitle>Approve Pending Contributions</CardTitle>
                 <CardDescription>
                   Select pending contributions to approve for{" "}
-                  {new Date(selectedMonth + "-01").toLocaleDateString("en-US", {
-                    month: "long",
-                    year: "numeric",
-                  })}
+                  {monthName}
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -892,7 +921,7 @@ export default function ContributionTracking({ user }: Props) {
                     <p>
                       • Pending contributions:{" "}
                       {
-                        contributions.filter((c) => c.paidStatus === "pending")
+                        contributions.filter((c) => c.paidStatus !== "paid")
                           .length
                       }
                     </p>
@@ -903,7 +932,7 @@ export default function ContributionTracking({ user }: Props) {
                     size="sm"
                     onClick={() => {
                       const pendingUserIds = contributions
-                        .filter((c) => c.paidStatus === "pending")
+                        .filter((c) => c.paidStatus !== "paid")
                         .map((c) => c.userId._id);
 
                       if (selectedUsers.size === pendingUserIds.length) {
@@ -914,7 +943,7 @@ export default function ContributionTracking({ user }: Props) {
                     }}
                   >
                     {selectedUsers.size ===
-                    contributions.filter((c) => c.paidStatus === "pending")
+                    contributions.filter((c) => c.paidStatus !== "paid")
                       .length
                       ? "Deselect All"
                       : "Select All Pending"}
@@ -924,7 +953,7 @@ export default function ContributionTracking({ user }: Props) {
                 <div className="border rounded-lg p-4 max-h-60 overflow-y-auto">
                   <div className="space-y-2">
                     {contributions
-                      .filter((c) => c.paidStatus === "pending")
+                      .filter((c) => c.paidStatus !== "paid")
                       .map((contribution) => (
                         <div
                           key={contribution._id}
@@ -963,9 +992,19 @@ export default function ContributionTracking({ user }: Props) {
                               </div>
                             </div>
                           </label>
+                          {proofs[contribution._id] ? (
+                            <PaymentProof
+                              attachments={proofs[contribution._id]}
+                              size="md"
+                            />
+                          ) : (
+                            <span className="w-16 text-center text-xs text-gray-400">
+                              No proof
+                            </span>
+                          )}
                         </div>
                       ))}
-                    {contributions.filter((c) => c.paidStatus === "pending")
+                    {contributions.filter((c) => c.paidStatus !== "paid")
                       .length === 0 && (
                       <div className="text-center py-4 text-gray-500">
                         No pending contributions to approve
@@ -1008,10 +1047,7 @@ export default function ContributionTracking({ user }: Props) {
                 <CardTitle>Record My Contribution</CardTitle>
                 <CardDescription>
                   Record your personal contribution for{" "}
-                  {new Date(selectedMonth + "-01").toLocaleDateString("en-US", {
-                    month: "long",
-                    year: "numeric",
-                  })}
+                  {monthName}
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -1028,7 +1064,7 @@ export default function ContributionTracking({ user }: Props) {
                           amount: e.target.value,
                         })
                       }
-                      placeholder="2000"
+                      placeholder="Amount due"
                     />
                   </div>
                   <div className="space-y-2">
@@ -1081,7 +1117,7 @@ export default function ContributionTracking({ user }: Props) {
                     onClick={() => {
                       setShowAdminContributionForm(false);
                       setAdminContributionData({
-                        amount: "2000",
+                        amount: "",
                         paymentMethod: "cash",
                         notes: "",
                       });
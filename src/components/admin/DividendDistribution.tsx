@@ -0,0 +1,375 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TableSkeleton } from "@/components/ui/loading-skeletons";
+import { Calculator, Send } from "lucide-react";
+import { showToast } from "@/lib/toast";
+import { apiRequest, formatCurrency, formatDate } from "@/lib/utils";
+import { COMMUNITY_CONFIG } from "@/config/community";
+
+interface MemberShare {
+  userId: string;
+  name: string;
+  memberId: string;
+  weightedAverageBalance: number;
+  closingBalance: number;
+  sharePercentage: number;
+  amount: number;
+}
+
+interface DividendPreview {
+  year: number;
+  repaymentInterest: number;
+  historicalInterest: number;
+  penaltiesCollected: number;
+  totalIncome: number;
+  reservePercentage: number;
+  reserveAmount: number;
+  distributableAmount: number;
+  totalWeightedBalance: number;
+  shares: MemberShare[];
+  alreadyDistributed: boolean;
+}
+
+interface Distribution {
+  _id: string;
+  year: number;
+  totalIncome: number;
+  reservePercentage: number;
+  reserveAmount: number;
+  distributedAmount: number;
+  memberCount: number;
+  postedBy?: { name: string };
+  postedDate: string;
+  notes?: string;
+}
+
+export default function DividendDistribution() {
+  const [year, setYear] = useState(String(new Date().getFullYear() - 1));
+  const [reservePercentage, setReservePercentage] = useState(
+    String(COMMUNITY_CONFIG.DIVIDEND_RULES.DEFAULT_RESERVE_PERCENTAGE)
+  );
+  const [notes, setNotes] = useState("");
+  const [preview, setPreview] = useState<DividendPreview | null>(null);
+  const [distributions, setDistributions] = useState<Distribution[]>([]);
+  const [loadingPreview, setLoadingPreview] = useState(false);
+  const [loadingHistory, setLoadingHistory] = useState(true);
+  const [posting, setPosting] = useState(false);
+
+  const loadDistributions = useCallback(async () => {
+    setLoadingHistory(true);
+    try {
+      const result = await apiRequest<Distribution[]>(
+        "/api/dividends/distributions"
+      );
+      if (result.success && result.data) {
+        setDistributions(result.data);
+      }
+    } finally {
+      setLoadingHistory(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDistributions();
+  }, [loadDistributions]);
+
+  const loadPreview = async () => {
+    setLoadingPreview(true);
+    try {
+      const params = new URLSearchParams({ year, reservePercentage });
+      const result = await apiRequest<DividendPreview>(
+        `/api/dividends/preview?${params.toString()}`
+      );
+
+      if (result.success && result.data) {
+        setPreview(result.data);
+      } else {
+        setPreview(null);
+        showToast.error("Failed to preview dividends", result.message);
+      }
+    } finally {
+      setLoadingPreview(false);
+    }
+  };
+
+  const postDistribution = async () => {
+    if (!preview) return;
+
+    const confirmed = window.confirm(
+      `Post ${formatCurrency(preview.distributableAmount)} in dividends for ${preview.year} to ${preview.shares.length} members? This cannot be undone.`
+    );
+    if (!confirmed) return;
+
+    setPosting(true);
+    try {
+      const result = await apiRequest("/api/dividends/distributions", {
+        method: "POST",
+        body: JSON.stringify({
+          year: preview.year,
+          reservePercentage: preview.reservePercentage,
+          notes,
+        }),
+      });
+
+      if (result.success) {
+        showToast.success("Dividends posted", result.message);
+        setPreview(null);
+        setNotes("");
+        loadDistributions();
+      } else {
+        showToast.error("Failed to post dividends", result.message);
+      }
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="mobile-heading">Dividend Distribution</h2>
+        <p className="text-muted-foreground text-sm sm:text-base">
+          Share the year&apos;s interest and penalty income with members by
+          their average savings
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Preview Distribution</CardTitle>
+          <CardDescription>
+            Shares are weighted by each member&apos;s paid savings at every
+            month-end of the year
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="dividend-year">Year</Label>
+              <Input
+                id="dividend-year"
+                type="number"
+                value={year}
+                max={new Date().getFullYear()}
+                onChange={(e) => setYear(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dividend-reserve">Reserve (%)</Label>
+              <Input
+                id="dividend-reserve"
+                type="number"
+                min="0"
+                max="100"
+                step="0.5"
+                value={reservePercentage}
+                onChange={(e) => setReservePercentage(e.target.value)}
+              />
+            </div>
+            <Button onClick={loadPreview} disabled={loadingPreview}>
+              <Calculator className="h-4 w-4 mr-2" />
+              {loadingPreview ? "Calculating..." : "Preview"}
+            </Button>
+          </div>
+
+          {preview && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div className="p-3 border rounded-lg">
+                  <p className="text-muted-foreground">Loan Interest</p>
+                  <p className="font-semibold">
+                    {formatCurrency(
+                      preview.repaymentInterest + preview.historicalInterest
+                    )}
+                  </p>
+                </div>
+                <div className="p-3 border rounded-lg">
+                  <p className="text-muted-foreground">Penalties</p>
+                  <p className="font-semibold">
+                    {formatCurrency(preview.penaltiesCollected)}
+                  </p>
+                </div>
+                <div className="p-3 border rounded-lg">
+                  <p className="text-muted-foreground">
+                    Reserve ({preview.reservePercentage}%)
+                  </p>
+                  <p className="font-semibold">
+                    {formatCurrency(preview.reserveAmount)}
+                  </p>
+                </div>
+                <div className="p-3 border rounded-lg bg-green-50">
+                  <p className="text-muted-foreground">To Distribute</p>
+                  <p className="font-semibold text-green-700">
+                    {formatCurrency(preview.distributableAmount)}
+                  </p>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Member</TableHead>
+                      <TableHead>Avg. Balance</TableHead>
+                      <TableHead>Year-end Balance</TableHead>
+                      <TableHead>Share</TableHead>
+                      <TableHead>Dividend</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.shares.length > 0 ? (
+                      preview.shares.map((share) => (
+                        <TableRow key={share.userId}>
+                          <TableCell className="font-medium">
+                            {share.name} ({share.memberId})
+                          </TableCell>
+                          <TableCell>
+                            {formatCurrency(share.weightedAverageBalance)}
+                          </TableCell>
+                          <TableCell>
+                            {formatCurrency(share.closingBalance)}
+                          </TableCell>
+                          <TableCell>{share.sharePercentage.toFixed(2)}%</TableCell>
+                          <TableCell className="font-semibold">
+                            {formatCurrency(share.amount)}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell
+                          colSpan={5}
+                          className="text-center py-6 text-muted-foreground"
+                        >
+                          No paid savings found for {preview.year}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {preview.alreadyDistributed ? (
+                <p className="text-sm text-orange-600">
+                  Dividends for {preview.year} have already been posted.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="dividend-notes">Notes</Label>
+                    <Textarea
+                      id="dividend-notes"
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      placeholder="e.g. Approved at annual general meeting"
+                    />
+                  </div>
+                  <Button
+                    onClick={postDistribution}
+                    disabled={
+                      posting ||
+                      preview.distributableAmount <= 0 ||
+                      preview.shares.length === 0 ||
+                      preview.year >= new Date().getFullYear()
+                    }
+                  >
+                    <Send className="h-4 w-4 mr-2" />
+                    {posting ? "Posting..." : "Post Dividends"}
+                  </Button>
+                  {preview.year >= new Date().getFullYear() && (
+                    <p className="text-xs text-muted-foreground">
+                      Dividends can be posted once the year has ended.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Past Distributions</CardTitle>
+          <CardDescription>Dividends already credited to members</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loadingHistory ? (
+            <TableSkeleton rows={3} columns={6} />
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Year</TableHead>
+                    <TableHead>Income</TableHead>
+                    <TableHead>Reserve</TableHead>
+                    <TableHead>Distributed</TableHead>
+                    <TableHead>Members</TableHead>
+                    <TableHead>Posted</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {distributions.length > 0 ? (
+                    distributions.map((distribution) => (
+                      <TableRow key={distribution._id}>
+                        <TableCell className="font-medium">
+                          {distribution.year}
+                        </TableCell>
+                        <TableCell>
+                          {formatCurrency(distribution.totalIncome)}
+                        </TableCell>
+                        <TableCell>
+                          {formatCurrency(distribution.reserveAmount)} (
+                          {distribution.reservePercentage}%)
+                        </TableCell>
+                        <TableCell>
+                          {formatCurrency(distribution.distributedAmount)}
+                        </TableCell>
+                        <TableCell>{distribution.memberCount}</TableCell>
+                        <TableCell>
+                          {formatDate(distribution.postedDate)}
+                          {distribution.postedBy &&
+                            ` by ${distribution.postedBy.name}`}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell
+                        colSpan={6}
+                        className="text-center py-6 text-muted-foreground"
+                      >
+                        No dividends distributed yet
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -13,7 +13,7 @@ import {
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { X, Eye, EyeOff } from "lucide-react";
-import { IUser, IMemberEdit } from "@/types";
+import { IUser, IMemberEdit, NotificationLanguage } from "@/types";
 import { showToast } from "@/lib/toast";
 import { formatDate, apiRequest } from "@/lib/utils";
 
@@ -30,6 +30,7 @@ interface FormData {
     password: string;
     confirmPassword: string;
     isActive: boolean;
+    preferredLanguage: NotificationLanguage;
 }
 
 interface FormErrors {
@@ -43,7 +44,8 @@ export default function EditMemberForm({ member, onSuccess, onCancel }: EditMemb
         phone: member.phone || '',
         password: '',
         confirmPassword: '',
-        isActive: member.isActive
+        isActive: member.isActive,
+        preferredLanguage: member.preferredLanguage || 'en'
     });
 
     const [errors, setErrors] = useState<FormErrors>({});
@@ -125,6 +127,10 @@ export default function EditMemberForm({ member, onSuccess, onCancel }: EditMemb
                 updateData.isActive = formData.isActive;
             }
 
+            if (formData.preferredLanguage !== (member.preferredLanguage || 'en')) {
+                updateData.preferredLanguage = formData.preferredLanguage;
+            }
+
             // Only make API call if there are changes
             if (Object.keys(updateData).length === 0) {
                 showToast.info('No changes detected');
@@ -235,6 +241,19 @@ export default function EditMemberForm({ member, onSuccess, onCancel }: EditMemb
                                 />
                                 {errors.phone && <p className="text-sm text-red-600 mt-1">{errors.phone}</p>}
                             </div>
+
+                            <div>
+                                <Label htmlFor="preferredLanguage">Notification Language</Label>
+                                <select
+                                    id="preferredLanguage"
+                                    value={formData.preferredLanguage}
+                                    onChange={(e) => handleInputChange('preferredLanguage', e.target.value)}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    <option value="en">English</option>
+                                    <option value="ne">नेपाली (Nepali)</option>
+                                </select>
+                            </div>
                         </div>
                     </div>
 
@@ -31,7 +31,9 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { apiRequest, formatCurrency } from "@/lib/utils";
-import { COMMUNITY_CONFIG, formatCommunityAge } from "@/config/community";
+import { formatCommunityAge } from "@/config/community";
+import { useCommunitySettings } from "@/hooks/useCommunitySettings";
+import { formatContributionMonth } from "@/lib/periods";
 import { showToast, historicalToasts } from "@/lib/toast";
 
 interface User {
@@ -58,6 +60,7 @@ interface MonthInfo {
   month: string;
   year: number;
   monthName: string;
+  amount?: number; // Scheduled amount, on missing months
 }
 
 interface HistoricalContributionData {
@@ -70,6 +73,7 @@ interface HistoricalContributionData {
 
 export default function HistoricalContributions() {
   const searchParams = useSearchParams();
+  const { settings } = useCommunitySettings();
   const [users, setUsers] = useState<User[]>([]);
   const [selectedUserId, setSelectedUserId] = useState<string>("");
   const [userContributionData, setUserContributionData] =
@@ -77,14 +81,19 @@ export default function HistoricalContributions() {
   const [loading, setLoading] = useState(false);
   const [usersLoading, setUsersLoading] = useState(true);
   const [selectedMonths, setSelectedMonths] = useState<Set<string>>(new Set());
-  const [contributionAmount, setContributionAmount] = useState(
-    COMMUNITY_CONFIG.DEFAULT_CONTRIBUTION_AMOUNT.toString()
-  );
+  // Empty means each month is created at its scheduled amount
+  const [contributionAmount, setContributionAmount] = useState("");
   const [paymentMethod, setPaymentMethod] = useState("cash");
   const [notes, setNotes] = useState("");
   const [markAsPaid, setMarkAsPaid] = useState(true);
   const [processing, setProcessing] = useState(false);
 
+  const openingDateLabel = settings.openingDate.toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+
   const loadUsers = useCallback(async () => {
     setUsersLoading(true);
     try {
@@ -173,6 +182,12 @@ export default function HistoricalContributions() {
     }
   };
 
+  const selectedTotal = parseFloat(contributionAmount)
+    ? selectedMonths.size * parseFloat(contributionAmount)
+    : (userContributionData?.missingMonths || [])
+      .filter((m) => selectedMonths.has(m.month))
+      .reduce((sum, m) => sum + (m.amount || 0), 0);
+
   const createHistoricalContributions = async () => {
     if (!selectedUserId || selectedMonths.size === 0) {
       showToast.warning(
@@ -189,9 +204,7 @@ export default function HistoricalContributions() {
         body: JSON.stringify({
           userId: selectedUserId,
           months: Array.from(selectedMonths),
-          amount:
-            parseFloat(contributionAmount) ||
-            COMMUNITY_CONFIG.DEFAULT_CONTRIBUTION_AMOUNT,
+          amount: parseFloat(contributionAmount) || undefined,
           paymentMethod,
           notes: notes.trim(),
           markAsPaid,
@@ -248,25 +261,23 @@ export default function HistoricalContributions() {
             Manage catch-up contributions for all members. All members must
             contribute from{" "}
             <span className="font-semibold">
-              {COMMUNITY_CONFIG.OPENING_DATE.toLocaleDateString("en-US", {
-                month: "long",
-                day: "numeric",
-                year: "numeric",
-              })}
+              {openingDateLabel}
             </span>{" "}
             (community opening date) regardless of when they joined.
           </p>
           <p className="text-sm text-muted-foreground mt-1">
-            Community has been active for {formatCommunityAge()}
+            Community has been active for {formatCommunityAge(settings.openingDate)}
           </p>
           <div className="mt-3 p-3 bg-blue-50 rounded-lg text-sm">
             <p className="font-medium text-blue-900">Policy Examples:</p>
             <ul className="text-blue-800 mt-1 space-y-1">
               <li>
-                • All members contribute from Sept 15, 2023 (community opening)
+                • All members contribute from {openingDateLabel} (community
+                opening)
               </li>
               <li>
-                • New members must catch up on all months from Sept 15, 2023
+                • New members must catch up on all months from{" "}
+                {openingDateLabel}
               </li>
               <li>• All members contribute up to current month</li>
             </ul>
@@ -410,7 +421,7 @@ export default function HistoricalContributions() {
                     {/* Contribution Settings */}
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                       <div className="space-y-2">
-                        <Label htmlFor="amount">Amount (NPR)</Label>
+                        <Label htmlFor="amount">Amount (NPR, optional)</Label>
                         <Input
                           id="amount"
                           type="number"
@@ -418,8 +429,12 @@ export default function HistoricalContributions() {
                           onChange={(e) =>
                             setContributionAmount(e.target.value)
                           }
-                          placeholder={COMMUNITY_CONFIG.DEFAULT_CONTRIBUTION_AMOUNT.toString()}
+                          placeholder="Scheduled amount"
                         />
+                        <p className="text-xs text-muted-foreground">
+                          Overrides the scheduled amount for every selected
+                          month
+                        </p>
                       </div>
                       <div className="space-y-2">
                         <Label htmlFor="payment-method">Payment Method</Label>
@@ -483,11 +498,7 @@ export default function HistoricalContributions() {
                           </p>
                           <p className="text-sm text-muted-foreground">
                             Selected: {selectedMonths.size} | Total:{" "}
-                            {formatCurrency(
-                              selectedMonths.size *
-                              (parseFloat(contributionAmount) ||
-                                COMMUNITY_CONFIG.DEFAULT_CONTRIBUTION_AMOUNT)
-                            )}
+                            {formatCurrency(selectedTotal)}
                           </p>
                         </div>
                         <Button
@@ -524,6 +535,11 @@ export default function HistoricalContributions() {
                                   className="text-sm font-medium cursor-pointer"
                                 >
                                   {monthInfo.monthName}
+                                  {monthInfo.amount !== undefined && (
+                                    <span className="ml-1 text-muted-foreground">
+                                      ({formatCurrency(monthInfo.amount)})
+                                    </span>
+                                  )}
                                 </label>
                               </div>
                             )
@@ -574,12 +590,10 @@ export default function HistoricalContributions() {
                             (contribution) => (
                               <TableRow key={contribution._id}>
                                 <TableCell className="font-medium">
-                                  {new Date(
-                                    contribution.month + "-01"
-                                  ).toLocaleDateString("en-US", {
-                                    month: "long",
-                                    year: "numeric",
-                                  })}
+                                  {formatContributionMonth(
+                                    contribution.month,
+                                    settings.contributionCalendar
+                                  )}
                                 </TableCell>
                                 <TableCell>
                                   {formatCurrency(contribution.amount)}
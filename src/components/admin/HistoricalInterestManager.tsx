@@ -75,6 +75,12 @@ interface SummaryData {
         totalAmount: number;
         count: number;
     }>;
+    fiscalYearTotals: Array<{
+        fiscalYear: number;
+        label: string;
+        totalAmount: number;
+        count: number;
+    }>;
 }
 
 export default function HistoricalInterestManager() {
@@ -475,6 +481,33 @@ export default function HistoricalInterestManager() {
                                 </CardContent>
                             </Card>
 
+                            {/* Totals by Nepali fiscal year */}
+                            {summaryData.fiscalYearTotals.length > 0 && (
+                                <Card>
+                                    <CardHeader>
+                                        <CardTitle>Interest by Fiscal Year</CardTitle>
+                                        <CardDescription>Shrawan to Ashadh</CardDescription>
+                                    </CardHeader>
+                                    <CardContent>
+                                        <div className="space-y-4">
+                                            {summaryData.fiscalYearTotals.map((fy) => (
+                                                <div key={fy.fiscalYear} className="flex justify-between items-center">
+                                                    <div className="flex items-center gap-2">
+                                                        <Badge variant="outline">FY {fy.label}</Badge>
+                                                        <span className="text-sm text-muted-foreground">
+                                                            ({fy.count} records)
+                                                        </span>
+                                                    </div>
+                                                    <span className="font-medium">
+                                                        {formatCurrency(fy.totalAmount)}
+                                                    </span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </CardContent>
+                                </Card>
+                            )}
+
                             {/* Recent Records */}
                             <Card>
                                 <CardHeader>
@@ -0,0 +1,391 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TableSkeleton } from "@/components/ui/loading-skeletons";
+import { showToast } from "@/lib/toast";
+import { apiRequest, formatDateTime } from "@/lib/utils";
+
+type JobRunStatus = "running" | "succeeded" | "failed";
+
+interface JobRun {
+  _id: string;
+  jobName: string;
+  runKey: string;
+  trigger: "schedule" | "manual";
+  status: JobRunStatus;
+  attempts: number;
+  startedAt: string;
+  finishedAt?: string;
+  result?: Record<string, unknown>;
+  error?: string;
+  triggeredBy?: { name: string };
+}
+
+interface Job {
+  name: string;
+  label: string;
+  description: string;
+  enabled: boolean;
+  frequency: "hourly" | "daily" | "monthly";
+  dayOfMonth?: number;
+  hour: number;
+  nextRunAt?: string;
+  lastRun?: JobRun;
+}
+
+const statusStyles: Record<JobRunStatus, string> = {
+  running: "bg-blue-100 text-blue-800",
+  succeeded: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+const describeSchedule = (job: Job) => {
+  if (job.frequency === "hourly") {
+    return "Every hour";
+  }
+  const time = `${String(job.hour).padStart(2, "0")}:00`;
+  return job.frequency === "monthly"
+    ? `Monthly on day ${job.dayOfMonth} at ${time}`
+    : `Daily at ${time}`;
+};
+
+// "contributionsCreated: 12" style summary of a run's result
+const describeResult = (run: JobRun) => {
+  if (run.error) {
+    return run.error;
+  }
+  if (!run.result) {
+    return "-";
+  }
+  return Object.entries(run.result)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join(", ");
+};
+
+const StatusBadge = ({ status }: { status: JobRunStatus }) => (
+  <Badge className={statusStyles[status]}>{status}</Badge>
+);
+
+/**
+ * Recurring jobs the server runs on its own: their schedule, last result and
+ * run history, with a way to run one straight away
+ */
+export default function JobManagement() {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [runningJob, setRunningJob] = useState<string | null>(null);
+  const [editingJob, setEditingJob] = useState<string | null>(null);
+  const [scheduleForm, setScheduleForm] = useState({ dayOfMonth: "", hour: "" });
+
+  const loadJobs = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await apiRequest<{ jobs: Job[]; runs: JobRun[] }>(
+        "/api/jobs"
+      );
+      if (result.success && result.data) {
+        setJobs(result.data.jobs);
+        setRuns(result.data.runs);
+      }
+    } catch (error) {
+      console.error("Error loading jobs:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  const updateJob = async (job: Job, updates: Record<string, unknown>) => {
+    const result = await apiRequest(`/api/jobs/${job.name}`, {
+      method: "PUT",
+      body: JSON.stringify(updates),
+    });
+
+    if (result.success) {
+      showToast.success("Job updated", result.message);
+      setEditingJob(null);
+      loadJobs();
+    } else {
+      showToast.error(
+        "Failed to update job",
+        result.error || result.message || "Please try again"
+      );
+    }
+  };
+
+  const runJob = async (job: Job) => {
+    setRunningJob(job.name);
+    try {
+      const result = await apiRequest<JobRun>(`/api/jobs/${job.name}/run`, {
+        method: "POST",
+      });
+
+      if (result.success) {
+        showToast.success(
+          result.message || "Job finished",
+          result.data ? describeResult(result.data) : undefined
+        );
+      } else {
+        showToast.error(
+          "Job failed",
+          result.error || result.message || "Please try again"
+        );
+      }
+      loadJobs();
+    } catch (error) {
+      console.error("Error running job:", error);
+      showToast.error("Job failed");
+    } finally {
+      setRunningJob(null);
+    }
+  };
+
+  const startEditing = (job: Job) => {
+    setEditingJob(job.name);
+    setScheduleForm({
+      dayOfMonth: job.dayOfMonth ? String(job.dayOfMonth) : "",
+      hour: String(job.hour),
+    });
+  };
+
+  const jobLabel = (name: string) =>
+    jobs.find((job) => job.name === name)?.label || name;
+
+  if (loading && jobs.length === 0) {
+    return <TableSkeleton rows={3} columns={5} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Scheduled Jobs</CardTitle>
+          <CardDescription>
+            The server checks for due jobs every minute. Each job runs once per
+            period; a failed run is retried up to three times.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Schedule</TableHead>
+                  <TableHead>Last Run</TableHead>
+                  <TableHead>Next Run</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => (
+                  <TableRow key={job.name}>
+                    <TableCell>
+                      <div className="font-medium">{job.label}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {job.description}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {editingJob === job.name ? (
+                        <div className="flex items-center gap-2">
+                          {job.frequency === "monthly" && (
+                            <Input
+                              type="number"
+                              min="1"
+                              max="28"
+                              className="w-20"
+                              aria-label="Day of month"
+                              value={scheduleForm.dayOfMonth}
+                              onChange={(e) =>
+                                setScheduleForm({
+                                  ...scheduleForm,
+                                  dayOfMonth: e.target.value,
+                                })
+                              }
+                            />
+                          )}
+                          <Input
+                            type="number"
+                            min="0"
+                            max="23"
+                            className="w-20"
+                            aria-label="Hour"
+                            value={scheduleForm.hour}
+                            onChange={(e) =>
+                              setScheduleForm({
+                                ...scheduleForm,
+                                hour: e.target.value,
+                              })
+                            }
+                          />
+                          <Button
+                            size="sm"
+                            onClick={() =>
+                              updateJob(job, {
+                                dayOfMonth: scheduleForm.dayOfMonth || undefined,
+                                hour: scheduleForm.hour,
+                              })
+                            }
+                          >
+                            Save
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setEditingJob(null)}
+                          >
+                            Cancel
+                          </Button>
+                        </div>
+                      ) : (
+                        <div>
+                          <div>{describeSchedule(job)}</div>
+                          {!job.enabled && (
+                            <Badge variant="secondary">Paused</Badge>
+                          )}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {job.lastRun ? (
+                        <div className="space-y-1">
+                          <StatusBadge status={job.lastRun.status} />
+                          <div className="text-xs text-muted-foreground">
+                            {formatDateTime(job.lastRun.startedAt)}
+                          </div>
+                          <div className="text-xs">
+                            {describeResult(job.lastRun)}
+                          </div>
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">Never</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {job.nextRunAt ? formatDateTime(job.nextRunAt) : "-"}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => runJob(job)}
+                          disabled={runningJob !== null}
+                        >
+                          {runningJob === job.name ? "Running..." : "Run Now"}
+                        </Button>
+                        {job.frequency !== "hourly" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => startEditing(job)}
+                          >
+                            Reschedule
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() =>
+                            updateJob(job, { enabled: !job.enabled })
+                          }
+                        >
+                          {job.enabled ? "Pause" : "Resume"}
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Run History</CardTitle>
+          <CardDescription>The latest 50 runs across all jobs</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Triggered By</TableHead>
+                  <TableHead>Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.length > 0 ? (
+                  runs.map((run) => (
+                    <TableRow key={run._id}>
+                      <TableCell className="font-medium">
+                        {jobLabel(run.jobName)}
+                      </TableCell>
+                      <TableCell>
+                        {run.trigger === "manual" ? "-" : run.runKey}
+                      </TableCell>
+                      <TableCell>
+                        <StatusBadge status={run.status} />
+                        {run.attempts > 1 && (
+                          <div className="text-xs text-muted-foreground">
+                            Attempt {run.attempts}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatDateTime(run.startedAt)}</TableCell>
+                      <TableCell>
+                        {run.trigger === "manual"
+                          ? run.triggeredBy?.name || "Admin"
+                          : "Schedule"}
+                      </TableCell>
+                      <TableCell className="text-sm max-w-xs">
+                        {describeResult(run)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell
+                      colSpan={6}
+                      className="text-center py-6 text-muted-foreground"
+                    >
+                      No jobs have run yet
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,15 +1,30 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Textarea } from "@/components/ui/textarea";
 import { apiRequest } from "@/lib/utils";
 import { UserListSkeleton } from "@/components/ui/loading-skeletons";
-import { showToast, loanToasts } from "@/lib/toast";
+import { showToast } from "@/lib/toast";
+import EligibilityChecklist, {
+  Eligibility,
+} from "@/components/shared/EligibilityChecklist";
+
+interface PendingAction {
+  action: "approve" | "disburse";
+  requestedBy: { _id: string; name: string };
+  requestedDate: string;
+  approvedAmount?: number;
+  interestRate?: number;
+  repaymentPlan?: {
+    termMonths: number;
+    frequency: string;
+    method: string;
+  };
+  disbursementDate?: string;
+}
 
 interface Loan {
   _id: string;
@@ -25,106 +40,101 @@ interface Loan {
   status: string;
   approvedAmount?: number;
   interestRate: number;
-  notes?: string;
+  pendingAction: PendingAction;
+}
+
+interface Props {
+  currentUserId: string;
+  onProcessed?: () => void;
 }
 
-export default function LoanApproval() {
-  const [pendingLoans, setPendingLoans] = useState<Loan[]>([]);
+/**
+ * Loan approvals and disbursements proposed by one admin that need a second,
+ * different admin to confirm before they take effect
+ */
+export default function LoanApproval({ currentUserId, onProcessed }: Props) {
+  const [awaitingLoans, setAwaitingLoans] = useState<Loan[]>([]);
   const [loading, setLoading] = useState(true);
   const [processingId, setProcessingId] = useState<string | null>(null);
-  const [approvalData, setApprovalData] = useState<{
-    [key: string]: {
-      approvedAmount: string;
-      notes: string;
-    };
-  }>({});
+  const [eligibilityByLoan, setEligibilityByLoan] = useState<
+    Record<string, Eligibility>
+  >({});
 
-  useEffect(() => {
-    loadPendingLoans();
-  }, []);
-
-  const loadPendingLoans = async () => {
+  const loadAwaitingLoans = useCallback(async () => {
     try {
-      const result = await apiRequest<{ data: Loan[] }>(
-        "/api/loans?status=pending"
+      const result = await apiRequest<Loan[]>(
+        "/api/loans?awaitingConfirmation=true&limit=50"
       );
-      if (result.success && result.data && result.data.data) {
-        setPendingLoans(result.data.data);
+      if (result.success && result.data) {
+        setAwaitingLoans(result.data);
+
+        // Approvals are re-checked against the rules on confirmation
+        const approvals = result.data.filter(
+          (loan) => loan.pendingAction.action === "approve"
+        );
+        const checks = await Promise.all(
+          approvals.map((loan) =>
+            apiRequest<Eligibility>(`/api/loans/eligibility?loanId=${loan._id}`)
+          )
+        );
+        const byLoan: Record<string, Eligibility> = {};
+        checks.forEach((check, index) => {
+          if (check.success && check.data) {
+            byLoan[approvals[index]._id] = check.data;
+          }
+        });
+        setEligibilityByLoan(byLoan);
       }
     } catch (error) {
-      console.error("Error loading pending loans:", error);
+      console.error("Error loading loans awaiting confirmation:", error);
     } finally {
       setLoading(false);
     }
-  };
+  }, []);
 
-  const handleApprovalDataChange = (
-    loanId: string,
-    field: string,
-    value: string
-  ) => {
-    setApprovalData((prev) => ({
-      ...prev,
-      [loanId]: {
-        ...prev[loanId],
-        [field]: value,
-      },
-    }));
-  };
+  useEffect(() => {
+    loadAwaitingLoans();
+  }, [loadAwaitingLoans]);
 
-  const handleLoanDecision = async (
-    loanId: string,
-    decision: "approve" | "reject"
+  const handleDecision = async (
+    loan: Loan,
+    decision: "confirm" | "decline"
   ) => {
-    setProcessingId(loanId);
-
-    try {
-      const loan = pendingLoans.find((l) => l._id === loanId);
-      const approvalInfo = approvalData[loanId] || {
-        approvedAmount: "",
-        notes: "",
-      };
-
-      const payload: any = {
-        status: decision === "approve" ? "approved" : "rejected",
-        notes: approvalInfo.notes,
-      };
+    if (
+      decision === "decline" &&
+      !window.confirm(
+        `Decline the ${loan.pendingAction.action} proposed by ${loan.pendingAction.requestedBy.name}?`
+      )
+    ) {
+      return;
+    }
 
-      if (decision === "approve") {
-        payload.approvedAmount =
-          parseFloat(approvalInfo.approvedAmount) || loan?.requestedAmount;
-        payload.interestRate = 16; // 16% interest rate
-      }
+    setProcessingId(loan._id);
 
-      const result = await apiRequest(`/api/loans/${loanId}`, {
-        method: "PATCH",
-        body: JSON.stringify(payload),
+    try {
+      const result = await apiRequest(`/api/loans/${loan._id}/confirm`, {
+        method: "POST",
+        body: JSON.stringify({ decision }),
       });
 
       if (result.success) {
-        // Remove the loan from pending list
-        setPendingLoans((prev) => prev.filter((l) => l._id !== loanId));
-        // Clear approval data for this loan
-        setApprovalData((prev) => {
-          const newData = { ...prev };
-          delete newData[loanId];
-          return newData;
-        });
-
-        // Show success toast
-        const borrowerName = loan?.userId?.name || "Unknown borrower";
-        loanToasts.processed(decision as "approved" | "rejected", borrowerName);
+        setAwaitingLoans((prev) => prev.filter((l) => l._id !== loan._id));
+        showToast.success(
+          decision === "confirm" ? "Loan action confirmed" : "Loan action declined",
+          result.message
+        );
+        onProcessed?.();
       } else {
         showToast.error(
-          "Failed to process loan",
+          "Failed to process confirmation",
           result.error || result.message || "Please try again"
         );
       }
     } catch (error) {
-      console.error("Error processing loan:", error);
+      console.error("Error processing confirmation:", error);
       showToast.error(
-        "Error processing loan",
-        "An error occurred while processing the loan"
+        "Error processing confirmation",
+        "An error occurred while processing the confirmation"
       );
     } finally {
       setProcessingId(null);
@@ -146,31 +156,19 @@ export default function LoanApproval() {
     return <UserListSkeleton />;
   }
 
-  if (pendingLoans?.length === 0) {
-    return (
-      <Card>
-        <CardContent className="p-6 text-center">
-          <p className="text-muted-foreground">
-            No pending loan requests at this time.
-          </p>
-        </CardContent>
-      </Card>
-    );
-  }
-
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
-        <h2 className="text-2xl font-bold">Loan Approvals</h2>
-        <Badge variant="secondary">{pendingLoans?.length || 0} pending</Badge>
+        <h2 className="text-2xl font-bold">Awaiting Second Approval</h2>
+        <Badge variant="secondary">{awaitingLoans.length} pending</Badge>
       </div>
 
-      {pendingLoans && pendingLoans?.length > 0 ? (
-        pendingLoans.map((loan) => {
-          const approval = approvalData[loan._id] || {
-            approvedAmount: "",
-            notes: "",
-          };
+      {awaitingLoans.length > 0 ? (
+        awaitingLoans.map((loan) => {
+          const pending = loan.pendingAction;
+          const isOwnProposal = pending.requestedBy._id === currentUserId;
+          const amount =
+            pending.approvedAmount ?? loan.approvedAmount ?? loan.requestedAmount;
 
           return (
             <Card key={loan._id} className="w-full">
@@ -181,24 +179,52 @@ export default function LoanApproval() {
                       {loan.userId.name} ({loan.userId.memberId})
                     </CardTitle>
                     <p className="text-sm text-muted-foreground">
-                      {loan.userId.email} • Requested{" "}
-                      {formatDate(loan.requestDate)}
+                      Proposed by {pending.requestedBy.name} on{" "}
+                      {formatDate(pending.requestedDate)}
                     </p>
                   </div>
-                  <Badge>{loan.status}</Badge>
+                  <Badge
+                    className={
+                      pending.action === "disburse"
+                        ? "bg-purple-100 text-purple-800"
+                        : "bg-blue-100 text-blue-800"
+                    }
+                  >
+                    {pending.action === "disburse" ? "Disbursement" : "Approval"}
+                  </Badge>
                 </div>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="grid grid-cols-2 gap-4 text-sm">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                   <div>
                     <Label className="font-medium">Requested Amount</Label>
+                    <p>{formatCurrency(loan.requestedAmount)}</p>
+                  </div>
+                  <div>
+                    <Label className="font-medium">
+                      {pending.action === "disburse"
+                        ? "Amount to Disburse"
+                        : "Proposed Amount"}
+                    </Label>
                     <p className="text-lg font-semibold">
-                      {formatCurrency(loan.requestedAmount)}
+                      {formatCurrency(amount)}
                     </p>
                   </div>
                   <div>
                     <Label className="font-medium">Interest Rate</Label>
-                    <p className="text-lg font-semibold">16% per annum</p>
+                    <p>{pending.interestRate ?? loan.interestRate}% per annum</p>
+                  </div>
+                  <div>
+                    <Label className="font-medium">
+                      {pending.repaymentPlan ? "Repayment Plan" : "Date"}
+                    </Label>
+                    <p>
+                      {pending.repaymentPlan
+                        ? `${pending.repaymentPlan.termMonths} months, ${pending.repaymentPlan.frequency}`
+                        : pending.disbursementDate
+                        ? formatDate(pending.disbursementDate)
+                        : "On confirmation"}
+                    </p>
                   </div>
                 </div>
 
@@ -209,63 +235,33 @@ export default function LoanApproval() {
                   </p>
                 </div>
 
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor={`approved-amount-${loan._id}`}>
-                      Approved Amount (leave empty for requested amount)
-                    </Label>
-                    <Input
-                      id={`approved-amount-${loan._id}`}
-                      type="number"
-                      step="0.01"
-                      min="0"
-                      max={loan.requestedAmount}
-                      value={approval.approvedAmount}
-                      onChange={(e) =>
-                        handleApprovalDataChange(
-                          loan._id,
-                          "approvedAmount",
-                          e.target.value
-                        )
-                      }
-                      placeholder={formatCurrency(loan.requestedAmount)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor={`notes-${loan._id}`}>
-                      Notes (optional)
-                    </Label>
-                    <Textarea
-                      id={`notes-${loan._id}`}
-                      rows={2}
-                      value={approval.notes}
-                      onChange={(e) =>
-                        handleApprovalDataChange(
-                          loan._id,
-                          "notes",
-                          e.target.value
-                        )
-                      }
-                      placeholder="Add notes about this decision..."
-                    />
-                  </div>
-                </div>
+                {pending.action === "approve" && eligibilityByLoan[loan._id] && (
+                  <EligibilityChecklist
+                    eligibility={eligibilityByLoan[loan._id]}
+                    compact
+                  />
+                )}
 
-                <div className="flex justify-end space-x-2">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-end gap-2">
+                  {isOwnProposal && (
+                    <p className="text-sm text-muted-foreground sm:mr-auto">
+                      You proposed this. Another admin must confirm it.
+                    </p>
+                  )}
                   <Button
                     variant="outline"
-                    onClick={() => handleLoanDecision(loan._id, "reject")}
+                    onClick={() => handleDecision(loan, "decline")}
                     disabled={processingId === loan._id}
                     className="border-red-300 text-red-600 hover:bg-red-50"
                   >
-                    {processingId === loan._id ? "Processing..." : "Reject"}
+                    {isOwnProposal ? "Withdraw" : "Decline"}
                   </Button>
                   <Button
-                    onClick={() => handleLoanDecision(loan._id, "approve")}
-                    disabled={processingId === loan._id}
+                    onClick={() => handleDecision(loan, "confirm")}
+                    disabled={processingId === loan._id || isOwnProposal}
                     className="bg-green-600 hover:bg-green-700"
                   >
-                    {processingId === loan._id ? "Processing..." : "Approve"}
+                    {processingId === loan._id ? "Processing..." : "Confirm"}
                   </Button>
                 </div>
               </CardContent>
@@ -276,10 +272,10 @@ export default function LoanApproval() {
         <Card>
           <CardContent className="p-6 text-center">
             <div className="text-muted-foreground">
-              <p>No pending loan requests found</p>
+              <p>No loan actions awaiting confirmation</p>
               <p className="text-sm mt-1">
-                Loan requests will appear here when members submit them for
-                approval
+                Large approvals and disbursements appear here until a second
+                admin confirms them
               </p>
             </div>
           </CardContent>
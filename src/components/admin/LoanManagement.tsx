@@ -1,7 +1,6 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import { calculateProratedInterest } from "@/lib/loan-calculations";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -35,8 +34,11 @@ import { UserListSkeleton } from "@/components/ui/loading-skeletons";
 import { showToast, loanToasts } from "@/lib/toast";
 import { CalendarIcon, Plus, Eye, DollarSign, CheckSquare } from "lucide-react";
 import LoanDetails from "@/components/shared/LoanDetails";
+import LoanApproval from "./LoanApproval";
+import GuarantorPicker from "@/components/shared/GuarantorPicker";
 import NepaliDatePicker from "@/components/ui/nepali-date-picker";
 import SearchableSelect from "@/components/ui/searchable-select";
+import { useCommunitySettings } from "@/hooks/useCommunitySettings";
 
 interface User {
   _id: string;
@@ -67,6 +69,43 @@ interface Loan {
   remainingBalance: number;
   notes?: string;
   lastInterestPaidDate?: string;
+  pendingAction?: {
+    action: "approve" | "disburse";
+    requestedBy?: { name: string };
+  };
+  guarantors?: {
+    userId: { _id: string; name: string; memberId: string };
+    amount: number;
+    status: "pending" | "accepted" | "declined";
+    recoveredAmount: number;
+  }[];
+  productTerms?: {
+    name: string;
+    maxTermMonths: number;
+    interestMethod: "equal_principal" | "emi";
+    requiresGuarantor: boolean;
+  };
+  repaymentPlan?: {
+    termMonths: number;
+    frequency: string;
+    method: string;
+  };
+}
+
+interface LoanProduct {
+  _id: string;
+  name: string;
+  interestRate: number;
+  maxTermMonths: number;
+  interestMethod: "equal_principal" | "emi";
+  requiresGuarantor: boolean;
+}
+
+interface LoanAccrual {
+  startDate: string;
+  outstandingPrincipal: number;
+  accruedUnpaidInterest: number;
+  lastInterestPaymentDate?: string;
 }
 
 interface PaginatedResponse<T> {
@@ -95,6 +134,8 @@ export default function LoanManagement({ user }: Props) {
   const [pendingLoans, setPendingLoans] = useState<Loan[]>([]);
   const [activeLoans, setActiveLoans] = useState<Loan[]>([]);
   const [users, setUsers] = useState<User[]>([]);
+  const [loanProducts, setLoanProducts] = useState<LoanProduct[]>([]);
+  const { settings } = useCommunitySettings();
   const [loading, setLoading] = useState(true);
   const [processingId, setProcessingId] = useState<string | null>(null);
 
@@ -125,14 +166,17 @@ export default function LoanManagement({ user }: Props) {
     requestedAmount: "",
     approvedAmount: "",
     purpose: "",
-    interestRate: "16",
+    productId: "",
+    interestRate: String(settings.annualInterestRate),
     approvalDate: "",
     expectedRepaymentDate: "",
     collateral: "",
-    guarantor: "",
-    guarantorContact: "",
+    guarantors: [] as string[],
     notes: "",
     status: "approved", // Direct loans start as approved
+    termMonths: "", // Leave empty for an open-ended loan
+    frequency: "monthly",
+    method: "emi",
   });
 
   // Approval data for pending loans
@@ -140,6 +184,9 @@ export default function LoanManagement({ user }: Props) {
     [key: string]: {
       approvedAmount: string;
       notes: string;
+      termMonths?: string;
+      frequency?: string;
+      method?: string;
     };
   }>({});
 
@@ -147,8 +194,18 @@ export default function LoanManagement({ user }: Props) {
     loadPendingLoans();
     loadActiveLoans(true); // Initial load
     loadUsers();
+    loadLoanProducts();
   }, []);
 
+  // Use the community rate from settings once it loads, unless a product set one
+  useEffect(() => {
+    setCreateLoanData((prev) =>
+      prev.productId
+        ? prev
+        : { ...prev, interestRate: String(settings.annualInterestRate) }
+    );
+  }, [settings.annualInterestRate]);
+
   // Debounced search effect for active loans
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -268,6 +325,35 @@ export default function LoanManagement({ user }: Props) {
     }
   };
 
+  const loadLoanProducts = async () => {
+    try {
+      const result = await apiRequest<LoanProduct[]>("/api/loan-products");
+      if (result.success && result.data) {
+        setLoanProducts(result.data);
+      }
+    } catch (error) {
+      console.error("Error loading loan products:", error);
+    }
+  };
+
+  // Picking a product fills in its rate and interest method
+  const selectCreateLoanProduct = (productId: string) => {
+    const product = loanProducts.find((p) => p._id === productId);
+    setCreateLoanData((prev) => ({
+      ...prev,
+      productId,
+      interestRate: String(
+        product?.interestRate ?? settings.annualInterestRate
+      ),
+      method: product?.interestMethod || prev.method,
+    }));
+  };
+
+  const getCreateLoanInterestRate = () => {
+    const rate = parseFloat(createLoanData.interestRate);
+    return isNaN(rate) ? settings.annualInterestRate : rate;
+  };
+
   const processPendingLoan = async (
     loanId: string,
     decision: "approve" | "reject"
@@ -288,7 +374,17 @@ export default function LoanManagement({ user }: Props) {
       if (decision === "approve") {
         payload.approvedAmount =
           parseFloat(approvalInfo.approvedAmount) || loan?.requestedAmount;
-        payload.interestRate = 16; // 16% interest rate
+
+        if (approvalInfo.termMonths) {
+          payload.repaymentPlan = {
+            termMonths: parseInt(approvalInfo.termMonths),
+            frequency: approvalInfo.frequency || "monthly",
+            method:
+              approvalInfo.method ||
+              loan?.productTerms?.interestMethod ||
+              "emi",
+          };
+        }
       }
 
       const result = await apiRequest(`/api/loans/${loanId}`, {
@@ -296,7 +392,10 @@ export default function LoanManagement({ user }: Props) {
         body: JSON.stringify(payload),
       });
 
-      if (result.success) {
+      if (result.success && (result as any).pendingConfirmation) {
+        showToast.info("Sent for second approval", result.message);
+        loadPendingLoans();
+      } else if (result.success) {
         setPendingLoans((prev) => prev.filter((l) => l._id !== loanId));
         setApprovalData((prev) => {
           const newData = { ...prev };
@@ -326,6 +425,26 @@ export default function LoanManagement({ user }: Props) {
     }
   };
 
+  const resetCreateLoanForm = () => {
+    setCreateLoanData({
+      userId: "",
+      requestedAmount: "",
+      approvedAmount: "",
+      purpose: "",
+      productId: "",
+      interestRate: String(settings.annualInterestRate),
+      approvalDate: "",
+      expectedRepaymentDate: "",
+      collateral: "",
+      guarantors: [],
+      notes: "",
+      status: "approved",
+      termMonths: "",
+      frequency: "monthly",
+      method: "emi",
+    });
+  };
+
   const createDirectLoan = async () => {
     if (
       !createLoanData.userId ||
@@ -356,10 +475,10 @@ export default function LoanManagement({ user }: Props) {
         requestedAmount: parseFloat(createLoanData.requestedAmount),
         purpose: createLoanData.purpose,
         expectedRepaymentDate: createLoanData.expectedRepaymentDate,
-        interestRate: parseFloat(createLoanData.interestRate) || 16,
+        productId: createLoanData.productId || undefined,
+        interestRate: getCreateLoanInterestRate(),
         collateral: createLoanData.collateral,
-        guarantor: createLoanData.guarantor,
-        guarantorContact: createLoanData.guarantorContact,
+        guarantors: createLoanData.guarantors.map((userId) => ({ userId })),
       };
 
       const createResult = await apiRequest("/api/loans", {
@@ -377,16 +496,36 @@ export default function LoanManagement({ user }: Props) {
 
       const newLoanId = (createResult as any).loan._id;
 
+      // Loans with guarantors wait for them to accept before they can be approved
+      if (createLoanData.guarantors.length > 0) {
+        setShowCreateLoanForm(false);
+        resetCreateLoanForm();
+        loadPendingLoans();
+        showToast.info(
+          "Loan created, awaiting guarantors",
+          "Approve it from the Pending tab once every guarantor has accepted"
+        );
+        return;
+      }
+
       // Then approve the loan with custom approval date and amount
       const approvalPayload: any = {
         status: "approved",
         approvedAmount:
           parseFloat(createLoanData.approvedAmount) ||
           parseFloat(createLoanData.requestedAmount),
-        interestRate: parseFloat(createLoanData.interestRate) || 16,
+        interestRate: getCreateLoanInterestRate(),
         notes: createLoanData.notes,
       };
 
+      if (createLoanData.termMonths) {
+        approvalPayload.repaymentPlan = {
+          termMonths: parseInt(createLoanData.termMonths),
+          frequency: createLoanData.frequency,
+          method: createLoanData.method,
+        };
+      }
+
       // If custom approval date is provided, we'll need to update it after approval
       const approveResult = await apiRequest(`/api/loans/${newLoanId}`, {
         method: "PUT",
@@ -394,8 +533,10 @@ export default function LoanManagement({ user }: Props) {
       });
 
       if (approveResult.success) {
+        const awaitingConfirmation = !!(approveResult as any).pendingConfirmation;
+
         // If custom approval date is provided, update it separately
-        if (createLoanData.approvalDate) {
+        if (createLoanData.approvalDate && !awaitingConfirmation) {
           await apiRequest(`/api/loans/${newLoanId}/approval-date`, {
             method: "PATCH",
             body: JSON.stringify({
@@ -405,28 +546,23 @@ export default function LoanManagement({ user }: Props) {
         }
 
         setShowCreateLoanForm(false);
-        setCreateLoanData({
-          userId: "",
-          requestedAmount: "",
-          approvedAmount: "",
-          purpose: "",
-          interestRate: "16",
-          approvalDate: "",
-          expectedRepaymentDate: "",
-          collateral: "",
-          guarantor: "",
-          guarantorContact: "",
-          notes: "",
-          status: "approved",
-        });
+        resetCreateLoanForm();
 
         loadActiveLoans(); // Reload to show the new loan
 
         const selectedUser = users.find((u) => u._id === createLoanData.userId);
-        showToast.success(
-          "Direct loan created successfully",
-          `Loan approved for ${selectedUser?.name || "member"}`
-        );
+        if (awaitingConfirmation) {
+          loadPendingLoans();
+          showToast.info(
+            "Direct loan created, awaiting second approval",
+            "Set the approval date once another admin has confirmed the loan"
+          );
+        } else {
+          showToast.success(
+            "Direct loan created successfully",
+            `Loan approved for ${selectedUser?.name || "member"}`
+          );
+        }
       } else {
         showToast.error(
           "Failed to approve loan",
@@ -455,7 +591,9 @@ export default function LoanManagement({ user }: Props) {
         }),
       });
 
-      if (result.success) {
+      if (result.success && (result as any).pendingConfirmation) {
+        showToast.info("Sent for second approval", result.message);
+      } else if (result.success) {
         loadActiveLoans(); // Reload active loans
         const loan = activeLoans.find((l) => l._id === loanId);
         loanToasts.processed("disbursed", loan?.userId?.name);
@@ -476,45 +614,118 @@ export default function LoanManagement({ user }: Props) {
     }
   };
 
-  const calculateSettlementAmounts = useCallback((loan: Loan, settlementDateStr: string) => {
-    const settlementDateObj = new Date(settlementDateStr);
-    const principal = loan.approvedAmount || loan.requestedAmount;
+  const recoverFromGuarantors = async (loan: Loan) => {
+    setProcessingId(loan._id);
+    try {
+      const preview = await apiRequest<{
+        recoveredAmount: number;
+        remainingPrincipal: number;
+        shares: { name: string; amount: number }[];
+      }>(`/api/loans/${loan._id}/guarantors/recover`);
 
-    // Calculate prorated interest
-    const interestCalc = calculateProratedInterest(loan as any, settlementDateObj);
+      if (!preview.success || !preview.data) {
+        showToast.error(
+          "Could not calculate recovery",
+          preview.message || preview.error || "Please try again"
+        );
+        return;
+      }
+
+      const plan = preview.data;
+      if (plan.recoveredAmount <= 0) {
+        showToast.warning(
+          "Nothing to recover",
+          "The guarantors have no savings left to cover this loan"
+        );
+        return;
+      }
 
-    return {
+      const breakdown = plan.shares
+        .filter((share) => share.amount > 0)
+        .map((share) => `${share.name}: ${formatCurrencyLocal(share.amount)}`)
+        .join("\n");
+      const confirmed = window.confirm(
+        `Recover ${formatCurrencyLocal(plan.recoveredAmount)} for ${loan.userId.name}'s loan from the guarantors' savings?\n\n${breakdown}` +
+          (plan.remainingPrincipal > 0
+            ? `\n\n${formatCurrencyLocal(plan.remainingPrincipal)} of principal will remain outstanding.`
+            : "")
+      );
+      if (!confirmed) {
+        return;
+      }
+
+      const result = await apiRequest(`/api/loans/${loan._id}/guarantors/recover`, {
+        method: "POST",
+        body: JSON.stringify({}),
+      });
+
+      if (result.success) {
+        showToast.success("Recovered from guarantors", result.message);
+        loadActiveLoans(true);
+      } else {
+        showToast.error(
+          "Failed to recover loan",
+          result.error || result.message || "Please try again"
+        );
+      }
+    } catch (error) {
+      console.error("Error recovering from guarantors:", error);
+      showToast.error(
+        "Error recovering loan",
+        "An error occurred while recovering from the guarantors"
+      );
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const loadSettlementCalculations = useCallback(async (loan: Loan, settlementDateStr: string) => {
+    // Interest accrues on the outstanding principal, net of recorded repayments
+    const result = await apiRequest<LoanAccrual>(
+      `/api/loans/${loan._id}/accrual?asOf=${settlementDateStr}`
+    );
+
+    if (!result.success || !result.data) {
+      setSettlementCalculations(null);
+      showToast.error(
+        "Could not calculate settlement",
+        result.message || result.error || "Please try again"
+      );
+      return;
+    }
+
+    const accrual = result.data;
+    const fromDate = new Date(accrual.lastInterestPaymentDate || accrual.startDate);
+    const toDate = new Date(settlementDateStr);
+
+    setSettlementCalculations({
       interestOnly: {
-        amount: interestCalc.interestAmount,
-        fromDate: interestCalc.fromDate.toISOString().split('T')[0],
-        toDate: interestCalc.toDate.toISOString().split('T')[0],
-        monthsElapsed: interestCalc.monthsElapsed
+        amount: accrual.accruedUnpaidInterest,
+        fromDate: fromDate.toISOString().split('T')[0],
+        toDate: settlementDateStr,
+        monthsElapsed: Math.max(0, (toDate.getTime() - fromDate.getTime()) / (1000 * 3600 * 24 * 30.44))
       },
       full: {
-        amount: principal + interestCalc.interestAmount,
-        interestAmount: interestCalc.interestAmount,
-        principalAmount: principal
+        amount: accrual.outstandingPrincipal + accrual.accruedUnpaidInterest,
+        interestAmount: accrual.accruedUnpaidInterest,
+        principalAmount: accrual.outstandingPrincipal
       }
-    };
+    });
   }, []);
 
   const handleSettlement = (loan: Loan) => {
+    setSettlementCalculations(null);
     setSettlementLoan(loan);
     setSettlementDate(new Date().toISOString().split('T')[0]);
     setShowSettlementModal(true);
-
-    // Calculate initial settlement amounts
-    const calculations = calculateSettlementAmounts(loan, new Date().toISOString().split('T')[0]);
-    setSettlementCalculations(calculations);
   };
 
   // Recalculate settlement amounts when date changes
   useEffect(() => {
     if (settlementLoan && settlementDate) {
-      const calculations = calculateSettlementAmounts(settlementLoan, settlementDate);
-      setSettlementCalculations(calculations);
+      loadSettlementCalculations(settlementLoan, settlementDate);
     }
-  }, [settlementLoan, settlementDate, calculateSettlementAmounts]);
+  }, [settlementLoan, settlementDate, loadSettlementCalculations]);
 
   const processSettlement = async (
     settlementType: "interest-only" | "full"
@@ -523,77 +734,20 @@ export default function LoanManagement({ user }: Props) {
 
     setProcessingId(settlementLoan._id);
     try {
-      // First, get the latest loan data to check current interest payment status
-      const loanResult = await apiRequest<any>(
-        `/api/loans/${settlementLoan._id}`
-      );
-      if (!loanResult.success || !(loanResult as any).loan) {
-        showToast.error("Error", "Could not load current loan data");
-        return;
-      }
-
-      const currentLoan = (loanResult as any).loan;
-
-      let paymentAmount = 0;
-      let principalAmount = 0;
-      let interestAmount = 0;
-      let notes = "";
-
-      if (settlementType === "interest-only") {
-        paymentAmount = settlementCalculations.interestOnly.amount;
-        principalAmount = 0;
-        interestAmount = settlementCalculations.interestOnly.amount;
-        const fromDate = new Date(settlementCalculations.interestOnly.fromDate).toLocaleDateString();
-        const toDate = new Date(settlementCalculations.interestOnly.toDate).toLocaleDateString();
-        const monthsElapsed = settlementCalculations.interestOnly.monthsElapsed.toFixed(2);
-        notes = `Interest-only settlement from ${fromDate} to ${toDate} (${monthsElapsed} months)`;
-      } else {
-        // Full settlement
-        paymentAmount = settlementCalculations.full.amount;
-        principalAmount = settlementCalculations.full.principalAmount;
-        interestAmount = settlementCalculations.full.interestAmount;
-        const fromDate = new Date(settlementCalculations.interestOnly.fromDate).toLocaleDateString();
-        const toDate = new Date(settlementCalculations.interestOnly.toDate).toLocaleDateString();
-        notes = `Full loan settlement with prorated interest from ${fromDate} to ${toDate}`;
-      }
-
-      // Record the settlement payment
-      const paymentResult = await apiRequest(
-        `/api/loans/${currentLoan._id}/repayments`,
+      // Amounts are recomputed and recorded atomically on the server
+      const result = await apiRequest<any>(
+        `/api/loans/${settlementLoan._id}/settle`,
         {
           method: "POST",
           body: JSON.stringify({
-            amount: paymentAmount,
-            paymentType:
-              settlementType === "interest-only" ? "interest" : "combined",
-            principalAmount: principalAmount,
-            interestAmount: interestAmount,
-            paymentMethod: "settlement",
-            paymentDate: settlementDate,
-            notes: notes,
+            type: settlementType,
+            settlementDate,
           }),
         }
       );
 
-      if (paymentResult.success) {
-        // Update loan based on settlement type
-        if (settlementType === "full") {
-          await apiRequest(`/api/loans/${currentLoan._id}`, {
-            method: "PUT",
-            body: JSON.stringify({
-              status: "completed",
-              actualRepaymentDate: new Date().toISOString(),
-            }),
-          });
-        } else if (settlementType === "interest-only") {
-          // Update last interest paid date to the settlement date
-          await apiRequest(`/api/loans/${currentLoan._id}`, {
-            method: "PUT",
-            body: JSON.stringify({
-              lastInterestPaidDate: settlementDate,
-            }),
-          });
-        }
+      if (result.success && (result as any).statement) {
+        const statement = (result as any).statement;
 
         setShowSettlementModal(false);
         setSettlementLoan(null);
@@ -603,13 +757,13 @@ export default function LoanManagement({ user }: Props) {
           settlementType === "interest-only" ? "Interest-only" : "Full";
         showToast.success(
           `${settlementTypeName} settlement completed`,
-          `${formatCurrency(paymentAmount)} settlement processed for ${currentLoan.userId.name
-          }`
+          `${formatCurrency(statement.totalPaid)} settlement processed for ${statement.borrower.name
+          } (receipt ${statement.receiptNumber})`
         );
       } else {
         showToast.error(
           "Settlement failed",
-          paymentResult.message || paymentResult.error || "Please try again"
+          result.message || result.error || "Please try again"
         );
       }
     } catch (error) {
@@ -656,6 +810,17 @@ export default function LoanManagement({ user }: Props) {
     }
   };
 
+  const getGuarantorStatusColor = (status: string) => {
+    switch (status) {
+      case "accepted":
+        return "bg-green-100 text-green-800";
+      case "declined":
+        return "bg-red-100 text-red-800";
+      default:
+        return "bg-yellow-100 text-yellow-800";
+    }
+  };
+
   const recalculateAllLoanInterest = async () => {
     setRecalculatingInterest(true);
     try {
@@ -727,7 +892,7 @@ export default function LoanManagement({ user }: Props) {
           className="space-y-4"
         >
           <div className="w-full overflow-x-auto tab-scroll-container px-1">
-            <TabsList className="grid w-full min-w-[400px] grid-cols-3 gap-1">
+            <TabsList className="grid w-full min-w-[520px] grid-cols-4 gap-1">
               <TabsTrigger
                 value="pending"
                 className="text-xs sm:text-sm whitespace-nowrap px-2 sm:px-3"
@@ -755,6 +920,13 @@ export default function LoanManagement({ user }: Props) {
                 <span className="sm:hidden">Payments</span>
                 <span className="hidden sm:inline">Payment Management</span>
               </TabsTrigger>
+              <TabsTrigger
+                value="confirmations"
+                className="text-xs sm:text-sm whitespace-nowrap px-2 sm:px-3"
+              >
+                <span className="sm:hidden">Confirm</span>
+                <span className="hidden sm:inline">Confirmations</span>
+              </TabsTrigger>
             </TabsList>
           </div>
 
@@ -782,9 +954,16 @@ export default function LoanManagement({ user }: Props) {
                             Requested on {formatDate(loan.requestDate)}
                           </CardDescription>
                         </div>
-                        <Badge className={getStatusColor(loan.status)}>
-                          {loan.status}
-                        </Badge>
+                        <div className="flex flex-col items-end gap-1">
+                          <Badge className={getStatusColor(loan.status)}>
+                            {loan.status}
+                          </Badge>
+                          {loan.pendingAction && (
+                            <Badge className="bg-orange-100 text-orange-800">
+                              Awaiting confirmation
+                            </Badge>
+                          )}
+                        </div>
                       </div>
                     </CardHeader>
                     <CardContent className="space-y-4">
@@ -796,6 +975,12 @@ export default function LoanManagement({ user }: Props) {
                         <div>
                           <p className="font-medium">Interest Rate</p>
                           <p>{loan.interestRate}%</p>
+                          {loan.productTerms && (
+                            <p className="text-xs text-muted-foreground">
+                              {loan.productTerms.name}, up to{" "}
+                              {loan.productTerms.maxTermMonths} months
+                            </p>
+                          )}
                         </div>
                         <div className="col-span-2">
                           <p className="font-medium">Purpose</p>
@@ -805,6 +990,24 @@ export default function LoanManagement({ user }: Props) {
                         </div>
                       </div>
 
+                      {loan.guarantors && loan.guarantors.length > 0 && (
+                        <div className="text-sm">
+                          <p className="font-medium mb-1">Guarantors</p>
+                          <div className="flex flex-wrap gap-2">
+                            {loan.guarantors.map((guarantor, index) => (
+                              <Badge
+                                key={guarantor.userId._id || index}
+                                className={getGuarantorStatusColor(guarantor.status)}
+                              >
+                                {guarantor.userId.name} ·{" "}
+                                {formatCurrencyLocal(guarantor.amount)} ·{" "}
+                                {guarantor.status}
+                              </Badge>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <div>
                           <Label htmlFor={`amount-${loan._id}`}>
@@ -845,6 +1048,83 @@ export default function LoanManagement({ user }: Props) {
                         </div>
                       </div>
 
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                          <Label htmlFor={`term-${loan._id}`}>
+                            Term (months)
+                          </Label>
+                          <Input
+                            id={`term-${loan._id}`}
+                            type="number"
+                            min="1"
+                            max={loan.productTerms?.maxTermMonths}
+                            placeholder={
+                              loan.repaymentPlan
+                                ? `${loan.repaymentPlan.termMonths} (requested)`
+                                : "Open-ended"
+                            }
+                            value={approvalData[loan._id]?.termMonths || ""}
+                            onChange={(e) =>
+                              setApprovalData((prev) => ({
+                                ...prev,
+                                [loan._id]: {
+                                  ...prev[loan._id],
+                                  termMonths: e.target.value,
+                                },
+                              }))
+                            }
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor={`frequency-${loan._id}`}>
+                            Frequency
+                          </Label>
+                          <select
+                            id={`frequency-${loan._id}`}
+                            value={approvalData[loan._id]?.frequency || "monthly"}
+                            onChange={(e) =>
+                              setApprovalData((prev) => ({
+                                ...prev,
+                                [loan._id]: {
+                                  ...prev[loan._id],
+                                  frequency: e.target.value,
+                                },
+                              }))
+                            }
+                            disabled={!approvalData[loan._id]?.termMonths}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          >
+                            <option value="monthly">Monthly</option>
+                            <option value="quarterly">Quarterly</option>
+                          </select>
+                        </div>
+                        <div>
+                          <Label htmlFor={`method-${loan._id}`}>Method</Label>
+                          <select
+                            id={`method-${loan._id}`}
+                            value={
+                              approvalData[loan._id]?.method ||
+                              loan.productTerms?.interestMethod ||
+                              "emi"
+                            }
+                            onChange={(e) =>
+                              setApprovalData((prev) => ({
+                                ...prev,
+                                [loan._id]: {
+                                  ...prev[loan._id],
+                                  method: e.target.value,
+                                },
+                              }))
+                            }
+                            disabled={!approvalData[loan._id]?.termMonths}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          >
+                            <option value="emi">EMI (equal installments)</option>
+                            <option value="equal_principal">Equal principal</option>
+                          </select>
+                        </div>
+                      </div>
+
                       <div className="flex gap-2 pt-2">
                         <Button
                           onClick={() =>
@@ -959,7 +1239,13 @@ export default function LoanManagement({ user }: Props) {
                               </TableCell>
                               <TableCell>
                                 <div className="flex gap-2">
-                                  {loan.status === "approved" && (
+                                  {loan.status === "approved" &&
+                                    loan.pendingAction && (
+                                      <Badge className="bg-orange-100 text-orange-800">
+                                        Awaiting confirmation
+                                      </Badge>
+                                    )}
+                                  {loan.status === "approved" && !loan.pendingAction && (
                                     <Button
                                       size="sm"
                                       onClick={() => disburseLoan(loan._id)}
@@ -980,6 +1266,21 @@ export default function LoanManagement({ user }: Props) {
                                         Settlement
                                       </Button>
                                     )}
+                                  {loan.status === "disbursed" &&
+                                    loan.remainingBalance > 0 &&
+                                    loan.guarantors?.some(
+                                      (guarantor) => guarantor.status === "accepted"
+                                    ) && (
+                                      <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={() => recoverFromGuarantors(loan)}
+                                        disabled={processingId === loan._id}
+                                        className="border-red-300 text-red-600 hover:bg-red-50"
+                                      >
+                                        Recover
+                                      </Button>
+                                    )}
                                   <Button
                                     size="sm"
                                     variant="outline"
@@ -1044,6 +1345,17 @@ export default function LoanManagement({ user }: Props) {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Dual-control Confirmations Tab */}
+          <TabsContent value="confirmations" className="space-y-4">
+            <LoanApproval
+              currentUserId={user._id}
+              onProcessed={() => {
+                loadPendingLoans();
+                loadActiveLoans(true);
+              }}
+            />
+          </TabsContent>
         </Tabs>
       </div>
       {/* Create Direct Loan Modal */}
@@ -1079,6 +1391,24 @@ export default function LoanManagement({ user }: Props) {
                     />
                   </div>
 
+                  <div className="space-y-2">
+                    <Label htmlFor="create-product">Loan Product</Label>
+                    <select
+                      id="create-product"
+                      value={createLoanData.productId}
+                      onChange={(e) => selectCreateLoanProduct(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">No product (default terms)</option>
+                      {loanProducts.map((product) => (
+                        <option key={product._id} value={product._id}>
+                          {product.name} ({product.interestRate}%, up to{" "}
+                          {product.maxTermMonths} months)
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
                   <div className="space-y-2">
                     <Label htmlFor="create-requested-amount">
                       Requested Amount *
@@ -1130,7 +1460,7 @@ export default function LoanManagement({ user }: Props) {
                           interestRate: e.target.value,
                         })
                       }
-                      placeholder="16"
+                      placeholder={String(settings.annualInterestRate)}
                     />
                   </div>
 
@@ -1171,56 +1501,88 @@ export default function LoanManagement({ user }: Props) {
                   </div>
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="create-purpose">Purpose *</Label>
-                  <Textarea
-                    id="create-purpose"
-                    value={createLoanData.purpose}
-                    onChange={(e) =>
-                      setCreateLoanData({
-                        ...createLoanData,
-                        purpose: e.target.value,
-                      })
-                    }
-                    placeholder="Purpose of the loan..."
-                    rows={2}
-                  />
-                </div>
-
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="create-guarantor">Guarantor</Label>
+                    <Label htmlFor="create-term">Term (months)</Label>
                     <Input
-                      id="create-guarantor"
-                      value={createLoanData.guarantor}
+                      id="create-term"
+                      type="number"
+                      min="1"
+                      value={createLoanData.termMonths}
                       onChange={(e) =>
                         setCreateLoanData({
                           ...createLoanData,
-                          guarantor: e.target.value,
+                          termMonths: e.target.value,
                         })
                       }
-                      placeholder="Guarantor name"
+                      placeholder="Open-ended"
                     />
                   </div>
 
                   <div className="space-y-2">
-                    <Label htmlFor="create-guarantor-contact">
-                      Guarantor Contact
-                    </Label>
-                    <Input
-                      id="create-guarantor-contact"
-                      value={createLoanData.guarantorContact}
+                    <Label htmlFor="create-frequency">Frequency</Label>
+                    <select
+                      id="create-frequency"
+                      value={createLoanData.frequency}
                       onChange={(e) =>
                         setCreateLoanData({
                           ...createLoanData,
-                          guarantorContact: e.target.value,
+                          frequency: e.target.value,
                         })
                       }
-                      placeholder="Phone or email"
-                    />
+                      disabled={!createLoanData.termMonths}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="monthly">Monthly</option>
+                      <option value="quarterly">Quarterly</option>
+                    </select>
                   </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="create-method">Method</Label>
+                    <select
+                      id="create-method"
+                      value={createLoanData.method}
+                      onChange={(e) =>
+                        setCreateLoanData({
+                          ...createLoanData,
+                          method: e.target.value,
+                        })
+                      }
+                      disabled={!createLoanData.termMonths}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="emi">EMI (equal installments)</option>
+                      <option value="equal_principal">Equal principal</option>
+                    </select>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="create-purpose">Purpose *</Label>
+                  <Textarea
+                    id="create-purpose"
+                    value={createLoanData.purpose}
+                    onChange={(e) =>
+                      setCreateLoanData({
+                        ...createLoanData,
+                        purpose: e.target.value,
+                      })
+                    }
+                    placeholder="Purpose of the loan..."
+                    rows={2}
+                  />
                 </div>
 
+                <GuarantorPicker
+                  members={users}
+                  value={createLoanData.guarantors}
+                  onChange={(guarantors) =>
+                    setCreateLoanData({ ...createLoanData, guarantors })
+                  }
+                  borrowerId={createLoanData.userId}
+                />
+
                 <div className="space-y-2">
                   <Label htmlFor="create-collateral">Collateral</Label>
                   <Textarea
@@ -1266,20 +1628,7 @@ export default function LoanManagement({ user }: Props) {
                     variant="outline"
                     onClick={() => {
                       setShowCreateLoanForm(false);
-                      setCreateLoanData({
-                        userId: "",
-                        requestedAmount: "",
-                        approvedAmount: "",
-                        purpose: "",
-                        interestRate: "16",
-                        approvalDate: "",
-                        expectedRepaymentDate: "",
-                        collateral: "",
-                        guarantor: "",
-                        guarantorContact: "",
-                        notes: "",
-                        status: "approved",
-                      });
+                      resetCreateLoanForm();
                     }}
                   >
                     Cancel
@@ -1346,12 +1695,24 @@ export default function LoanManagement({ user }: Props) {
                     <span className="font-medium">Interest Rate:</span>
                     <span>{settlementLoan.interestRate}% per year</span>
                   </div>
+                  {settlementCalculations && (
+                    <div className="flex justify-between">
+                      <span className="font-medium">Outstanding Principal:</span>
+                      <span>
+                        {formatCurrencyLocal(
+                          settlementCalculations.full.principalAmount
+                        )}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span className="font-medium">Yearly Interest:</span>
                     <span>
                       {formatCurrencyLocal(
-                        (settlementLoan.approvedAmount ||
-                          settlementLoan.requestedAmount) *
+                        (settlementCalculations
+                          ? settlementCalculations.full.principalAmount
+                          : settlementLoan.approvedAmount ||
+                            settlementLoan.requestedAmount) *
                         (settlementLoan.interestRate / 100)
                       )}
                     </span>
@@ -1401,7 +1762,7 @@ export default function LoanManagement({ user }: Props) {
                           </h4>
                         </div>
                         <div className="text-sm text-muted-foreground space-y-1">
-                          <p>• Pay only the prorated interest amount</p>
+                          <p>• Pay the interest accrued on the outstanding principal</p>
                           <p>• Principal remains active for future use</p>
                           <p className="font-medium text-blue-600">
                             Amount: {formatCurrencyLocal(settlementCalculations.interestOnly.amount)}
@@ -0,0 +1,491 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TableSkeleton } from "@/components/ui/loading-skeletons";
+import { Plus } from "lucide-react";
+import { showToast } from "@/lib/toast";
+import { apiRequest, formatCurrency } from "@/lib/utils";
+import { COMMUNITY_CONFIG } from "@/config/community";
+import { useCommunitySettings } from "@/hooks/useCommunitySettings";
+
+interface LoanProduct {
+  _id: string;
+  name: string;
+  description?: string;
+  interestRate: number;
+  minAmount: number;
+  maxAmount: number;
+  maxTermMonths: number;
+  interestMethod: "equal_principal" | "emi";
+  requiresGuarantor: boolean;
+  isActive: boolean;
+}
+
+const emptyForm = {
+  name: "",
+  description: "",
+  interestRate: "",
+  minAmount: String(COMMUNITY_CONFIG.LOAN_ELIGIBILITY.MIN_AMOUNT),
+  maxAmount: String(COMMUNITY_CONFIG.LOAN_ELIGIBILITY.MAX_AMOUNT),
+  maxTermMonths: "12",
+  interestMethod: "emi",
+  requiresGuarantor: false,
+};
+
+const selectClassName =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+/**
+ * Loan products members can borrow under. Loans copy the product's terms when
+ * requested, so edits here only affect new requests.
+ */
+export default function LoanProductManagement() {
+  const { settings } = useCommunitySettings();
+  const [products, setProducts] = useState<LoanProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const loadProducts = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await apiRequest<LoanProduct[]>(
+        "/api/loan-products?includeInactive=true"
+      );
+      if (result.success && result.data) {
+        setProducts(result.data);
+      } else {
+        showToast.error("Failed to load loan products", result.message);
+      }
+    } catch (error) {
+      console.error("Error loading loan products:", error);
+      showToast.error("Failed to load loan products");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProducts();
+  }, [loadProducts]);
+
+  const openCreateForm = () => {
+    setEditingId(null);
+    setFormData({
+      ...emptyForm,
+      interestRate: String(settings.annualInterestRate),
+    });
+    setShowForm(true);
+  };
+
+  const openEditForm = (product: LoanProduct) => {
+    setEditingId(product._id);
+    setFormData({
+      name: product.name,
+      description: product.description || "",
+      interestRate: String(product.interestRate),
+      minAmount: String(product.minAmount),
+      maxAmount: String(product.maxAmount),
+      maxTermMonths: String(product.maxTermMonths),
+      interestMethod: product.interestMethod,
+      requiresGuarantor: product.requiresGuarantor,
+    });
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setFormData(emptyForm);
+  };
+
+  const saveProduct = async () => {
+    setProcessing(true);
+    try {
+      const payload = {
+        name: formData.name,
+        description: formData.description,
+        interestRate: parseFloat(formData.interestRate),
+        minAmount: parseFloat(formData.minAmount),
+        maxAmount: parseFloat(formData.maxAmount),
+        maxTermMonths: parseInt(formData.maxTermMonths),
+        interestMethod: formData.interestMethod,
+        requiresGuarantor: formData.requiresGuarantor,
+      };
+
+      const result = await apiRequest(
+        editingId ? `/api/loan-products/${editingId}` : "/api/loan-products",
+        {
+          method: editingId ? "PUT" : "POST",
+          body: JSON.stringify(payload),
+        }
+      );
+
+      if (result.success) {
+        showToast.success(
+          editingId ? "Loan product updated" : "Loan product created"
+        );
+        closeForm();
+        loadProducts();
+      } else {
+        showToast.error(
+          "Failed to save loan product",
+          result.error || result.message || "Please try again"
+        );
+      }
+    } catch (error) {
+      console.error("Error saving loan product:", error);
+      showToast.error("Failed to save loan product");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const toggleActive = async (product: LoanProduct) => {
+    setProcessing(true);
+    try {
+      const result = await apiRequest(`/api/loan-products/${product._id}`, {
+        method: "PUT",
+        body: JSON.stringify({ isActive: !product.isActive }),
+      });
+
+      if (result.success) {
+        showToast.success(
+          product.isActive ? "Loan product deactivated" : "Loan product activated"
+        );
+        loadProducts();
+      } else {
+        showToast.error(
+          "Failed to update loan product",
+          result.error || result.message || "Please try again"
+        );
+      }
+    } catch (error) {
+      console.error("Error updating loan product:", error);
+      showToast.error("Failed to update loan product");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const deleteProduct = async (product: LoanProduct) => {
+    if (!window.confirm(`Delete the ${product.name} loan product?`)) {
+      return;
+    }
+
+    setProcessing(true);
+    try {
+      const result = await apiRequest(`/api/loan-products/${product._id}`, {
+        method: "DELETE",
+      });
+
+      if (result.success) {
+        showToast.success("Loan product deleted");
+        loadProducts();
+      } else {
+        showToast.error(
+          "Failed to delete loan product",
+          result.error || result.message || "Please try again"
+        );
+      }
+    } catch (error) {
+      console.error("Error deleting loan product:", error);
+      showToast.error("Failed to delete loan product");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <CardTitle>Loan Products</CardTitle>
+            <CardDescription>
+              Rates, limits and terms members can borrow on. Changes apply to
+              new loan requests only.
+            </CardDescription>
+          </div>
+          <Button onClick={openCreateForm}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Product
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <TableSkeleton rows={3} columns={6} />
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Interest</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Max Term</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {products.length > 0 ? (
+                    products.map((product) => (
+                      <TableRow key={product._id}>
+                        <TableCell>
+                          <div className="font-medium">{product.name}</div>
+                          {product.description && (
+                            <div className="text-xs text-muted-foreground">
+                              {product.description}
+                            </div>
+                          )}
+                          {product.requiresGuarantor && (
+                            <Badge variant="secondary" className="mt-1">
+                              Guarantor required
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {product.interestRate}%
+                          <div className="text-xs text-muted-foreground">
+                            {product.interestMethod === "emi"
+                              ? "EMI"
+                              : "Equal principal"}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {formatCurrency(product.minAmount)} –{" "}
+                          {formatCurrency(product.maxAmount)}
+                        </TableCell>
+                        <TableCell>{product.maxTermMonths} months</TableCell>
+                        <TableCell>
+                          <Badge
+                            className={
+                              product.isActive
+                                ? "bg-green-100 text-green-800"
+                                : "bg-gray-100 text-gray-800"
+                            }
+                          >
+                            {product.isActive ? "Active" : "Inactive"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => openEditForm(product)}
+                              disabled={processing}
+                            >
+                              Edit
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => toggleActive(product)}
+                              disabled={processing}
+                            >
+                              {product.isActive ? "Deactivate" : "Activate"}
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => deleteProduct(product)}
+                              disabled={processing}
+                              className="border-red-300 text-red-600 hover:bg-red-50"
+                            >
+                              Delete
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell
+                        colSpan={6}
+                        className="text-center py-6 text-muted-foreground"
+                      >
+                        No loan products yet. Loans use the default{" "}
+                        {settings.annualInterestRate}% rate.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create/Edit Product Modal */}
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  {editingId ? "Edit Loan Product" : "New Loan Product"}
+                </CardTitle>
+                {editingId && (
+                  <CardDescription>
+                    Existing loans keep the terms they were requested on
+                  </CardDescription>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="product-name">Name *</Label>
+                  <Input
+                    id="product-name"
+                    value={formData.name}
+                    onChange={(e) =>
+                      setFormData({ ...formData, name: e.target.value })
+                    }
+                    placeholder="e.g. Emergency"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="product-description">Description</Label>
+                  <Textarea
+                    id="product-description"
+                    value={formData.description}
+                    onChange={(e) =>
+                      setFormData({ ...formData, description: e.target.value })
+                    }
+                    rows={2}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="product-rate">Interest Rate (%) *</Label>
+                    <Input
+                      id="product-rate"
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      value={formData.interestRate}
+                      onChange={(e) =>
+                        setFormData({ ...formData, interestRate: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="product-method">Interest Method</Label>
+                    <select
+                      id="product-method"
+                      value={formData.interestMethod}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          interestMethod: e.target.value,
+                        })
+                      }
+                      className={selectClassName}
+                    >
+                      <option value="emi">EMI (equal installments)</option>
+                      <option value="equal_principal">Equal principal</option>
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="product-min">Minimum Amount *</Label>
+                    <Input
+                      id="product-min"
+                      type="number"
+                      min={COMMUNITY_CONFIG.LOAN_ELIGIBILITY.MIN_AMOUNT}
+                      value={formData.minAmount}
+                      onChange={(e) =>
+                        setFormData({ ...formData, minAmount: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="product-max">Maximum Amount *</Label>
+                    <Input
+                      id="product-max"
+                      type="number"
+                      max={COMMUNITY_CONFIG.LOAN_ELIGIBILITY.MAX_AMOUNT}
+                      value={formData.maxAmount}
+                      onChange={(e) =>
+                        setFormData({ ...formData, maxAmount: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="product-term">Max Term (months) *</Label>
+                    <Input
+                      id="product-term"
+                      type="number"
+                      min="1"
+                      max="120"
+                      value={formData.maxTermMonths}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          maxTermMonths: e.target.value,
+                        })
+                      }
+                    />
+                  </div>
+                  <div className="flex items-end pb-2">
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={formData.requiresGuarantor}
+                        onChange={(e) =>
+                          setFormData({
+                            ...formData,
+                            requiresGuarantor: e.target.checked,
+                          })
+                        }
+                      />
+                      Requires a guarantor
+                    </label>
+                  </div>
+                </div>
+                <div className="flex gap-2 justify-end">
+                  <Button
+                    variant="outline"
+                    onClick={closeForm}
+                    disabled={processing}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={saveProduct}
+                    disabled={processing || !formData.name.trim()}
+                  >
+                    {processing ? "Saving..." : "Save Product"}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
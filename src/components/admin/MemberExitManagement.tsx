@@ -0,0 +1,482 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { SearchableSelect } from "@/components/ui/searchable-select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TableSkeleton } from "@/components/ui/loading-skeletons";
+import { Calculator, UserMinus } from "lucide-react";
+import { showToast } from "@/lib/toast";
+import { apiRequest, formatCurrency, formatDate } from "@/lib/utils";
+
+interface Member {
+  _id: string;
+  name: string;
+  memberId: string;
+  email?: string;
+}
+
+interface ExitStatement {
+  membershipStart: string;
+  exitDate: string;
+  totalContributions: number;
+  dividendsCredited: number;
+  interestShare: number;
+  interestShareFrom?: string;
+  grossEntitlement: number;
+  outstandingLoanPrincipal: number;
+  outstandingLoanInterest: number;
+  outstandingLoanBalance: number;
+  netPayout: number;
+}
+
+interface Withdrawal extends ExitStatement {
+  _id: string;
+  userId: { _id: string; name: string; memberId: string; isActive: boolean };
+  status: "pending" | "approved" | "rejected";
+  paymentMethod?: string;
+  reason?: string;
+  rejectionReason?: string;
+  approvedBy?: { name: string };
+  approvalDate?: string;
+}
+
+const today = () => new Date().toISOString().split("T")[0];
+
+export default function MemberExitManagement() {
+  const [members, setMembers] = useState<Member[]>([]);
+  const [withdrawals, setWithdrawals] = useState<Withdrawal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  const [statement, setStatement] = useState<ExitStatement | null>(null);
+  const [exitData, setExitData] = useState({
+    userId: "",
+    exitDate: today(),
+    paymentMethod: "cash",
+    reason: "",
+  });
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [membersResult, withdrawalsResult] = await Promise.all([
+        apiRequest<Member[]>("/api/users/members-list"),
+        apiRequest<Withdrawal[]>("/api/withdrawals"),
+      ]);
+
+      if (membersResult.success && membersResult.data) {
+        setMembers(membersResult.data);
+      }
+      if (withdrawalsResult.success && withdrawalsResult.data) {
+        setWithdrawals(withdrawalsResult.data);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const previewStatement = async () => {
+    if (!exitData.userId) {
+      showToast.error("Select a member first");
+      return;
+    }
+
+    setProcessing(true);
+    try {
+      const result = await apiRequest<ExitStatement>(
+        `/api/users/${exitData.userId}/exit?exitDate=${exitData.exitDate}`
+      );
+      if (result.success && result.data) {
+        setStatement(result.data);
+      } else {
+        showToast.error("Failed to calculate exit statement", result.message);
+      }
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const createExitRequest = async () => {
+    setProcessing(true);
+    try {
+      const result = await apiRequest(`/api/users/${exitData.userId}/exit`, {
+        method: "POST",
+        body: JSON.stringify(exitData),
+      });
+
+      if (result.success) {
+        showToast.success("Exit request created", result.message);
+        setStatement(null);
+        setExitData({
+          userId: "",
+          exitDate: today(),
+          paymentMethod: "cash",
+          reason: "",
+        });
+        loadData();
+      } else {
+        showToast.error("Failed to create exit request", result.message);
+      }
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const reviewWithdrawal = async (
+    withdrawal: Withdrawal,
+    action: "approve" | "reject"
+  ) => {
+    let rejectionReason: string | null = null;
+
+    if (action === "approve") {
+      const confirmed = window.confirm(
+        `Approve the exit of ${withdrawal.userId.name}? The payout will be recalculated as of ${formatDate(withdrawal.exitDate)} and the member will be deactivated.`
+      );
+      if (!confirmed) return;
+    } else {
+      rejectionReason = window.prompt("Reason for rejecting this exit request:");
+      if (!rejectionReason) return;
+    }
+
+    setProcessing(true);
+    try {
+      const result = await apiRequest(`/api/withdrawals/${withdrawal._id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ action, rejectionReason }),
+      });
+
+      if (result.success) {
+        showToast.success(result.message || "Exit request updated");
+        loadData();
+      } else {
+        showToast.error("Failed to update exit request", result.message);
+      }
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const rejoinMember = async (withdrawal: Withdrawal) => {
+    const joinDate = window.prompt(
+      `Rejoin date for ${withdrawal.userId.name} (YYYY-MM-DD):`,
+      today()
+    );
+    if (!joinDate) return;
+
+    setProcessing(true);
+    try {
+      const result = await apiRequest(
+        `/api/users/${withdrawal.userId._id}/rejoin`,
+        { method: "POST", body: JSON.stringify({ joinDate }) }
+      );
+
+      if (result.success) {
+        showToast.success(result.message || "Member rejoined");
+        loadData();
+      } else {
+        showToast.error("Failed to rejoin member", result.message);
+      }
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case "approved":
+        return "bg-green-100 text-green-800";
+      case "pending":
+        return "bg-yellow-100 text-yellow-800";
+      case "rejected":
+        return "bg-red-100 text-red-800";
+      default:
+        return "bg-gray-100 text-gray-800";
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="mobile-heading">Member Exits</h2>
+        <p className="text-muted-foreground text-sm sm:text-base">
+          Pay out savings and interest share to members who leave the group
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>New Exit Request</CardTitle>
+          <CardDescription>
+            Any outstanding loan is settled against the payout
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <SearchableSelect
+              id="exit-member"
+              label="Member"
+              value={exitData.userId}
+              onChange={(value) => {
+                setExitData({ ...exitData, userId: value });
+                setStatement(null);
+              }}
+              options={members.map((member) => ({
+                value: member._id,
+                label: `${member.name} (${member.memberId})`,
+                searchText: `${member.name} ${member.memberId} ${member.email || ""}`,
+              }))}
+              placeholder="Select member"
+              searchPlaceholder="Search by name or member ID..."
+              emptyText="No members found"
+            />
+            <div className="space-y-2">
+              <Label htmlFor="exit-date">Exit Date</Label>
+              <Input
+                id="exit-date"
+                type="date"
+                value={exitData.exitDate}
+                max={today()}
+                onChange={(e) => {
+                  setExitData({ ...exitData, exitDate: e.target.value });
+                  setStatement(null);
+                }}
+              />
+            </div>
+            <Button onClick={previewStatement} disabled={processing}>
+              <Calculator className="h-4 w-4 mr-2" />
+              Calculate Payout
+            </Button>
+          </div>
+
+          {statement && (
+            <div className="space-y-4">
+              <div className="border rounded-lg p-4 space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span>Paid contributions</span>
+                  <span>{formatCurrency(statement.totalContributions)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Dividends credited</span>
+                  <span>{formatCurrency(statement.dividendsCredited)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>
+                    Interest share
+                    {statement.interestShareFrom &&
+                      ` (since ${formatDate(statement.interestShareFrom)})`}
+                  </span>
+                  <span>{formatCurrency(statement.interestShare)}</span>
+                </div>
+                <div className="flex justify-between font-medium border-t pt-2">
+                  <span>Gross entitlement</span>
+                  <span>{formatCurrency(statement.grossEntitlement)}</span>
+                </div>
+                {statement.outstandingLoanBalance > 0 && (
+                  <div className="flex justify-between text-red-600">
+                    <span>
+                      Less outstanding loan (principal{" "}
+                      {formatCurrency(statement.outstandingLoanPrincipal)} +
+                      interest{" "}
+                      {formatCurrency(statement.outstandingLoanInterest)})
+                    </span>
+                    <span>
+                      -{formatCurrency(statement.outstandingLoanBalance)}
+                    </span>
+                  </div>
+                )}
+                <div className="flex justify-between font-semibold border-t pt-2">
+                  <span>Net payout</span>
+                  <span
+                    className={
+                      statement.netPayout < 0 ? "text-red-600" : "text-green-700"
+                    }
+                  >
+                    {formatCurrency(statement.netPayout)}
+                  </span>
+                </div>
+              </div>
+
+              {statement.netPayout < 0 ? (
+                <p className="text-sm text-red-600">
+                  The outstanding loan exceeds this member&apos;s entitlement.
+                  The difference must be repaid before the exit can be
+                  approved.
+                </p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="exit-payment-method">Payment Method</Label>
+                    <select
+                      id="exit-payment-method"
+                      value={exitData.paymentMethod}
+                      onChange={(e) =>
+                        setExitData({
+                          ...exitData,
+                          paymentMethod: e.target.value,
+                        })
+                      }
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="cash">Cash</option>
+                      <option value="bank_transfer">Bank Transfer</option>
+                      <option value="mobile_money">Mobile Money</option>
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="exit-reason">Reason</Label>
+                    <Textarea
+                      id="exit-reason"
+                      value={exitData.reason}
+                      onChange={(e) =>
+                        setExitData({ ...exitData, reason: e.target.value })
+                      }
+                      placeholder="Why is the member leaving?"
+                    />
+                  </div>
+                  <div>
+                    <Button onClick={createExitRequest} disabled={processing}>
+                      <UserMinus className="h-4 w-4 mr-2" />
+                      Submit Exit Request
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Exit Requests</CardTitle>
+          <CardDescription>
+            Pending requests are recalculated when approved
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <TableSkeleton rows={3} columns={6} />
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Member</TableHead>
+                    <TableHead>Exit Date</TableHead>
+                    <TableHead>Entitlement</TableHead>
+                    <TableHead>Loan Offset</TableHead>
+                    <TableHead>Net Payout</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {withdrawals.length > 0 ? (
+                    withdrawals.map((withdrawal) => (
+                      <TableRow key={withdrawal._id}>
+                        <TableCell className="font-medium">
+                          {withdrawal.userId?.name} (
+                          {withdrawal.userId?.memberId})
+                        </TableCell>
+                        <TableCell>{formatDate(withdrawal.exitDate)}</TableCell>
+                        <TableCell>
+                          {formatCurrency(withdrawal.grossEntitlement)}
+                        </TableCell>
+                        <TableCell>
+                          {withdrawal.outstandingLoanBalance > 0
+                            ? formatCurrency(withdrawal.outstandingLoanBalance)
+                            : "-"}
+                        </TableCell>
+                        <TableCell className="font-semibold">
+                          {formatCurrency(withdrawal.netPayout)}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={getStatusColor(withdrawal.status)}>
+                            {withdrawal.status}
+                          </Badge>
+                          {withdrawal.rejectionReason && (
+                            <div className="text-xs text-muted-foreground mt-1">
+                              {withdrawal.rejectionReason}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {withdrawal.status === "pending" && (
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                onClick={() =>
+                                  reviewWithdrawal(withdrawal, "approve")
+                                }
+                                disabled={processing}
+                              >
+                                Approve
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() =>
+                                  reviewWithdrawal(withdrawal, "reject")
+                                }
+                                disabled={processing}
+                              >
+                                Reject
+                              </Button>
+                            </div>
+                          )}
+                          {withdrawal.status === "approved" &&
+                            withdrawal.userId &&
+                            !withdrawal.userId.isActive && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => rejoinMember(withdrawal)}
+                                disabled={processing}
+                              >
+                                Rejoin
+                              </Button>
+                            )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell
+                        colSpan={7}
+                        className="text-center py-6 text-muted-foreground"
+                      >
+                        No exit requests yet
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
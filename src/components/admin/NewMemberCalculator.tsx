@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -30,7 +30,7 @@ import {
 } from "lucide-react";
 import { showToast } from "@/lib/toast";
 import { apiRequest } from "@/lib/utils";
-import { COMMUNITY_CONFIG } from "@/config/community";
+import { useCommunitySettings } from "@/hooks/useCommunitySettings";
 
 interface PaymentBreakdown {
     yearNumber: number;
@@ -54,9 +54,20 @@ interface CalculationResult {
 }
 
 export default function NewMemberCalculator() {
+    const { settings } = useCommunitySettings();
     const [joiningDate, setJoiningDate] = useState('');
     const [calculation, setCalculation] = useState<CalculationResult | null>(null);
     const [loading, setLoading] = useState(false);
+    const [currentContribution, setCurrentContribution] = useState<number | null>(null);
+
+    // Amount due this month from the contribution schedule
+    useEffect(() => {
+        apiRequest<{ currentAmount: number }>('/api/contribution-rates').then((result) => {
+            if (result.success && result.data) {
+                setCurrentContribution(result.data.currentAmount);
+            }
+        });
+    }, []);
 
     const handleCalculate = async () => {
         if (!joiningDate) {
@@ -100,7 +111,7 @@ export default function NewMemberCalculator() {
         });
     };
 
-    const communityStartDate = COMMUNITY_CONFIG.OPENING_DATE.toLocaleDateString('en-US', {
+    const communityStartDate = settings.openingDate.toLocaleDateString('en-US', {
         year: 'numeric',
         month: 'long',
         day: 'numeric'
@@ -134,11 +145,11 @@ export default function NewMemberCalculator() {
                         </div>
                         <div className="flex flex-col">
                             <span className="text-sm text-muted-foreground">Monthly Contribution</span>
-                            <span className="font-medium">{formatCurrency(COMMUNITY_CONFIG.DEFAULT_CONTRIBUTION_AMOUNT)}</span>
+                            <span className="font-medium">{formatCurrency(currentContribution ?? settings.monthlyContributionAmount)}</span>
                         </div>
                         <div className="flex flex-col">
                             <span className="text-sm text-muted-foreground">Interest Rate</span>
-                            <span className="font-medium">{COMMUNITY_CONFIG.ANNUAL_INTEREST_RATE}% annually</span>
+                            <span className="font-medium">{settings.annualInterestRate}% annually</span>
                         </div>
                     </div>
                 </CardContent>
@@ -164,7 +175,7 @@ export default function NewMemberCalculator() {
                                 type="date"
                                 value={joiningDate}
                                 onChange={(e) => setJoiningDate(e.target.value)}
-                                min={COMMUNITY_CONFIG.OPENING_DATE.toISOString().split('T')[0]}
+                                min={settings.openingDate.toISOString().split('T')[0]}
                             />
                         </div>
                         <Button
@@ -206,7 +217,7 @@ export default function NewMemberCalculator() {
                                     {formatCurrency(calculation.totalBaseContribution)}
                                 </div>
                                 <p className="text-xs text-muted-foreground">
-                                    {calculation.monthsMissed} × {formatCurrency(COMMUNITY_CONFIG.DEFAULT_CONTRIBUTION_AMOUNT)}
+                                    {calculation.monthsMissed} months at the scheduled amounts
                                 </p>
                             </CardContent>
                         </Card>
@@ -221,7 +232,7 @@ export default function NewMemberCalculator() {
                                     {formatCurrency(calculation.totalInterest)}
                                 </div>
                                 <p className="text-xs text-muted-foreground">
-                                    Based on {COMMUNITY_CONFIG.ANNUAL_INTEREST_RATE}% annual rate
+                                    Based on {settings.annualInterestRate}% annual rate
                                 </p>
                             </CardContent>
                         </Card>
@@ -0,0 +1,457 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TableSkeleton } from "@/components/ui/loading-skeletons";
+import { AlertTriangle, RefreshCw } from "lucide-react";
+import { showToast } from "@/lib/toast";
+import { apiRequest, formatCurrency, formatDate } from "@/lib/utils";
+
+interface Penalty {
+  _id: string;
+  userId: {
+    _id: string;
+    name: string;
+    memberId: string;
+  };
+  type: "contribution_late_fee" | "loan_installment_overdue";
+  amount: number;
+  reason: string;
+  month?: string;
+  installmentNumber?: number;
+  assessedDate: string;
+  status: "outstanding" | "paid" | "waived";
+  paidDate?: string;
+  paymentMethod?: string;
+  waivedBy?: { name: string };
+  waiverReason?: string;
+}
+
+interface PenaltySummary {
+  outstanding: { totalAmount: number; count: number };
+  paid: { totalAmount: number; count: number };
+  waived: { totalAmount: number; count: number };
+}
+
+interface AssessmentResult {
+  contributionsMarkedOverdue: number;
+  contributionPenaltiesCreated: number;
+  loanPenaltiesCreated: number;
+  totalAssessed: number;
+}
+
+const emptySummary: PenaltySummary = {
+  outstanding: { totalAmount: 0, count: 0 },
+  paid: { totalAmount: 0, count: 0 },
+  waived: { totalAmount: 0, count: 0 },
+};
+
+export default function PenaltyManagement() {
+  const [penalties, setPenalties] = useState<Penalty[]>([]);
+  const [summary, setSummary] = useState<PenaltySummary>(emptySummary);
+  const [statusFilter, setStatusFilter] = useState("outstanding");
+  const [loading, setLoading] = useState(true);
+  const [assessing, setAssessing] = useState(false);
+  const [processing, setProcessing] = useState(false);
+  const [collectingPenalty, setCollectingPenalty] = useState<Penalty | null>(
+    null
+  );
+  const [waivingPenalty, setWaivingPenalty] = useState<Penalty | null>(null);
+  const [collectData, setCollectData] = useState({
+    paymentMethod: "cash",
+    paidDate: new Date().toISOString().split("T")[0],
+  });
+  const [waiverReason, setWaiverReason] = useState("");
+
+  const loadPenalties = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: "100" });
+      if (statusFilter) {
+        params.set("status", statusFilter);
+      }
+
+      const response = await fetch(`/api/penalties?${params.toString()}`);
+      const result = await response.json();
+
+      if (result.success) {
+        setPenalties(result.data || []);
+        setSummary(result.summary || emptySummary);
+      } else {
+        showToast.error("Failed to load penalties", result.message);
+      }
+    } catch (error) {
+      console.error("Error loading penalties:", error);
+      showToast.error("Failed to load penalties");
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadPenalties();
+  }, [loadPenalties]);
+
+  const assessPenalties = async () => {
+    setAssessing(true);
+    try {
+      const result = await apiRequest<AssessmentResult>(
+        "/api/penalties/assess",
+        { method: "POST", body: JSON.stringify({}) }
+      );
+
+      if (result.success && result.data) {
+        const created =
+          result.data.contributionPenaltiesCreated +
+          result.data.loanPenaltiesCreated;
+        showToast.success(
+          created > 0 ? `${created} penalties assessed` : "No new penalties",
+          `${result.data.contributionsMarkedOverdue} contributions marked overdue, ${formatCurrency(result.data.totalAssessed)} charged`
+        );
+        loadPenalties();
+      } else {
+        showToast.error("Failed to assess penalties", result.message);
+      }
+    } finally {
+      setAssessing(false);
+    }
+  };
+
+  const updatePenalty = async (
+    penaltyId: string,
+    body: Record<string, string>
+  ) => {
+    setProcessing(true);
+    try {
+      const result = await apiRequest(`/api/penalties/${penaltyId}`, {
+        method: "PATCH",
+        body: JSON.stringify(body),
+      });
+
+      if (result.success) {
+        showToast.success(result.message || "Penalty updated");
+        setCollectingPenalty(null);
+        setWaivingPenalty(null);
+        setWaiverReason("");
+        loadPenalties();
+      } else {
+        showToast.error("Failed to update penalty", result.message);
+      }
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case "paid":
+        return "bg-green-100 text-green-800";
+      case "outstanding":
+        return "bg-red-100 text-red-800";
+      case "waived":
+        return "bg-gray-100 text-gray-800";
+      default:
+        return "bg-gray-100 text-gray-800";
+    }
+  };
+
+  return (
+    <>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <h2 className="mobile-heading">Penalties</h2>
+            <p className="text-muted-foreground text-sm sm:text-base">
+              Late contribution fees and overdue installment penalties
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={loadPenalties}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+            <Button size="sm" onClick={assessPenalties} disabled={assessing}>
+              <AlertTriangle className="h-4 w-4 mr-2" />
+              {assessing ? "Assessing..." : "Assess Penalties"}
+            </Button>
+          </div>
+        </div>
+
+        {/* Summary Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-2xl font-bold text-red-600">
+                {formatCurrency(summary.outstanding.totalAmount)}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Outstanding ({summary.outstanding.count})
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-2xl font-bold text-green-600">
+                {formatCurrency(summary.paid.totalAmount)}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Collected ({summary.paid.count})
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-2xl font-bold">
+                {formatCurrency(summary.waived.totalAmount)}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Waived ({summary.waived.count})
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div>
+              <CardTitle>Penalty Records</CardTitle>
+              <CardDescription>
+                Collect or waive penalties charged to members
+              </CardDescription>
+            </div>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="outstanding">Outstanding</option>
+              <option value="paid">Paid</option>
+              <option value="waived">Waived</option>
+              <option value="">All</option>
+            </select>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <TableSkeleton rows={5} columns={6} />
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Member</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>Amount</TableHead>
+                      <TableHead>Assessed</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {penalties.length > 0 ? (
+                      penalties.map((penalty) => (
+                        <TableRow key={penalty._id}>
+                          <TableCell className="font-medium">
+                            {penalty.userId?.name} ({penalty.userId?.memberId})
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {penalty.reason}
+                            {penalty.waiverReason && (
+                              <div className="text-xs text-muted-foreground">
+                                Waived by {penalty.waivedBy?.name || "admin"}:{" "}
+                                {penalty.waiverReason}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell>{formatCurrency(penalty.amount)}</TableCell>
+                          <TableCell>{formatDate(penalty.assessedDate)}</TableCell>
+                          <TableCell>
+                            <Badge className={getStatusColor(penalty.status)}>
+                              {penalty.status.charAt(0).toUpperCase() +
+                                penalty.status.slice(1)}
+                            </Badge>
+                            {penalty.paidDate && (
+                              <div className="text-xs text-muted-foreground mt-1">
+                                {formatDate(penalty.paidDate)}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {penalty.status === "outstanding" && (
+                              <div className="flex gap-2">
+                                <Button
+                                  size="sm"
+                                  onClick={() => setCollectingPenalty(penalty)}
+                                >
+                                  Collect
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => setWaivingPenalty(penalty)}
+                                >
+                                  Waive
+                                </Button>
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell
+                          colSpan={6}
+                          className="text-center py-6 text-muted-foreground"
+                        >
+                          No penalties found
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Collect Penalty Modal */}
+      {collectingPenalty && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-md w-full">
+            <Card>
+              <CardHeader>
+                <CardTitle>Collect Penalty</CardTitle>
+                <CardDescription>
+                  {collectingPenalty.userId?.name} -{" "}
+                  {formatCurrency(collectingPenalty.amount)}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="penalty-payment-method">Payment Method</Label>
+                  <select
+                    id="penalty-payment-method"
+                    value={collectData.paymentMethod}
+                    onChange={(e) =>
+                      setCollectData({
+                        ...collectData,
+                        paymentMethod: e.target.value,
+                      })
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="cash">Cash</option>
+                    <option value="bank_transfer">Bank Transfer</option>
+                    <option value="mobile_money">Mobile Money</option>
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="penalty-paid-date">Payment Date</Label>
+                  <Input
+                    id="penalty-paid-date"
+                    type="date"
+                    value={collectData.paidDate}
+                    max={new Date().toISOString().split("T")[0]}
+                    onChange={(e) =>
+                      setCollectData({ ...collectData, paidDate: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="flex gap-2 justify-end">
+                  <Button
+                    variant="outline"
+                    onClick={() => setCollectingPenalty(null)}
+                    disabled={processing}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={() =>
+                      updatePenalty(collectingPenalty._id, {
+                        action: "collect",
+                        ...collectData,
+                      })
+                    }
+                    disabled={processing}
+                  >
+                    {processing ? "Saving..." : "Record Payment"}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
+
+      {/* Waive Penalty Modal */}
+      {waivingPenalty && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-md w-full">
+            <Card>
+              <CardHeader>
+                <CardTitle>Waive Penalty</CardTitle>
+                <CardDescription>
+                  {waivingPenalty.userId?.name} -{" "}
+                  {formatCurrency(waivingPenalty.amount)}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="penalty-waiver-reason">Reason *</Label>
+                  <Textarea
+                    id="penalty-waiver-reason"
+                    value={waiverReason}
+                    onChange={(e) => setWaiverReason(e.target.value)}
+                    placeholder="Why is this penalty being waived?"
+                  />
+                </div>
+                <div className="flex gap-2 justify-end">
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      setWaivingPenalty(null);
+                      setWaiverReason("");
+                    }}
+                    disabled={processing}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={() =>
+                      updatePenalty(waivingPenalty._id, {
+                        action: "waive",
+                        reason: waiverReason,
+                      })
+                    }
+                    disabled={processing || !waiverReason.trim()}
+                  >
+                    {processing ? "Saving..." : "Waive Penalty"}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
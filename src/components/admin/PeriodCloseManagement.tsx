@@ -0,0 +1,411 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TableSkeleton } from "@/components/ui/loading-skeletons";
+import { ContributionMonthInput } from "@/components/ui/contribution-month-input";
+import { Lock, Unlock } from "lucide-react";
+import { showToast } from "@/lib/toast";
+import { apiRequest, formatCurrency, formatDate } from "@/lib/utils";
+import {
+  formatFiscalYear,
+  getContributionMonth,
+  getFiscalYearOfDate,
+  shiftMonth,
+} from "@/lib/periods";
+import { useCommunitySettings } from "@/hooks/useCommunitySettings";
+import { IPeriodCloseTotals, PeriodCloseType } from "@/types";
+
+interface PeriodCloseEvent {
+  action: "close" | "reopen";
+  by?: { name: string };
+  confirmedBy?: { name: string };
+  date: string;
+  reason?: string;
+}
+
+interface PeriodCloseRecord {
+  _id: string;
+  periodType: PeriodCloseType;
+  period: string;
+  label: string;
+  startDate: string;
+  endDate: string;
+  status: "closed" | "reopened";
+  totals: IPeriodCloseTotals;
+  closedBy?: { name: string };
+  closedAt: string;
+  notes?: string;
+  reopenedBy?: { name: string };
+  reopenedAt?: string;
+  reopenReason?: string;
+  pendingReopen?: {
+    requestedBy: { _id: string; name: string };
+    requestedDate: string;
+    reason: string;
+  };
+  history: PeriodCloseEvent[];
+}
+
+interface Props {
+  currentUserId: string;
+}
+
+const selectClassName =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const totalColumns: { key: keyof IPeriodCloseTotals; label: string }[] = [
+  { key: "contributionsPaid", label: "Contributions" },
+  { key: "loansDisbursed", label: "Loans Out" },
+  { key: "principalRepaid", label: "Principal In" },
+  { key: "interestCollected", label: "Interest" },
+  { key: "cashBalance", label: "Closing Cash" },
+];
+
+export default function PeriodCloseManagement({ currentUserId }: Props) {
+  const { settings } = useCommunitySettings();
+  const calendar = settings.contributionCalendar;
+  const lastFiscalYear = getFiscalYearOfDate(new Date()) - 1;
+
+  const [periodType, setPeriodType] = useState<PeriodCloseType>("month");
+  const [month, setMonth] = useState(() =>
+    shiftMonth(getContributionMonth(new Date()), -1)
+  );
+  const [fiscalYear, setFiscalYear] = useState(String(lastFiscalYear));
+  const [notes, setNotes] = useState("");
+  const [periods, setPeriods] = useState<PeriodCloseRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+
+  // Default to the last completed month in the group's calendar
+  useEffect(() => {
+    setMonth(shiftMonth(getContributionMonth(new Date(), calendar), -1));
+  }, [calendar]);
+
+  const loadPeriods = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await apiRequest<PeriodCloseRecord[]>("/api/periods");
+      if (result.success && result.data) {
+        setPeriods(result.data);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPeriods();
+  }, [loadPeriods]);
+
+  const closePeriod = async () => {
+    const confirmed = window.confirm(
+      "Close this period? Contributions, repayments, loans and interest dated inside it will be locked until an admin reopens it."
+    );
+    if (!confirmed) return;
+
+    setProcessing(true);
+    try {
+      const result = await apiRequest("/api/periods", {
+        method: "POST",
+        body: JSON.stringify({
+          periodType,
+          period: periodType === "month" ? month : fiscalYear,
+          notes,
+        }),
+      });
+
+      if (result.success) {
+        showToast.success("Period closed", result.message);
+        setNotes("");
+        loadPeriods();
+      } else {
+        showToast.error("Failed to close period", result.message);
+      }
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const reopenPeriod = async (period: PeriodCloseRecord) => {
+    const reason = window.prompt(
+      `Reason for reopening ${period.label} (kept with the period and in the audit log):`
+    );
+    if (reason === null) return;
+
+    setProcessing(true);
+    try {
+      const result = await apiRequest(`/api/periods/${period._id}/reopen`, {
+        method: "POST",
+        body: JSON.stringify({ reason }),
+      });
+
+      if (result.success && (result as any).pendingConfirmation) {
+        showToast.info("Sent for second approval", result.message);
+        loadPeriods();
+      } else if (result.success) {
+        showToast.success("Period reopened", result.message);
+        loadPeriods();
+      } else {
+        showToast.error("Failed to reopen period", result.message);
+      }
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const decideReopen = async (
+    period: PeriodCloseRecord,
+    decision: "confirm" | "decline"
+  ) => {
+    if (
+      decision === "decline" &&
+      !window.confirm(
+        `Decline the reopen of ${period.label} requested by ${period.pendingReopen?.requestedBy.name}?`
+      )
+    ) {
+      return;
+    }
+
+    setProcessing(true);
+    try {
+      const result = await apiRequest(`/api/periods/${period._id}/reopen/confirm`, {
+        method: "POST",
+        body: JSON.stringify({ decision }),
+      });
+
+      if (result.success) {
+        showToast.success(
+          decision === "confirm" ? "Period reopened" : "Reopen declined",
+          result.message
+        );
+        loadPeriods();
+      } else {
+        showToast.error("Failed to process reopen", result.message);
+      }
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="mobile-heading">Period Close</h2>
+        <p className="text-muted-foreground text-sm sm:text-base">
+          Lock months and fiscal years once their books have been presented
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Close a Period</CardTitle>
+          <CardDescription>
+            Totals are recorded as they stand now. Records dated inside a closed
+            period cannot be added, edited or deleted until it is reopened.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="period-type">Period</Label>
+              <select
+                id="period-type"
+                value={periodType}
+                onChange={(e) => setPeriodType(e.target.value as PeriodCloseType)}
+                className={selectClassName}
+              >
+                <option value="month">Month</option>
+                <option value="fiscal_year">Fiscal Year</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="period-value">
+                {periodType === "month" ? `Month (${calendar})` : "Fiscal Year (BS)"}
+              </Label>
+              {periodType === "month" ? (
+                <ContributionMonthInput
+                  id="period-value"
+                  value={month}
+                  onChange={setMonth}
+                  calendar={calendar}
+                />
+              ) : (
+                <select
+                  id="period-value"
+                  value={fiscalYear}
+                  onChange={(e) => setFiscalYear(e.target.value)}
+                  className={selectClassName}
+                >
+                  {Array.from({ length: 6 }, (_, i) => lastFiscalYear - i).map((year) => (
+                    <option key={year} value={year}>
+                      FY {formatFiscalYear(year)}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+            <Button onClick={closePeriod} disabled={processing}>
+              <Lock className="h-4 w-4 mr-2" />
+              {processing ? "Working..." : "Close Period"}
+            </Button>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="period-notes">Notes</Label>
+            <Textarea
+              id="period-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. Presented at the annual general meeting"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Closed Periods</CardTitle>
+          <CardDescription>
+            Snapshot totals taken when each period was closed
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <TableSkeleton rows={3} columns={8} />
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Status</TableHead>
+                    {totalColumns.map((column) => (
+                      <TableHead key={column.key}>{column.label}</TableHead>
+                    ))}
+                    <TableHead>History</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {periods.length > 0 ? (
+                    periods.map((period) => (
+                      <TableRow key={period._id}>
+                        <TableCell className="font-medium">
+                          {period.label}
+                          <div className="text-xs text-muted-foreground">
+                            {formatDate(period.startDate)} – {formatDate(period.endDate)}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            className={
+                              period.status === "closed"
+                                ? "bg-gray-100 text-gray-800"
+                                : "bg-orange-100 text-orange-800"
+                            }
+                          >
+                            {period.status === "closed" ? "Closed" : "Reopened"}
+                          </Badge>
+                        </TableCell>
+                        {totalColumns.map((column) => (
+                          <TableCell key={column.key}>
+                            {formatCurrency(period.totals[column.key])}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-xs text-muted-foreground">
+                          {period.history.map((event, i) => (
+                            <div key={i}>
+                              {event.action === "close" ? "Closed" : "Reopened"}{" "}
+                              {formatDate(event.date)}
+                              {event.by && ` by ${event.by.name}`}
+                              {event.confirmedBy && `, confirmed by ${event.confirmedBy.name}`}
+                              {event.reason && `: ${event.reason}`}
+                            </div>
+                          ))}
+                        </TableCell>
+                        <TableCell>
+                          {period.status === "closed" && period.pendingReopen ? (
+                            <div className="space-y-2 text-xs">
+                              <Badge className="bg-orange-100 text-orange-800">
+                                Reopen awaiting confirmation
+                              </Badge>
+                              <p className="text-muted-foreground">
+                                Requested by {period.pendingReopen.requestedBy.name}:{" "}
+                                {period.pendingReopen.reason}
+                              </p>
+                              <div className="flex gap-2">
+                                <Button
+                                  size="sm"
+                                  onClick={() => decideReopen(period, "confirm")}
+                                  disabled={
+                                    processing ||
+                                    period.pendingReopen.requestedBy._id === currentUserId
+                                  }
+                                >
+                                  Confirm
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => decideReopen(period, "decline")}
+                                  disabled={processing}
+                                >
+                                  {period.pendingReopen.requestedBy._id === currentUserId
+                                    ? "Withdraw"
+                                    : "Decline"}
+                                </Button>
+                              </div>
+                            </div>
+                          ) : (
+                            period.status === "closed" && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => reopenPeriod(period)}
+                                disabled={processing}
+                              >
+                                <Unlock className="h-4 w-4 mr-1" />
+                                Reopen
+                              </Button>
+                            )
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell
+                        colSpan={totalColumns.length + 4}
+                        className="text-center py-6 text-muted-foreground"
+                      >
+                        No periods closed yet
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
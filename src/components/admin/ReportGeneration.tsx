@@ -21,11 +21,13 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { apiRequest } from "@/lib/utils";
+import { formatFiscalYear, getFiscalYearOfDate } from "@/lib/periods";
 import { Download, FileText, Calendar, Users, DollarSign } from "lucide-react";
 
 interface ReportFilters {
-  type: "users" | "contributions" | "loans" | "financial-summary";
+  type: "users" | "contributions" | "loans" | "financial-summary" | "fiscal-year";
   format: "csv" | "json";
+  fiscalYear?: string; // BS year the Nepali fiscal year starts in
   dateFrom?: string;
   dateTo?: string;
   status?: string;
@@ -40,6 +42,13 @@ export default function ReportGeneration() {
   const [isGenerating, setIsGenerating] = useState(false);
   const [lastReport, setLastReport] = useState<any>(null);
 
+  // The current Nepali fiscal year and the five before it
+  const currentFiscalYear = getFiscalYearOfDate();
+  const fiscalYears = Array.from(
+    { length: 6 },
+    (_, i) => currentFiscalYear - i
+  );
+
   const handleFilterChange = (key: keyof ReportFilters, value: string) => {
     setFilters((prev) => ({ ...prev, [key]: value }));
   };
@@ -52,8 +61,15 @@ export default function ReportGeneration() {
       const queryParams = new URLSearchParams({
         type: filters.type,
         format: filters.format,
-        ...(filters.dateFrom && { dateFrom: filters.dateFrom }),
-        ...(filters.dateTo && { dateTo: filters.dateTo }),
+        ...(filters.type === "fiscal-year" && {
+          fiscalYear: filters.fiscalYear || String(currentFiscalYear),
+        }),
+        ...(filters.type !== "fiscal-year" &&
+          filters.fiscalYear && { fiscalYear: filters.fiscalYear }),
+        ...(!filters.fiscalYear &&
+          filters.dateFrom && { dateFrom: filters.dateFrom }),
+        ...(!filters.fiscalYear &&
+          filters.dateTo && { dateTo: filters.dateTo }),
         ...(filters.status && { status: filters.status }),
         ...(filters.userId && { userId: filters.userId }),
       });
@@ -157,6 +173,8 @@ export default function ReportGeneration() {
         return <FileText className="w-5 h-5" />;
       case "financial-summary":
         return <Calendar className="w-5 h-5" />;
+      case "fiscal-year":
+        return <Calendar className="w-5 h-5" />;
       default:
         return <FileText className="w-5 h-5" />;
     }
@@ -183,6 +201,12 @@ export default function ReportGeneration() {
       label: "Financial Summary",
       description: "Overall financial health and statistics",
     },
+    {
+      value: "fiscal-year",
+      label: "Fiscal Year Report",
+      description:
+        "Month-by-month collections, loans and interest for a Nepali fiscal year (Shrawan to Ashadh)",
+    },
   ];
 
   return (
@@ -248,10 +272,51 @@ export default function ReportGeneration() {
             </div>
           </div>
 
+          {/* Nepali fiscal year */}
+          {filters.type !== "users" && (
+            <div className="space-y-3">
+              <Label htmlFor="fiscalYear">
+                Fiscal Year{filters.type === "fiscal-year" ? "" : " (Optional)"}
+              </Label>
+              <Select
+                value={
+                  filters.fiscalYear ||
+                  (filters.type === "fiscal-year"
+                    ? String(currentFiscalYear)
+                    : "all")
+                }
+                onValueChange={(value) =>
+                  handleFilterChange("fiscalYear", value === "all" ? "" : value)
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Any period" />
+                </SelectTrigger>
+                <SelectContent>
+                  {filters.type !== "fiscal-year" && (
+                    <SelectItem value="all">Any period</SelectItem>
+                  )}
+                  {fiscalYears.map((year) => (
+                    <SelectItem key={year} value={String(year)}>
+                      FY {formatFiscalYear(year)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {filters.type === "contributions" && filters.fiscalYear && (
+                <p className="text-sm text-muted-foreground">
+                  Contributions for the fiscal year&apos;s months, whenever
+                  they were paid
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Date Range Filters */}
           {(filters.type === "contributions" ||
             filters.type === "loans" ||
-            filters.type === "financial-summary") && (
+            filters.type === "financial-summary") &&
+            !filters.fiscalYear && (
             <div className="space-y-3">
               <Label>Date Range (Optional)</Label>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
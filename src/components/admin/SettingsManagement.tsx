@@ -0,0 +1,428 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TableSkeleton } from "@/components/ui/loading-skeletons";
+import { showToast } from "@/lib/toast";
+import {
+  apiRequest,
+  formatCurrency,
+  formatDate,
+  formatDateTime,
+} from "@/lib/utils";
+import {
+  CommunitySettings,
+  useCommunitySettings,
+} from "@/hooks/useCommunitySettings";
+import { ContributionCalendar } from "@/types";
+
+interface SettingsVersion extends Omit<CommunitySettings, "openingDate"> {
+  _id: string;
+  openingDate: string;
+  changedBy?: { name: string; email: string };
+  changeNote?: string;
+  createdAt: string;
+}
+
+const toFormData = (settings: CommunitySettings) => ({
+  communityName: settings.communityName,
+  openingDate: settings.openingDate.toISOString().split("T")[0],
+  monthlyContributionAmount: String(settings.monthlyContributionAmount),
+  annualInterestRate: String(settings.annualInterestRate),
+  contributionCalendar: settings.contributionCalendar,
+  historicalContributions: settings.policies.historicalContributions,
+  monthlyContribution: settings.policies.monthlyContribution,
+  catchUpPolicy: settings.policies.catchUpPolicy,
+});
+
+/**
+ * Fields that differ between a settings version and the one before it
+ */
+const describeChanges = (
+  version: SettingsVersion,
+  previous?: SettingsVersion
+): string[] => {
+  if (!previous) {
+    return ["Initial settings"];
+  }
+
+  const changes: string[] = [];
+  if (version.communityName !== previous.communityName) {
+    changes.push(`Name: ${previous.communityName} → ${version.communityName}`);
+  }
+  if (formatDate(version.openingDate) !== formatDate(previous.openingDate)) {
+    changes.push(
+      `Opening date: ${formatDate(previous.openingDate)} → ${formatDate(
+        version.openingDate
+      )}`
+    );
+  }
+  if (version.monthlyContributionAmount !== previous.monthlyContributionAmount) {
+    changes.push(
+      `Opening contribution: ${formatCurrency(
+        previous.monthlyContributionAmount
+      )} → ${formatCurrency(version.monthlyContributionAmount)}`
+    );
+  }
+  if (version.annualInterestRate !== previous.annualInterestRate) {
+    changes.push(
+      `Interest rate: ${previous.annualInterestRate}% → ${version.annualInterestRate}%`
+    );
+  }
+  if ((version.contributionCalendar || "AD") !== (previous.contributionCalendar || "AD")) {
+    changes.push(
+      `Calendar: ${previous.contributionCalendar || "AD"} → ${version.contributionCalendar || "AD"}`
+    );
+  }
+  if (
+    JSON.stringify(version.policies) !== JSON.stringify(previous.policies)
+  ) {
+    changes.push("Policy text");
+  }
+  return changes;
+};
+
+/**
+ * Community-wide settings. Each save is kept as a new version with who made
+ * it, so earlier values stay on record.
+ */
+export default function SettingsManagement() {
+  const { settings, loading, reloadSettings } = useCommunitySettings();
+  const [formData, setFormData] = useState(toFormData(settings));
+  const [changeNote, setChangeNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [history, setHistory] = useState<SettingsVersion[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(true);
+
+  useEffect(() => {
+    setFormData(toFormData(settings));
+  }, [settings]);
+
+  const loadHistory = useCallback(async () => {
+    setHistoryLoading(true);
+    try {
+      const result = await apiRequest<SettingsVersion[]>(
+        "/api/settings/history"
+      );
+      if (result.success && result.data) {
+        setHistory(result.data);
+      }
+    } catch (error) {
+      console.error("Error loading settings history:", error);
+    } finally {
+      setHistoryLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const saveSettings = async () => {
+    setSaving(true);
+    try {
+      const result = await apiRequest<CommunitySettings>("/api/settings", {
+        method: "PUT",
+        body: JSON.stringify({
+          communityName: formData.communityName,
+          openingDate: formData.openingDate,
+          monthlyContributionAmount: parseFloat(
+            formData.monthlyContributionAmount
+          ),
+          annualInterestRate: parseFloat(formData.annualInterestRate),
+          contributionCalendar: formData.contributionCalendar,
+          policies: {
+            historicalContributions: formData.historicalContributions,
+            monthlyContribution: formData.monthlyContribution,
+            catchUpPolicy: formData.catchUpPolicy,
+          },
+          changeNote,
+        }),
+      });
+
+      if (result.success) {
+        showToast.success("Settings saved", result.message);
+        setChangeNote("");
+        reloadSettings();
+        loadHistory();
+      } else {
+        showToast.error(
+          "Failed to save settings",
+          result.error || result.message || "Please try again"
+        );
+      }
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      showToast.error("Failed to save settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>Community Settings</CardTitle>
+              <CardDescription>
+                Used for catch-up calculations and loans without a product.
+                Changes apply from the moment they are saved.
+              </CardDescription>
+            </div>
+            <Badge variant="secondary">
+              {settings.version > 0
+                ? `Version ${settings.version}`
+                : "Defaults"}
+            </Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="settings-name">Community Name</Label>
+              <Input
+                id="settings-name"
+                value={formData.communityName}
+                onChange={(e) =>
+                  setFormData({ ...formData, communityName: e.target.value })
+                }
+                disabled={loading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settings-opening-date">Opening Date</Label>
+              <Input
+                id="settings-opening-date"
+                type="date"
+                value={formData.openingDate}
+                max={new Date().toISOString().split("T")[0]}
+                onChange={(e) =>
+                  setFormData({ ...formData, openingDate: e.target.value })
+                }
+                disabled={loading}
+              />
+              <p className="text-xs text-muted-foreground">
+                Members owe contributions from this date
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settings-contribution">
+                Opening Contribution (NPR)
+              </Label>
+              <Input
+                id="settings-contribution"
+                type="number"
+                min="1"
+                value={formData.monthlyContributionAmount}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    monthlyContributionAmount: e.target.value,
+                  })
+                }
+                disabled={loading}
+              />
+              <p className="text-xs text-muted-foreground">
+                Monthly amount until the first change in the contribution
+                schedule
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settings-rate">Annual Interest Rate (%)</Label>
+              <Input
+                id="settings-rate"
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={formData.annualInterestRate}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    annualInterestRate: e.target.value,
+                  })
+                }
+                disabled={loading}
+              />
+              <p className="text-xs text-muted-foreground">
+                Existing loans keep the rate they were given
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settings-calendar">Contribution Calendar</Label>
+              <select
+                id="settings-calendar"
+                value={formData.contributionCalendar}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    contributionCalendar: e.target.value as ContributionCalendar,
+                  })
+                }
+                disabled={loading}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="AD">AD (Gregorian months)</option>
+                <option value="BS">BS (Baisakh to Chaitra)</option>
+              </select>
+              <p className="text-xs text-muted-foreground">
+                Months are named, entered and fall due in this calendar
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="settings-policy-historical">
+              Historical Contributions Policy
+            </Label>
+            <Textarea
+              id="settings-policy-historical"
+              value={formData.historicalContributions}
+              onChange={(e) =>
+                setFormData({
+                  ...formData,
+                  historicalContributions: e.target.value,
+                })
+              }
+              rows={2}
+              disabled={loading}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="settings-policy-monthly">
+              Monthly Contribution Policy
+            </Label>
+            <Textarea
+              id="settings-policy-monthly"
+              value={formData.monthlyContribution}
+              onChange={(e) =>
+                setFormData({
+                  ...formData,
+                  monthlyContribution: e.target.value,
+                })
+              }
+              rows={2}
+              disabled={loading}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="settings-policy-catch-up">Catch-up Policy</Label>
+            <Textarea
+              id="settings-policy-catch-up"
+              value={formData.catchUpPolicy}
+              onChange={(e) =>
+                setFormData({ ...formData, catchUpPolicy: e.target.value })
+              }
+              rows={2}
+              disabled={loading}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="settings-change-note">Reason for Change</Label>
+            <Input
+              id="settings-change-note"
+              value={changeNote}
+              onChange={(e) => setChangeNote(e.target.value)}
+              placeholder="e.g. Contribution raised at the annual meeting"
+              disabled={loading}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setFormData(toFormData(settings))}
+              disabled={saving || loading}
+            >
+              Reset
+            </Button>
+            <Button onClick={saveSettings} disabled={saving || loading}>
+              {saving ? "Saving..." : "Save Settings"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Change History</CardTitle>
+          <CardDescription>Every saved version of the settings</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {historyLoading ? (
+            <TableSkeleton rows={3} columns={4} />
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Version</TableHead>
+                    <TableHead>Changed</TableHead>
+                    <TableHead>By</TableHead>
+                    <TableHead>Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.length > 0 ? (
+                    history.map((version, index) => (
+                      <TableRow key={version._id}>
+                        <TableCell className="font-medium">
+                          {version.version}
+                        </TableCell>
+                        <TableCell>{formatDateTime(version.createdAt)}</TableCell>
+                        <TableCell>{version.changedBy?.name || "System"}</TableCell>
+                        <TableCell className="text-sm">
+                          {describeChanges(version, history[index + 1]).map(
+                            (change) => (
+                              <div key={change}>{change}</div>
+                            )
+                          )}
+                          {version.changeNote && (
+                            <div className="text-xs text-muted-foreground">
+                              {version.changeNote}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell
+                        colSpan={4}
+                        className="text-center py-6 text-muted-foreground"
+                      >
+                        Settings have not been changed from the defaults
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -146,7 +146,11 @@ export default function CommunityFinancesTab() {
         <StatCard
           title="Interest Collected"
           value={formatCurrency(communityFinances.totalInterestCollected)}
-          description="Total earnings"
+          description={
+            communityFinances.totalPenaltiesCollected > 0
+              ? `Incl. ${formatCurrency(communityFinances.totalPenaltiesCollected)} in penalties`
+              : "Total earnings"
+          }
           icon={TrendingUp}
           color="green"
         />
@@ -21,10 +21,11 @@ import { Button } from "@/components/ui/button";
 import { formatDate } from "@/lib/utils";
 import { useMembersData } from "@/hooks/useAdminData";
 import { Pagination } from "@/components/ui/pagination";
-import { RefreshCw, UserPlus, Users, Edit, Mail, ShieldOff, Settings } from "lucide-react";
+import { RefreshCw, UserPlus, Users, Edit, Mail, ShieldOff, Settings, ScrollText } from "lucide-react";
 import BulkMemberForm from "@/components/admin/BulkMemberForm";
 import EditMemberForm from "@/components/admin/EditMemberForm";
 import UserApproval from "@/components/admin/UserApproval";
+import MemberStatement from "@/components/shared/MemberStatement";
 import { IUser } from "@/types";
 import { showToast } from "@/lib/toast";
 import { apiRequest } from "@/lib/utils";
@@ -33,7 +34,7 @@ interface MembersTabProps {
   onNavigateToHistorical: (memberId?: string) => void;
 }
 
-type ViewMode = 'list' | 'bulk-add' | 'individual-add' | 'edit';
+type ViewMode = 'list' | 'bulk-add' | 'individual-add' | 'edit' | 'statement';
 
 export default function MembersTab({
   onNavigateToHistorical,
@@ -51,6 +52,7 @@ export default function MembersTab({
 
   const [viewMode, setViewMode] = useState<ViewMode>('list');
   const [editingMember, setEditingMember] = useState<IUser | null>(null);
+  const [statementMemberId, setStatementMemberId] = useState<string | null>(null);
   const [isFixingIndexes, setIsFixingIndexes] = useState(false);
 
   // Load data when component mounts
@@ -73,6 +75,16 @@ export default function MembersTab({
     setViewMode('list');
   };
 
+  const handleViewStatement = (member: IUser) => {
+    setStatementMemberId(member._id.toString());
+    setViewMode('statement');
+  };
+
+  const handleCloseStatement = () => {
+    setStatementMemberId(null);
+    setViewMode('list');
+  };
+
   const handleFixIndexes = async () => {
     setIsFixingIndexes(true);
     try {
@@ -124,6 +136,14 @@ export default function MembersTab({
     );
   }
 
+  if (viewMode === 'statement' && statementMemberId) {
+    return (
+      <div className="animate-fade-in">
+        <MemberStatement userId={statementMemberId} onBack={handleCloseStatement} />
+      </div>
+    );
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -346,6 +366,15 @@ export default function MembersTab({
                           >
                             Contributions
                           </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="text-xs whitespace-nowrap"
+                            onClick={() => handleViewStatement(member)}
+                          >
+                            <ScrollText className="h-3 w-3 mr-1" />
+                            Statement
+                          </Button>
                         </div>
                       </TableCell>
                     </TableRow>
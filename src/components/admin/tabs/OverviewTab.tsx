@@ -20,6 +20,8 @@ import {
 import { Button } from "@/components/ui/button";
 import { formatCurrency, formatDate } from "@/lib/utils";
 import { useDashboardOverview } from "@/hooks/useAdminData";
+import { useCommunitySettings } from "@/hooks/useCommunitySettings";
+import { formatContributionMonth, formatFiscalYear } from "@/lib/periods";
 import {
   DollarSign,
   TrendingUp,
@@ -42,6 +44,7 @@ export default function OverviewTab() {
     error,
     loadOverviewData,
   } = useDashboardOverview();
+  const { settings } = useCommunitySettings();
 
   // Load data when component mounts
   useEffect(() => {
@@ -234,13 +237,57 @@ export default function OverviewTab() {
                   <StatCard
                     title="Monthly Contributions"
                     value={formatCurrency(dashboardStats.monthlyContributions)}
-                    subtitle="Current month savings"
+                    subtitle={formatContributionMonth(
+                      dashboardStats.currentMonth,
+                      settings.contributionCalendar
+                    )}
                     icon={CheckCircle}
                     trend="up"
                   />
                 </div>
               </CardContent>
             </Card>
+
+            {/* Nepali fiscal year */}
+            <Card className="col-span-full">
+              <CardHeader>
+                <CardTitle>
+                  Fiscal Year {formatFiscalYear(dashboardStats.fiscalYear)}
+                </CardTitle>
+                <CardDescription>Shrawan to Ashadh so far</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <StatCard
+                    title="Contributions Collected"
+                    value={formatCurrency(
+                      dashboardStats.fiscalYearContributions
+                    )}
+                    subtitle="For this fiscal year's months"
+                    icon={CheckCircle}
+                    trend="up"
+                  />
+                  <StatCard
+                    title="Interest Earned"
+                    value={formatCurrency(
+                      dashboardStats.fiscalYearInterestEarned
+                    )}
+                    subtitle="Repayments and historical interest"
+                    icon={TrendingUp}
+                    trend="up"
+                  />
+                  <StatCard
+                    title="Loans Disbursed"
+                    value={formatCurrency(
+                      dashboardStats.fiscalYearLoansDisbursed
+                    )}
+                    subtitle="Since 1 Shrawan"
+                    icon={FileText}
+                    trend="neutral"
+                  />
+                </div>
+              </CardContent>
+            </Card>
           </>
         )}
 
@@ -407,12 +454,10 @@ export default function OverviewTab() {
                           {formatCurrency(contribution.amount)}
                         </TableCell>
                         <TableCell>
-                          {new Date(
-                            contribution.month + "-01"
-                          ).toLocaleDateString("en-US", {
-                            month: "long",
-                            year: "numeric",
-                          })}
+                          {formatContributionMonth(
+                            contribution.month,
+                            settings.contributionCalendar
+                          )}
                         </TableCell>
                         <TableCell className="capitalize">
                           {contribution.paymentMethod || "Not specified"}
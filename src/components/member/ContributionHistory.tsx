@@ -23,6 +23,16 @@ import {
 } from "@/components/ui/table";
 import { apiRequest } from "@/lib/utils";
 import { showToast } from "@/lib/toast";
+import ReceiptButton from "@/components/shared/ReceiptButton";
+import { ContributionMonthInput } from "@/components/ui/contribution-month-input";
+import { useCommunitySettings } from "@/hooks/useCommunitySettings";
+import { formatContributionMonth, getContributionMonth } from "@/lib/periods";
+import PaymentProof, {
+  AttachmentInfo,
+  PROOF_FILE_TYPES,
+  loadPaymentProofs,
+  uploadPaymentProof,
+} from "@/components/shared/PaymentProof";
 
 interface Contribution {
   _id: string;
@@ -41,16 +51,19 @@ interface Contribution {
 export default function ContributionHistory() {
   const [contributions, setContributions] = useState<Contribution[]>([]);
   const [loading, setLoading] = useState(true);
-  const [selectedMonth, setSelectedMonth] = useState(() => {
-    const now = new Date();
-    return now.toISOString().slice(0, 7); // YYYY-MM format
-  });
+  const { settings } = useCommunitySettings();
+  const calendar = settings.contributionCalendar;
+  const [selectedMonth, setSelectedMonth] = useState(() =>
+    getContributionMonth(new Date())
+  );
   const [showRecordForm, setShowRecordForm] = useState(false);
   const [paymentData, setPaymentData] = useState({
-    amount: "2000",
+    amount: "",
     paymentMethod: "cash",
     notes: "",
   });
+  const [proofFile, setProofFile] = useState<File | null>(null);
+  const [proofs, setProofs] = useState<Record<string, AttachmentInfo[]>>({});
   const [processing, setProcessing] = useState(false);
 
   const loadContributions = useCallback(async () => {
@@ -59,6 +72,12 @@ export default function ContributionHistory() {
       const result = await apiRequest<Contribution[]>("/api/contributions");
       if (result.success && result.data) {
         setContributions(result.data);
+        setProofs(
+          await loadPaymentProofs(
+            "contribution",
+            result.data.map((c) => c._id)
+          )
+        );
       }
     } catch (error) {
       console.error("Error loading contributions:", error);
@@ -71,6 +90,11 @@ export default function ContributionHistory() {
     loadContributions();
   }, [loadContributions]);
 
+  // Default to the month in progress in the group's calendar once settings load
+  useEffect(() => {
+    setSelectedMonth(getContributionMonth(new Date(), calendar));
+  }, [calendar]);
+
   const recordContribution = async () => {
     setProcessing(true);
     try {
@@ -79,15 +103,32 @@ export default function ContributionHistory() {
         body: JSON.stringify({
           action: "member-contribute",
           month: selectedMonth,
-          amount: parseFloat(paymentData.amount) || 2000,
+          amount: parseFloat(paymentData.amount) || undefined,
           paymentMethod: paymentData.paymentMethod,
           notes: paymentData.notes,
         }),
       });
 
       if (result.success) {
+        const contributionId = (result as { contribution?: { _id: string } })
+          .contribution?._id;
+        if (proofFile && contributionId) {
+          const upload = await uploadPaymentProof(
+            "contribution",
+            contributionId,
+            proofFile
+          );
+          if (!upload.success) {
+            showToast.warning(
+              "Proof of payment was not attached",
+              upload.message || "You can record the contribution again with it"
+            );
+          }
+        }
+
         setShowRecordForm(false);
-        setPaymentData({ amount: "2000", paymentMethod: "cash", notes: "" });
+        setPaymentData({ amount: "", paymentMethod: "cash", notes: "" });
+        setProofFile(null);
         loadContributions();
         showToast.success(
           "Contribution recorded successfully!",
@@ -157,11 +198,11 @@ export default function ContributionHistory() {
             <Label htmlFor="record-month" className="text-sm font-medium">
               Record for month:
             </Label>
-            <Input
+            <ContributionMonthInput
               id="record-month"
-              type="month"
               value={selectedMonth}
-              onChange={(e) => setSelectedMonth(e.target.value)}
+              onChange={setSelectedMonth}
+              calendar={calendar}
               className="w-auto min-w-[140px]"
             />
           </div>
@@ -235,19 +276,14 @@ export default function ContributionHistory() {
                   <TableHead>Date Recorded</TableHead>
                   <TableHead>Payment Method</TableHead>
                   <TableHead>Notes</TableHead>
+                  <TableHead>Receipt</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {contributions.map((contribution) => (
                   <TableRow key={contribution._id}>
                     <TableCell className="font-medium">
-                      {new Date(contribution.month + "-01").toLocaleDateString(
-                        "en-US",
-                        {
-                          month: "long",
-                          year: "numeric",
-                        }
-                      )}
+                      {formatContributionMonth(contribution.month, calendar)}
                     </TableCell>
                     <TableCell>{formatCurrency(contribution.amount)}</TableCell>
                     <TableCell>
@@ -269,8 +305,21 @@ export default function ContributionHistory() {
                     <TableCell className="capitalize">
                       {contribution.paymentMethod || "-"}
                     </TableCell>
-                    <TableCell className="max-w-xs truncate">
-                      {contribution.notes || "-"}
+                    <TableCell className="max-w-xs">
+                      <div className="truncate">
+                        {contribution.notes || "-"}
+                      </div>
+                      <PaymentProof attachments={proofs[contribution._id]} />
+                    </TableCell>
+                    <TableCell>
+                      {contribution.paidStatus === "paid" ? (
+                        <ReceiptButton
+                          type="contribution"
+                          id={contribution._id}
+                        />
+                      ) : (
+                        "-"
+                      )}
                     </TableCell>
                   </TableRow>
                 ))}
@@ -289,10 +338,7 @@ export default function ContributionHistory() {
                 <CardTitle>Record My Contribution</CardTitle>
                 <CardDescription>
                   Record your contribution for{" "}
-                  {new Date(selectedMonth + "-01").toLocaleDateString("en-US", {
-                    month: "long",
-                    year: "numeric",
-                  })}
+                  {formatContributionMonth(selectedMonth, calendar)}
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -310,7 +356,7 @@ export default function ContributionHistory() {
                         amount: e.target.value,
                       }))
                     }
-                    placeholder="2000"
+                    placeholder="Amount due"
                   />
                 </div>
                 <div className="space-y-2">
@@ -346,6 +392,21 @@ export default function ContributionHistory() {
                     placeholder="Add any notes about this payment..."
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="contribution-proof">
+                    Proof of payment (optional)
+                  </Label>
+                  <Input
+                    id="contribution-proof"
+                    type="file"
+                    accept={PROOF_FILE_TYPES}
+                    onChange={(e) => setProofFile(e.target.files?.[0] || null)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Bank slip or wallet screenshot: JPEG, PNG, WebP or PDF, up
+                    to 5 MB
+                  </p>
+                </div>
                 <div className="bg-blue-50 p-3 rounded-lg">
                   <p className="text-sm text-blue-700">
                     <strong>Note:</strong> Your contribution will be marked as
@@ -359,10 +420,11 @@ export default function ContributionHistory() {
                     onClick={() => {
                       setShowRecordForm(false);
                       setPaymentData({
-                        amount: "2000",
+                        amount: "",
                         paymentMethod: "cash",
                         notes: "",
                       });
+                      setProofFile(null);
                     }}
                   >
                     Cancel
@@ -0,0 +1,230 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  apiRequest,
+  formatCurrency,
+  formatDate,
+  getLoanStatusColor,
+} from "@/lib/utils";
+import { showToast } from "@/lib/toast";
+
+interface Guarantee {
+  _id: string;
+  userId: { _id: string; name: string; memberId: string };
+  requestedAmount: number;
+  approvedAmount?: number;
+  purpose: string;
+  status: string;
+  requestDate: string;
+  guarantee: {
+    amount: number;
+    status: "pending" | "accepted" | "declined";
+    respondedDate?: string;
+    recoveredAmount: number;
+  };
+}
+
+interface GuaranteeCapacity {
+  savings: number;
+  limit: number;
+  exposure: number;
+  available: number;
+}
+
+interface Recovery {
+  _id: string;
+  borrowerId: { name: string; memberId: string };
+  amount: number;
+  recoveryDate: string;
+}
+
+interface GuaranteesResponse {
+  success: boolean;
+  data?: Guarantee[];
+  capacity?: GuaranteeCapacity;
+  recoveries?: Recovery[];
+  message?: string;
+}
+
+/**
+ * Loans the member has been asked to guarantee, with accept/decline for open
+ * requests and what they can still guarantee against their savings
+ */
+export default function GuaranteeRequests() {
+  const [guarantees, setGuarantees] = useState<Guarantee[]>([]);
+  const [capacity, setCapacity] = useState<GuaranteeCapacity | null>(null);
+  const [recoveries, setRecoveries] = useState<Recovery[]>([]);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const loadGuarantees = async () => {
+    try {
+      const result = (await apiRequest("/api/guarantees")) as GuaranteesResponse;
+      if (result.success) {
+        setGuarantees(result.data || []);
+        setCapacity(result.capacity || null);
+        setRecoveries(result.recoveries || []);
+      }
+    } catch (error) {
+      console.error("Error loading guarantees:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadGuarantees();
+  }, []);
+
+  const respond = async (loanId: string, decision: "accept" | "decline") => {
+    setProcessingId(loanId);
+    try {
+      const result = await apiRequest(`/api/loans/${loanId}/guarantors`, {
+        method: "POST",
+        body: JSON.stringify({ decision }),
+      });
+
+      if (result.success) {
+        showToast.success(result.message || "Response recorded");
+        loadGuarantees();
+      } else {
+        showToast.error(
+          "Could not record your response",
+          result.error || result.message || "Please try again"
+        );
+      }
+    } catch (error) {
+      console.error("Error responding to guarantee request:", error);
+      showToast.error("Could not record your response");
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const getGuaranteeStatusColor = (status: string) => {
+    switch (status) {
+      case "accepted":
+        return "bg-green-100 text-green-800";
+      case "declined":
+        return "bg-red-100 text-red-800";
+      default:
+        return "bg-yellow-100 text-yellow-800";
+    }
+  };
+
+  if (guarantees.length === 0 && recoveries.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Loans I Guarantee</CardTitle>
+        <CardDescription>
+          Accepting makes you responsible for the guaranteed amount if the
+          borrower defaults. It can be recovered from your savings.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {capacity && (
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div>
+              <p className="text-gray-500">Guarantee Limit</p>
+              <p className="font-semibold">{formatCurrency(capacity.limit)}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Currently Guaranteed</p>
+              <p className="font-semibold text-orange-600">
+                {formatCurrency(capacity.exposure)}
+              </p>
+            </div>
+            <div>
+              <p className="text-gray-500">Still Available</p>
+              <p className="font-semibold text-green-600">
+                {formatCurrency(capacity.available)}
+              </p>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {guarantees.map((loan) => (
+            <div
+              key={loan._id}
+              className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-3 border rounded-lg"
+            >
+              <div>
+                <p className="font-medium">
+                  {loan.userId.name} ({loan.userId.memberId})
+                </p>
+                <p className="text-sm text-gray-500">
+                  Guaranteeing {formatCurrency(loan.guarantee.amount)} of{" "}
+                  {formatCurrency(loan.approvedAmount || loan.requestedAmount)}{" "}
+                  · Requested {formatDate(loan.requestDate)}
+                </p>
+                <p className="text-sm text-gray-500">{loan.purpose}</p>
+                {loan.guarantee.recoveredAmount > 0 && (
+                  <p className="text-sm text-red-600">
+                    Recovered from your savings:{" "}
+                    {formatCurrency(loan.guarantee.recoveredAmount)}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge className={getLoanStatusColor(loan.status)}>
+                  {loan.status}
+                </Badge>
+                {loan.guarantee.status === "pending" &&
+                loan.status === "pending" ? (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => respond(loan._id, "decline")}
+                      disabled={processingId === loan._id}
+                    >
+                      Decline
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => respond(loan._id, "accept")}
+                      disabled={processingId === loan._id}
+                    >
+                      Accept
+                    </Button>
+                  </>
+                ) : (
+                  <Badge
+                    className={getGuaranteeStatusColor(loan.guarantee.status)}
+                  >
+                    {loan.guarantee.status}
+                  </Badge>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {recoveries.length > 0 && (
+          <div className="text-sm">
+            <p className="font-medium mb-1">Recoveries From Your Savings</p>
+            {recoveries.map((recovery) => (
+              <p key={recovery._id} className="text-gray-600">
+                {formatDate(recovery.recoveryDate)}:{" "}
+                {formatCurrency(recovery.amount)} for{" "}
+                {recovery.borrowerId.name} ({recovery.borrowerId.memberId})
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -12,7 +12,33 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
-import { apiRequest } from "@/lib/utils";
+import { apiRequest, formatCurrency } from "@/lib/utils";
+import { useCommunitySettings } from "@/hooks/useCommunitySettings";
+import GuarantorPicker from "@/components/shared/GuarantorPicker";
+import EligibilityChecklist, {
+  Eligibility,
+} from "@/components/shared/EligibilityChecklist";
+
+interface MemberOption {
+  _id: string;
+  name: string;
+  memberId: string;
+}
+
+interface LoanProduct {
+  _id: string;
+  name: string;
+  description?: string;
+  interestRate: number;
+  minAmount: number;
+  maxAmount: number;
+  maxTermMonths: number;
+  interestMethod: "equal_principal" | "emi";
+  requiresGuarantor: boolean;
+}
+
+const selectClassName =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
 
 interface LoanRequestFormProps {
   onSuccess?: () => void;
@@ -24,11 +50,78 @@ export default function LoanRequestForm({
   onCancel,
 }: LoanRequestFormProps) {
   const [formData, setFormData] = useState({
+    productId: "",
     requestedAmount: "",
+    termMonths: "12",
     purpose: "",
   });
+  const [products, setProducts] = useState<LoanProduct[]>([]);
+  const { settings } = useCommunitySettings();
+  const [guarantors, setGuarantors] = useState<string[]>([]);
+  const [members, setMembers] = useState<MemberOption[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [eligibility, setEligibility] = useState<Eligibility | null>(null);
+
+  const selectedProduct = products.find(
+    (product) => product._id === formData.productId
+  );
+  const maxTermMonths = selectedProduct?.maxTermMonths ?? 120;
+
+  const loadEligibility = async (amount: number) => {
+    const params = new URLSearchParams({ amount: String(amount) });
+    if (formData.productId) {
+      params.set("productId", formData.productId);
+    }
+    const result = await apiRequest<Eligibility>(
+      `/api/loans/eligibility?${params.toString()}`
+    );
+    setEligibility(result.success && result.data ? result.data : null);
+  };
+
+  // Re-check eligibility shortly after the amount stops changing
+  useEffect(() => {
+    const amount = parseFloat(formData.requestedAmount);
+    if (isNaN(amount) || amount <= 0) {
+      setEligibility(null);
+      return;
+    }
+
+    const timeout = setTimeout(() => loadEligibility(amount), 400);
+    return () => clearTimeout(timeout);
+  }, [formData.requestedAmount, formData.productId]);
+
+  useEffect(() => {
+    const loadMembers = async () => {
+      const result = await apiRequest<MemberOption[]>("/api/users/members-list");
+      if (result.success && result.data) {
+        setMembers(result.data);
+      }
+    };
+
+    const loadProducts = async () => {
+      const result = await apiRequest<LoanProduct[]>("/api/loan-products");
+      if (result.success && result.data) {
+        setProducts(result.data);
+        if (result.data.length > 0) {
+          selectProduct(result.data[0]);
+        }
+      }
+    };
+
+    loadMembers();
+    loadProducts();
+  }, []);
+
+  const selectProduct = (product?: LoanProduct) => {
+    setFormData((prev) => ({
+      ...prev,
+      productId: product?._id || "",
+      termMonths: product
+        ? String(Math.min(Number(prev.termMonths) || 12, product.maxTermMonths))
+        : prev.termMonths,
+    }));
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -39,13 +132,26 @@ export default function LoanRequestForm({
       const result = await apiRequest("/api/loans", {
         method: "POST",
         body: JSON.stringify({
+          productId: formData.productId || undefined,
           requestedAmount: parseFloat(formData.requestedAmount),
           purpose: formData.purpose,
+          repaymentPlan: {
+            termMonths: parseInt(formData.termMonths),
+            frequency: "monthly",
+            method: selectedProduct?.interestMethod || "emi",
+          },
+          guarantors: guarantors.map((userId) => ({ userId })),
         }),
       });
 
       if (result.success) {
-        setFormData({ requestedAmount: "", purpose: "" });
+        setFormData((prev) => ({
+          ...prev,
+          requestedAmount: "",
+          purpose: "",
+        }));
+        setGuarantors([]);
+        setEligibility(null);
         if (onSuccess) {
           onSuccess();
         }
@@ -54,6 +160,7 @@ export default function LoanRequestForm({
           submit:
             result.error || result.message || "Failed to submit loan request",
         });
+        loadEligibility(parseFloat(formData.requestedAmount));
       }
     } catch (error) {
       setErrors({ submit: "An unexpected error occurred" });
@@ -77,12 +184,47 @@ export default function LoanRequestForm({
       <CardHeader>
         <CardTitle>Request a Loan</CardTitle>
         <CardDescription>
-          Submit your loan request for admin approval. Interest rate is 16% per
-          annum.
+          Submit your loan request for admin approval. Interest rate is{" "}
+          {selectedProduct?.interestRate ?? settings.annualInterestRate}
+          % per annum.
         </CardDescription>
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-4">
+          {products.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="productId">Loan Product</Label>
+              <select
+                id="productId"
+                value={formData.productId}
+                onChange={(e) =>
+                  selectProduct(
+                    products.find((product) => product._id === e.target.value)
+                  )
+                }
+                className={selectClassName}
+                required
+              >
+                {products.map((product) => (
+                  <option key={product._id} value={product._id}>
+                    {product.name} ({product.interestRate}%)
+                  </option>
+                ))}
+              </select>
+              {selectedProduct && (
+                <p className="text-sm text-gray-500">
+                  {selectedProduct.description &&
+                    `${selectedProduct.description} · `}
+                  {formatCurrency(selectedProduct.minAmount)} to{" "}
+                  {formatCurrency(selectedProduct.maxAmount)}, up to{" "}
+                  {selectedProduct.maxTermMonths} months
+                  {selectedProduct.requiresGuarantor &&
+                    " · Guarantor required"}
+                </p>
+              )}
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="requestedAmount">Amount Requested ($)</Label>
             <Input
@@ -90,7 +232,8 @@ export default function LoanRequestForm({
               name="requestedAmount"
               type="number"
               step="0.01"
-              min="1"
+              min={selectedProduct?.minAmount ?? 1}
+              max={selectedProduct?.maxAmount}
               value={formData.requestedAmount}
               onChange={handleInputChange}
               placeholder="Enter amount"
@@ -102,6 +245,20 @@ export default function LoanRequestForm({
             )}
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="termMonths">Repayment Term (months)</Label>
+            <Input
+              id="termMonths"
+              name="termMonths"
+              type="number"
+              min="1"
+              max={maxTermMonths}
+              value={formData.termMonths}
+              onChange={handleInputChange}
+              required
+            />
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="purpose">Purpose of Loan</Label>
             <Textarea
@@ -119,6 +276,15 @@ export default function LoanRequestForm({
             )}
           </div>
 
+          {eligibility && <EligibilityChecklist eligibility={eligibility} />}
+
+          <GuarantorPicker
+            members={members}
+            value={guarantors}
+            onChange={setGuarantors}
+            disabled={isSubmitting}
+          />
+
           {errors.submit && (
             <div className="p-3 bg-red-50 border border-red-200 rounded-md">
               <p className="text-sm text-red-600">{errors.submit}</p>
@@ -9,6 +9,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import {
   Table,
   TableBody,
@@ -36,9 +37,25 @@ import {
   PlusCircle,
   FileText,
   AlertCircle,
+  ScrollText,
 } from "lucide-react";
 import LoanRequestForm from "./LoanRequestForm";
 import ContributionHistory from "./ContributionHistory";
+import GuaranteeRequests from "./GuaranteeRequests";
+import MemberStatement from "@/components/shared/MemberStatement";
+import WalletPayButton, { WalletProviderOption } from "./WalletPayButton";
+import { showToast } from "@/lib/toast";
+import { useCommunitySettings } from "@/hooks/useCommunitySettings";
+import { formatContributionMonth } from "@/lib/periods";
+
+interface DividendCredit {
+  _id: string;
+  year: number;
+  weightedAverageBalance: number;
+  sharePercentage: number;
+  amount: number;
+  creditedDate: string;
+}
 
 interface Props {
   user: {
@@ -57,12 +74,47 @@ export default function MemberDashboard({ user }: Props) {
   const [stats, setStats] = useState<IMemberStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [showLoanForm, setShowLoanForm] = useState(false);
-  const [showContributionHistory, setShowContributionHistory] = useState(false);
+  const [view, setView] = useState<"dashboard" | "contributions" | "statement">(
+    "dashboard"
+  );
+  const [dividends, setDividends] = useState<DividendCredit[]>([]);
+  const [walletProviders, setWalletProviders] = useState<
+    WalletProviderOption[]
+  >([]);
+  const [installmentAmount, setInstallmentAmount] = useState("");
+  const { settings } = useCommunitySettings();
 
   useEffect(() => {
     loadMemberData();
+    showPaymentResult();
   }, []);
 
+  // Wallet callbacks return here with ?payment=<outcome>
+  const showPaymentResult = () => {
+    const params = new URLSearchParams(window.location.search);
+    const outcome = params.get("payment");
+    if (!outcome) return;
+
+    const what =
+      params.get("purpose") === "repayment" ? "Loan repayment" : "Contribution";
+    if (outcome === "completed") {
+      showToast.success("Payment received", `${what} has been recorded`);
+    } else if (outcome === "unposted") {
+      showToast.warning(
+        "Payment received",
+        "An admin will apply it to your account shortly"
+      );
+    } else if (outcome === "cancelled") {
+      showToast.info("Payment cancelled");
+    } else {
+      showToast.error(
+        "Payment failed",
+        "Nothing was recorded; contact an admin if money left your wallet"
+      );
+    }
+    window.history.replaceState(null, "", window.location.pathname);
+  };
+
   const loadMemberData = async () => {
     try {
       const token = getLocalStorage<string>("token");
@@ -75,6 +127,20 @@ export default function MemberDashboard({ user }: Props) {
       if (result.success && result.data) {
         setStats(result.data);
       }
+
+      const dividendResult = await apiRequest<DividendCredit[]>(
+        "/api/dividends"
+      );
+      if (dividendResult.success && dividendResult.data) {
+        setDividends(dividendResult.data);
+      }
+
+      const providerResult = await apiRequest<WalletProviderOption[]>(
+        "/api/payments/providers"
+      );
+      if (providerResult.success && providerResult.data) {
+        setWalletProviders(providerResult.data);
+      }
     } catch (error) {
       console.error("Error loading member data:", error);
     } finally {
@@ -142,17 +208,31 @@ export default function MemberDashboard({ user }: Props) {
           <Button
             size="sm"
             variant="outline"
-            onClick={() => setShowContributionHistory(!showContributionHistory)}
+            onClick={() =>
+              setView(view === "contributions" ? "dashboard" : "contributions")
+            }
           >
             <FileText className="h-4 w-4 mr-2" />
-            {showContributionHistory ? "Dashboard" : "My Contributions"}
+            {view === "contributions" ? "Dashboard" : "My Contributions"}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              setView(view === "statement" ? "dashboard" : "statement")
+            }
+          >
+            <ScrollText className="h-4 w-4 mr-2" />
+            {view === "statement" ? "Dashboard" : "Statement"}
           </Button>
         </div>
       </div>
 
       {/* Conditional Content */}
-      {showContributionHistory ? (
+      {view === "contributions" ? (
         <ContributionHistory />
+      ) : view === "statement" ? (
+        <MemberStatement userId={user._id} />
       ) : (
         <>
           {/* Statistics Overview */}
@@ -238,10 +318,37 @@ export default function MemberDashboard({ user }: Props) {
                     {stats.currentLoan.status.toUpperCase()}
                   </Badge>
                 </div>
+                {stats.currentLoan.status === "disbursed" &&
+                  walletProviders.length > 0 && (
+                    <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-2">
+                      <Input
+                        type="number"
+                        min="1"
+                        step="0.01"
+                        placeholder="Amount (next installment)"
+                        value={installmentAmount}
+                        onChange={(e) => setInstallmentAmount(e.target.value)}
+                        className="sm:w-44"
+                      />
+                      <WalletPayButton
+                        purpose="repayment"
+                        targetId={stats.currentLoan._id.toString()}
+                        providers={walletProviders}
+                        amount={
+                          installmentAmount
+                            ? Number(installmentAmount)
+                            : undefined
+                        }
+                      />
+                    </div>
+                  )}
               </CardContent>
             </Card>
           )}
 
+          {/* Guarantee Requests */}
+          <GuaranteeRequests />
+
           <div className="grid gap-6 md:grid-cols-2">
             {/* Recent Contributions */}
             <Card>
@@ -261,20 +368,34 @@ export default function MemberDashboard({ user }: Props) {
                         className="flex items-center justify-between p-3 border rounded-lg"
                       >
                         <div>
-                          <p className="font-medium">{contribution.month}</p>
+                          <p className="font-medium">
+                            {formatContributionMonth(
+                              contribution.month,
+                              settings.contributionCalendar
+                            )}
+                          </p>
                           <p className="text-sm text-gray-500">
                             {formatCurrency(contribution.amount)}
                             {contribution.paidDate &&
                               ` - Paid ${formatDate(contribution.paidDate)}`}
                           </p>
                         </div>
-                        <Badge
-                          className={getContributionStatusColor(
-                            contribution.paidStatus
+                        <div className="flex flex-col items-end gap-2">
+                          <Badge
+                            className={getContributionStatusColor(
+                              contribution.paidStatus
+                            )}
+                          >
+                            {contribution.paidStatus}
+                          </Badge>
+                          {contribution.paidStatus !== "paid" && (
+                            <WalletPayButton
+                              purpose="contribution"
+                              targetId={contribution._id.toString()}
+                              providers={walletProviders}
+                            />
                           )}
-                        >
-                          {contribution.paidStatus}
-                        </Badge>
+                        </div>
                       </div>
                     ))
                   ) : (
@@ -332,6 +453,57 @@ export default function MemberDashboard({ user }: Props) {
             </Card>
           </div>
 
+          {/* Dividend History */}
+          {dividends.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Dividend History</CardTitle>
+                <CardDescription>
+                  Your share of the group&apos;s yearly income, based on your
+                  average savings during the year
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Year</TableHead>
+                      <TableHead>Average Savings</TableHead>
+                      <TableHead>Share</TableHead>
+                      <TableHead>Dividend</TableHead>
+                      <TableHead>Credited</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {dividends.map((dividend) => (
+                      <TableRow key={dividend._id}>
+                        <TableCell className="font-medium">
+                          {dividend.year}
+                        </TableCell>
+                        <TableCell>
+                          {formatCurrency(dividend.weightedAverageBalance)}
+                        </TableCell>
+                        <TableCell>
+                          {dividend.sharePercentage.toFixed(2)}%
+                        </TableCell>
+                        <TableCell className="font-semibold text-green-600">
+                          {formatCurrency(dividend.amount)}
+                        </TableCell>
+                        <TableCell>{formatDate(dividend.creditedDate)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <p className="text-sm text-gray-500 mt-3">
+                  Total dividends:{" "}
+                  {formatCurrency(
+                    dividends.reduce((sum, dividend) => sum + dividend.amount, 0)
+                  )}
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Contribution Summary Table */}
           <Card>
             <CardHeader>
@@ -357,7 +529,10 @@ export default function MemberDashboard({ user }: Props) {
                     .map((contribution) => (
                       <TableRow key={contribution._id.toString()}>
                         <TableCell className="font-medium">
-                          {contribution.month}
+                          {formatContributionMonth(
+                            contribution.month,
+                            settings.contributionCalendar
+                          )}
                         </TableCell>
                         <TableCell>
                           {formatCurrency(contribution.amount)}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useState } from "react";
+import { Smartphone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/utils";
+import { showToast } from "@/lib/toast";
+
+export interface WalletProviderOption {
+  name: string;
+  label: string;
+}
+
+interface Checkout {
+  url: string;
+  method: "GET" | "POST";
+  fields?: Record<string, string>;
+}
+
+interface Props {
+  purpose: "contribution" | "repayment";
+  targetId: string;
+  providers: WalletProviderOption[];
+  amount?: number; // Loans only; the server uses the next installment without it
+}
+
+/**
+ * Sends the member to a wallet's checkout page. Wallets that take a form POST
+ * get one built and submitted; the rest are a plain redirect.
+ */
+function goToCheckout(checkout: Checkout) {
+  if (checkout.method === "POST") {
+    const form = document.createElement("form");
+    form.method = "POST";
+    form.action = checkout.url;
+    Object.entries(checkout.fields || {}).forEach(([name, value]) => {
+      const input = document.createElement("input");
+      input.type = "hidden";
+      input.name = name;
+      input.value = value;
+      form.appendChild(input);
+    });
+    document.body.appendChild(form);
+    form.submit();
+    return;
+  }
+
+  const url = new URL(checkout.url);
+  Object.entries(checkout.fields || {}).forEach(([name, value]) =>
+    url.searchParams.set(name, value)
+  );
+  window.location.href = url.toString();
+}
+
+export default function WalletPayButton({
+  purpose,
+  targetId,
+  providers,
+  amount,
+}: Props) {
+  const [starting, setStarting] = useState<string | null>(null);
+
+  const startPayment = async (provider: string) => {
+    setStarting(provider);
+    try {
+      const result = await apiRequest<{ checkout: Checkout }>(
+        "/api/payments/wallet",
+        {
+          method: "POST",
+          body: JSON.stringify({ purpose, targetId, provider, amount }),
+        }
+      );
+
+      if (result.success && result.data) {
+        goToCheckout(result.data.checkout);
+        return;
+      }
+      showToast.error(
+        "Could not start payment",
+        result.message || result.error || "Please try again"
+      );
+    } catch (error) {
+      console.error("Error starting wallet payment:", error);
+      showToast.error("Could not start payment");
+    }
+    setStarting(null);
+  };
+
+  if (providers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {providers.map((provider) => (
+        <Button
+          key={provider.name}
+          size="sm"
+          variant="outline"
+          onClick={() => startPayment(provider.name)}
+          disabled={starting !== null}
+        >
+          <Smartphone className="h-4 w-4 mr-1" />
+          {starting === provider.name
+            ? "Redirecting..."
+            : `Pay with ${provider.label}`}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { CheckCircle, XCircle } from "lucide-react";
+
+interface EligibilityCheck {
+  rule: string;
+  label: string;
+  passed: boolean;
+  reason: string;
+}
+
+export interface Eligibility {
+  eligible: boolean;
+  amount: number;
+  checks: EligibilityCheck[];
+}
+
+interface Props {
+  eligibility: Eligibility;
+  compact?: boolean;
+}
+
+/**
+ * Pass/fail list of the loan eligibility rules with the reason for each
+ */
+export default function EligibilityChecklist({
+  eligibility,
+  compact = false,
+}: Props) {
+  return (
+    <div
+      className={`rounded-lg border p-3 ${
+        eligibility.eligible
+          ? "border-green-200 bg-green-50"
+          : "border-red-200 bg-red-50"
+      }`}
+    >
+      <p
+        className={`text-sm font-medium mb-2 ${
+          eligibility.eligible ? "text-green-800" : "text-red-800"
+        }`}
+      >
+        {eligibility.eligible
+          ? "Meets all eligibility rules"
+          : "Does not meet all eligibility rules"}
+      </p>
+      <ul className="space-y-1">
+        {eligibility.checks.map((check) => (
+          <li key={check.rule} className="flex items-start gap-2 text-sm">
+            {check.passed ? (
+              <CheckCircle className="h-4 w-4 mt-0.5 shrink-0 text-green-600" />
+            ) : (
+              <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-600" />
+            )}
+            <span>
+              <span className="font-medium">{check.label}</span>
+              {(!compact || !check.passed) && (
+                <span className="text-gray-600"> · {check.reason}</span>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { SearchableSelect } from "@/components/ui/searchable-select";
+import { COMMUNITY_CONFIG } from "@/config/community";
+import { X } from "lucide-react";
+
+interface MemberOption {
+  _id: string;
+  name: string;
+  memberId: string;
+}
+
+interface Props {
+  members: MemberOption[];
+  value: string[];
+  onChange: (guarantorIds: string[]) => void;
+  borrowerId?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Pick the members who will guarantee a loan. Each one is asked to accept
+ * before the loan can be approved.
+ */
+export default function GuarantorPicker({
+  members,
+  value,
+  onChange,
+  borrowerId,
+  disabled = false,
+}: Props) {
+  const maxGuarantors = COMMUNITY_CONFIG.GUARANTEE_RULES.MAX_GUARANTORS_PER_LOAN;
+  const available = members.filter(
+    (member) => member._id !== borrowerId && !value.includes(member._id)
+  );
+
+  return (
+    <div className="space-y-2">
+      <Label>Guarantors</Label>
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((guarantorId) => {
+            const member = members.find((m) => m._id === guarantorId);
+            return (
+              <span
+                key={guarantorId}
+                className="inline-flex items-center gap-1 rounded-full bg-blue-50 px-3 py-1 text-sm text-blue-800"
+              >
+                {member ? `${member.name} (${member.memberId})` : guarantorId}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-5 w-5 p-0"
+                  onClick={() =>
+                    onChange(value.filter((id) => id !== guarantorId))
+                  }
+                  disabled={disabled}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </span>
+            );
+          })}
+        </div>
+      )}
+      {value.length < maxGuarantors && (
+        <SearchableSelect
+          value=""
+          options={available.map((member) => ({
+            value: member._id,
+            label: `${member.name} (${member.memberId})`,
+          }))}
+          onChange={(guarantorId) => {
+            if (guarantorId) {
+              onChange([...value, guarantorId]);
+            }
+          }}
+          placeholder="Add a guarantor"
+          disabled={disabled}
+        />
+      )}
+      <p className="text-xs text-muted-foreground">
+        Up to {maxGuarantors} members. The loan is split evenly between them
+        and each must accept from their dashboard before it can be approved.
+      </p>
+    </div>
+  );
+}
@@ -18,6 +18,13 @@ import {
 import { apiRequest, getLocalStorage } from "@/lib/utils";
 import { LoanDetailsSkeleton } from "@/components/ui/loading-skeletons";
 import { showToast, loanToasts } from "@/lib/toast";
+import ReceiptButton from "@/components/shared/ReceiptButton";
+import PaymentProof, {
+  AttachmentInfo,
+  PROOF_FILE_TYPES,
+  loadPaymentProofs,
+  uploadPaymentProof,
+} from "@/components/shared/PaymentProof";
 
 interface User {
   _id: string;
@@ -40,6 +47,38 @@ interface Loan {
   remainingBalance: number;
   notes?: string;
   repayments: Repayment[];
+  repaymentPlan?: RepaymentPlan;
+  schedule?: Installment[];
+  scheduleSummary?: ScheduleSummary;
+}
+
+interface RepaymentPlan {
+  termMonths: number;
+  frequency: "monthly" | "quarterly";
+  method: "equal_principal" | "emi";
+}
+
+interface Installment {
+  installmentNumber: number;
+  dueDate: string;
+  principalAmount: number;
+  interestAmount: number;
+  totalAmount: number;
+  closingBalance: number;
+  paidAmount: number;
+  outstandingAmount: number;
+  status: "pending" | "partial" | "paid" | "overdue";
+  paidDate?: string;
+}
+
+interface ScheduleSummary {
+  totalInstallments: number;
+  paidCount: number;
+  partialCount: number;
+  overdueCount: number;
+  overdueAmount: number;
+  nextDueDate?: string;
+  nextDueAmount?: number;
 }
 
 interface Repayment {
@@ -71,12 +110,21 @@ export default function LoanDetails({ loanId, onClose }: LoanDetailsProps) {
     paymentDate: "",
   });
   const [isSubmittingPayment, setIsSubmittingPayment] = useState(false);
+  const [proofFile, setProofFile] = useState<File | null>(null);
+  const [proofs, setProofs] = useState<Record<string, AttachmentInfo[]>>({});
 
   const loadLoanDetails = useCallback(async () => {
     try {
       const result = await apiRequest<any>(`/api/loans/${loanId}`);
       if (result.success && (result as any).loan) {
-        setLoan((result as any).loan);
+        const loadedLoan: Loan = (result as any).loan;
+        setLoan(loadedLoan);
+        setProofs(
+          await loadPaymentProofs(
+            "repayment",
+            (loadedLoan.repayments || []).map((payment) => payment._id)
+          )
+        );
       }
     } catch (error) {
       console.error("Error loading loan details:", error);
@@ -119,6 +167,23 @@ export default function LoanDetails({ loanId, onClose }: LoanDetailsProps) {
       });
 
       if (result.success) {
+        const repaymentId = (result as { repayment?: { _id: string } })
+          .repayment?._id;
+        if (proofFile && repaymentId) {
+          const upload = await uploadPaymentProof(
+            "repayment",
+            repaymentId,
+            proofFile
+          );
+          if (!upload.success) {
+            showToast.warning(
+              "Payment recorded without its attachment",
+              upload.message || "Please try attaching the file again"
+            );
+          }
+        }
+        setProofFile(null);
+
         setPaymentData({
           amount: "",
           paymentMethod: "cash",
@@ -178,6 +243,19 @@ export default function LoanDetails({ loanId, onClose }: LoanDetailsProps) {
     }
   };
 
+  const getInstallmentStatusColor = (status: Installment["status"]) => {
+    switch (status) {
+      case "paid":
+        return "bg-green-100 text-green-800";
+      case "partial":
+        return "bg-blue-100 text-blue-800";
+      case "overdue":
+        return "bg-red-100 text-red-800";
+      default:
+        return "bg-gray-100 text-gray-800";
+    }
+  };
+
   if (loading) {
     return <LoanDetailsSkeleton />;
   }
@@ -302,6 +380,123 @@ export default function LoanDetails({ loanId, onClose }: LoanDetailsProps) {
         </CardContent>
       </Card>
 
+      {loan.repaymentPlan && loan.schedule && loan.schedule.length > 0 && (
+        <Card className="mt-4 sm:mt-6">
+          <CardHeader>
+            <CardTitle>Repayment Schedule</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {loan.repaymentPlan.termMonths} months,{" "}
+              {loan.repaymentPlan.frequency} installments (
+              {loan.repaymentPlan.method === "emi"
+                ? "EMI"
+                : "Equal principal"}
+              )
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loan.scheduleSummary && (
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 p-4 bg-gray-50 rounded text-center">
+                <div>
+                  <Label className="font-medium text-xs sm:text-sm">Paid</Label>
+                  <p className="text-lg font-bold text-green-600">
+                    {loan.scheduleSummary.paidCount}/
+                    {loan.scheduleSummary.totalInstallments}
+                  </p>
+                </div>
+                <div>
+                  <Label className="font-medium text-xs sm:text-sm">
+                    Partly Paid
+                  </Label>
+                  <p className="text-lg font-bold text-blue-600">
+                    {loan.scheduleSummary.partialCount}
+                  </p>
+                </div>
+                <div>
+                  <Label className="font-medium text-xs sm:text-sm">
+                    Overdue
+                  </Label>
+                  <p className="text-lg font-bold text-red-600">
+                    {loan.scheduleSummary.overdueCount} (
+                    {formatCurrency(loan.scheduleSummary.overdueAmount)})
+                  </p>
+                </div>
+                <div>
+                  <Label className="font-medium text-xs sm:text-sm">
+                    Next Due
+                  </Label>
+                  <p className="text-sm font-semibold">
+                    {loan.scheduleSummary.nextDueDate
+                      ? `${formatDate(loan.scheduleSummary.nextDueDate)} · ${formatCurrency(loan.scheduleSummary.nextDueAmount || 0)}`
+                      : "-"}
+                  </p>
+                </div>
+              </div>
+            )}
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="min-w-[40px]">#</TableHead>
+                    <TableHead className="min-w-[100px]">Due Date</TableHead>
+                    <TableHead className="min-w-[100px] hidden sm:table-cell">
+                      Principal
+                    </TableHead>
+                    <TableHead className="min-w-[100px] hidden sm:table-cell">
+                      Interest
+                    </TableHead>
+                    <TableHead className="min-w-[100px]">Installment</TableHead>
+                    <TableHead className="min-w-[100px]">Paid</TableHead>
+                    <TableHead className="min-w-[100px] hidden md:table-cell">
+                      Balance After
+                    </TableHead>
+                    <TableHead className="min-w-[80px]">Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loan.schedule.map((installment) => (
+                    <TableRow key={installment.installmentNumber}>
+                      <TableCell className="text-xs sm:text-sm">
+                        {installment.installmentNumber}
+                      </TableCell>
+                      <TableCell className="text-xs sm:text-sm">
+                        {formatDate(installment.dueDate)}
+                      </TableCell>
+                      <TableCell className="hidden sm:table-cell text-xs sm:text-sm">
+                        {formatCurrency(installment.principalAmount)}
+                      </TableCell>
+                      <TableCell className="hidden sm:table-cell text-xs sm:text-sm">
+                        {formatCurrency(installment.interestAmount)}
+                      </TableCell>
+                      <TableCell className="font-medium text-xs sm:text-sm">
+                        {formatCurrency(installment.totalAmount)}
+                      </TableCell>
+                      <TableCell className="text-xs sm:text-sm">
+                        {formatCurrency(installment.paidAmount)}
+                      </TableCell>
+                      <TableCell className="hidden md:table-cell text-xs sm:text-sm">
+                        {formatCurrency(installment.closingBalance)}
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          className={getInstallmentStatusColor(
+                            installment.status
+                          )}
+                        >
+                          {installment.status === "partial"
+                            ? "Partly paid"
+                            : installment.status.charAt(0).toUpperCase() +
+                              installment.status.slice(1)}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {loan.repayments?.length > 0 && (
         <Card className="mt-4 sm:mt-6">
           <CardHeader>
@@ -321,6 +516,7 @@ export default function LoanDetails({ loanId, onClose }: LoanDetailsProps) {
                     <TableHead className="min-w-[120px] hidden md:table-cell">
                       Notes
                     </TableHead>
+                    <TableHead className="min-w-[100px]">Receipt</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -340,14 +536,18 @@ export default function LoanDetails({ loanId, onClose }: LoanDetailsProps) {
                           {payment.receiptNumber}
                         </TableCell>
                         <TableCell className="hidden md:table-cell text-xs sm:text-sm">
-                          {payment.notes || "-"}
+                          <div>{payment.notes || "-"}</div>
+                          <PaymentProof attachments={proofs[payment._id]} />
+                        </TableCell>
+                        <TableCell>
+                          <ReceiptButton type="repayment" id={payment._id} />
                         </TableCell>
                       </TableRow>
                     ))
                   ) : (
                     <TableRow>
                       <TableCell
-                        colSpan={5}
+                        colSpan={6}
                         className="text-center py-6 sm:py-8"
                       >
                         <div className="text-muted-foreground">
@@ -569,6 +769,20 @@ export default function LoanDetails({ loanId, onClose }: LoanDetailsProps) {
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="proof">Attachment (optional)</Label>
+                  <Input
+                    id="proof"
+                    type="file"
+                    accept={PROOF_FILE_TYPES}
+                    onChange={(e) => setProofFile(e.target.files?.[0] || null)}
+                  />
+                  <p className="text-xs text-gray-500">
+                    Bank slip, wallet screenshot or signed receipt: JPEG, PNG,
+                    WebP or PDF, up to 5 MB
+                  </p>
+                </div>
+
                 {/* Payment Impact Information */}
                 <div className="bg-gray-50 p-3 rounded-lg">
                   <p className="text-sm font-medium text-gray-900 mb-2">
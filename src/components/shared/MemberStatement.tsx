@@ -0,0 +1,354 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { ArrowLeft, Download, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { apiRequest } from "@/lib/utils";
+import { showToast } from "@/lib/toast";
+
+interface Balances {
+  savings: number;
+  loanPrincipal: number;
+  penalties: number;
+}
+
+interface StatementEntry {
+  date: string;
+  type: string;
+  description: string;
+  reference?: string;
+  amount: number;
+  principal?: number;
+  interest?: number;
+  balances: Balances;
+}
+
+interface Statement {
+  member: {
+    name: string;
+    memberId: string;
+  };
+  from: string;
+  to: string;
+  openingBalances: Balances;
+  closingBalances: Balances;
+  totals: {
+    contributions: number;
+    loansDisbursed: number;
+    principalRepaid: number;
+    interestPaid: number;
+    penaltiesAssessed: number;
+    penaltiesPaid: number;
+    penaltiesWaived: number;
+    savingsWithdrawn: number;
+  };
+  entries: StatementEntry[];
+}
+
+interface Props {
+  userId: string;
+  onBack?: () => void;
+}
+
+/**
+ * Account statement for a date range, with PDF and CSV downloads. Leaving the
+ * start date empty covers everything since the member joined.
+ */
+export default function MemberStatement({ userId, onBack }: Props) {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState(() => new Date().toISOString().split("T")[0]);
+  const [statement, setStatement] = useState<Statement | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+
+  const buildParams = useCallback(
+    (format: string) => {
+      const params = new URLSearchParams({ format });
+      if (from) params.set("from", from);
+      if (to) params.set("to", to);
+      return params;
+    },
+    [from, to]
+  );
+
+  const loadStatement = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await apiRequest<Statement>(
+        `/api/statements/${userId}?${buildParams("json").toString()}`
+      );
+      if (result.success && result.data) {
+        setStatement(result.data);
+      } else {
+        showToast.error(
+          "Failed to load statement",
+          result.message || result.error || "Please try again"
+        );
+      }
+    } catch (error) {
+      console.error("Error loading statement:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, buildParams]);
+
+  useEffect(() => {
+    loadStatement();
+  }, [loadStatement]);
+
+  const exportCsv = async () => {
+    setExporting(true);
+    try {
+      const response = await fetch(
+        `/api/statements/${userId}?${buildParams("csv").toString()}`
+      );
+      if (!response.ok) {
+        throw new Error(`Server error: ${response.status}`);
+      }
+
+      const csvData = await response.text();
+      const blob = new Blob([csvData], { type: "text/csv" });
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `statement_${statement?.member.memberId || userId}_${to}.csv`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting statement:", error);
+      showToast.error("Failed to export statement");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const openPdf = () => {
+    window.open(
+      `/api/statements/${userId}?${buildParams("pdf").toString()}`,
+      "_blank"
+    );
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-NP", {
+      style: "currency",
+      currency: "NPR",
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString();
+  };
+
+  const balanceCells = (balances: Balances) => (
+    <>
+      <TableCell className="text-right">
+        {formatCurrency(balances.savings)}
+      </TableCell>
+      <TableCell className="text-right">
+        {formatCurrency(balances.loanPrincipal)}
+      </TableCell>
+      <TableCell className="text-right">
+        {formatCurrency(balances.penalties)}
+      </TableCell>
+    </>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-3">
+          {onBack && (
+            <Button variant="outline" size="sm" onClick={onBack}>
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Back
+            </Button>
+          )}
+          <div>
+            <h2 className="mobile-heading">Account Statement</h2>
+            {statement && (
+              <p className="text-muted-foreground text-sm sm:text-base">
+                {statement.member.name} ({statement.member.memberId})
+              </p>
+            )}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={openPdf}
+            disabled={!statement}
+          >
+            <Printer className="h-4 w-4 mr-1" />
+            PDF
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={exportCsv}
+            disabled={!statement || exporting}
+          >
+            <Download className="h-4 w-4 mr-1" />
+            {exporting ? "Exporting..." : "CSV"}
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row items-start sm:items-end gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="statement-from">From</Label>
+          <Input
+            id="statement-from"
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="statement-to">To</Label>
+          <Input
+            id="statement-to"
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {statement && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-2xl font-bold">
+                {formatCurrency(statement.totals.contributions)}
+              </div>
+              <p className="text-xs text-muted-foreground">Contributions</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-2xl font-bold">
+                {formatCurrency(statement.totals.principalRepaid)}
+              </div>
+              <p className="text-xs text-muted-foreground">Principal Repaid</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-2xl font-bold">
+                {formatCurrency(statement.totals.interestPaid)}
+              </div>
+              <p className="text-xs text-muted-foreground">Interest Paid</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-2xl font-bold">
+                {formatCurrency(statement.closingBalances.savings)}
+              </div>
+              <p className="text-xs text-muted-foreground">Closing Savings</p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Transactions</CardTitle>
+          <CardDescription>
+            {statement
+              ? `${formatDate(statement.from)} to ${formatDate(statement.to)}`
+              : "Choose a period to see the statement"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading && !statement ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : statement ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Principal</TableHead>
+                    <TableHead className="text-right">Interest</TableHead>
+                    <TableHead className="text-right">Savings</TableHead>
+                    <TableHead className="text-right">Loan</TableHead>
+                    <TableHead className="text-right">Penalties</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <TableRow className="font-medium">
+                    <TableCell>{formatDate(statement.from)}</TableCell>
+                    <TableCell colSpan={4}>Opening balance</TableCell>
+                    {balanceCells(statement.openingBalances)}
+                  </TableRow>
+                  {statement.entries.map((entry, index) => (
+                    <TableRow key={index}>
+                      <TableCell>{formatDate(entry.date)}</TableCell>
+                      <TableCell>
+                        {entry.description}
+                        {entry.reference && (
+                          <span className="block text-xs text-muted-foreground">
+                            {entry.reference}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(entry.amount)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {entry.principal !== undefined
+                          ? formatCurrency(entry.principal)
+                          : "-"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {entry.interest !== undefined
+                          ? formatCurrency(entry.interest)
+                          : "-"}
+                      </TableCell>
+                      {balanceCells(entry.balances)}
+                    </TableRow>
+                  ))}
+                  <TableRow className="font-medium">
+                    <TableCell>{formatDate(statement.to)}</TableCell>
+                    <TableCell colSpan={4}>Closing balance</TableCell>
+                    {balanceCells(statement.closingBalances)}
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="text-center py-6">
+              <p className="text-muted-foreground">No statement available</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
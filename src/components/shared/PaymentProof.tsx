@@ -0,0 +1,113 @@
+"use client";
+
+import Image from "next/image";
+import { FileText } from "lucide-react";
+import { apiRequest } from "@/lib/utils";
+
+export interface AttachmentInfo {
+  _id: string;
+  ownerType: "contribution" | "repayment";
+  ownerId: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  createdAt: string;
+}
+
+export const PROOF_FILE_TYPES = "image/jpeg,image/png,image/webp,application/pdf";
+
+/**
+ * Upload a proof-of-payment file. Sent as multipart form data, so this goes
+ * through fetch rather than apiRequest, which always posts JSON.
+ */
+export async function uploadPaymentProof(
+  ownerType: AttachmentInfo["ownerType"],
+  ownerId: string,
+  file: File
+): Promise<{ success: boolean; message?: string }> {
+  const form = new FormData();
+  form.append("file", file);
+  form.append("ownerType", ownerType);
+  form.append("ownerId", ownerId);
+
+  try {
+    const response = await fetch("/api/attachments", {
+      method: "POST",
+      body: form,
+    });
+    const result = await response.json().catch(() => ({
+      success: false,
+      message: `HTTP ${response.status}: ${response.statusText}`,
+    }));
+    return { success: response.ok && result.success, message: result.message };
+  } catch (error) {
+    console.error("Error uploading payment proof:", error);
+    return { success: false, message: "Upload failed" };
+  }
+}
+
+/**
+ * Attachments for a set of contributions or repayments, keyed by their ID
+ */
+export async function loadPaymentProofs(
+  ownerType: AttachmentInfo["ownerType"],
+  ownerIds: string[]
+): Promise<Record<string, AttachmentInfo[]>> {
+  if (ownerIds.length === 0) return {};
+
+  const result = await apiRequest<AttachmentInfo[]>(
+    `/api/attachments?ownerType=${ownerType}&ownerIds=${ownerIds.join(",")}`
+  );
+  const byOwner: Record<string, AttachmentInfo[]> = {};
+  (result.data || []).forEach((attachment) => {
+    byOwner[attachment.ownerId] = [
+      ...(byOwner[attachment.ownerId] || []),
+      attachment,
+    ];
+  });
+  return byOwner;
+}
+
+interface Props {
+  attachments?: AttachmentInfo[];
+  size?: "sm" | "md";
+}
+
+/**
+ * Thumbnails of a payment's proof; each opens the full file in a new tab
+ */
+export default function PaymentProof({ attachments, size = "sm" }: Props) {
+  if (!attachments || attachments.length === 0) return null;
+
+  const box = size === "sm" ? "h-10 w-10" : "h-16 w-16";
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map((attachment) => (
+        <a
+          key={attachment._id}
+          href={`/api/attachments/${attachment._id}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          title={attachment.fileName}
+          onClick={(e) => e.stopPropagation()}
+          className={`${box} flex items-center justify-center overflow-hidden rounded border bg-gray-50 hover:ring-2 hover:ring-blue-500`}
+        >
+          {attachment.contentType.startsWith("image/") ? (
+            // Served by an authenticated route, so it skips the image optimizer
+            <Image
+              src={`/api/attachments/${attachment._id}`}
+              alt={attachment.fileName}
+              width={size === "sm" ? 40 : 64}
+              height={size === "sm" ? 40 : 64}
+              unoptimized
+              className="h-full w-full object-cover"
+            />
+          ) : (
+            <FileText className="h-5 w-5 text-red-600" />
+          )}
+        </a>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import { Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface Props {
+  type: "contribution" | "repayment";
+  id: string;
+}
+
+/**
+ * Opens the PDF receipt in a new tab, where it can be printed or saved
+ */
+export default function ReceiptButton({ type, id }: Props) {
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      onClick={() => window.open(`/api/receipts/${type}/${id}`, "_blank")}
+    >
+      <Printer className="h-4 w-4 mr-1" />
+      Receipt
+    </Button>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { Input } from "./input";
+import { getBSMonthNamesEnglish } from "@/lib/nepali-date";
+import { toADMonth, toBSMonth } from "@/lib/periods";
+import { cn } from "@/lib/utils";
+import { ContributionCalendar } from "@/types";
+
+interface ContributionMonthInputProps {
+  value: string; // Stored "YYYY-MM" key
+  onChange: (month: string) => void; // Returns the stored key
+  calendar: ContributionCalendar;
+  id?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+const selectClass =
+  "h-10 rounded-md border border-input bg-background px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50";
+
+/**
+ * Month picker in the group's calendar. AD groups get the browser's month
+ * input; BS groups pick a BS year and month, which map to the stored key.
+ */
+export function ContributionMonthInput({
+  value,
+  onChange,
+  calendar,
+  id,
+  disabled = false,
+  className = "",
+}: ContributionMonthInputProps) {
+  if (calendar === "AD") {
+    return (
+      <Input
+        id={id}
+        type="month"
+        value={value}
+        onChange={(e) => e.target.value && onChange(e.target.value)}
+        disabled={disabled}
+        className={className}
+      />
+    );
+  }
+
+  const [bsYear, bsMonth] = toBSMonth(value).split("-").map(Number);
+  // A few years either side of the one shown
+  const years = Array.from({ length: 11 }, (_, i) => bsYear - 5 + i);
+
+  const select = (year: number, month: number) =>
+    onChange(toADMonth(`${year}-${String(month).padStart(2, "0")}`));
+
+  return (
+    <div className={cn("flex gap-2", className)}>
+      <select
+        id={id}
+        aria-label="BS month"
+        value={bsMonth}
+        onChange={(e) => select(bsYear, Number(e.target.value))}
+        disabled={disabled}
+        className={selectClass}
+      >
+        {getBSMonthNamesEnglish().map((name, i) => (
+          <option key={name} value={i + 1}>
+            {name}
+          </option>
+        ))}
+      </select>
+      <select
+        aria-label="BS year"
+        value={bsYear}
+        onChange={(e) => select(Number(e.target.value), bsMonth)}
+        disabled={disabled}
+        className={selectClass}
+      >
+        {years.map((year) => (
+          <option key={year} value={year}>
+            {year}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+export default ContributionMonthInput;
@@ -1,4 +1,8 @@
+import { ContributionCalendar, IBankStatementFormat, ICommunitySettings } from '@/types';
+
 // Community configuration constants
+// The name, opening date, contribution amount, interest rate and policies are
+// only defaults: the values in use live in the Settings collection (see src/lib/settings.ts)
 export const COMMUNITY_CONFIG = {
   // Community opening date - September 15, 2023
   OPENING_DATE: new Date('2023-09-15'),
@@ -6,9 +10,94 @@ export const COMMUNITY_CONFIG = {
   // Default monthly contribution amount in NPR
   DEFAULT_CONTRIBUTION_AMOUNT: 2000,
 
-  // Annual interest rate for new member calculations (%)
+  // Annual interest rate for loans without a product and new member calculations (%)
   ANNUAL_INTEREST_RATE: 16,
 
+  // Calendar contribution months follow: 'AD' or 'BS' (Bikram Sambat)
+  CONTRIBUTION_CALENDAR: 'AD' as ContributionCalendar,
+
+  // Late-payment penalty rules
+  PENALTY_RULES: {
+    // Flat fee per contribution month still unpaid after this day of the month
+    CONTRIBUTION_LATE_FEE: {
+      ENABLED: true,
+      GRACE_DAY: 15,
+      FLAT_FEE: 100,
+    },
+    // Percentage of the unpaid installment once it is this many days past due
+    LOAN_INSTALLMENT_OVERDUE: {
+      ENABLED: true,
+      GRACE_DAYS: 7,
+      PERCENTAGE: 2,
+    },
+  },
+
+  // Year-end dividend distribution
+  DIVIDEND_RULES: {
+    // Share of the year's income kept back as a reserve before distributing (%)
+    DEFAULT_RESERVE_PERCENTAGE: 10,
+  },
+
+  // Loan eligibility rules
+  LOAN_ELIGIBILITY: {
+    MIN_AMOUNT: 1000,
+    MAX_AMOUNT: 200000,
+    // Members can borrow up to this multiple of their paid savings
+    MAX_SAVINGS_MULTIPLE: 3,
+    // Funds the group keeps on hand after paying out a new loan (NPR)
+    MIN_LIQUIDITY_RESERVE: 0,
+  },
+
+  // Maker-checker controls on loans
+  DUAL_CONTROL: {
+    ENABLED: true,
+    // Approvals above this amount need a second admin to confirm (NPR)
+    APPROVAL_THRESHOLD: 50000,
+    // Every disbursement needs a second admin to confirm
+    ALL_DISBURSEMENTS: true,
+    // Reopening a closed month or fiscal year needs a second admin to confirm
+    PERIOD_REOPEN: true,
+  },
+
+  // Members standing surety for each other's loans
+  GUARANTEE_RULES: {
+    MAX_GUARANTORS_PER_LOAN: 3,
+    // A member can guarantee at most this share of their own savings across all loans (%)
+    MAX_EXPOSURE_PERCENTAGE: 100,
+  },
+
+  // SMS and email notifications
+  NOTIFICATION_RULES: {
+    // Remind members this many days before a contribution's due day
+    REMINDER_DAYS_BEFORE_DUE: 3,
+    // Delivery attempts per message before giving up, and the wait before each retry (minutes)
+    MAX_ATTEMPTS: 5,
+    RETRY_DELAYS_MINUTES: [5, 30, 120, 720],
+  },
+
+  // Self-service password reset links sent by email or SMS
+  PASSWORD_RESET: {
+    // A link stops working after this long, or once it has been used (minutes)
+    TOKEN_TTL_MINUTES: 30,
+  },
+
+  // Formats for generated member and receipt numbers. {SEQ:n} is the sequence
+  // padded to n digits; {FY} (BS fiscal year, e.g. 2081), {BSYEAR} or {YEAR}
+  // (AD) start a new sequence each period
+  NUMBERING: {
+    MEMBER_ID: 'CSL{SEQ:4}',
+    CONTRIBUTION_RECEIPT: 'CON-{FY}-{SEQ:5}',
+    REPAYMENT_RECEIPT: 'RPT-{FY}-{SEQ:5}',
+    HISTORICAL_INTEREST_RECEIPT: 'HI-{FY}-{SEQ:5}',
+  },
+
+  // Proof-of-payment uploads on contributions and repayments
+  ATTACHMENT_RULES: {
+    MAX_SIZE_BYTES: 5 * 1024 * 1024,
+    MAX_PER_RECORD: 5,
+    ALLOWED_TYPES: ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'],
+  },
+
   // Community name and details
   NAME: 'Community Savings Group',
 
@@ -20,22 +109,104 @@ export const COMMUNITY_CONFIG = {
   }
 } as const;
 
+// Column layouts of the bank statement CSV exports the importer understands.
+// Header names are matched ignoring case and spacing; statements with a single
+// signed amount column use `amount` instead of `credit` and `debit`.
+export const BANK_STATEMENT_FORMATS: Record<string, IBankStatementFormat> = {
+  nabil: {
+    label: 'Nabil Bank',
+    date: 'Txn Date',
+    description: 'Description',
+    reference: 'Cheque No',
+    debit: 'Debit',
+    credit: 'Credit',
+    dateFormat: 'DD/MM/YYYY',
+  },
+  'nic-asia': {
+    label: 'NIC Asia Bank',
+    date: 'Transaction Date',
+    description: 'Particulars',
+    reference: 'Reference No',
+    debit: 'Withdraw',
+    credit: 'Deposit',
+    dateFormat: 'DD-MMM-YYYY',
+  },
+  'global-ime': {
+    label: 'Global IME Bank',
+    date: 'Tran Date',
+    description: 'Narration',
+    reference: 'Chq/Ref No',
+    debit: 'Debit Amount',
+    credit: 'Credit Amount',
+    dateFormat: 'YYYY-MM-DD',
+  },
+  nimb: {
+    label: 'Nepal Investment Mega Bank',
+    date: 'Date',
+    description: 'Remarks',
+    reference: 'Reference',
+    debit: 'Dr',
+    credit: 'Cr',
+    dateFormat: 'DD/MM/YYYY',
+  },
+  'bs-dated': {
+    label: 'Statement dated in BS (Miti)',
+    date: 'Miti',
+    description: 'Description',
+    reference: 'Reference',
+    debit: 'Debit',
+    credit: 'Credit',
+    dateFormat: 'BS',
+  },
+  generic: {
+    label: 'Generic (Date, Description, Reference, Amount)',
+    date: 'Date',
+    description: 'Description',
+    reference: 'Reference',
+    amount: 'Amount',
+    dateFormat: 'YYYY-MM-DD',
+  },
+};
+
+// Settings in force until an admin first saves them
+export const getDefaultCommunitySettings = (): ICommunitySettings => ({
+  communityName: COMMUNITY_CONFIG.NAME,
+  openingDate: new Date(COMMUNITY_CONFIG.OPENING_DATE),
+  monthlyContributionAmount: COMMUNITY_CONFIG.DEFAULT_CONTRIBUTION_AMOUNT,
+  annualInterestRate: COMMUNITY_CONFIG.ANNUAL_INTEREST_RATE,
+  contributionCalendar: COMMUNITY_CONFIG.CONTRIBUTION_CALENDAR,
+  policies: {
+    historicalContributions: COMMUNITY_CONFIG.POLICIES.HISTORICAL_CONTRIBUTIONS,
+    monthlyContribution: COMMUNITY_CONFIG.POLICIES.MONTHLY_CONTRIBUTION,
+    catchUpPolicy: COMMUNITY_CONFIG.POLICIES.CATCH_UP_POLICY,
+  },
+});
+
 // Helper functions for community-related calculations
 export const getCommunityStartDate = (): Date => {
   return new Date(COMMUNITY_CONFIG.OPENING_DATE);
 };
 
-export const getRequiredContributionStartDate = (memberJoinDate: string | Date): Date => {
+export const getRequiredContributionStartDate = (
+  memberJoinDate: string | Date,
+  rejoinDate?: string | Date,
+  openingDate: string | Date = getCommunityStartDate()
+): Date => {
   const joinDate = new Date(memberJoinDate);
-  const communityOpeningDate = getCommunityStartDate();
+  const communityOpeningDate = new Date(openingDate);
+
+  // Members who left and rejoined start fresh from their most recent join date
+  if (rejoinDate) {
+    return new Date(rejoinDate);
+  }
 
   // All members must contribute from community opening date, regardless of when they joined
   // This ensures fairness - everyone contributes from the same starting point
   return communityOpeningDate;
 };
 
-export const formatCommunityAge = (): string => {
-  const openingDate = getCommunityStartDate();
+export const formatCommunityAge = (communityOpeningDate: string | Date = getCommunityStartDate()): string => {
+  const openingDate = new Date(communityOpeningDate);
   const now = new Date();
   const diffInMonths = (now.getFullYear() - openingDate.getFullYear()) * 12 +
     (now.getMonth() - openingDate.getMonth());
@@ -0,0 +1,42 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { apiRequest } from "@/lib/utils";
+import { getDefaultCommunitySettings } from "@/config/community";
+import { ICommunitySettings } from "@/types";
+
+export interface CommunitySettings extends ICommunitySettings {
+  version: number;
+}
+
+// Custom hook for the community settings in force, starting from the config defaults
+export const useCommunitySettings = () => {
+  const [settings, setSettings] = useState<CommunitySettings>({
+    ...getDefaultCommunitySettings(),
+    version: 0,
+  });
+  const [loading, setLoading] = useState(true);
+
+  const loadSettings = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await apiRequest<CommunitySettings>("/api/settings");
+      if (result.success && result.data) {
+        setSettings({
+          ...result.data,
+          openingDate: new Date(result.data.openingDate),
+        });
+      }
+    } catch (error) {
+      console.error("Error loading community settings:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  return { settings, loading, reloadSettings: loadSettings };
+};
@@ -0,0 +1,9 @@
+// Runs once when the server starts
+export async function register() {
+  // The scheduler needs Node timers and Mongoose, so skip the edge runtime.
+  // Deployments without a long-running server call /api/jobs/tick from cron instead.
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.JOB_SCHEDULER_DISABLED !== 'true') {
+    const { startJobScheduler } = await import('@/lib/job-scheduler');
+    startJobScheduler();
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Public base URL of the app from APP_URL, or null when it is unset or not an
+ * http(s) URL. Links sent to members and wallet return addresses are built
+ * only from this, never from the request's Host header, which the caller controls.
+ */
+export function getAppUrl(): string | null {
+    const value = process.env.APP_URL?.trim();
+    if (!value) {
+        return null;
+    }
+
+    try {
+        const url = new URL(value);
+        return ['http:', 'https:'].includes(url.protocol) ? url.origin : null;
+    } catch {
+        return null;
+    }
+}
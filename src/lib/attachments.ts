@@ -0,0 +1,130 @@
+import { randomUUID } from 'crypto';
+import mongoose from 'mongoose';
+import Attachment from '@/models/Attachment';
+import Contribution from '@/models/Contribution';
+import Repayment from '@/models/Repayment';
+import { COMMUNITY_CONFIG } from '@/config/community';
+import { getStorageBackend } from '@/lib/storage';
+import { AttachmentOwnerType, IAttachment } from '@/types';
+
+const { MAX_SIZE_BYTES, MAX_PER_RECORD, ALLOWED_TYPES } = COMMUNITY_CONFIG.ATTACHMENT_RULES;
+
+const EXTENSIONS: Record<string, string> = {
+    'image/jpeg': '.jpg',
+    'image/png': '.png',
+    'image/webp': '.webp',
+    'application/pdf': '.pdf',
+};
+
+/**
+ * File type from the file's first bytes. The browser's declared type and the
+ * file name are not trusted, since the file is served back to admins.
+ */
+export function detectContentType(data: Buffer): string | null {
+    if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+        return 'image/jpeg';
+    }
+    if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+        return 'image/png';
+    }
+    if (data.subarray(0, 4).toString('latin1') === 'RIFF' && data.subarray(8, 12).toString('latin1') === 'WEBP') {
+        return 'image/webp';
+    }
+    if (data.subarray(0, 5).toString('latin1') === '%PDF-') {
+        return 'application/pdf';
+    }
+    return null;
+}
+
+/**
+ * Size and type check for an upload, returning an error message or null
+ */
+export function validateAttachmentFile(data: Buffer): string | null {
+    if (data.length === 0) {
+        return 'File is empty';
+    }
+    if (data.length > MAX_SIZE_BYTES) {
+        return `File must be ${Math.round(MAX_SIZE_BYTES / 1024 / 1024)} MB or smaller`;
+    }
+
+    const contentType = detectContentType(data);
+    if (!contentType || !(ALLOWED_TYPES as readonly string[]).includes(contentType)) {
+        return 'File must be a JPEG, PNG or WebP image or a PDF';
+    }
+    return null;
+}
+
+/**
+ * The member a contribution or repayment belongs to, and whether it is
+ * settled. Members can only attach proof to their own unpaid contributions.
+ */
+export async function findAttachmentOwner(
+    ownerType: AttachmentOwnerType,
+    ownerId: string
+): Promise<{ userId: mongoose.Types.ObjectId; settled: boolean } | null> {
+    if (ownerType === 'contribution') {
+        const contribution = await Contribution.findById(ownerId).select('userId paidStatus').lean();
+        return contribution ? { userId: contribution.userId, settled: contribution.paidStatus === 'paid' } : null;
+    }
+
+    const repayment = await Repayment.findById(ownerId).select('userId').lean();
+    return repayment ? { userId: repayment.userId, settled: true } : null;
+}
+
+/**
+ * Store a proof-of-payment file and record it against a contribution or
+ * repayment. The caller checks the uploader may attach to the record.
+ */
+export async function saveAttachment(upload: {
+    ownerType: AttachmentOwnerType;
+    ownerId: mongoose.Types.ObjectId;
+    userId: mongoose.Types.ObjectId;
+    fileName: string;
+    data: Buffer;
+    uploadedBy: string;
+}): Promise<{ attachment?: IAttachment; error?: string }> {
+    const invalid = validateAttachmentFile(upload.data);
+    if (invalid) {
+        return { error: invalid };
+    }
+
+    const existing = await Attachment.countDocuments({ ownerType: upload.ownerType, ownerId: upload.ownerId });
+    if (existing >= MAX_PER_RECORD) {
+        return { error: `A ${upload.ownerType} can have at most ${MAX_PER_RECORD} attachments` };
+    }
+
+    const contentType = detectContentType(upload.data)!;
+    const now = new Date();
+    const storageKey = `${upload.ownerType}s/${now.getFullYear()}/${String(now.getMonth() + 1).padStart(2, '0')}/${randomUUID()}${EXTENSIONS[contentType]}`;
+    const storage = getStorageBackend();
+
+    await storage.put(storageKey, upload.data, contentType);
+
+    try {
+        const attachment = await Attachment.create({
+            ownerType: upload.ownerType,
+            ownerId: upload.ownerId,
+            userId: upload.userId,
+            fileName: upload.fileName.replace(/[\\/\r\n"]/g, '_').slice(0, 255) || `proof${EXTENSIONS[contentType]}`,
+            contentType,
+            size: upload.data.length,
+            storage: storage.name,
+            storageKey,
+            uploadedBy: upload.uploadedBy,
+        });
+        return { attachment };
+    } catch (error) {
+        // Don't leave an orphaned file behind when the record could not be saved
+        await storage.delete(storageKey).catch(() => undefined);
+        throw error;
+    }
+}
+
+export async function readAttachment(attachment: IAttachment): Promise<Buffer> {
+    return getStorageBackend(attachment.storage).get(attachment.storageKey);
+}
+
+export async function deleteAttachment(attachment: IAttachment): Promise<void> {
+    await Attachment.findByIdAndDelete(attachment._id);
+    await getStorageBackend(attachment.storage).delete(attachment.storageKey);
+}
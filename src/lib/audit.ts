@@ -0,0 +1,227 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { ClientSession, Model, Query, Schema } from 'mongoose';
+import AuditLog from '@/models/AuditLog';
+import { AuditAction, AuditEntityType, IAuditChange } from '@/types';
+
+export interface AuditContext {
+    route?: string;
+    method?: string;
+    ipAddress?: string;
+    actorId?: string;
+    actorEmail?: string;
+    actorRole?: 'admin' | 'member';
+}
+
+interface AuditRecord {
+    action: AuditAction;
+    before?: Record<string, any>;
+    after?: Record<string, any>;
+}
+
+const auditStorage = new AsyncLocalStorage<AuditContext>();
+
+// Bookkeeping fields, and fields that change on every sign-in
+const IGNORED_FIELDS = ['_id', '__v', 'createdAt', 'updatedAt', 'lastLogin'];
+
+// Recorded as changed without storing the value
+const REDACTED_FIELDS = ['password', 'passwordResetTokenHash'];
+
+/**
+ * Run a request handler with the route and signed-in user available to the
+ * audit plugin for every write made while handling it
+ */
+export function runWithAuditContext<T>(context: AuditContext, callback: () => T): T {
+    return auditStorage.run(context, callback);
+}
+
+export function getAuditContext(): AuditContext | undefined {
+    return auditStorage.getStore();
+}
+
+/**
+ * Store ObjectIds and dates as plain strings so entries read the same in the UI and in exports
+ */
+const toPlain = (value: unknown): unknown =>
+    value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+
+/**
+ * Field-by-field differences between two snapshots of a document. A missing
+ * before is a create and a missing after is a delete.
+ */
+export function diffChanges(before?: Record<string, any>, after?: Record<string, any>): IAuditChange[] {
+    const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+    const changes: IAuditChange[] = [];
+
+    for (const field of fields) {
+        if (IGNORED_FIELDS.includes(field)) {
+            continue;
+        }
+
+        const oldValue = toPlain(before?.[field]);
+        const newValue = toPlain(after?.[field]);
+        if (JSON.stringify(oldValue) === JSON.stringify(newValue)) {
+            continue;
+        }
+
+        if (REDACTED_FIELDS.includes(field)) {
+            changes.push({
+                field,
+                before: oldValue === undefined ? undefined : '[redacted]',
+                after: newValue === undefined ? undefined : '[redacted]',
+            });
+        } else {
+            changes.push({ field, before: oldValue, after: newValue });
+        }
+    }
+
+    return changes;
+}
+
+async function writeAuditLogs(entityType: AuditEntityType, records: AuditRecord[], session?: ClientSession | null) {
+    const context = getAuditContext();
+
+    const entries = records
+        .map(({ action, before, after }) => {
+            const snapshot = after || before || {};
+            return {
+                action,
+                entityType,
+                entityId: snapshot._id,
+                userId: entityType === 'User' ? snapshot._id : snapshot.userId,
+                actorId: context?.actorId,
+                actorEmail: context?.actorEmail,
+                actorRole: context?.actorRole || 'system',
+                route: context?.route,
+                method: context?.method,
+                ipAddress: context?.ipAddress,
+                changes: diffChanges(before, after),
+            };
+        })
+        .filter((entry) => entry.entityId && entry.changes.length > 0);
+
+    if (entries.length === 0) {
+        return;
+    }
+
+    try {
+        // Written in the caller's transaction so an aborted write leaves no trail
+        await AuditLog.insertMany(entries, { session: session || undefined });
+    } catch (error) {
+        console.error('Failed to write audit log:', error);
+    }
+}
+
+const snapshotDocument = (doc: any): Record<string, any> =>
+    doc.toObject({ depopulate: true, virtuals: false, transform: false });
+
+/**
+ * Mongoose plugin that records every create, update and delete on a model as
+ * an audit log entry with before/after values. Covers document saves,
+ * insertMany and the update/delete query helpers, including upserts.
+ */
+export function auditPlugin(schema: Schema, options: { entityType: AuditEntityType }) {
+    const { entityType } = options;
+    const updateOps = ['updateOne', 'updateMany', 'findOneAndUpdate'];
+    const deleteOps = ['deleteOne', 'deleteMany', 'findOneAndDelete'];
+
+    // Load the stored values of the fields a save is about to change, so documents
+    // that are only read are never copied
+    schema.pre('save', async function () {
+        this.$locals.auditIsNew = this.isNew;
+        this.$locals.auditFields = undefined;
+        this.$locals.auditBefore = undefined;
+        if (this.isNew) {
+            return;
+        }
+
+        const fields = [...new Set(this.modifiedPaths().map((path) => path.split('.')[0]))];
+        if (fields.length === 0) {
+            return;
+        }
+
+        const model = this.constructor as Model<any>;
+        this.$locals.auditFields = fields;
+        this.$locals.auditBefore = await model.findById(this._id)
+            .select(fields.join(' '))
+            .session(this.$session())
+            .lean();
+    });
+
+    schema.post('save', async function (doc: any) {
+        const isNew = doc.$locals.auditIsNew;
+        const snapshot = snapshotDocument(doc);
+        if (isNew) {
+            await writeAuditLogs(entityType, [{ action: 'create', after: snapshot }], doc.$session());
+            return;
+        }
+
+        const fields: string[] | undefined = doc.$locals.auditFields;
+        if (!fields) {
+            return;
+        }
+
+        // Unchanged identifiers are kept on both sides so the entry links to its member
+        const before: Record<string, any> = { _id: snapshot._id, userId: snapshot.userId };
+        const after: Record<string, any> = { _id: snapshot._id, userId: snapshot.userId };
+        for (const field of fields) {
+            before[field] = doc.$locals.auditBefore?.[field];
+            after[field] = snapshot[field];
+        }
+
+        await writeAuditLogs(entityType, [{ action: 'update', before, after }], doc.$session());
+    });
+
+    schema.post('insertMany', async function (docs: any) {
+        const session = docs[0]?.$session();
+        await writeAuditLogs(
+            entityType,
+            docs.map((doc: any) => ({ action: 'create' as const, after: snapshotDocument(doc) })),
+            session
+        );
+    });
+
+    // Load the documents a query is about to change so they can be compared afterwards
+    schema.pre([...updateOps, ...deleteOps] as any, { document: false, query: true }, async function (this: Query<any, any>) {
+        const session = this.getOptions().session || null;
+        const filter = this.getFilter();
+
+        const before = ['updateMany', 'deleteMany'].includes((this as any).op)
+            ? await this.model.find(filter).session(session).lean()
+            : await this.model.findOne(filter).sort(this.getOptions().sort || {}).session(session).lean();
+
+        (this as any).$auditBefore = Array.isArray(before) ? before : before ? [before] : [];
+    });
+
+    schema.post(updateOps as any, { document: false, query: true }, async function (this: Query<any, any>, result: any) {
+        const session = this.getOptions().session || null;
+        const beforeDocs: Record<string, any>[] = (this as any).$auditBefore || [];
+        const ids = beforeDocs.map((doc) => doc._id);
+        if (result?.upsertedId) {
+            ids.push(result.upsertedId);
+        }
+        if (ids.length === 0) {
+            return;
+        }
+
+        const afterDocs = await this.model.find({ _id: { $in: ids } }).session(session).lean();
+        const records = afterDocs.map((after: any) => {
+            const before = beforeDocs.find((doc) => String(doc._id) === String(after._id));
+            return { action: (before ? 'update' : 'create') as AuditAction, before, after };
+        });
+
+        await writeAuditLogs(entityType, records, session);
+    });
+
+    schema.post(deleteOps as any, { document: false, query: true }, async function (this: Query<any, any>, result: any) {
+        const beforeDocs: Record<string, any>[] = (this as any).$auditBefore || [];
+        if (!result || result.deletedCount === 0) {
+            return;
+        }
+
+        await writeAuditLogs(
+            entityType,
+            beforeDocs.map((before) => ({ action: 'delete' as const, before })),
+            this.getOptions().session
+        );
+    });
+}
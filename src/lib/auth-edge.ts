@@ -6,6 +6,7 @@ export interface JWTPayload {
   role: 'admin' | 'member';
   status: 'pending' | 'approved' | 'rejected';
   memberId: string;
+  sessionVersion?: number; // Missing on tokens issued before password resets existed
   exp: number;
   iat: number;
 }
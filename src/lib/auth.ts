@@ -14,6 +14,7 @@ export interface JWTPayload {
   role: 'admin' | 'member';
   status: 'pending' | 'approved' | 'rejected';
   memberId: string;
+  sessionVersion?: number;
 }
 
 // Generate JWT token
@@ -28,6 +29,7 @@ export async function generateToken(user: IUser): Promise<string> {
     role: user.role,
     status: user.status,
     memberId: user.memberId,
+    sessionVersion: user.sessionVersion || 0,
   };
 
   return await createToken(payload);
@@ -95,6 +97,15 @@ export async function validateUserCredentials(email: string, password: string) {
   }
 }
 
+// Whether a token was issued since the user's last password reset
+export async function isSessionCurrent(payload: { userId: string; sessionVersion?: number }): Promise<boolean> {
+  const User = (await import('@/models/User')).default;
+  await (await import('@/lib/mongodb')).default();
+
+  const user = await User.findById(payload.userId).select('sessionVersion').lean();
+  return !!user && (user.sessionVersion || 0) === (payload.sessionVersion || 0);
+}
+
 // Password validation
 export function validatePassword(password: string): { isValid: boolean; message?: string } {
   if (password.length < 6) {
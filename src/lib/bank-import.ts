@@ -0,0 +1,699 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import BankImport from '@/models/BankImport';
+import Contribution from '@/models/Contribution';
+import Loan from '@/models/Loan';
+import Repayment from '@/models/Repayment';
+import User from '@/models/User';
+import { BANK_STATEMENT_FORMATS } from '@/config/community';
+import { convertBSToAD } from '@/lib/nepali-date';
+import { matchRepaymentsToSchedule } from '@/lib/loan-schedule';
+import { OpenLoan, payContribution, payLoan, splitLoanPayment } from '@/lib/payments';
+import { getContributionMonth } from '@/lib/periods';
+import { getSettings } from '@/lib/settings';
+import {
+    BankDateFormat,
+    ContributionCalendar,
+    IBankImport,
+    IBankImportCandidate,
+    IBankImportRow,
+    IBankStatementFormat,
+    ILoan,
+} from '@/types';
+
+export interface BankCredit {
+    rowNumber: number;
+    date: Date;
+    description: string;
+    reference?: string;
+    amount: number;
+}
+
+export interface ParsedBankStatement {
+    format?: string;
+    credits: BankCredit[];
+    skippedRows: number;
+    error?: string;
+}
+
+export interface BankImportSelection {
+    rowNumber: number;
+    candidateIndex?: number; // Omitted together with ignore
+    ignore?: boolean;
+}
+
+export interface BankImportPostResult {
+    posted: number;
+    ignored: number;
+    failed: { rowNumber: number; message: string }[];
+    paidContributions: { userId: string; month: string; amount: number }[];
+    completedLoans: ILoan[];
+}
+
+// Points towards a candidate's score. A match needs the amount plus a name,
+// member ID or phone number, and no close runner-up for a different member.
+const SCORES = {
+    EXACT_AMOUNT: 50,
+    PARTIAL_AMOUNT: 20,
+    MEMBER_ID: 40,
+    PHONE: 40,
+    FULL_NAME: 30,
+    PARTIAL_NAME: 10,
+    SAME_MONTH: 10,
+    NEAR_MONTH: 5,
+};
+const MATCH_THRESHOLD = 80;
+const CLEAR_MARGIN = 20;
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const normalizeText = (value: string) => ` ${value.toUpperCase().replace(/[^A-Z0-9]+/g, ' ').trim()} `;
+
+/**
+ * Split CSV text into rows of cells, honouring quoted cells with commas,
+ * escaped quotes and line breaks
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let index = 0; index < input.length; index++) {
+        const char = input[index];
+
+        if (quoted) {
+            if (char === '"' && input[index + 1] === '"') {
+                cell += '"';
+                index++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(cell.trim());
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[index + 1] === '\n') {
+                index++;
+            }
+            row.push(cell.trim());
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+
+    if (cell || row.length) {
+        row.push(cell.trim());
+        rows.push(row);
+    }
+    return rows;
+}
+
+/**
+ * Date from a statement cell in the bank's format, or null when it is not a date
+ */
+export function parseStatementDate(value: string, format: BankDateFormat): Date | null {
+    const text = value.trim().replace(/[ T]\d{1,2}:\d{2}.*$/, ''); // Drop any time of day
+    let year: number;
+    let month: number;
+    let day: number;
+
+    if (format === 'DD-MMM-YYYY') {
+        const match = text.match(/^(\d{1,2})[-/ ]([A-Za-z]{3})[A-Za-z]*[-/ ](\d{2,4})$/);
+        if (!match) {
+            return null;
+        }
+        day = Number(match[1]);
+        month = MONTHS.indexOf(match[2].toUpperCase()) + 1;
+        year = Number(match[3]) < 100 ? 2000 + Number(match[3]) : Number(match[3]);
+    } else {
+        const parts = text.split(/[-/.]/).map(Number);
+        if (parts.length !== 3 || parts.some(isNaN)) {
+            return null;
+        }
+        if (format === 'DD/MM/YYYY') {
+            [day, month, year] = parts;
+        } else if (format === 'MM/DD/YYYY') {
+            [month, day, year] = parts;
+        } else {
+            [year, month, day] = parts;
+        }
+    }
+
+    if (!year || month < 1 || month > 12 || day < 1 || day > 32) {
+        return null;
+    }
+
+    if (format === 'BS') {
+        try {
+            const ad = convertBSToAD({ year, month, day });
+            return new Date(ad.year, ad.month - 1, ad.day);
+        } catch {
+            return null;
+        }
+    }
+
+    const date = new Date(year, month - 1, day);
+    return date.getMonth() === month - 1 ? date : null;
+}
+
+/**
+ * Amount from a statement cell: "1,500.00", "NPR 1500", "(200.00)" or
+ * "1500 Cr". Debits and bracketed amounts are negative; blanks are zero.
+ */
+export function parseStatementAmount(value: string): number | null {
+    const text = value.trim().toUpperCase();
+    if (!text || text === '-') {
+        return 0;
+    }
+
+    const negative = /^\(.*\)$/.test(text) || /^-/.test(text) || /\bDR\.?$/.test(text);
+    const amount = Number(text.replace(/\b(NPR|RS|CR|DR)\b\.?/g, '').replace(/[^0-9.]/g, ''));
+
+    if (isNaN(amount)) {
+        return null;
+    }
+    return negative ? -amount : amount;
+}
+
+/**
+ * Index of each mapped column in a header row, or null when a required one is missing
+ */
+function mapColumns(header: string[], format: IBankStatementFormat) {
+    const positions = header.map(normalizeHeader);
+    const find = (name?: string) => (name ? positions.indexOf(normalizeHeader(name)) : -1);
+
+    const columns = {
+        date: find(format.date),
+        description: find(format.description),
+        reference: find(format.reference),
+        credit: find(format.credit),
+        debit: find(format.debit),
+        amount: find(format.amount),
+    };
+
+    if (columns.date < 0 || (columns.credit < 0 && columns.amount < 0)) {
+        return null;
+    }
+    return columns;
+}
+
+/**
+ * Read the credits from a bank statement export. Preamble lines before the
+ * header row (account details, opening balance) are skipped. Without a
+ * format, the first known layout whose columns appear in the file is used.
+ */
+export function parseBankStatement(text: string, format?: string | IBankStatementFormat): ParsedBankStatement {
+    const lines = parseCsv(text);
+    const formats: [string, IBankStatementFormat][] = typeof format === 'object'
+        ? [['custom', format]]
+        : format
+            ? [[format, BANK_STATEMENT_FORMATS[format]]]
+            : Object.entries(BANK_STATEMENT_FORMATS);
+
+    if (formats.some(([, candidate]) => !candidate)) {
+        return { credits: [], skippedRows: 0, error: 'Unknown bank statement format' };
+    }
+
+    for (let headerIndex = 0; headerIndex < Math.min(lines.length, 30); headerIndex++) {
+        for (const [key, layout] of formats) {
+            const columns = mapColumns(lines[headerIndex], layout);
+            if (!columns) {
+                continue;
+            }
+
+            const credits: BankCredit[] = [];
+            let skippedRows = 0;
+
+            lines.slice(headerIndex + 1).forEach((cells, offset) => {
+                const cell = (position: number) => (position >= 0 ? cells[position] || '' : '');
+                const date = parseStatementDate(cell(columns.date), layout.dateFormat);
+                const amount = columns.amount >= 0
+                    ? parseStatementAmount(cell(columns.amount))
+                    : parseStatementAmount(cell(columns.credit));
+
+                if (cells.every((value) => !value)) {
+                    return;
+                }
+                if (!date || amount === null || amount <= 0) {
+                    skippedRows++;
+                    return;
+                }
+
+                credits.push({
+                    rowNumber: headerIndex + offset + 2,
+                    date,
+                    description: cell(columns.description),
+                    reference: cell(columns.reference) || undefined,
+                    amount: roundCurrency(amount),
+                });
+            });
+
+            return { format: key, credits, skippedRows };
+        }
+    }
+
+    return {
+        credits: [],
+        skippedRows: 0,
+        error: format
+            ? 'The file does not have the columns this format expects'
+            : 'Could not recognise the statement layout; choose the bank or map the columns',
+    };
+}
+
+/**
+ * Stable identity for a credit, so a statement uploaded twice is recognised.
+ * Identical lines in one file are told apart by how many came before.
+ */
+function fingerprintCredits(credits: BankCredit[]): string[] {
+    const seen = new Map<string, number>();
+
+    return credits.map((credit) => {
+        const base = [
+            credit.date.toISOString().split('T')[0],
+            credit.amount.toFixed(2),
+            normalizeText(credit.reference || ''),
+            normalizeText(credit.description),
+        ].join('|');
+        const occurrence = seen.get(base) || 0;
+        seen.set(base, occurrence + 1);
+
+        return crypto.createHash('sha1').update(`${base}|${occurrence}`).digest('hex');
+    });
+}
+
+interface MemberEvidence {
+    score: number;
+    reason: string;
+}
+
+/**
+ * How strongly a credit's narration points at a member: member ID and phone
+ * number are near certain, a full name likely, part of a name only a hint
+ */
+function identifyMember(
+    text: string,
+    member: { name: string; memberId: string; phone?: string }
+): MemberEvidence | null {
+    const normalized = normalizeText(text);
+    const digits = text.replace(/\D/g, '');
+
+    if (normalized.includes(normalizeText(member.memberId))) {
+        return { score: SCORES.MEMBER_ID, reason: 'member ID' };
+    }
+
+    const phone = (member.phone || '').replace(/\D/g, '').slice(-10);
+    if (phone.length >= 7 && digits.includes(phone)) {
+        return { score: SCORES.PHONE, reason: 'phone number' };
+    }
+
+    const nameParts = normalizeText(member.name).trim().split(' ').filter((part) => part.length > 1);
+    const found = nameParts.filter((part) => normalized.includes(` ${part} `));
+    if (nameParts.length && found.length === nameParts.length) {
+        return { score: SCORES.FULL_NAME, reason: 'full name' };
+    }
+    if (nameParts.length > 1 && found.length > 0 && found[0] === nameParts[0]) {
+        return { score: SCORES.PARTIAL_NAME, reason: 'part of name' };
+    }
+    return null;
+}
+
+// Months between a contribution month and the month in the group's calendar a credit is dated in
+const monthDistance = (month: string, date: Date, calendar: ContributionCalendar) => {
+    const [year, monthNumber] = month.split('-').map(Number);
+    const [creditYear, creditMonth] = getContributionMonth(date, calendar).split('-').map(Number);
+    return Math.abs((creditYear - year) * 12 + creditMonth - monthNumber);
+};
+
+/**
+ * Pending contributions and open loans each credit could pay, scored and
+ * classified. Rows are taken in date order and a contribution matched to one
+ * row is not offered to the next, so two transfers from a member in arrears
+ * pay two different months.
+ */
+async function matchCredits(credits: BankCredit[]): Promise<Pick<IBankImportRow, 'status' | 'candidates'>[]> {
+    const [members, contributions, loans, settings] = await Promise.all([
+        User.find({ role: 'member' }).select('name memberId phone').lean(),
+        Contribution.find({ paidStatus: { $ne: 'paid' } }).select('userId month amount').lean(),
+        Loan.find({ status: 'disbursed', remainingBalance: { $gt: 0 } }).lean(),
+        getSettings(),
+    ]);
+    const repayments = await Repayment.find({ loanId: { $in: loans.map((loan) => loan._id) } })
+        .select('loanId amount paymentDate principalAmount interestAmount')
+        .lean();
+
+    const membersById = new Map(members.map((member) => [member._id.toString(), member]));
+    const openLoans: OpenLoan[] = loans.map((loan) => ({
+        loan: loan as unknown as ILoan,
+        repayments: repayments.filter((repayment) => repayment.loanId.toString() === loan._id.toString()),
+    }));
+    const claimed = new Set<string>();
+
+    const order = credits
+        .map((credit, index) => ({ credit, index }))
+        .sort((a, b) => a.credit.date.getTime() - b.credit.date.getTime());
+    const results: Pick<IBankImportRow, 'status' | 'candidates'>[] = new Array(credits.length);
+
+    for (const { credit, index } of order) {
+        const text = `${credit.description} ${credit.reference || ''}`;
+        const evidence = new Map<string, MemberEvidence>();
+        for (const member of members) {
+            const found = identifyMember(text, member);
+            if (found) {
+                evidence.set(member._id.toString(), found);
+            }
+        }
+
+        const candidates: IBankImportCandidate[] = [];
+        const candidate = (userId: string, fields: Partial<IBankImportCandidate>, score: number, reasons: string[]) => {
+            const member = membersById.get(userId);
+            const memberEvidence = evidence.get(userId);
+            if (!member) {
+                return;
+            }
+            candidates.push({
+                kind: 'contribution',
+                userId: member._id,
+                memberName: member.name,
+                memberId: member.memberId,
+                ...fields,
+                score: score + (memberEvidence?.score || 0),
+                reasons: memberEvidence ? [`${memberEvidence.reason} in narration`, ...reasons] : reasons,
+            } as IBankImportCandidate);
+        };
+
+        // Without anyone named, an amount alone only counts when a single record has it
+        const sameAmount = contributions.filter((contribution) =>
+            Math.abs(contribution.amount - credit.amount) < 0.01 && !claimed.has(contribution._id.toString())
+        );
+        for (const contribution of sameAmount) {
+            const userId = contribution.userId.toString();
+            if (!evidence.has(userId) && sameAmount.length > 1) {
+                continue;
+            }
+
+            const distance = monthDistance(contribution.month, credit.date, settings.contributionCalendar);
+            const monthScore = distance === 0 ? SCORES.SAME_MONTH : distance === 1 ? SCORES.NEAR_MONTH : 0;
+            candidate(
+                userId,
+                { kind: 'contribution', contributionId: contribution._id, month: contribution.month },
+                SCORES.EXACT_AMOUNT + monthScore,
+                ['amount equals contribution', ...(monthScore ? ['contribution month'] : [])]
+            );
+        }
+
+        const installmentMatches = openLoans.filter((openLoan) => {
+            const schedule = matchRepaymentsToSchedule(openLoan.loan.schedule || [], openLoan.repayments, credit.date);
+            const next = schedule.find((installment) => installment.status !== 'paid');
+            return next && Math.abs(next.outstandingAmount - credit.amount) < 0.01;
+        });
+        for (const openLoan of openLoans) {
+            const userId = openLoan.loan.userId.toString();
+            const isInstallment = installmentMatches.includes(openLoan);
+            if (!evidence.has(userId) && !(isInstallment && installmentMatches.length === 1)) {
+                continue;
+            }
+
+            const split = splitLoanPayment(openLoan, credit.amount, credit.date);
+            if (!split) {
+                continue;
+            }
+            candidate(
+                userId,
+                { kind: 'repayment', loanId: openLoan.loan._id, ...split },
+                isInstallment ? SCORES.EXACT_AMOUNT : SCORES.PARTIAL_AMOUNT,
+                [isInstallment ? 'amount equals next installment' : 'within loan balance']
+            );
+        }
+
+        candidates.sort((a, b) =>
+            b.score - a.score || (a.month || '').localeCompare(b.month || '')
+        );
+
+        const [best, next] = candidates;
+        // A runner-up for the same member and kind is just another month or loan of theirs
+        const sameTarget = best && next && best.kind === next.kind && best.userId.equals(next.userId);
+        const clear = best && (!next || (sameTarget ? next.score < best.score : best.score - next.score >= CLEAR_MARGIN));
+
+        let status: IBankImportRow['status'] = 'unmatched';
+        if (best && best.score >= MATCH_THRESHOLD && clear) {
+            status = 'matched';
+            if (best.contributionId) {
+                claimed.add(best.contributionId.toString());
+            }
+        } else if (best) {
+            status = 'ambiguous';
+        }
+
+        results[index] = { status, candidates: candidates.slice(0, 5) };
+    }
+
+    return results;
+}
+
+/**
+ * Parse a bank statement, match its credits and save it for review. Credits
+ * already posted from an earlier upload are marked as duplicates.
+ */
+export async function createBankImport(
+    fileName: string,
+    text: string,
+    format: string | IBankStatementFormat | undefined,
+    uploadedBy: string
+): Promise<{ bankImport?: IBankImport; error?: string }> {
+    const statement = parseBankStatement(text, format);
+    if (statement.error) {
+        return { error: statement.error };
+    }
+    if (statement.credits.length === 0) {
+        return { error: 'The statement has no credits to import' };
+    }
+
+    const fingerprints = fingerprintCredits(statement.credits);
+
+    const alreadyPosted = await BankImport.aggregate([
+        { $match: { 'rows.fingerprint': { $in: fingerprints } } },
+        { $unwind: '$rows' },
+        { $match: { 'rows.fingerprint': { $in: fingerprints }, 'rows.status': 'posted' } },
+        { $group: { _id: '$rows.fingerprint' } },
+    ]);
+    const posted = new Set(alreadyPosted.map((row) => row._id as string));
+
+    const fresh = statement.credits.filter((_, index) => !posted.has(fingerprints[index]));
+    const matches = await matchCredits(fresh);
+
+    let freshIndex = 0;
+    const rows = statement.credits.map((credit, index): Partial<IBankImportRow> => {
+        if (posted.has(fingerprints[index])) {
+            return { ...credit, fingerprint: fingerprints[index], status: 'duplicate', candidates: [] };
+        }
+        return { ...credit, fingerprint: fingerprints[index], ...matches[freshIndex++] };
+    });
+
+    const bankImport = await BankImport.create({
+        fileName,
+        format: statement.format,
+        uploadedBy: new mongoose.Types.ObjectId(uploadedBy),
+        rows,
+        skippedRows: statement.skippedRows,
+    });
+    return { bankImport };
+}
+
+const bankTransferNote = (row: IBankImportRow) =>
+    `Bank transfer${row.reference ? ` ref ${row.reference}` : ''}`;
+
+/**
+ * Record a credit as the bank transfer paying a pending contribution
+ */
+async function postContribution(
+    row: IBankImportRow,
+    candidate: IBankImportCandidate,
+    postedBy: string,
+    result: BankImportPostResult
+): Promise<mongoose.Types.ObjectId> {
+    const contribution = await payContribution(candidate.contributionId!, {
+        amount: row.amount,
+        date: row.date,
+        paymentMethod: 'bank_transfer',
+        note: bankTransferNote(row),
+        recordedBy: postedBy,
+    });
+
+    result.paidContributions.push({
+        userId: contribution.userId.toString(),
+        month: contribution.month,
+        amount: contribution.amount,
+    });
+    return contribution._id;
+}
+
+/**
+ * Record a credit as a bank transfer repaying a loan
+ */
+async function postRepayment(
+    row: IBankImportRow,
+    candidate: IBankImportCandidate,
+    postedBy: string,
+    result: BankImportPostResult
+): Promise<mongoose.Types.ObjectId> {
+    const { loan, repayment } = await payLoan(candidate.loanId!, {
+        amount: row.amount,
+        date: row.date,
+        paymentMethod: 'bank_transfer',
+        note: bankTransferNote(row),
+        recordedBy: postedBy,
+    });
+
+    if (loan.status === 'completed') {
+        result.completedLoans.push(loan);
+    }
+    return repayment._id;
+}
+
+// Rows that are posted, or being posted by another request, cannot be posted or ignored
+const CLOSED_ROW_STATUSES = ['posted', 'duplicate', 'posting'];
+
+/**
+ * Update one row of an import while it is still in the given status. Rows are
+ * written one at a time so two admins posting the same import cannot overwrite
+ * each other. Returns false when the row has moved on.
+ */
+async function updateImportRow(
+    importId: mongoose.Types.ObjectId,
+    rowNumber: number,
+    status: string | Record<string, any>,
+    update: Record<string, any>
+): Promise<boolean> {
+    const result = await BankImport.updateOne(
+        { _id: importId, rows: { $elemMatch: { rowNumber, status } } },
+        update
+    );
+    return result.matchedCount > 0;
+}
+
+/**
+ * Post the confirmed rows of an import, or set them aside. Each row is claimed
+ * and posted on its own, so one that no longer fits is reported without
+ * stopping the rest.
+ */
+export async function postBankImportRows(
+    bankImport: IBankImport,
+    selections: BankImportSelection[],
+    postedBy: string
+): Promise<BankImportPostResult> {
+    const result: BankImportPostResult = {
+        posted: 0,
+        ignored: 0,
+        failed: [],
+        paidContributions: [],
+        completedLoans: [],
+    };
+    const openRow = { $nin: CLOSED_ROW_STATUSES };
+
+    for (const selection of selections) {
+        const row = bankImport.rows.find((candidateRow) => candidateRow.rowNumber === selection.rowNumber);
+        const fail = async (message: string) => {
+            result.failed.push({ rowNumber: selection.rowNumber, message });
+            if (row) {
+                row.error = message;
+                await updateImportRow(bankImport._id, row.rowNumber, { $nin: ['posted', 'posting'] }, {
+                    $set: { 'rows.$.error': message },
+                });
+            }
+        };
+
+        if (!row) {
+            await fail('Row not found in this import');
+            continue;
+        }
+        if (CLOSED_ROW_STATUSES.includes(row.status)) {
+            await fail(row.status === 'duplicate'
+                ? 'Credit was already posted from an earlier upload'
+                : row.status === 'posting' ? 'Row is being posted by another admin' : 'Row is already posted');
+            continue;
+        }
+
+        if (selection.ignore) {
+            const ignored = await updateImportRow(bankImport._id, row.rowNumber, openRow, {
+                $set: { 'rows.$.status': 'ignored' },
+                $unset: { 'rows.$.error': 1 },
+            });
+            if (!ignored) {
+                await fail('Row was posted by another admin');
+                continue;
+            }
+
+            row.status = 'ignored';
+            row.error = undefined;
+            result.ignored++;
+            continue;
+        }
+
+        const candidate = row.candidates[selection.candidateIndex ?? -1];
+        if (!candidate) {
+            await fail('Choose the contribution or loan this credit pays');
+            continue;
+        }
+
+        // Claim the row first, so the same credit cannot be paid twice
+        const claimed = await updateImportRow(bankImport._id, row.rowNumber, openRow, {
+            $set: { 'rows.$.status': 'posting' },
+        });
+        if (!claimed) {
+            await fail('Row was posted by another admin');
+            continue;
+        }
+
+        let recordId: mongoose.Types.ObjectId;
+        try {
+            recordId = candidate.kind === 'contribution'
+                ? await postContribution(row, candidate, postedBy, result)
+                : await postRepayment(row, candidate, postedBy, result);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Failed to post';
+
+            // Nothing was paid, so release the row to be matched again
+            await updateImportRow(bankImport._id, row.rowNumber, 'posting', {
+                $set: { 'rows.$.status': row.status, 'rows.$.error': message },
+            });
+            result.failed.push({ rowNumber: selection.rowNumber, message });
+            row.error = message;
+            continue;
+        }
+
+        row.status = 'posted';
+        row.postedKind = candidate.kind;
+        row.postedRecordId = recordId;
+        row.postedBy = new mongoose.Types.ObjectId(postedBy);
+        row.postedAt = new Date();
+        row.error = undefined;
+
+        await updateImportRow(bankImport._id, row.rowNumber, 'posting', {
+            $set: {
+                'rows.$.status': row.status,
+                'rows.$.postedKind': row.postedKind,
+                'rows.$.postedRecordId': row.postedRecordId,
+                'rows.$.postedBy': row.postedBy,
+                'rows.$.postedAt': row.postedAt,
+            },
+            $unset: { 'rows.$.error': 1 },
+        });
+        result.posted++;
+    }
+
+    return result;
+}
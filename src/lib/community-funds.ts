@@ -0,0 +1,71 @@
+import Contribution from '@/models/Contribution';
+import Loan from '@/models/Loan';
+import Repayment from '@/models/Repayment';
+import HistoricalInterest from '@/models/HistoricalInterest';
+import Penalty from '@/models/Penalty';
+import MemberWithdrawal from '@/models/MemberWithdrawal';
+
+export interface CommunityFunds {
+    totalContributions: number;
+    activeLoansPrincipal: number;
+    totalInterestCollected: number; // Repayment interest, historical interest and collected penalties
+    totalPenaltiesCollected: number;
+    totalWithdrawals: number; // Exit entitlements, including any part offset against a loan
+    availableLiquidFunds: number;
+}
+
+/**
+ * Money the group holds: contributions and income received, less principal
+ * out on active loans and exit payouts. Exit payouts count in full, loan
+ * offsets included, since the repayment an offset records brought no cash in.
+ */
+export async function getCommunityFunds(): Promise<CommunityFunds> {
+    const [
+        totalContributionsResult,
+        activeLoansResult,
+        totalInterestResult,
+        recoveredPrincipalResult,
+        historicalInterest,
+        totalPenaltiesCollected,
+        totalWithdrawals,
+    ] = await Promise.all([
+        Contribution.aggregate([
+            { $match: { paidStatus: 'paid' } },
+            { $group: { _id: null, total: { $sum: '$amount' } } },
+        ]),
+        Loan.aggregate([
+            { $match: { status: { $in: ['approved', 'disbursed'] }, remainingBalance: { $gt: 0 } } },
+            { $group: { _id: null, totalPrincipal: { $sum: '$approvedAmount' } } },
+        ]),
+        // Recoveries from guarantors' savings bring no cash in, as in the ledger
+        Repayment.aggregate([
+            { $match: { paymentMethod: { $ne: 'guarantee_recovery' } } },
+            { $group: { _id: null, totalInterest: { $sum: '$interestAmount' } } },
+        ]),
+        // Principal recovered from guarantors on loans that have left the active
+        // total, which would otherwise count as if it had been repaid in cash
+        Repayment.aggregate([
+            { $match: { paymentMethod: 'guarantee_recovery' } },
+            { $lookup: { from: Loan.collection.name, localField: 'loanId', foreignField: '_id', as: 'loan' } },
+            { $match: { $nor: [{ 'loan.status': { $in: ['approved', 'disbursed'] }, 'loan.remainingBalance': { $gt: 0 } }] } },
+            { $group: { _id: null, total: { $sum: '$principalAmount' } } },
+        ]),
+        HistoricalInterest.getTotalHistoricalInterest(),
+        Penalty.getTotalCollected(),
+        MemberWithdrawal.getTotalPaidOut(),
+    ]);
+
+    const totalContributions = totalContributionsResult[0]?.total || 0;
+    const activeLoansPrincipal = activeLoansResult[0]?.totalPrincipal || 0;
+    const recoveredPrincipal = recoveredPrincipalResult[0]?.total || 0;
+    const totalInterestCollected = (totalInterestResult[0]?.totalInterest || 0) + (historicalInterest || 0) + (totalPenaltiesCollected || 0);
+
+    return {
+        totalContributions,
+        activeLoansPrincipal,
+        totalInterestCollected,
+        totalPenaltiesCollected: totalPenaltiesCollected || 0,
+        totalWithdrawals: totalWithdrawals || 0,
+        availableLiquidFunds: totalContributions + totalInterestCollected - activeLoansPrincipal - recoveredPrincipal - (totalWithdrawals || 0),
+    };
+}
@@ -0,0 +1,88 @@
+import ContributionRate from '@/models/ContributionRate';
+import { getSettings } from '@/lib/settings';
+import { IContributionRate } from '@/types';
+
+export type ContributionRateEntry = Pick<IContributionRate, 'effectiveFrom' | 'effectiveTo' | 'amount' | 'userId'>;
+
+export interface ContributionSchedule {
+    // Amount due for a month ("YYYY-MM"), using the member's override when one applies
+    amountFor(month: string, userId?: string): number;
+    // Total due for a set of months
+    totalFor(months: string[], userId?: string): number;
+}
+
+/**
+ * Build a schedule from its entries. Months before the first community entry
+ * fall back to the opening amount from settings.
+ */
+export function buildContributionSchedule(entries: ContributionRateEntry[], openingAmount: number): ContributionSchedule {
+    // Latest first, so the first entry that has started is the one in force
+    const sorted = [...entries].sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+    const community = sorted.filter((entry) => !entry.userId);
+    const overrides = sorted.filter((entry) => entry.userId);
+
+    const amountFor = (month: string, userId?: string) => {
+        if (userId) {
+            const override = overrides.find((entry) =>
+                entry.userId!.toString() === userId &&
+                entry.effectiveFrom <= month &&
+                (!entry.effectiveTo || entry.effectiveTo >= month)
+            );
+            if (override) {
+                return override.amount;
+            }
+        }
+
+        return community.find((entry) => entry.effectiveFrom <= month)?.amount ?? openingAmount;
+    };
+
+    return {
+        amountFor,
+        totalFor: (months, userId) => months.reduce((sum, month) => sum + amountFor(month, userId), 0),
+    };
+}
+
+/**
+ * The contribution schedule currently on record
+ */
+export async function getContributionSchedule(): Promise<ContributionSchedule> {
+    const [entries, settings] = await Promise.all([
+        ContributionRate.getSchedule(),
+        getSettings(),
+    ]);
+
+    return buildContributionSchedule(entries, settings.monthlyContributionAmount);
+}
+
+/**
+ * Validate a new schedule entry, returning an error message or null
+ */
+export function validateContributionRate(data: {
+    effectiveFrom?: string;
+    effectiveTo?: string;
+    amount?: number | string;
+    userId?: string;
+}): string | null {
+    if (!data.effectiveFrom || !/^\d{4}-\d{2}$/.test(data.effectiveFrom)) {
+        return 'Effective month must be in format YYYY-MM';
+    }
+    if (data.amount === undefined || isNaN(Number(data.amount)) || Number(data.amount) <= 0) {
+        return 'Amount must be positive';
+    }
+    if (data.effectiveTo) {
+        if (!data.userId) {
+            return 'Only member overrides can have an end month';
+        }
+        if (!/^\d{4}-\d{2}$/.test(data.effectiveTo) || data.effectiveTo < data.effectiveFrom) {
+            return 'End month must be in format YYYY-MM and not before the effective month';
+        }
+    }
+    return null;
+}
+
+/**
+ * "YYYY-MM" for the month of a date
+ */
+export function toMonthString(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
@@ -0,0 +1,50 @@
+import { getRequiredContributionStartDate } from '@/config/community';
+import { getRejoinDate } from '@/lib/member-exit';
+import { formatContributionMonth, getContributionMonth, shiftMonth } from '@/lib/periods';
+import { ContributionCalendar, IUser } from '@/types';
+
+export interface ContributionMonth {
+    month: string; // Format: "YYYY-MM"
+    year: number;
+    monthName: string;
+}
+
+/**
+ * Months a member has had to contribute for so far, and those with no
+ * contribution recorded. Contributions are made at month end, so the
+ * current month is not yet required. Months follow the group's calendar.
+ */
+export function getContributionMonths(
+    user: Pick<IUser, 'joinDate' | 'membershipPeriods'>,
+    recordedMonths: string[],
+    openingDate: Date,
+    asOfDate: Date = new Date(),
+    calendar: ContributionCalendar = 'AD'
+): { requiredMonths: ContributionMonth[]; missingMonths: ContributionMonth[] } {
+    const lastCompletedMonth = shiftMonth(getContributionMonth(asOfDate, calendar), -1); // Previous month
+    const recorded = new Set(recordedMonths);
+    const requiredMonths: ContributionMonth[] = [];
+    const missingMonths: ContributionMonth[] = [];
+
+    // Start from community opening date, or the latest join date for members who rejoined
+    const startDate = getRequiredContributionStartDate(user.joinDate, getRejoinDate(user), openingDate);
+
+    for (
+        let current = getContributionMonth(startDate, calendar);
+        current <= lastCompletedMonth;
+        current = shiftMonth(current, 1)
+    ) {
+        const month: ContributionMonth = {
+            month: current, // YYYY-MM
+            year: Number(current.slice(0, 4)),
+            monthName: formatContributionMonth(current, calendar),
+        };
+
+        requiredMonths.push(month);
+        if (!recorded.has(month.month)) {
+            missingMonths.push(month);
+        }
+    }
+
+    return { requiredMonths, missingMonths };
+}
@@ -0,0 +1,157 @@
+import { ClientSession } from 'mongoose';
+import Counter from '@/models/Counter';
+import { COMMUNITY_CONFIG } from '@/config/community';
+import { convertADToBS, getBSFiscalYear } from '@/lib/nepali-date';
+
+export type NumberSequence = 'member-id' | 'contribution-receipt' | 'repayment-receipt' | 'historical-interest-receipt';
+
+type PeriodToken = 'FY' | 'BSYEAR' | 'YEAR';
+
+type FormatPart = { literal: string } | { period: PeriodToken } | { digits: number };
+
+const SEQUENCE_FORMATS: Record<NumberSequence, string> = {
+    'member-id': COMMUNITY_CONFIG.NUMBERING.MEMBER_ID,
+    'contribution-receipt': COMMUNITY_CONFIG.NUMBERING.CONTRIBUTION_RECEIPT,
+    'repayment-receipt': COMMUNITY_CONFIG.NUMBERING.REPAYMENT_RECEIPT,
+    'historical-interest-receipt': COMMUNITY_CONFIG.NUMBERING.HISTORICAL_INTEREST_RECEIPT,
+};
+
+const PERIOD_TOKENS: PeriodToken[] = ['FY', 'BSYEAR', 'YEAR'];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Split a format such as "RPT-{FY}-{SEQ:5}" into literal text, period tokens and the sequence
+ */
+function parseFormat(format: string): FormatPart[] {
+    return format.split(/(\{[A-Z]+(?::\d+)?\})/).filter(Boolean).map((part) => {
+        const token = part.match(/^\{([A-Z]+)(?::(\d+))?\}$/);
+
+        if (!token) {
+            return { literal: part };
+        }
+        if (token[1] === 'SEQ') {
+            return { digits: Number(token[2] || 1) };
+        }
+        if (PERIOD_TOKENS.includes(token[1] as PeriodToken)) {
+            return { period: token[1] as PeriodToken };
+        }
+        throw new Error(`Unknown numbering token ${part}`);
+    });
+}
+
+function getPeriodValue(period: PeriodToken, date: Date): string {
+    if (period === 'FY') {
+        return String(getBSFiscalYear(date));
+    }
+    if (period === 'BSYEAR') {
+        return String(convertADToBS({ year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() }).year);
+    }
+    return String(date.getFullYear());
+}
+
+/**
+ * The counter a number issued on the given date comes from, and how to format
+ * it. Each distinct period gets its own counter, keyed by the format with the
+ * period filled in, e.g. "repayment-receipt:RPT-2081-".
+ */
+function resolveFormat(sequence: NumberSequence, date: Date) {
+    const parts = parseFormat(SEQUENCE_FORMATS[sequence]);
+    const fill = (seq: number | null) => parts.map((part) => {
+        if ('literal' in part) {
+            return part.literal;
+        }
+        if ('period' in part) {
+            return getPeriodValue(part.period, date);
+        }
+        return seq === null ? '' : String(seq).padStart(part.digits, '0');
+    }).join('');
+
+    return { key: `${sequence}:${fill(null)}`, format: (seq: number) => fill(seq) };
+}
+
+/**
+ * Take the next number in a sequence. The increment is a single atomic update,
+ * so concurrent requests never share a number, and it joins the caller's
+ * transaction when given a session so an aborted write gives the number back.
+ */
+export async function nextSequenceNumber(
+    sequence: NumberSequence,
+    options: { date?: Date; session?: ClientSession | null } = {}
+): Promise<string> {
+    const { key, format } = resolveFormat(sequence, options.date || new Date());
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            const counter = await Counter.findOneAndUpdate(
+                { _id: key },
+                { $inc: { seq: 1 } },
+                { upsert: true, new: true, session: options.session || undefined }
+            );
+            return format(counter.seq);
+        } catch (error: any) {
+            // Two requests creating a new period's counter at once: the loser retries the increment
+            if (error?.code !== 11000 || attempt > 0) {
+                throw error;
+            }
+        }
+    }
+}
+
+/**
+ * Key of the counter numbers issued on the given date come from
+ */
+export function getCounterKey(sequence: NumberSequence, date: Date): string {
+    return resolveFormat(sequence, date).key;
+}
+
+/**
+ * The number a given position in a sequence has for a date, without taking it
+ */
+export function formatSequenceNumber(sequence: NumberSequence, seq: number, date: Date): string {
+    return resolveFormat(sequence, date).format(seq);
+}
+
+/**
+ * Counter key and position of an existing number, or null when it does not
+ * follow the sequence's format
+ */
+export function parseSequenceNumber(sequence: NumberSequence, value: string): { key: string; seq: number } | null {
+    const parts = parseFormat(SEQUENCE_FORMATS[sequence]);
+    const pattern = parts.map((part) =>
+        'literal' in part ? escapeRegExp(part.literal) : 'period' in part ? '(\\d{4})' : '(\\d+)'
+    ).join('');
+    const match = value.match(new RegExp(`^${pattern}$`));
+
+    if (!match) {
+        return null;
+    }
+
+    let group = 1;
+    let seq = 0;
+    const keyText = parts.map((part) => {
+        if ('literal' in part) {
+            return part.literal;
+        }
+        const captured = match[group++];
+        if ('period' in part) {
+            return captured;
+        }
+        seq = Number(captured);
+        return '';
+    }).join('');
+
+    return { key: `${sequence}:${keyText}`, seq };
+}
+
+/**
+ * Move a counter to the given position. With onlyForward it never goes back,
+ * so numbers already issued are not handed out again.
+ */
+export async function setCounter(key: string, seq: number, onlyForward = false): Promise<void> {
+    await Counter.updateOne(
+        { _id: key },
+        onlyForward ? { $max: { seq } } : { $set: { seq } },
+        { upsert: true }
+    );
+}
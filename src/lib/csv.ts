@@ -0,0 +1,27 @@
+/**
+ * Quote a CSV cell when it contains a delimiter, quote or line break
+ */
+function escapeCSVValue(value: unknown): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    if (/[",\r\n]/.test(text)) {
+        return `"${text.replace(/"/g, '""')}"`;
+    }
+    return text;
+}
+
+/**
+ * Convert rows to CSV using the keys of the first row as headers
+ */
+export function convertToCSV(data: Record<string, unknown>[]): string {
+    if (data.length === 0) return '';
+
+    const headers = Object.keys(data[0]);
+    return [
+        headers.join(','),
+        ...data.map((row) => headers.map((header) => escapeCSVValue(row[header])).join(',')),
+    ].join('\n');
+}
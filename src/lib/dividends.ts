@@ -0,0 +1,300 @@
+import mongoose from 'mongoose';
+import Contribution from '@/models/Contribution';
+import Repayment from '@/models/Repayment';
+import HistoricalInterest from '@/models/HistoricalInterest';
+import Penalty from '@/models/Penalty';
+import Dividend from '@/models/Dividend';
+import DividendDistribution from '@/models/DividendDistribution';
+import MemberWithdrawal from '@/models/MemberWithdrawal';
+import GuaranteeRecovery from '@/models/GuaranteeRecovery';
+import { syncDividendDistributionEntry } from '@/lib/ledger';
+
+export interface DividendContribution {
+    amount: number;
+    month: string;
+    paidDate?: Date | string;
+}
+
+export interface MemberDividendShare {
+    userId: string;
+    name: string;
+    memberId: string;
+    weightedAverageBalance: number;
+    closingBalance: number;
+    sharePercentage: number;
+    amount: number;
+}
+
+export interface DividendPreview {
+    year: number;
+    periodStart: Date;
+    periodEnd: Date;
+    repaymentInterest: number;
+    historicalInterest: number;
+    penaltiesCollected: number;
+    totalIncome: number;
+    reservePercentage: number;
+    reserveAmount: number;
+    distributableAmount: number;
+    totalWeightedBalance: number;
+    shares: MemberDividendShare[];
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Date from which a paid contribution counts as held by the group
+ */
+function getHeldFromDate(contribution: DividendContribution): Date {
+    if (contribution.paidDate) {
+        return new Date(contribution.paidDate);
+    }
+    const [year, month] = contribution.month.split('-').map(Number);
+    return new Date(year, month - 1, 1);
+}
+
+/**
+ * Average paid savings over the month-ends of a period, with the period end
+ * standing in for the last month-end. Over a full year a contribution paid in
+ * March counts for ten of the twelve months, so late savers earn less than
+ * members whose money was with the group all year. Negative entries (savings
+ * paid out on exit) reduce the balance from their date onwards.
+ */
+export function calculateAverageBalanceForPeriod(
+    contributions: DividendContribution[],
+    periodStart: Date,
+    periodEnd: Date
+) {
+    const heldFrom = contributions.map((contribution) => ({
+        amount: contribution.amount,
+        date: getHeldFromDate(contribution),
+    }));
+
+    let balanceMonths = 0;
+    let closingBalance = 0;
+    let points = 0;
+
+    const cursor = new Date(periodStart.getFullYear(), periodStart.getMonth(), 1);
+    while (cursor <= periodEnd) {
+        const monthEnd = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 0, 23, 59, 59, 999);
+        const pointDate = monthEnd < periodEnd ? monthEnd : periodEnd;
+        closingBalance = Math.max(0, heldFrom
+            .filter((entry) => entry.date <= pointDate)
+            .reduce((sum, entry) => sum + entry.amount, 0));
+        balanceMonths += closingBalance;
+        points++;
+        cursor.setMonth(cursor.getMonth() + 1);
+    }
+
+    return {
+        weightedAverageBalance: points > 0 ? roundCurrency(balanceMonths / points) : 0,
+        closingBalance: roundCurrency(closingBalance),
+    };
+}
+
+/**
+ * Average paid savings over the twelve month-ends of the year
+ */
+export function calculateWeightedAverageBalance(contributions: DividendContribution[], year: number) {
+    return calculateAverageBalanceForPeriod(
+        contributions,
+        new Date(year, 0, 1),
+        new Date(year, 11, 31, 23, 59, 59, 999)
+    );
+}
+
+/**
+ * Split an amount in proportion to weights, rounded to cents. The rounding
+ * difference goes to the largest share so the parts add up exactly.
+ */
+export function allocateProportionally(total: number, weights: number[]): number[] {
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    if (totalWeight <= 0 || total <= 0) {
+        return weights.map(() => 0);
+    }
+
+    const amounts = weights.map((weight) => roundCurrency((total * weight) / totalWeight));
+    const difference = roundCurrency(total - amounts.reduce((sum, amount) => sum + amount, 0));
+
+    if (difference !== 0) {
+        const largest = weights.indexOf(Math.max(...weights));
+        amounts[largest] = roundCurrency(amounts[largest] + difference);
+    }
+
+    return amounts;
+}
+
+/**
+ * Interest, historical interest and collected penalties received in a period
+ */
+export async function getIncomeForPeriod(periodStart: Date, periodEnd: Date) {
+    const [repaymentResult, historicalResult, penaltyResult] = await Promise.all([
+        Repayment.aggregate([
+            { $match: { paymentDate: { $gte: periodStart, $lte: periodEnd } } },
+            { $group: { _id: null, total: { $sum: '$interestAmount' } } },
+        ]),
+        HistoricalInterest.aggregate([
+            { $match: { interestDate: { $gte: periodStart, $lte: periodEnd } } },
+            { $group: { _id: null, total: { $sum: '$amount' } } },
+        ]),
+        Penalty.aggregate([
+            { $match: { status: 'paid', paidDate: { $gte: periodStart, $lte: periodEnd } } },
+            { $group: { _id: null, total: { $sum: '$amount' } } },
+        ]),
+    ]);
+
+    return {
+        repaymentInterest: roundCurrency(repaymentResult[0]?.total || 0),
+        historicalInterest: roundCurrency(historicalResult[0]?.total || 0),
+        penaltiesCollected: roundCurrency(penaltyResult[0]?.total || 0),
+    };
+}
+
+/**
+ * Every member's average paid savings over a period. Savings already paid out
+ * through an approved exit stop counting from the exit date.
+ */
+export async function getMemberAverageBalances(periodStart: Date, periodEnd: Date) {
+    const [contributions, withdrawals, recoveries] = await Promise.all([
+        Contribution.find({ paidStatus: 'paid' })
+            .populate('userId', 'name memberId')
+            .lean(),
+        MemberWithdrawal.find({ status: 'approved' }).lean(),
+        GuaranteeRecovery.find().select('userId amount recoveryDate').lean(),
+    ]);
+
+    // Group paid contributions by member
+    const byMember = new Map<string, { user: any; contributions: DividendContribution[] }>();
+    for (const contribution of contributions) {
+        const user = contribution.userId as any;
+        if (!user?._id) {
+            continue;
+        }
+        const key = user._id.toString();
+        if (!byMember.has(key)) {
+            byMember.set(key, { user, contributions: [] });
+        }
+        byMember.get(key)!.contributions.push(contribution);
+    }
+
+    for (const withdrawal of withdrawals) {
+        byMember.get(withdrawal.userId.toString())?.contributions.push({
+            amount: -withdrawal.totalContributions,
+            month: '',
+            paidDate: withdrawal.exitDate,
+        });
+    }
+
+    // Savings taken to cover a loan the member guaranteed
+    for (const recovery of recoveries) {
+        byMember.get(recovery.userId.toString())?.contributions.push({
+            amount: -recovery.amount,
+            month: '',
+            paidDate: recovery.recoveryDate,
+        });
+    }
+
+    return Array.from(byMember.entries())
+        .map(([userId, { user, contributions: memberContributions }]) => ({
+            userId,
+            name: user.name as string,
+            memberId: user.memberId as string,
+            ...calculateAverageBalanceForPeriod(memberContributions, periodStart, periodEnd),
+        }))
+        .filter((balance) => balance.weightedAverageBalance > 0);
+}
+
+/**
+ * Work out the year's distributable income and each member's share without saving anything
+ */
+export async function previewDividendDistribution(year: number, reservePercentage: number): Promise<DividendPreview> {
+    const periodStart = new Date(year, 0, 1);
+    const periodEnd = new Date(year, 11, 31, 23, 59, 59, 999);
+
+    const [income, balances] = await Promise.all([
+        getIncomeForPeriod(periodStart, periodEnd),
+        getMemberAverageBalances(periodStart, periodEnd),
+    ]);
+
+    const totalIncome = roundCurrency(income.repaymentInterest + income.historicalInterest + income.penaltiesCollected);
+    const reserveAmount = roundCurrency(totalIncome * (reservePercentage / 100));
+    const distributableAmount = roundCurrency(totalIncome - reserveAmount);
+
+    const totalWeightedBalance = roundCurrency(balances.reduce((sum, balance) => sum + balance.weightedAverageBalance, 0));
+    const amounts = allocateProportionally(distributableAmount, balances.map((balance) => balance.weightedAverageBalance));
+
+    const shares: MemberDividendShare[] = balances
+        .map((balance, index) => ({
+            ...balance,
+            sharePercentage: totalWeightedBalance > 0
+                ? Math.round((balance.weightedAverageBalance / totalWeightedBalance) * 1000000) / 10000
+                : 0,
+            amount: amounts[index],
+        }))
+        .sort((a, b) => b.amount - a.amount);
+
+    return {
+        year,
+        periodStart,
+        periodEnd,
+        ...income,
+        totalIncome,
+        reservePercentage,
+        reserveAmount,
+        distributableAmount,
+        totalWeightedBalance,
+        shares,
+    };
+}
+
+/**
+ * Post a previewed distribution, one dividend credit per member and the ledger
+ * entry in a single transaction
+ */
+export async function postDividendDistribution(preview: DividendPreview, postedBy: string, notes?: string) {
+    const { year, reservePercentage } = preview;
+    const session = await mongoose.startSession();
+    let distribution: any = null;
+
+    try {
+        await session.withTransaction(async () => {
+            [distribution] = await DividendDistribution.create([{
+                year,
+                periodStart: preview.periodStart,
+                periodEnd: preview.periodEnd,
+                repaymentInterest: preview.repaymentInterest,
+                historicalInterest: preview.historicalInterest,
+                penaltiesCollected: preview.penaltiesCollected,
+                totalIncome: preview.totalIncome,
+                reservePercentage,
+                reserveAmount: preview.reserveAmount,
+                distributedAmount: preview.distributableAmount,
+                totalWeightedBalance: preview.totalWeightedBalance,
+                memberCount: preview.shares.length,
+                postedBy: new mongoose.Types.ObjectId(postedBy),
+                postedDate: new Date(),
+                notes,
+            }], { session });
+
+            await Dividend.insertMany(
+                preview.shares.map((share) => ({
+                    distributionId: distribution._id,
+                    userId: new mongoose.Types.ObjectId(share.userId),
+                    year,
+                    weightedAverageBalance: share.weightedAverageBalance,
+                    closingBalance: share.closingBalance,
+                    sharePercentage: share.sharePercentage,
+                    amount: share.amount,
+                    creditedDate: distribution.postedDate,
+                })),
+                { session }
+            );
+
+            await syncDividendDistributionEntry(distribution, { session, postedBy });
+        });
+    } finally {
+        await session.endSession();
+    }
+
+    return distribution;
+}
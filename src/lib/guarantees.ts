@@ -0,0 +1,420 @@
+import mongoose from 'mongoose';
+import Contribution from '@/models/Contribution';
+import Loan from '@/models/Loan';
+import Repayment from '@/models/Repayment';
+import User from '@/models/User';
+import MemberWithdrawal from '@/models/MemberWithdrawal';
+import GuaranteeRecovery from '@/models/GuaranteeRecovery';
+import { COMMUNITY_CONFIG } from '@/config/community';
+import { ILoan, ILoanGuarantor } from '@/types';
+import { calculateLoanPayoff } from '@/lib/loan-calculations';
+import { allocateProportionally } from '@/lib/dividends';
+import { syncGuaranteeRecoveryEntry } from '@/lib/ledger';
+
+export interface GuaranteeCapacity {
+    savings: number;
+    limit: number;
+    exposure: number;
+    available: number;
+}
+
+export interface GuarantorRequest {
+    userId: string;
+    amount?: number;
+}
+
+export interface GuarantorRecoveryShare {
+    userId: string;
+    name: string;
+    memberId: string;
+    guaranteedAmount: number;
+    previouslyRecovered: number;
+    savings: number;
+    amount: number;
+    principalAmount: number;
+    interestAmount: number;
+}
+
+export interface GuaranteeRecoveryPlan {
+    loanId: string;
+    recoveryDate: Date;
+    outstandingPrincipal: number;
+    outstandingInterest: number;
+    recoveredAmount: number;
+    principalAmount: number;
+    interestAmount: number;
+    remainingPrincipal: number;
+    shares: GuarantorRecoveryShare[];
+}
+
+// Loans a guarantee still binds the guarantor to
+const OPEN_LOAN_STATUSES = ['pending', 'approved', 'disbursed'];
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Savings a member holds with the group: paid contributions, less savings
+ * returned when they left and anything taken to cover loans they guaranteed
+ * since then
+ */
+export async function getMemberSavingsBalance(userId: string): Promise<number> {
+    const [savings, withdrawals] = await Promise.all([
+        Contribution.getUserTotalSavings(userId),
+        MemberWithdrawal.find({ userId, status: 'approved' }).select('totalContributions exitDate').lean(),
+    ]);
+
+    const returned = withdrawals.reduce((sum, withdrawal) => sum + withdrawal.totalContributions, 0);
+    const lastExit = withdrawals.reduce<Date | undefined>(
+        (latest, withdrawal) => (!latest || withdrawal.exitDate > latest ? withdrawal.exitDate : latest),
+        undefined
+    );
+    const recovered = await GuaranteeRecovery.getUserTotalRecovered(userId, lastExit);
+
+    return roundCurrency(Math.max(0, savings.totalSavings - returned - recovered));
+}
+
+/**
+ * Amount a member currently stands surety for on open loans, excluding
+ * guarantees they declined and amounts already recovered from them
+ */
+export async function getGuaranteeExposure(userId: string, excludeLoanId?: string): Promise<number> {
+    const query: Record<string, any> = {
+        'guarantors.userId': new mongoose.Types.ObjectId(userId),
+        status: { $in: OPEN_LOAN_STATUSES },
+    };
+    if (excludeLoanId) {
+        query._id = { $ne: new mongoose.Types.ObjectId(excludeLoanId) };
+    }
+
+    const loans = await Loan.find(query).select('guarantors').lean();
+
+    const exposure = loans.reduce((total, loan) => total + (loan.guarantors || [])
+        .filter((guarantor) => guarantor.userId.toString() === userId && guarantor.status !== 'declined')
+        .reduce((sum, guarantor) => sum + guarantor.amount - (guarantor.recoveredAmount || 0), 0), 0);
+
+    return roundCurrency(exposure);
+}
+
+/**
+ * Show guarantors whose account has since been deleted as a removed member,
+ * rather than the null left behind by populate
+ */
+export function withRemovedGuarantors<T extends { guarantors?: any[] }>(loan: T): T {
+    if (!loan.guarantors) {
+        return loan;
+    }
+    return {
+        ...loan,
+        guarantors: loan.guarantors.map((guarantor) => guarantor.userId
+            ? guarantor
+            : { ...guarantor, userId: { name: 'Removed member', memberId: '' } }),
+    };
+}
+
+/**
+ * Error for a member who still stands surety on an open loan, or null. Their
+ * savings back those guarantees, so they cannot be paid out on exit.
+ */
+export async function getGuarantorExitError(userId: string): Promise<string | null> {
+    const exposure = await getGuaranteeExposure(userId);
+    return exposure > 0
+        ? `Member still guarantees ${exposure} on open loans. The guarantees must be released or recovered before the exit.`
+        : null;
+}
+
+/**
+ * How much more a member can guarantee under the exposure limit
+ */
+export async function getGuaranteeCapacity(userId: string, excludeLoanId?: string): Promise<GuaranteeCapacity> {
+    const [savings, exposure] = await Promise.all([
+        getMemberSavingsBalance(userId),
+        getGuaranteeExposure(userId, excludeLoanId),
+    ]);
+
+    const limit = roundCurrency(savings * (COMMUNITY_CONFIG.GUARANTEE_RULES.MAX_EXPOSURE_PERCENTAGE / 100));
+
+    return {
+        savings,
+        limit,
+        exposure,
+        available: roundCurrency(Math.max(0, limit - exposure)),
+    };
+}
+
+/**
+ * Check the guarantors proposed for a loan and work out the amount each one
+ * covers. Guarantors without an amount share what is left of the loan evenly.
+ */
+export async function buildLoanGuarantors(
+    borrowerId: string,
+    requests: GuarantorRequest[],
+    loanAmount: number
+): Promise<{ guarantors?: ILoanGuarantor[]; error?: string }> {
+    if (!Array.isArray(requests)) {
+        return { error: 'Guarantors must be a list of members' };
+    }
+    if (requests.length === 0) {
+        return { guarantors: [] };
+    }
+    if (requests.length > COMMUNITY_CONFIG.GUARANTEE_RULES.MAX_GUARANTORS_PER_LOAN) {
+        return { error: `A loan can have at most ${COMMUNITY_CONFIG.GUARANTEE_RULES.MAX_GUARANTORS_PER_LOAN} guarantors` };
+    }
+
+    const ids = requests.map((request) => String(request?.userId || ''));
+    if (ids.some((id) => !mongoose.Types.ObjectId.isValid(id))) {
+        return { error: 'Invalid guarantor' };
+    }
+    if (new Set(ids).size !== ids.length) {
+        return { error: 'Each guarantor can only be listed once' };
+    }
+    if (ids.includes(String(borrowerId))) {
+        return { error: 'Members cannot guarantee their own loan' };
+    }
+
+    const users = await User.find({ _id: { $in: ids } }).select('name role isActive status').lean();
+    for (const id of ids) {
+        const user = users.find((candidate) => candidate._id.toString() === id);
+        if (!user || user.role !== 'member' || !user.isActive || user.status !== 'approved') {
+            return { error: 'Guarantors must be active members' };
+        }
+    }
+
+    const givenTotal = requests.reduce((sum, request) => sum + (Number(request.amount) || 0), 0);
+    if (requests.some((request) => request.amount !== undefined && !(Number(request.amount) > 0))) {
+        return { error: 'Guaranteed amounts must be positive' };
+    }
+    if (givenTotal > loanAmount) {
+        return { error: 'Guaranteed amounts cannot exceed the loan amount' };
+    }
+
+    const unspecified = requests.filter((request) => request.amount === undefined);
+    const evenShares = allocateProportionally(roundCurrency(loanAmount - givenTotal), unspecified.map(() => 1));
+
+    const guarantors: ILoanGuarantor[] = [];
+    for (const [index, request] of requests.entries()) {
+        const amount = request.amount !== undefined
+            ? roundCurrency(Number(request.amount))
+            : evenShares[unspecified.indexOf(request)];
+        if (amount <= 0) {
+            return { error: 'Guaranteed amounts must be positive' };
+        }
+
+        const capacity = await getGuaranteeCapacity(ids[index]);
+        if (amount > capacity.available) {
+            const name = users.find((user) => user._id.toString() === ids[index])?.name;
+            return { error: `${name} can guarantee at most NPR ${capacity.available.toLocaleString()} more` };
+        }
+
+        guarantors.push({
+            userId: new mongoose.Types.ObjectId(ids[index]),
+            amount,
+            status: 'pending',
+            recoveredAmount: 0,
+        });
+    }
+
+    return { guarantors };
+}
+
+/**
+ * Why a loan cannot be approved yet, or null once every guarantor has accepted
+ * (and there is one, when the loan's product requires it)
+ */
+export function getGuarantorApprovalError(loan: Pick<ILoan, 'guarantors' | 'productTerms'>): string | null {
+    const guarantors = loan.guarantors || [];
+
+    if (loan.productTerms?.requiresGuarantor && guarantors.length === 0) {
+        return `${loan.productTerms.name} loans need at least one guarantor`;
+    }
+
+    if (guarantors.some((guarantor) => guarantor.status === 'declined')) {
+        return 'A guarantor declined this loan. Reject it so the member can request again with another guarantor';
+    }
+    if (guarantors.some((guarantor) => guarantor.status === 'pending')) {
+        return 'Every guarantor must accept before the loan can be approved';
+    }
+    return null;
+}
+
+/**
+ * Work out what can be recovered from a loan's guarantors without saving
+ * anything. Each accepted guarantor pays in proportion to what they still
+ * guarantee, up to that amount and their savings; interest is cleared first.
+ */
+export async function planGuaranteeRecovery(loan: ILoan, recoveryDate: Date): Promise<GuaranteeRecoveryPlan> {
+    const repayments = await Repayment.find({ loanId: loan._id }).lean();
+    const { outstandingPrincipal, outstandingInterest } = calculateLoanPayoff(loan, repayments as any[], recoveryDate);
+
+    const accepted = (loan.guarantors || []).filter((guarantor) => guarantor.status === 'accepted');
+    const users = await User.find({ _id: { $in: accepted.map((guarantor) => guarantor.userId) } })
+        .select('name memberId')
+        .lean();
+
+    const remainingGuarantees = accepted.map((guarantor) =>
+        roundCurrency(Math.max(0, guarantor.amount - (guarantor.recoveredAmount || 0))));
+    const savings = await Promise.all(accepted.map((guarantor) => getMemberSavingsBalance(guarantor.userId.toString())));
+    const caps = remainingGuarantees.map((remaining, index) => Math.min(remaining, savings[index]));
+
+    const recoveredAmount = roundCurrency(Math.min(
+        outstandingPrincipal + outstandingInterest,
+        caps.reduce((sum, cap) => sum + cap, 0)
+    ));
+
+    // Spread the recovery by remaining guarantee, passing any share a guarantor
+    // cannot cover on to the others
+    const amounts = caps.map(() => 0);
+    let unallocated = recoveredAmount;
+    while (unallocated > 0) {
+        const open = caps.map((cap, index) => index).filter((index) => caps[index] - amounts[index] > 0);
+        if (open.length === 0) {
+            break;
+        }
+
+        const parts = allocateProportionally(unallocated, open.map((index) => remainingGuarantees[index]));
+        let allocated = 0;
+        open.forEach((index, position) => {
+            const take = roundCurrency(Math.min(parts[position], caps[index] - amounts[index]));
+            amounts[index] = roundCurrency(amounts[index] + take);
+            allocated += take;
+        });
+
+        if (allocated <= 0) {
+            break;
+        }
+        unallocated = roundCurrency(unallocated - allocated);
+    }
+
+    const interestAmount = roundCurrency(Math.min(outstandingInterest, recoveredAmount));
+    const principalAmount = roundCurrency(recoveredAmount - interestAmount);
+    const interestShares = allocateProportionally(interestAmount, amounts);
+
+    const shares: GuarantorRecoveryShare[] = accepted.map((guarantor, index) => {
+        const user = users.find((candidate) => candidate._id.toString() === guarantor.userId.toString());
+        return {
+            userId: guarantor.userId.toString(),
+            name: user?.name || '',
+            memberId: user?.memberId || '',
+            guaranteedAmount: guarantor.amount,
+            previouslyRecovered: guarantor.recoveredAmount || 0,
+            savings: savings[index],
+            amount: amounts[index],
+            principalAmount: roundCurrency(amounts[index] - interestShares[index]),
+            interestAmount: interestShares[index],
+        };
+    });
+
+    return {
+        loanId: loan._id.toString(),
+        recoveryDate,
+        outstandingPrincipal,
+        outstandingInterest,
+        recoveredAmount,
+        principalAmount,
+        interestAmount,
+        remainingPrincipal: roundCurrency(outstandingPrincipal - principalAmount),
+        shares,
+    };
+}
+
+/**
+ * Carry out a recovery plan in one transaction: record a repayment and a
+ * savings transfer per guarantor, book them and update the loan. Returns
+ * false if the loan changed since the plan was made.
+ */
+export async function recoverFromGuarantors(
+    loan: ILoan,
+    plan: GuaranteeRecoveryPlan,
+    recordedBy: string,
+    notes?: string
+): Promise<boolean> {
+    const recorderId = new mongoose.Types.ObjectId(recordedBy);
+    const session = await mongoose.startSession();
+    let loanChanged = false;
+
+    try {
+        await session.withTransaction(async () => {
+            const repaymentIds: mongoose.Types.ObjectId[] = [];
+            let remainingPrincipal = plan.outstandingPrincipal;
+
+            for (const share of plan.shares.filter((candidate) => candidate.amount > 0)) {
+                remainingPrincipal = roundCurrency(remainingPrincipal - share.principalAmount);
+
+                const [repayment] = await Repayment.create([{
+                    loanId: loan._id,
+                    userId: loan.userId,
+                    amount: share.amount,
+                    paymentDate: plan.recoveryDate,
+                    paymentMethod: 'guarantee_recovery',
+                    principalAmount: share.principalAmount,
+                    interestAmount: share.interestAmount,
+                    remainingBalance: remainingPrincipal,
+                    recordedBy: recorderId,
+                    notes: `Recovered from the savings of guarantor ${share.name} (${share.memberId})`,
+                }], { session });
+                repaymentIds.push(repayment._id);
+
+                const [recovery] = await GuaranteeRecovery.create([{
+                    loanId: loan._id,
+                    borrowerId: loan.userId,
+                    userId: share.userId,
+                    repaymentId: repayment._id,
+                    amount: share.amount,
+                    principalAmount: share.principalAmount,
+                    interestAmount: share.interestAmount,
+                    recoveryDate: plan.recoveryDate,
+                    recordedBy: recorderId,
+                    notes: notes?.trim() || undefined,
+                }], { session });
+                await syncGuaranteeRecoveryEntry(recovery, { session, postedBy: recordedBy });
+            }
+
+            const guarantors = (loan.guarantors || []).map((guarantor) => {
+                const share = plan.shares.find((candidate) => candidate.userId === guarantor.userId.toString());
+                return {
+                    userId: guarantor.userId,
+                    amount: guarantor.amount,
+                    status: guarantor.status,
+                    respondedDate: guarantor.respondedDate,
+                    recoveredAmount: roundCurrency((guarantor.recoveredAmount || 0) + (share?.amount || 0)),
+                };
+            });
+
+            const loanUpdate: Record<string, any> = {
+                $set: {
+                    guarantors,
+                    remainingBalance: roundCurrency(Math.max(0, (loan.remainingBalance || 0) - plan.principalAmount)),
+                },
+                $inc: { amountPaid: plan.principalAmount },
+                $push: { repayments: { $each: repaymentIds } },
+            };
+            if (plan.interestAmount >= plan.outstandingInterest) {
+                loanUpdate.$set.lastInterestPaidDate = plan.recoveryDate;
+            }
+            if (plan.remainingPrincipal <= 0) {
+                loanUpdate.$set.status = 'completed';
+                loanUpdate.$set.actualRepaymentDate = plan.recoveryDate;
+                loanUpdate.$set.remainingBalance = 0;
+            }
+
+            // Guard against a concurrent repayment or settlement on the same loan
+            const result = await Loan.updateOne(
+                { _id: loan._id, status: 'disbursed', repayments: { $size: loan.repayments.length } },
+                loanUpdate,
+                { session }
+            );
+
+            if (result.matchedCount === 0) {
+                loanChanged = true;
+                throw new Error('Loan was modified during guarantee recovery');
+            }
+        });
+    } catch (error) {
+        if (!loanChanged) {
+            throw error;
+        }
+    } finally {
+        await session.endSession();
+    }
+
+    return !loanChanged;
+}
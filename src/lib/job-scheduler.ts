@@ -0,0 +1,271 @@
+import connectToDatabase from '@/lib/mongodb';
+import ScheduledJob from '@/models/ScheduledJob';
+import JobRun from '@/models/JobRun';
+import { JOB_DEFINITIONS, JobDefinition } from '@/lib/jobs';
+import { runWithAuditContext } from '@/lib/audit';
+import { IJobRun, IScheduledJob, JobName } from '@/types';
+
+type JobSchedule = Pick<IScheduledJob, 'frequency' | 'dayOfMonth' | 'hour'>;
+
+export interface JobOverview {
+    name: JobName;
+    label: string;
+    description: string;
+    enabled: boolean;
+    frequency: IScheduledJob['frequency'];
+    dayOfMonth?: number;
+    hour: number;
+    nextRunAt?: Date;
+    lastRun?: IJobRun;
+}
+
+const TICK_INTERVAL_MS = 60 * 1000;
+const LOCK_LEASE_MS = 15 * 60 * 1000; // A run still "running" after this is assumed to have crashed
+const RETRY_DELAY_MS = 15 * 60 * 1000;
+const MAX_ATTEMPTS = 3;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Key for the period a date falls in: "YYYY-MM" for monthly jobs, "YYYY-MM-DD"
+ * for daily ones and "YYYY-MM-DDTHH" for hourly ones
+ */
+export function getPeriodKey(job: JobSchedule, date: Date): string {
+    const month = `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+    const day = `${month}-${pad(date.getDate())}`;
+
+    if (job.frequency === 'monthly') {
+        return month;
+    }
+    return job.frequency === 'daily' ? day : `${day}T${pad(date.getHours())}`;
+}
+
+/**
+ * When the job is due in the period containing the given date
+ */
+export function getScheduledTime(job: JobSchedule, date: Date): Date {
+    if (job.frequency === 'monthly') {
+        return new Date(date.getFullYear(), date.getMonth(), job.dayOfMonth || 1, job.hour);
+    }
+    if (job.frequency === 'hourly') {
+        return new Date(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours());
+    }
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate(), job.hour);
+}
+
+/**
+ * Next time the scheduler will run the job. A period whose time has passed
+ * without a successful run is due immediately.
+ */
+export function getNextRunAt(job: JobSchedule, now: Date, currentPeriodDone: boolean): Date {
+    const scheduled = getScheduledTime(job, now);
+
+    if (scheduled > now) {
+        return scheduled;
+    }
+    if (!currentPeriodDone) {
+        return now;
+    }
+
+    const nextPeriod = {
+        monthly: new Date(now.getFullYear(), now.getMonth() + 1, 1),
+        daily: new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1),
+        hourly: new Date(now.getFullYear(), now.getMonth(), now.getDate(), now.getHours() + 1),
+    }[job.frequency];
+    return getScheduledTime(job, nextPeriod);
+}
+
+/**
+ * Schedules for every job defined in code, creating missing ones with their defaults
+ */
+export async function ensureScheduledJobs(): Promise<IScheduledJob[]> {
+    const jobs = await ScheduledJob.find();
+    const existing = new Set(jobs.map((job) => job.name));
+
+    const missing = Object.values(JOB_DEFINITIONS)
+        .filter((definition) => !existing.has(definition.name))
+        .map((definition) => ({
+            name: definition.name,
+            enabled: true,
+            frequency: definition.frequency,
+            dayOfMonth: definition.defaultDayOfMonth,
+            hour: definition.defaultHour,
+        }));
+
+    if (missing.length === 0) {
+        return jobs;
+    }
+
+    // Another instance may create them first; ordered: false keeps going past duplicates
+    await ScheduledJob.insertMany(missing, { ordered: false }).catch((error) => {
+        if (error?.code !== 11000) {
+            throw error;
+        }
+    });
+
+    return ScheduledJob.find();
+}
+
+/**
+ * Take the lock for a job's period by inserting its run. A failed run is
+ * retried after a delay, and a run whose lock expired is taken over. Returns
+ * null when the period already succeeded or another run holds the lock.
+ */
+async function claimRun(
+    jobName: JobName,
+    runKey: string,
+    trigger: IJobRun['trigger'],
+    now: Date,
+    triggeredBy?: string
+): Promise<IJobRun | null> {
+    const lockedUntil = new Date(now.getTime() + LOCK_LEASE_MS);
+
+    try {
+        return await JobRun.create({ jobName, runKey, trigger, status: 'running', startedAt: now, lockedUntil, triggeredBy });
+    } catch (error: any) {
+        if (error?.code !== 11000) {
+            throw error;
+        }
+    }
+
+    return JobRun.findOneAndUpdate(
+        {
+            jobName,
+            runKey,
+            $or: [
+                { status: 'failed', attempts: { $lt: MAX_ATTEMPTS }, finishedAt: { $lte: new Date(now.getTime() - RETRY_DELAY_MS) } },
+                { status: 'running', lockedUntil: { $lt: now } },
+            ],
+        },
+        {
+            $set: { status: 'running', startedAt: now, lockedUntil },
+            $unset: { finishedAt: 1, error: 1, result: 1 },
+            $inc: { attempts: 1 },
+        },
+        { new: true }
+    );
+}
+
+/**
+ * Run a claimed job and record how it went
+ */
+async function executeRun(definition: JobDefinition, run: IJobRun, asOfDate: Date): Promise<IJobRun> {
+    try {
+        const result = await definition.run(asOfDate);
+
+        run.status = 'succeeded';
+        run.result = result;
+    } catch (error) {
+        console.error(`Job ${definition.name} failed:`, error);
+        run.status = 'failed';
+        run.error = (error instanceof Error ? error.message : String(error)).slice(0, 2000);
+    }
+
+    run.finishedAt = new Date();
+    run.lockedUntil = undefined;
+    return run.save();
+}
+
+/**
+ * Run every enabled job whose time has come in the current period and has not
+ * yet succeeded. Safe to call from several instances at once.
+ */
+export async function runDueJobs(now: Date = new Date()): Promise<IJobRun[]> {
+    const jobs = await ensureScheduledJobs();
+    const runs: IJobRun[] = [];
+
+    for (const job of jobs) {
+        if (!job.enabled || now < getScheduledTime(job, now)) {
+            continue;
+        }
+
+        const run = await claimRun(job.name, getPeriodKey(job, now), 'schedule', now);
+        if (!run) {
+            continue;
+        }
+
+        // Changes made by scheduled runs are logged against the job rather than a user
+        const finished = await runWithAuditContext({ route: `job:${job.name}`, method: 'JOB' }, () =>
+            executeRun(JOB_DEFINITIONS[job.name], run, now)
+        );
+        runs.push(finished);
+    }
+
+    return runs;
+}
+
+/**
+ * Run a job immediately on an admin's request, whatever its schedule. Jobs
+ * are idempotent, so this never duplicates rows a scheduled run created.
+ */
+export async function runJobNow(jobName: JobName, triggeredBy: string): Promise<IJobRun> {
+    const now = new Date();
+    const run = await claimRun(jobName, `manual-${now.toISOString()}`, 'manual', now, triggeredBy);
+
+    if (!run) {
+        throw new Error(`Could not start ${jobName}`);
+    }
+
+    return executeRun(JOB_DEFINITIONS[jobName], run, now);
+}
+
+/**
+ * Each job's schedule with its latest run and next run time
+ */
+export async function getJobOverview(now: Date = new Date()): Promise<JobOverview[]> {
+    const jobs = await ensureScheduledJobs();
+
+    return Promise.all(jobs.map(async (job) => {
+        const definition = JOB_DEFINITIONS[job.name];
+        const [lastRun, currentPeriodDone] = await Promise.all([
+            JobRun.findOne({ jobName: job.name }).sort({ startedAt: -1 }).lean(),
+            JobRun.exists({ jobName: job.name, runKey: getPeriodKey(job, now), status: 'succeeded' }),
+        ]);
+
+        return {
+            name: job.name,
+            label: definition.label,
+            description: definition.description,
+            enabled: job.enabled,
+            frequency: job.frequency,
+            dayOfMonth: job.dayOfMonth,
+            hour: job.hour,
+            nextRunAt: job.enabled ? getNextRunAt(job, now, !!currentPeriodDone) : undefined,
+            lastRun: lastRun || undefined,
+        };
+    }));
+}
+
+const schedulerState = global as typeof globalThis & { jobSchedulerTimer?: NodeJS.Timeout };
+
+/**
+ * Check for due jobs every minute in this server process. Called once at
+ * startup; hot reloads reuse the running timer.
+ */
+export function startJobScheduler() {
+    if (schedulerState.jobSchedulerTimer) {
+        return;
+    }
+
+    let ticking = false;
+
+    schedulerState.jobSchedulerTimer = setInterval(async () => {
+        // A slow job must not overlap the next tick
+        if (ticking) {
+            return;
+        }
+
+        ticking = true;
+        try {
+            await connectToDatabase();
+            await runDueJobs();
+        } catch (error) {
+            console.error('Job scheduler tick failed:', error);
+        } finally {
+            ticking = false;
+        }
+    }, TICK_INTERVAL_MS);
+
+    // Do not keep the process alive just for the scheduler
+    schedulerState.jobSchedulerTimer.unref();
+}
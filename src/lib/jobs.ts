@@ -0,0 +1,137 @@
+import Contribution from '@/models/Contribution';
+import Loan from '@/models/Loan';
+import LoanInterestSnapshot from '@/models/LoanInterestSnapshot';
+import { assessLatePenalties } from '@/lib/penalties';
+import { calculateDynamicLoanAmounts } from '@/lib/loan-calculations';
+import { toMonthString } from '@/lib/contribution-amounts';
+import { retryFailedNotifications, sendContributionReminders } from '@/lib/notifications';
+import { ILoan, JobFrequency, JobName } from '@/types';
+
+export interface JobDefinition {
+    name: JobName;
+    label: string;
+    description: string;
+    frequency: JobFrequency;
+    defaultDayOfMonth?: number;
+    defaultHour: number;
+    // Every job must be safe to run again for the same period
+    run(asOfDate: Date): Promise<Record<string, unknown>>;
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Create the month's pending contribution rows for every active member
+ */
+async function generateMonthlyContributions(asOfDate: Date) {
+    const year = asOfDate.getFullYear();
+    const month = asOfDate.getMonth() + 1;
+    const created = await Contribution.createMonthlyContributions(year, month);
+
+    return { month: toMonthString(asOfDate), contributionsCreated: created.length };
+}
+
+/**
+ * Mark late contributions overdue and charge late fees
+ */
+async function markOverdueContributions(asOfDate: Date) {
+    const result = await assessLatePenalties(asOfDate);
+
+    return {
+        contributionsMarkedOverdue: result.contributionsMarkedOverdue,
+        penaltiesCreated: result.contributionPenaltiesCreated + result.loanPenaltiesCreated,
+        totalAssessed: result.totalAssessed,
+    };
+}
+
+/**
+ * Record each open loan's interest and balance as at the end of the previous month
+ */
+async function snapshotLoanInterest(asOfDate: Date) {
+    const monthEnd = new Date(asOfDate.getFullYear(), asOfDate.getMonth(), 0, 23, 59, 59, 999);
+    const month = toMonthString(monthEnd);
+
+    const loans = await Loan.find({
+        status: { $in: ['approved', 'disbursed'] },
+        approvalDate: { $lte: monthEnd },
+    })
+        .populate('repayments')
+        .lean();
+
+    let totalInterest = 0;
+
+    for (const loan of loans) {
+        // Only repayments made by the month end count towards that month's position
+        const repayments = ((loan.repayments || []) as unknown as { paymentDate: Date; amount: number }[])
+            .filter((repayment) => new Date(repayment.paymentDate) <= monthEnd);
+        const amountPaid = repayments.reduce((sum, repayment) => sum + repayment.amount, 0);
+        const calculation = calculateDynamicLoanAmounts(
+            { ...loan, repayments, amountPaid } as unknown as ILoan,
+            monthEnd
+        );
+
+        await LoanInterestSnapshot.updateOne(
+            { loanId: loan._id, month },
+            {
+                $set: {
+                    userId: loan.userId,
+                    asOfDate: monthEnd,
+                    principal: loan.approvedAmount || loan.requestedAmount,
+                    amountPaid: roundCurrency(amountPaid),
+                    totalInterest: roundCurrency(calculation.totalInterest),
+                    remainingBalance: roundCurrency(calculation.remainingBalance),
+                },
+            },
+            { upsert: true }
+        );
+
+        totalInterest += calculation.totalInterest;
+    }
+
+    return { month, loansSnapshotted: loans.length, totalInterest: roundCurrency(totalInterest) };
+}
+
+export const JOB_DEFINITIONS: Record<JobName, JobDefinition> = {
+    'generate-monthly-contributions': {
+        name: 'generate-monthly-contributions',
+        label: 'Generate monthly contributions',
+        description: 'Creates pending contributions for every active member at the scheduled amount',
+        frequency: 'monthly',
+        defaultDayOfMonth: 1,
+        defaultHour: 6,
+        run: generateMonthlyContributions,
+    },
+    'mark-overdue-contributions': {
+        name: 'mark-overdue-contributions',
+        label: 'Mark overdue contributions',
+        description: 'Marks unpaid contributions past their due day as overdue and charges late penalties',
+        frequency: 'daily',
+        defaultHour: 1,
+        run: markOverdueContributions,
+    },
+    'snapshot-loan-interest': {
+        name: 'snapshot-loan-interest',
+        label: 'Snapshot loan interest',
+        description: 'Records the interest and balance of every open loan at the end of the previous month',
+        frequency: 'monthly',
+        defaultDayOfMonth: 1,
+        defaultHour: 2,
+        run: snapshotLoanInterest,
+    },
+    'send-contribution-reminders': {
+        name: 'send-contribution-reminders',
+        label: 'Send contribution reminders',
+        description: 'Reminds members by email and SMS of unpaid contributions falling due in the next few days',
+        frequency: 'daily',
+        defaultHour: 8,
+        run: sendContributionReminders,
+    },
+    'retry-notifications': {
+        name: 'retry-notifications',
+        label: 'Retry failed notifications',
+        description: 'Sends again any email or SMS that failed and is due for another attempt',
+        frequency: 'hourly',
+        defaultHour: 0,
+        run: async (asOfDate) => ({ ...(await retryFailedNotifications(asOfDate)) }),
+    },
+};
@@ -0,0 +1,530 @@
+import mongoose, { ClientSession, Types } from 'mongoose';
+import JournalEntry from '@/models/JournalEntry';
+import Contribution from '@/models/Contribution';
+import Loan from '@/models/Loan';
+import Repayment from '@/models/Repayment';
+import Penalty from '@/models/Penalty';
+import HistoricalInterest from '@/models/HistoricalInterest';
+import Dividend from '@/models/Dividend';
+import DividendDistribution from '@/models/DividendDistribution';
+import MemberWithdrawal from '@/models/MemberWithdrawal';
+import GuaranteeRecovery from '@/models/GuaranteeRecovery';
+import {
+    IContribution,
+    IDividendDistribution,
+    IGuaranteeRecovery,
+    IHistoricalInterest,
+    IJournalEntry,
+    IJournalLine,
+    ILoan,
+    IMemberWithdrawal,
+    IPenalty,
+    IRepayment,
+    JournalSourceType,
+    LedgerAccountCode,
+    LedgerAccountType,
+} from '@/types';
+
+/**
+ * Chart of accounts, in reporting order
+ */
+export const LEDGER_ACCOUNTS: Record<LedgerAccountCode, { number: string; name: string; type: LedgerAccountType }> = {
+    CASH: { number: '1000', name: 'Cash', type: 'asset' },
+    LOANS_RECEIVABLE: { number: '1100', name: 'Loans Receivable', type: 'asset' },
+    MEMBER_SAVINGS: { number: '2000', name: 'Member Savings', type: 'liability' },
+    DIVIDENDS_PAYABLE: { number: '2100', name: 'Dividends Payable', type: 'liability' },
+    RETAINED_EARNINGS: { number: '3000', name: 'Retained Earnings', type: 'equity' },
+    INTEREST_INCOME: { number: '4000', name: 'Interest Income', type: 'income' },
+    PENALTY_INCOME: { number: '4100', name: 'Penalty Income', type: 'income' },
+};
+
+export interface LedgerOptions {
+    session?: ClientSession;
+    postedBy?: string;
+}
+
+export type LedgerSyncResult = 'posted' | 'reposted' | 'reversed' | 'unchanged' | 'skipped';
+
+interface JournalDraft {
+    entryDate: Date;
+    description: string;
+    sourceType: JournalSourceType;
+    sourceId: Types.ObjectId;
+    userId?: Types.ObjectId;
+    loanId?: Types.ObjectId;
+    lines: IJournalLine[];
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+const debit = (account: LedgerAccountCode, amount: number, userId?: Types.ObjectId): IJournalLine =>
+    ({ account, debit: roundCurrency(amount), credit: 0, userId });
+
+const credit = (account: LedgerAccountCode, amount: number, userId?: Types.ObjectId): IJournalLine =>
+    ({ account, debit: 0, credit: roundCurrency(amount), userId });
+
+const withoutZeroLines = (lines: IJournalLine[]) => lines.filter((line) => line.debit > 0 || line.credit > 0);
+
+/**
+ * Savings received: cash in, owed back to the member
+ */
+function buildContributionEntry(contribution: IContribution): JournalDraft | null {
+    if (contribution.paidStatus !== 'paid' || contribution.amount <= 0) {
+        return null;
+    }
+
+    return {
+        entryDate: new Date(contribution.paidDate || contribution.createdAt || `${contribution.month}-01`),
+        description: `Contribution for ${contribution.month}`,
+        sourceType: 'contribution',
+        sourceId: contribution._id,
+        userId: contribution.userId,
+        lines: [
+            debit('CASH', contribution.amount),
+            credit('MEMBER_SAVINGS', contribution.amount, contribution.userId),
+        ],
+    };
+}
+
+/**
+ * Loan paid out: cash becomes a receivable. Only disbursed loans have left the till.
+ */
+function buildLoanDisbursementEntry(loan: ILoan): JournalDraft | null {
+    const principal = loan.approvedAmount || loan.requestedAmount;
+    if (!['disbursed', 'completed'].includes(loan.status) || !principal) {
+        return null;
+    }
+
+    return {
+        entryDate: new Date(loan.disbursementDate || loan.approvalDate || loan.requestDate),
+        description: 'Loan disbursement',
+        sourceType: 'loan_disbursement',
+        sourceId: loan._id,
+        userId: loan.userId,
+        loanId: loan._id,
+        lines: [
+            debit('LOANS_RECEIVABLE', principal),
+            credit('CASH', principal),
+        ],
+    };
+}
+
+/**
+ * Repayment received: principal reduces the receivable, interest is income.
+ * Recoveries from guarantors are booked against their savings instead.
+ */
+function buildRepaymentEntry(repayment: IRepayment): JournalDraft | null {
+    const principal = repayment.principalAmount || 0;
+    const interest = repayment.interestAmount || 0;
+    if (principal + interest <= 0 || repayment.paymentMethod === 'guarantee_recovery') {
+        return null;
+    }
+
+    return {
+        entryDate: new Date(repayment.paymentDate),
+        description: repayment.paymentMethod === 'settlement' ? 'Loan settlement' : 'Loan repayment',
+        sourceType: 'repayment',
+        sourceId: repayment._id,
+        userId: repayment.userId,
+        loanId: repayment.loanId,
+        lines: withoutZeroLines([
+            debit('CASH', principal + interest),
+            credit('LOANS_RECEIVABLE', principal),
+            credit('INTEREST_INCOME', interest),
+        ]),
+    };
+}
+
+/**
+ * Penalty collected. Outstanding and waived penalties never reach the books.
+ */
+function buildPenaltyEntry(penalty: IPenalty): JournalDraft | null {
+    if (penalty.status !== 'paid' || penalty.amount <= 0) {
+        return null;
+    }
+
+    return {
+        entryDate: new Date(penalty.paidDate || penalty.assessedDate),
+        description: penalty.reason,
+        sourceType: 'penalty',
+        sourceId: penalty._id,
+        userId: penalty.userId,
+        loanId: penalty.loanId,
+        lines: [
+            debit('CASH', penalty.amount),
+            credit('PENALTY_INCOME', penalty.amount),
+        ],
+    };
+}
+
+/**
+ * Interest recorded by hand before the loan system existed
+ */
+function buildHistoricalInterestEntry(record: IHistoricalInterest): JournalDraft | null {
+    if (record.amount <= 0) {
+        return null;
+    }
+
+    const incomeAccount = ['penalty', 'late_fee'].includes(record.source) ? 'PENALTY_INCOME' : 'INTEREST_INCOME';
+
+    return {
+        entryDate: new Date(record.interestDate),
+        description: record.description,
+        sourceType: 'historical_interest',
+        sourceId: record._id,
+        userId: record.userId,
+        loanId: record.loanId,
+        lines: [
+            debit('CASH', record.amount),
+            credit(incomeAccount, record.amount),
+        ],
+    };
+}
+
+/**
+ * Dividends declared: earnings become a per-member payable
+ */
+function buildDividendDistributionEntry(
+    distribution: IDividendDistribution,
+    dividends: { userId: Types.ObjectId; amount: number }[]
+): JournalDraft | null {
+    const credits = dividends.filter((dividend) => dividend.amount > 0);
+    const total = credits.reduce((sum, dividend) => sum + dividend.amount, 0);
+    if (total <= 0) {
+        return null;
+    }
+
+    return {
+        entryDate: new Date(distribution.postedDate),
+        description: `Dividends for ${distribution.year}`,
+        sourceType: 'dividend_distribution',
+        sourceId: distribution._id,
+        lines: [
+            debit('RETAINED_EARNINGS', total),
+            ...credits.map((dividend) => credit('DIVIDENDS_PAYABLE', dividend.amount, dividend.userId)),
+        ],
+    };
+}
+
+/**
+ * Member exit paid out. Any loan offset is booked separately as a settlement repayment.
+ */
+function buildWithdrawalEntry(withdrawal: IMemberWithdrawal): JournalDraft | null {
+    if (withdrawal.status !== 'approved' || withdrawal.grossEntitlement <= 0) {
+        return null;
+    }
+
+    return {
+        entryDate: new Date(withdrawal.exitDate),
+        description: 'Member exit payout',
+        sourceType: 'member_withdrawal',
+        sourceId: withdrawal._id,
+        userId: withdrawal.userId,
+        loanId: withdrawal.loanId,
+        lines: withoutZeroLines([
+            debit('MEMBER_SAVINGS', withdrawal.totalContributions, withdrawal.userId),
+            debit('DIVIDENDS_PAYABLE', withdrawal.dividendsCredited, withdrawal.userId),
+            debit('RETAINED_EARNINGS', withdrawal.interestShare),
+            credit('CASH', withdrawal.grossEntitlement),
+        ]),
+    };
+}
+
+/**
+ * Defaulted loan paid from a guarantor's savings: no cash moves, the member's
+ * savings balance goes down instead
+ */
+function buildGuaranteeRecoveryEntry(recovery: IGuaranteeRecovery): JournalDraft | null {
+    if (recovery.amount <= 0) {
+        return null;
+    }
+
+    return {
+        entryDate: new Date(recovery.recoveryDate),
+        description: 'Loan recovered from guarantor savings',
+        sourceType: 'guarantee_recovery',
+        sourceId: recovery._id,
+        userId: recovery.userId,
+        loanId: recovery.loanId,
+        lines: withoutZeroLines([
+            debit('MEMBER_SAVINGS', recovery.amount, recovery.userId),
+            credit('LOANS_RECEIVABLE', recovery.principalAmount),
+            credit('INTEREST_INCOME', recovery.interestAmount),
+        ]),
+    };
+}
+
+function isSameEntry(entry: IJournalEntry, draft: JournalDraft): boolean {
+    if (new Date(entry.entryDate).getTime() !== draft.entryDate.getTime()) {
+        return false;
+    }
+    if (entry.description !== draft.description || entry.lines.length !== draft.lines.length) {
+        return false;
+    }
+    return entry.lines.every((line, index) => {
+        const other = draft.lines[index];
+        return line.account === other.account
+            && line.debit === other.debit
+            && line.credit === other.credit
+            && String(line.userId || '') === String(other.userId || '');
+    });
+}
+
+/**
+ * Cancel a posted entry with an equal and opposite one dated today, so closed
+ * periods keep the figures they were reported with
+ */
+async function reverseEntry(entry: IJournalEntry, options: LedgerOptions) {
+    const { session, postedBy } = options;
+
+    await JournalEntry.updateOne({ _id: entry._id }, { $set: { status: 'reversed' } }, { session });
+    await JournalEntry.create([{
+        entryDate: new Date(),
+        description: `Reversal: ${entry.description}`.slice(0, 300),
+        sourceType: entry.sourceType,
+        sourceId: entry.sourceId,
+        userId: entry.userId,
+        loanId: entry.loanId,
+        lines: entry.lines.map((line) => ({
+            account: line.account,
+            debit: line.credit,
+            credit: line.debit,
+            userId: line.userId,
+        })),
+        status: 'reversal',
+        reversalOf: entry._id,
+        postedBy: postedBy ? new mongoose.Types.ObjectId(postedBy) : undefined,
+    }], { session });
+}
+
+/**
+ * Bring the ledger in line with a source document. Posting is idempotent: an
+ * unchanged document is left alone, a changed one is reversed and reposted,
+ * and a null draft reverses whatever was posted for the source.
+ */
+async function syncEntry(
+    sourceType: JournalSourceType,
+    sourceId: Types.ObjectId | string,
+    draft: JournalDraft | null,
+    options: LedgerOptions = {}
+): Promise<LedgerSyncResult> {
+    const { session, postedBy } = options;
+    const active = await JournalEntry.findOne({ sourceType, sourceId, status: 'posted' }).session(session || null);
+
+    if (active && draft && isSameEntry(active, draft)) {
+        return 'unchanged';
+    }
+    if (active) {
+        await reverseEntry(active, options);
+    }
+    if (!draft) {
+        return active ? 'reversed' : 'skipped';
+    }
+
+    await JournalEntry.create([{
+        ...draft,
+        status: 'posted',
+        postedBy: postedBy ? new mongoose.Types.ObjectId(postedBy) : undefined,
+    }], { session });
+
+    return active ? 'reposted' : 'posted';
+}
+
+export const syncContributionEntry = (contribution: IContribution, options?: LedgerOptions) =>
+    syncEntry('contribution', contribution._id, buildContributionEntry(contribution), options);
+
+export const syncLoanDisbursementEntry = (loan: ILoan, options?: LedgerOptions) =>
+    syncEntry('loan_disbursement', loan._id, buildLoanDisbursementEntry(loan), options);
+
+export const syncRepaymentEntry = (repayment: IRepayment, options?: LedgerOptions) =>
+    syncEntry('repayment', repayment._id, buildRepaymentEntry(repayment), options);
+
+export const syncPenaltyEntry = (penalty: IPenalty, options?: LedgerOptions) =>
+    syncEntry('penalty', penalty._id, buildPenaltyEntry(penalty), options);
+
+export const syncHistoricalInterestEntry = (record: IHistoricalInterest, options?: LedgerOptions) =>
+    syncEntry('historical_interest', record._id, buildHistoricalInterestEntry(record), options);
+
+export const syncWithdrawalEntry = (withdrawal: IMemberWithdrawal, options?: LedgerOptions) =>
+    syncEntry('member_withdrawal', withdrawal._id, buildWithdrawalEntry(withdrawal), options);
+
+export const syncGuaranteeRecoveryEntry = (recovery: IGuaranteeRecovery, options?: LedgerOptions) =>
+    syncEntry('guarantee_recovery', recovery._id, buildGuaranteeRecoveryEntry(recovery), options);
+
+export async function syncDividendDistributionEntry(distribution: IDividendDistribution, options: LedgerOptions = {}) {
+    const dividends = await Dividend.find({ distributionId: distribution._id })
+        .session(options.session || null)
+        .lean();
+    return syncEntry(
+        'dividend_distribution',
+        distribution._id,
+        buildDividendDistributionEntry(distribution, dividends),
+        options
+    );
+}
+
+/**
+ * Reverse the live entry for a source document that has been deleted
+ */
+export const reverseSourceEntry = (sourceType: JournalSourceType, sourceId: Types.ObjectId | string, options?: LedgerOptions) =>
+    syncEntry(sourceType, sourceId, null, options);
+
+/**
+ * Debit and credit totals per account for entries dated on or before asOfDate
+ */
+export async function getTrialBalance(asOfDate: Date = new Date()) {
+    const totals = await JournalEntry.aggregate([
+        { $match: { entryDate: { $lte: asOfDate } } },
+        { $unwind: '$lines' },
+        {
+            $group: {
+                _id: '$lines.account',
+                debit: { $sum: '$lines.debit' },
+                credit: { $sum: '$lines.credit' },
+            },
+        },
+    ]);
+
+    const accounts = (Object.keys(LEDGER_ACCOUNTS) as LedgerAccountCode[]).map((code) => {
+        const account = LEDGER_ACCOUNTS[code];
+        const total = totals.find((row) => row._id === code);
+        const debitTotal = roundCurrency(total?.debit || 0);
+        const creditTotal = roundCurrency(total?.credit || 0);
+        // Assets carry debit balances, everything else credit balances
+        const balance = account.type === 'asset'
+            ? roundCurrency(debitTotal - creditTotal)
+            : roundCurrency(creditTotal - debitTotal);
+
+        return { code, ...account, debit: debitTotal, credit: creditTotal, balance };
+    });
+
+    const totalDebit = roundCurrency(accounts.reduce((sum, account) => sum + account.debit, 0));
+    const totalCredit = roundCurrency(accounts.reduce((sum, account) => sum + account.credit, 0));
+
+    return {
+        asOfDate,
+        accounts,
+        totalDebit,
+        totalCredit,
+        isBalanced: Math.abs(totalDebit - totalCredit) < 0.01,
+    };
+}
+
+/**
+ * Assets against member liabilities and the group's own equity. Income not yet
+ * distributed is shown as current earnings within equity.
+ */
+export async function getBalanceSheet(asOfDate: Date = new Date()) {
+    const { accounts } = await getTrialBalance(asOfDate);
+    const balanceOf = (code: LedgerAccountCode) => accounts.find((account) => account.code === code)!.balance;
+
+    const assets = accounts
+        .filter((account) => account.type === 'asset')
+        .map(({ code, number, name, balance }) => ({ code, number, name, balance }));
+    const liabilities = accounts
+        .filter((account) => account.type === 'liability')
+        .map(({ code, number, name, balance }) => ({ code, number, name, balance }));
+
+    const currentEarnings = roundCurrency(balanceOf('INTEREST_INCOME') + balanceOf('PENALTY_INCOME'));
+    const equity = [
+        { code: 'RETAINED_EARNINGS', number: LEDGER_ACCOUNTS.RETAINED_EARNINGS.number, name: 'Retained Earnings', balance: balanceOf('RETAINED_EARNINGS') },
+        { code: 'CURRENT_EARNINGS', number: '', name: 'Current Earnings', balance: currentEarnings },
+    ];
+
+    const totalAssets = roundCurrency(assets.reduce((sum, account) => sum + account.balance, 0));
+    const totalLiabilities = roundCurrency(liabilities.reduce((sum, account) => sum + account.balance, 0));
+    const totalEquity = roundCurrency(equity.reduce((sum, account) => sum + account.balance, 0));
+
+    return {
+        asOfDate,
+        assets,
+        liabilities,
+        equity,
+        totalAssets,
+        totalLiabilities,
+        totalEquity,
+        isBalanced: Math.abs(totalAssets - (totalLiabilities + totalEquity)) < 0.01,
+    };
+}
+
+/**
+ * Loans whose stored remaining balance no longer matches the receivable the
+ * ledger holds for them
+ */
+export async function getLoanReceivableDiscrepancies() {
+    const [loans, receivables] = await Promise.all([
+        Loan.find({ status: { $in: ['disbursed', 'completed'] } })
+            .select('userId remainingBalance status')
+            .populate('userId', 'name memberId')
+            .lean(),
+        JournalEntry.aggregate([
+            { $match: { loanId: { $ne: null } } },
+            { $unwind: '$lines' },
+            { $match: { 'lines.account': 'LOANS_RECEIVABLE' } },
+            {
+                $group: {
+                    _id: '$loanId',
+                    balance: { $sum: { $subtract: ['$lines.debit', '$lines.credit'] } },
+                },
+            },
+        ]),
+    ]);
+
+    const ledgerBalances = new Map(receivables.map((row) => [row._id.toString(), roundCurrency(row.balance)]));
+
+    return loans
+        .map((loan) => {
+            const user = loan.userId as any;
+            const ledgerBalance = ledgerBalances.get(loan._id.toString()) || 0;
+            return {
+                loanId: loan._id.toString(),
+                member: user ? `${user.name} (${user.memberId})` : '',
+                status: loan.status,
+                remainingBalance: roundCurrency(loan.remainingBalance || 0),
+                ledgerBalance,
+                difference: roundCurrency((loan.remainingBalance || 0) - ledgerBalance),
+            };
+        })
+        .filter((loan) => Math.abs(loan.difference) >= 0.01);
+}
+
+/**
+ * Build or repair the ledger from existing documents. Safe to run repeatedly:
+ * documents whose entries are already current are skipped.
+ */
+export async function backfillLedger(postedBy?: string) {
+    const options: LedgerOptions = { postedBy };
+    const results: Record<string, Record<LedgerSyncResult, number>> = {};
+
+    const record = (source: string, result: LedgerSyncResult) => {
+        results[source] = results[source] || { posted: 0, reposted: 0, reversed: 0, unchanged: 0, skipped: 0 };
+        results[source][result]++;
+    };
+
+    for await (const contribution of Contribution.find({ paidStatus: 'paid' }).cursor()) {
+        record('contributions', await syncContributionEntry(contribution, options));
+    }
+    for await (const loan of Loan.find({ status: { $in: ['disbursed', 'completed'] } }).cursor()) {
+        record('loanDisbursements', await syncLoanDisbursementEntry(loan, options));
+    }
+    for await (const repayment of Repayment.find().cursor()) {
+        record('repayments', await syncRepaymentEntry(repayment, options));
+    }
+    for await (const penalty of Penalty.find({ status: 'paid' }).cursor()) {
+        record('penalties', await syncPenaltyEntry(penalty, options));
+    }
+    for await (const interest of HistoricalInterest.find().cursor()) {
+        record('historicalInterest', await syncHistoricalInterestEntry(interest, options));
+    }
+    for await (const distribution of DividendDistribution.find().cursor()) {
+        record('dividendDistributions', await syncDividendDistributionEntry(distribution, options));
+    }
+    for await (const withdrawal of MemberWithdrawal.find({ status: 'approved' }).cursor()) {
+        record('memberWithdrawals', await syncWithdrawalEntry(withdrawal, options));
+    }
+    for await (const recovery of GuaranteeRecovery.find().cursor()) {
+        record('guaranteeRecoveries', await syncGuaranteeRecoveryEntry(recovery, options));
+    }
+
+    return results;
+}
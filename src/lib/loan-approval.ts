@@ -0,0 +1,80 @@
+import { Types } from 'mongoose';
+import { COMMUNITY_CONFIG } from '@/config/community';
+import { ILoan, LoanApprovalAction } from '@/types';
+
+// Status a loan moves to once the action takes effect, and the status it must be in beforehand
+export const LOAN_ACTION_STATUS = {
+    approve: { from: 'pending', to: 'approved' },
+    disburse: { from: 'approved', to: 'disbursed' },
+} as const;
+
+/**
+ * Whether a transition must be confirmed by a second, different admin before it takes effect
+ */
+export function requiresSecondApproval(action: LoanApprovalAction, amount: number): boolean {
+    const { ENABLED, APPROVAL_THRESHOLD, ALL_DISBURSEMENTS } = COMMUNITY_CONFIG.DUAL_CONTROL;
+
+    if (!ENABLED) {
+        return false;
+    }
+    if (action === 'disburse' && ALL_DISBURSEMENTS) {
+        return true;
+    }
+    return amount > APPROVAL_THRESHOLD;
+}
+
+/**
+ * Add a sign-off to the loan's approval history. Single-signer transitions have no confirmer.
+ */
+export function recordSignoff(
+    loan: ILoan,
+    action: LoanApprovalAction,
+    requestedBy: Types.ObjectId,
+    requestedDate: Date,
+    confirmedBy?: Types.ObjectId
+) {
+    loan.approvalHistory = [
+        ...(loan.approvalHistory || []),
+        {
+            action,
+            requestedBy,
+            requestedDate,
+            confirmedBy,
+            confirmedDate: confirmedBy ? new Date() : undefined,
+        },
+    ];
+}
+
+/**
+ * Carry out a confirmed pending action on the loan document. The caller claims the
+ * pending action in the database first and then saves the loan.
+ */
+export function applyPendingAction(loan: ILoan, confirmedBy: Types.ObjectId) {
+    const pending = loan.pendingAction;
+    if (!pending) {
+        return;
+    }
+
+    if (pending.approvedAmount !== undefined) {
+        loan.approvedAmount = pending.approvedAmount;
+    }
+    if (pending.interestRate !== undefined) {
+        loan.interestRate = pending.interestRate;
+    }
+    if (pending.repaymentPlan) {
+        loan.repaymentPlan = {
+            termMonths: pending.repaymentPlan.termMonths,
+            frequency: pending.repaymentPlan.frequency,
+            method: pending.repaymentPlan.method,
+        };
+    }
+    if (pending.disbursementDate) {
+        loan.disbursementDate = pending.disbursementDate;
+    }
+
+    loan.status = LOAN_ACTION_STATUS[pending.action].to;
+    // The proposing admin stays the approver of record; the confirmer is kept in the history
+    loan.approvedBy = pending.requestedBy;
+    recordSignoff(loan, pending.action, pending.requestedBy, pending.requestedDate, confirmedBy);
+    loan.pendingAction = undefined;
+}
@@ -1,5 +1,7 @@
 import { ILoan } from '@/types';
 
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
 export interface DynamicLoanCalculation {
     totalAmountDue: number;
     remainingBalance: number;
@@ -7,6 +9,30 @@ export interface DynamicLoanCalculation {
     monthsElapsed: number;
 }
 
+/**
+ * Get repayment documents from a loan whose repayments have been populated
+ */
+function getPopulatedRepayments(loan: ILoan): (AccrualRepayment & { amount: number })[] {
+    const repayments = (loan.repayments || []) as unknown[];
+    return repayments.filter(
+        (repayment): repayment is AccrualRepayment & { amount: number } =>
+            !!repayment && typeof (repayment as { amount?: unknown }).amount === 'number'
+    );
+}
+
+/**
+ * Sum principal and interest paid, using populated repayments when available
+ */
+function sumRepaymentAmounts(loan: ILoan): number {
+    const populated = getPopulatedRepayments(loan);
+
+    if (populated.length === 0) {
+        return loan.amountPaid || 0;
+    }
+
+    return populated.reduce((sum, repayment) => sum + repayment.amount, 0);
+}
+
 /**
  * Calculate dynamic loan amounts based on current date
  */
@@ -26,28 +52,30 @@ export function calculateDynamicLoanAmounts(loan: ILoan, currentDate?: Date): Dy
     const principal = loan.approvedAmount;
     const approvalDate = new Date(loan.approvalDate);
 
-    // Calculate months elapsed since approval
-    const yearsDiff = now.getFullYear() - approvalDate.getFullYear();
-    const monthsDiff = now.getMonth() - approvalDate.getMonth();
-    const daysDiff = now.getDate() - approvalDate.getDate();
+    // Loans on an installment plan owe the interest fixed by their schedule
+    if (loan.schedule && loan.schedule.length > 0) {
+        const totalInterest = loan.schedule.reduce((sum, installment) => sum + installment.interestAmount, 0);
+        const totalAmountDue = principal + totalInterest;
+        const totalPaid = sumRepaymentAmounts(loan);
 
-    // Total months elapsed (including partial months)
-    let totalMonths = yearsDiff * 12 + monthsDiff;
-    if (daysDiff > 0) {
-        totalMonths += daysDiff / 30; // Add partial month
+        return {
+            totalAmountDue,
+            remainingBalance: Math.max(0, totalAmountDue - totalPaid),
+            totalInterest,
+            monthsElapsed: Math.max(0, (now.getTime() - approvalDate.getTime()) / (1000 * 3600 * 24 * 30.44))
+        };
     }
-    totalMonths = Math.max(0, totalMonths); // Ensure non-negative
 
-    // Simple interest calculation based on actual time elapsed
-    const totalInterest = principal * (loan.interestRate / 100) * (totalMonths / 12);
-    const totalAmountDue = principal + totalInterest;
-    const remainingBalance = totalAmountDue - (loan.amountPaid || 0);
+    // Interest accrues on the outstanding principal between repayments
+    const accrual = calculateLoanInterestAccrual(loan, getPopulatedRepayments(loan), now);
+    const totalAmountDue = principal + accrual.totalInterestAccrued;
+    const remainingBalance = accrual.outstandingPrincipal + accrual.accruedUnpaidInterest;
 
     return {
         totalAmountDue,
         remainingBalance: Math.max(0, remainingBalance),
-        totalInterest,
-        monthsElapsed: totalMonths
+        totalInterest: accrual.totalInterestAccrued,
+        monthsElapsed: Math.max(0, (now.getTime() - approvalDate.getTime()) / (1000 * 3600 * 24 * 30.44))
     };
 }
 
@@ -96,43 +124,136 @@ export function calculateInterestBetweenDates(
     };
 }
 
-/**
- * Calculate interest from last payment date to settlement date
- */
-export function calculateProratedInterest(
-    loan: ILoan,
-    settlementDate: Date,
-    lastInterestPaymentDate?: Date
-): {
+export interface AccrualRepayment {
+    paymentDate: Date | string;
+    principalAmount: number;
     interestAmount: number;
+}
+
+export interface AccrualSegment {
     fromDate: Date;
     toDate: Date;
-    monthsElapsed: number;
+    principal: number;
     daysElapsed: number;
-} {
-    const principal = loan.approvedAmount || loan.requestedAmount;
-    const approvalDate = new Date(loan.approvalDate || loan.requestDate);
+    interestAmount: number;
+}
 
-    // Determine the starting date for interest calculation
-    let fromDate = approvalDate;
+export interface LoanInterestAccrual {
+    asOfDate: Date;
+    startDate: Date;
+    originalPrincipal: number;
+    principalPaid: number;
+    outstandingPrincipal: number;
+    totalInterestAccrued: number;
+    interestPaid: number;
+    accruedUnpaidInterest: number;
+    lastInterestPaymentDate?: Date;
+    segments: AccrualSegment[];
+}
 
-    if (lastInterestPaymentDate) {
-        fromDate = new Date(lastInterestPaymentDate);
-    } else if (loan.lastInterestPaidDate) {
-        fromDate = new Date(loan.lastInterestPaidDate);
+/**
+ * Walk a loan's repayment ledger and accrue interest on the outstanding
+ * principal of each segment between repayments, up to the given date
+ */
+export function calculateLoanInterestAccrual(
+    loan: Pick<ILoan, 'approvedAmount' | 'requestedAmount' | 'interestRate' | 'approvalDate' | 'requestDate'>,
+    repayments: AccrualRepayment[],
+    asOfDate?: Date
+): LoanInterestAccrual {
+    const asOf = asOfDate || new Date();
+    const originalPrincipal = loan.approvedAmount || loan.requestedAmount;
+    const startDate = new Date(loan.approvalDate || loan.requestDate);
+
+    const ledger = repayments
+        .filter(repayment => new Date(repayment.paymentDate) <= asOf)
+        .sort((a, b) => new Date(a.paymentDate).getTime() - new Date(b.paymentDate).getTime());
+
+    const segments: AccrualSegment[] = [];
+    let outstandingPrincipal = originalPrincipal;
+    let totalInterestAccrued = 0;
+    let interestPaid = 0;
+    let lastInterestPaymentDate: Date | undefined;
+    let cursor = startDate;
+
+    const accrueUntil = (toDate: Date) => {
+        if (toDate <= cursor || outstandingPrincipal <= 0) {
+            cursor = toDate > cursor ? toDate : cursor;
+            return;
+        }
+
+        const { interestAmount, daysElapsed } = calculateInterestBetweenDates(
+            outstandingPrincipal,
+            loan.interestRate,
+            cursor,
+            toDate
+        );
+
+        segments.push({
+            fromDate: cursor,
+            toDate,
+            principal: outstandingPrincipal,
+            daysElapsed,
+            interestAmount,
+        });
+
+        totalInterestAccrued += interestAmount;
+        cursor = toDate;
+    };
+
+    for (const repayment of ledger) {
+        const paymentDate = new Date(repayment.paymentDate);
+        accrueUntil(paymentDate);
+
+        outstandingPrincipal = Math.max(0, outstandingPrincipal - (repayment.principalAmount || 0));
+        interestPaid += repayment.interestAmount || 0;
+
+        if ((repayment.interestAmount || 0) > 0) {
+            lastInterestPaymentDate = paymentDate;
+        }
     }
 
-    // Calculate interest from the start date to settlement date
-    const calculation = calculateInterestBetweenDates(
-        principal,
-        loan.interestRate,
-        fromDate,
-        settlementDate
-    );
+    accrueUntil(asOf);
+
+    return {
+        asOfDate: asOf,
+        startDate,
+        originalPrincipal,
+        principalPaid: originalPrincipal - outstandingPrincipal,
+        outstandingPrincipal,
+        totalInterestAccrued,
+        interestPaid,
+        accruedUnpaidInterest: Math.max(0, totalInterestAccrued - interestPaid),
+        lastInterestPaymentDate,
+        segments,
+    };
+}
+
+export interface LoanPayoff {
+    outstandingPrincipal: number;
+    outstandingInterest: number;
+    payoff: number;
+    accrual: LoanInterestAccrual;
+}
+
+/**
+ * What it takes to clear a loan on a date: principal left after its recorded
+ * repayments plus interest accrued on it and not yet paid. Settlement, member
+ * exit, guarantor recovery and incoming payments all use this, so a loan has
+ * one payoff whether or not it has an installment schedule.
+ */
+export function calculateLoanPayoff(
+    loan: Pick<ILoan, 'approvedAmount' | 'requestedAmount' | 'interestRate' | 'approvalDate' | 'requestDate'>,
+    repayments: AccrualRepayment[],
+    asOfDate?: Date
+): LoanPayoff {
+    const accrual = calculateLoanInterestAccrual(loan, repayments, asOfDate);
+    const outstandingPrincipal = roundCurrency(accrual.outstandingPrincipal);
+    const outstandingInterest = roundCurrency(accrual.accruedUnpaidInterest);
 
     return {
-        ...calculation,
-        fromDate,
-        toDate: settlementDate
+        outstandingPrincipal,
+        outstandingInterest,
+        payoff: roundCurrency(outstandingPrincipal + outstandingInterest),
+        accrual,
     };
 }
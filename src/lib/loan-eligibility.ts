@@ -0,0 +1,120 @@
+import mongoose from 'mongoose';
+import Contribution from '@/models/Contribution';
+import Loan from '@/models/Loan';
+import User from '@/models/User';
+import { COMMUNITY_CONFIG } from '@/config/community';
+import { ILoanEligibility, ILoanEligibilityCheck, ILoanProductTerms } from '@/types';
+import { getContributionMonths } from '@/lib/contribution-status';
+import { getCommunityFunds } from '@/lib/community-funds';
+import { getMemberSavingsBalance } from '@/lib/guarantees';
+import { getSettings } from '@/lib/settings';
+
+const formatAmount = (amount: number) => `NPR ${Math.round(amount).toLocaleString()}`;
+
+/**
+ * Run the loan eligibility rules for a member and amount. Every rule is
+ * reported with a reason so the checklist can be shown as well as enforced.
+ * Pass excludeLoanId when re-checking an existing loan at approval, and the
+ * loan product's terms to apply its amount limits instead of the defaults.
+ */
+export async function checkLoanEligibility(
+    userId: string,
+    amount: number,
+    options: { excludeLoanId?: string; product?: Pick<ILoanProductTerms, 'name' | 'minAmount' | 'maxAmount'> } = {}
+): Promise<ILoanEligibility> {
+    const { MAX_SAVINGS_MULTIPLE, MIN_LIQUIDITY_RESERVE } = COMMUNITY_CONFIG.LOAN_ELIGIBILITY;
+    const MIN_AMOUNT = options.product?.minAmount ?? COMMUNITY_CONFIG.LOAN_ELIGIBILITY.MIN_AMOUNT;
+    const MAX_AMOUNT = options.product?.maxAmount ?? COMMUNITY_CONFIG.LOAN_ELIGIBILITY.MAX_AMOUNT;
+    const limitSubject = options.product ? `The ${options.product.name} product's` : 'The';
+
+    const activeLoanQuery: Record<string, any> = {
+        userId: new mongoose.Types.ObjectId(userId),
+        status: { $in: ['approved', 'disbursed'] },
+    };
+    if (options.excludeLoanId) {
+        activeLoanQuery._id = { $ne: new mongoose.Types.ObjectId(options.excludeLoanId) };
+    }
+
+    const [user, savings, contributions, activeLoan, funds, settings] = await Promise.all([
+        User.findById(userId).select('joinDate membershipPeriods').lean(),
+        getMemberSavingsBalance(userId),
+        Contribution.find({ userId }).select('month').lean(),
+        Loan.findOne(activeLoanQuery).select('status').lean(),
+        getCommunityFunds(),
+        getSettings(),
+    ]);
+
+    const checks: ILoanEligibilityCheck[] = [];
+
+    checks.push({
+        rule: 'amount_range',
+        label: `Amount between ${formatAmount(MIN_AMOUNT)} and ${formatAmount(MAX_AMOUNT)}`,
+        passed: amount >= MIN_AMOUNT && amount <= MAX_AMOUNT,
+        reason: amount < MIN_AMOUNT
+            ? `${limitSubject} minimum loan is ${formatAmount(MIN_AMOUNT)}`
+            : amount > MAX_AMOUNT
+                ? `${limitSubject} maximum loan is ${formatAmount(MAX_AMOUNT)}`
+                : 'Amount is within the allowed range',
+    });
+
+    const maxBySavings = savings * MAX_SAVINGS_MULTIPLE;
+    checks.push({
+        rule: 'savings_multiple',
+        label: `Up to ${MAX_SAVINGS_MULTIPLE}x your savings`,
+        passed: amount <= maxBySavings,
+        reason: amount <= maxBySavings
+            ? `Savings of ${formatAmount(savings)} allow up to ${formatAmount(maxBySavings)}`
+            : savings === 0
+                ? 'No paid contributions yet'
+                : `Savings of ${formatAmount(savings)} allow at most ${formatAmount(maxBySavings)}`,
+    });
+
+    const { missingMonths } = user
+        ? getContributionMonths(
+            user,
+            contributions.map((contribution) => contribution.month),
+            settings.openingDate,
+            new Date(),
+            settings.contributionCalendar
+        )
+        : { missingMonths: [] };
+    checks.push({
+        rule: 'contributions_current',
+        label: 'No missing contribution months',
+        passed: !!user && missingMonths.length === 0,
+        reason: !user
+            ? 'Member not found'
+            : missingMonths.length === 0
+                ? 'All required months are recorded'
+                : `${missingMonths.length} month${missingMonths.length === 1 ? '' : 's'} missing, from ${missingMonths[0].monthName}`,
+    });
+
+    checks.push({
+        rule: 'no_active_loan',
+        label: 'No other active loan',
+        passed: !activeLoan,
+        reason: activeLoan ? `Member already has an ${activeLoan.status} loan` : 'No active loan',
+    });
+
+    const spendable = funds.availableLiquidFunds - MIN_LIQUIDITY_RESERVE;
+    checks.push({
+        rule: 'liquidity',
+        label: 'Enough funds available to lend',
+        passed: amount <= spendable,
+        reason: amount <= spendable
+            ? `${formatAmount(Math.max(0, spendable))} available to lend`
+            : `Only ${formatAmount(Math.max(0, spendable))} is available to lend right now`,
+    });
+
+    return {
+        eligible: checks.every((check) => check.passed),
+        amount,
+        checks,
+    };
+}
+
+/**
+ * First failing reason, for error messages
+ */
+export const getEligibilityFailure = (eligibility: ILoanEligibility): string | undefined =>
+    eligibility.checks.find((check) => !check.passed)?.reason;
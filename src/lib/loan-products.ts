@@ -0,0 +1,52 @@
+import { ILoanProduct, ILoanProductTerms, ILoanRepaymentPlan } from '@/types';
+
+/**
+ * Copy of a product's terms to store on a loan, so later edits to the
+ * product don't change loans already requested under it
+ */
+export function getProductTerms(product: ILoanProduct): ILoanProductTerms {
+    return {
+        name: product.name,
+        interestRate: product.interestRate,
+        minAmount: product.minAmount,
+        maxAmount: product.maxAmount,
+        maxTermMonths: product.maxTermMonths,
+        interestMethod: product.interestMethod,
+        requiresGuarantor: product.requiresGuarantor,
+    };
+}
+
+/**
+ * Check a repayment plan against the loan's product, returning an error message or null
+ */
+export function getProductPlanError(
+    terms: ILoanProductTerms | undefined,
+    plan: Pick<ILoanRepaymentPlan, 'termMonths'>
+): string | null {
+    if (terms && Number(plan.termMonths) > terms.maxTermMonths) {
+        return `${terms.name} loans can run for at most ${terms.maxTermMonths} months`;
+    }
+    return null;
+}
+
+/**
+ * Validate product fields from an admin form, returning an error message or null
+ */
+export function validateLoanProduct(data: Partial<ILoanProductTerms>): string | null {
+    if (data.name !== undefined && !String(data.name).trim()) {
+        return 'Product name is required';
+    }
+    if (data.interestRate !== undefined && (isNaN(Number(data.interestRate)) || data.interestRate < 0 || data.interestRate > 100)) {
+        return 'Interest rate must be between 0 and 100';
+    }
+    if (data.minAmount !== undefined && data.maxAmount !== undefined && Number(data.minAmount) > Number(data.maxAmount)) {
+        return 'Minimum amount cannot be more than the maximum amount';
+    }
+    if (data.maxTermMonths !== undefined && (!Number.isInteger(Number(data.maxTermMonths)) || data.maxTermMonths < 1)) {
+        return 'Maximum term must be a whole number of months';
+    }
+    if (data.interestMethod !== undefined && !['equal_principal', 'emi'].includes(data.interestMethod)) {
+        return 'Interest method must be equal_principal or emi';
+    }
+    return null;
+}
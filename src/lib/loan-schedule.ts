@@ -0,0 +1,207 @@
+import { ILoanInstallment, ILoanRepaymentPlan, LoanRepaymentFrequency } from '@/types';
+
+export type InstallmentStatus = 'pending' | 'partial' | 'paid' | 'overdue';
+
+export interface InstallmentWithStatus extends ILoanInstallment {
+    paidAmount: number;
+    outstandingAmount: number;
+    status: InstallmentStatus;
+    paidDate?: Date;
+}
+
+export interface ScheduleSummary {
+    totalInstallments: number;
+    paidCount: number;
+    partialCount: number;
+    overdueCount: number;
+    overdueAmount: number;
+    nextDueDate?: Date;
+    nextDueAmount?: number;
+}
+
+interface RepaymentLike {
+    amount: number;
+    paymentDate: Date | string;
+}
+
+export const MAX_TERM_MONTHS = 120;
+
+const MONTHS_PER_PERIOD: Record<LoanRepaymentFrequency, number> = {
+    monthly: 1,
+    quarterly: 3,
+};
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Add months to a date, clamping to the last day of the target month
+ */
+function addMonths(date: Date, months: number): Date {
+    const result = new Date(date);
+    const day = result.getDate();
+    result.setDate(1);
+    result.setMonth(result.getMonth() + months);
+    const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+    result.setDate(Math.min(day, lastDay));
+    return result;
+}
+
+/**
+ * Validate a repayment plan, returning an error message or null
+ */
+export function validateRepaymentPlan(plan: any): string | null {
+    if (!plan || typeof plan !== 'object') {
+        return 'Repayment plan is invalid';
+    }
+
+    const termMonths = Number(plan.termMonths);
+    if (!Number.isInteger(termMonths) || termMonths < 1 || termMonths > MAX_TERM_MONTHS) {
+        return `Term must be a whole number of months between 1 and ${MAX_TERM_MONTHS}`;
+    }
+
+    if (!['monthly', 'quarterly'].includes(plan.frequency)) {
+        return 'Frequency must be monthly or quarterly';
+    }
+
+    if (termMonths % MONTHS_PER_PERIOD[plan.frequency as LoanRepaymentFrequency] !== 0) {
+        return 'Term must be a multiple of the payment frequency';
+    }
+
+    if (!['equal_principal', 'emi'].includes(plan.method)) {
+        return 'Method must be equal_principal or emi';
+    }
+
+    return null;
+}
+
+/**
+ * Generate an amortized installment schedule for a loan
+ */
+export function generateInstallmentSchedule(
+    principal: number,
+    annualInterestRate: number,
+    plan: ILoanRepaymentPlan,
+    startDate: Date
+): ILoanInstallment[] {
+    const monthsPerPeriod = MONTHS_PER_PERIOD[plan.frequency];
+    const periods = Math.max(1, Math.round(plan.termMonths / monthsPerPeriod));
+    const periodRate = (annualInterestRate / 100) * (monthsPerPeriod / 12);
+
+    // EMI: fixed payment per period; zero-rate loans split principal evenly
+    const emi = periodRate > 0
+        ? principal * periodRate / (1 - Math.pow(1 + periodRate, -periods))
+        : principal / periods;
+    const equalPrincipal = principal / periods;
+
+    const schedule: ILoanInstallment[] = [];
+    let balance = principal;
+
+    for (let i = 1; i <= periods; i++) {
+        const openingBalance = roundCurrency(balance);
+        const interestAmount = roundCurrency(openingBalance * periodRate);
+
+        let principalAmount = plan.method === 'emi'
+            ? roundCurrency(emi - interestAmount)
+            : roundCurrency(equalPrincipal);
+
+        // Last installment absorbs rounding differences
+        if (i === periods) {
+            principalAmount = openingBalance;
+        }
+
+        const closingBalance = roundCurrency(openingBalance - principalAmount);
+
+        schedule.push({
+            installmentNumber: i,
+            dueDate: addMonths(startDate, i * monthsPerPeriod),
+            openingBalance,
+            principalAmount,
+            interestAmount,
+            totalAmount: roundCurrency(principalAmount + interestAmount),
+            closingBalance: Math.max(0, closingBalance),
+        });
+
+        balance = closingBalance;
+    }
+
+    return schedule;
+}
+
+/**
+ * Match repayments against installments in due-date order and derive each
+ * installment's status as of the given date
+ */
+export function matchRepaymentsToSchedule(
+    schedule: ILoanInstallment[],
+    repayments: RepaymentLike[],
+    asOfDate?: Date
+): InstallmentWithStatus[] {
+    const now = asOfDate || new Date();
+    const payments = [...repayments]
+        .filter(payment => payment && typeof payment.amount === 'number')
+        .sort((a, b) => new Date(a.paymentDate).getTime() - new Date(b.paymentDate).getTime())
+        .map(payment => ({ remaining: payment.amount, paymentDate: new Date(payment.paymentDate) }));
+
+    let paymentIndex = 0;
+
+    return schedule.map(installment => {
+        let paidAmount = 0;
+        let paidDate: Date | undefined;
+
+        while (paidAmount < installment.totalAmount - 0.01 && paymentIndex < payments.length) {
+            const payment = payments[paymentIndex];
+            const applied = Math.min(payment.remaining, installment.totalAmount - paidAmount);
+            paidAmount += applied;
+            payment.remaining -= applied;
+            paidDate = payment.paymentDate;
+
+            if (payment.remaining <= 0.01) {
+                paymentIndex++;
+            }
+        }
+
+        paidAmount = roundCurrency(paidAmount);
+        const outstandingAmount = roundCurrency(Math.max(0, installment.totalAmount - paidAmount));
+
+        let status: InstallmentStatus = 'pending';
+        if (outstandingAmount <= 0.01) {
+            status = 'paid';
+        } else if (new Date(installment.dueDate) < now) {
+            status = 'overdue';
+        } else if (paidAmount > 0) {
+            status = 'partial';
+        }
+
+        return {
+            installmentNumber: installment.installmentNumber,
+            dueDate: installment.dueDate,
+            openingBalance: installment.openingBalance,
+            principalAmount: installment.principalAmount,
+            interestAmount: installment.interestAmount,
+            totalAmount: installment.totalAmount,
+            closingBalance: installment.closingBalance,
+            paidAmount,
+            outstandingAmount,
+            status,
+            paidDate: status === 'paid' ? paidDate : undefined,
+        };
+    });
+}
+
+/**
+ * Summarize installment statuses for display
+ */
+export function summarizeSchedule(installments: InstallmentWithStatus[]): ScheduleSummary {
+    const nextDue = installments.find(installment => installment.status !== 'paid');
+    const overdue = installments.filter(installment => installment.status === 'overdue');
+
+    return {
+        totalInstallments: installments.length,
+        paidCount: installments.filter(installment => installment.status === 'paid').length,
+        partialCount: installments.filter(installment => installment.status === 'partial').length,
+        overdueCount: overdue.length,
+        overdueAmount: roundCurrency(overdue.reduce((sum, installment) => sum + installment.outstandingAmount, 0)),
+        nextDueDate: nextDue?.dueDate,
+        nextDueAmount: nextDue?.outstandingAmount,
+    };
+}
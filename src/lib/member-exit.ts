@@ -0,0 +1,293 @@
+import mongoose from 'mongoose';
+import Contribution from '@/models/Contribution';
+import Loan from '@/models/Loan';
+import Repayment from '@/models/Repayment';
+import User from '@/models/User';
+import Dividend from '@/models/Dividend';
+import DividendDistribution from '@/models/DividendDistribution';
+import MemberWithdrawal from '@/models/MemberWithdrawal';
+import GuaranteeRecovery from '@/models/GuaranteeRecovery';
+import { COMMUNITY_CONFIG } from '@/config/community';
+import { IMembershipPeriod, IUser, IMemberWithdrawal } from '@/types';
+import { calculateLoanPayoff } from '@/lib/loan-calculations';
+import { getIncomeForPeriod, getMemberAverageBalances } from '@/lib/dividends';
+import { syncRepaymentEntry, syncWithdrawalEntry } from '@/lib/ledger';
+import { getSettings } from '@/lib/settings';
+
+export interface ExitStatement {
+    userId: string;
+    name: string;
+    memberId: string;
+    membershipStart: Date;
+    exitDate: Date;
+    totalContributions: number;
+    dividendsCredited: number;
+    interestShare: number;
+    interestShareFrom?: Date;
+    grossEntitlement: number;
+    loanId?: string;
+    outstandingLoanPrincipal: number;
+    outstandingLoanInterest: number;
+    outstandingLoanBalance: number;
+    netPayout: number;
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Membership periods for a user. Members who never left have a single open
+ * period starting at their join date.
+ */
+export function getMembershipPeriods(user: Pick<IUser, 'joinDate' | 'membershipPeriods'>): IMembershipPeriod[] {
+    if (user.membershipPeriods && user.membershipPeriods.length > 0) {
+        return user.membershipPeriods;
+    }
+    return [{ joinDate: user.joinDate }];
+}
+
+/**
+ * Start of the open membership period, or the latest join date for former members
+ */
+export function getCurrentMembershipStart(user: Pick<IUser, 'joinDate' | 'membershipPeriods'>): Date {
+    const periods = getMembershipPeriods(user);
+    return new Date(periods[periods.length - 1].joinDate);
+}
+
+/**
+ * Join date to count required contributions from for a member who left and
+ * rejoined, or undefined for a member who has never left
+ */
+export function getRejoinDate(user: Pick<IUser, 'joinDate' | 'membershipPeriods'>): Date | undefined {
+    const periods = getMembershipPeriods(user);
+    return periods.length > 1 ? new Date(periods[periods.length - 1].joinDate) : undefined;
+}
+
+/**
+ * Share of income earned since the last dividend distribution, split by
+ * average savings like a dividend so leaving members are not shortchanged
+ */
+async function calculateUndistributedInterestShare(userId: string, membershipStart: Date, exitDate: Date) {
+    const [lastDistribution, settings] = await Promise.all([
+        DividendDistribution.findOne().sort({ periodEnd: -1 }).lean(),
+        getSettings(),
+    ]);
+
+    const candidates = [membershipStart, settings.openingDate];
+    if (lastDistribution) {
+        candidates.push(new Date(lastDistribution.periodEnd.getTime() + 1));
+    }
+    const fromDate = new Date(Math.max(...candidates.map((date) => date.getTime())));
+
+    if (fromDate >= exitDate) {
+        return { interestShare: 0, fromDate: undefined };
+    }
+
+    const [income, balances] = await Promise.all([
+        getIncomeForPeriod(fromDate, exitDate),
+        getMemberAverageBalances(fromDate, exitDate),
+    ]);
+
+    const totalIncome = income.repaymentInterest + income.historicalInterest + income.penaltiesCollected;
+    const reservePercentage = COMMUNITY_CONFIG.DIVIDEND_RULES.DEFAULT_RESERVE_PERCENTAGE;
+    const distributable = totalIncome * (1 - reservePercentage / 100);
+    const totalBalance = balances.reduce((sum, balance) => sum + balance.weightedAverageBalance, 0);
+    const memberBalance = balances.find((balance) => balance.userId === userId)?.weightedAverageBalance || 0;
+
+    return {
+        interestShare: totalBalance > 0 ? roundCurrency(distributable * (memberBalance / totalBalance)) : 0,
+        fromDate,
+    };
+}
+
+/**
+ * Work out what a leaving member is owed: paid savings not yet returned, posted
+ * dividends and an undistributed interest share, less any outstanding loan
+ */
+export async function calculateExitStatement(user: IUser, exitDate: Date): Promise<ExitStatement> {
+    const userId = user._id.toString();
+    const membershipStart = getCurrentMembershipStart(user);
+
+    const [contributionResult, previousWithdrawals, dividendResult, currentLoan, guaranteeRecovered] = await Promise.all([
+        Contribution.aggregate([
+            { $match: { userId: user._id, paidStatus: 'paid' } },
+            { $group: { _id: null, total: { $sum: '$amount' } } },
+        ]),
+        MemberWithdrawal.find({ userId: user._id, status: 'approved' }).lean(),
+        Dividend.aggregate([
+            { $match: { userId: user._id, creditedDate: { $gte: membershipStart, $lte: exitDate } } },
+            { $group: { _id: null, total: { $sum: '$amount' } } },
+        ]),
+        // Only money the member actually received is offset against the payout
+        Loan.findOne({ userId: user._id, status: 'disbursed' }),
+        GuaranteeRecovery.getUserTotalRecovered(userId, new Date(membershipStart.getTime() - 1)),
+    ]);
+
+    // Savings already returned on an earlier exit, or taken to cover a loan the
+    // member guaranteed, are not paid out again
+    const previouslyReturned = previousWithdrawals.reduce((sum, withdrawal) => sum + withdrawal.totalContributions, 0);
+    const totalContributions = roundCurrency(
+        Math.max(0, (contributionResult[0]?.total || 0) - previouslyReturned - guaranteeRecovered)
+    );
+    const dividendsCredited = roundCurrency(dividendResult[0]?.total || 0);
+    const { interestShare, fromDate } = await calculateUndistributedInterestShare(userId, membershipStart, exitDate);
+
+    let outstandingLoanPrincipal = 0;
+    let outstandingLoanInterest = 0;
+
+    if (currentLoan) {
+        const repayments = await Repayment.find({ loanId: currentLoan._id }).lean();
+        const payoff = calculateLoanPayoff(currentLoan, repayments as any[], exitDate);
+        outstandingLoanPrincipal = payoff.outstandingPrincipal;
+        outstandingLoanInterest = payoff.outstandingInterest;
+    }
+
+    const grossEntitlement = roundCurrency(totalContributions + dividendsCredited + interestShare);
+    const outstandingLoanBalance = roundCurrency(outstandingLoanPrincipal + outstandingLoanInterest);
+
+    return {
+        userId,
+        name: user.name,
+        memberId: user.memberId,
+        membershipStart,
+        exitDate,
+        totalContributions,
+        dividendsCredited,
+        interestShare,
+        interestShareFrom: fromDate,
+        grossEntitlement,
+        loanId: currentLoan?._id.toString(),
+        outstandingLoanPrincipal,
+        outstandingLoanInterest,
+        outstandingLoanBalance,
+        netPayout: roundCurrency(grossEntitlement - outstandingLoanBalance),
+    };
+}
+
+/**
+ * Error for a member whose loan is approved but not yet disbursed, or null.
+ * The loan must be rejected or disbursed before the exit payout is worked out.
+ */
+export async function getExitLoanError(userId: string): Promise<string | null> {
+    const undisbursed = await Loan.exists({
+        userId: new mongoose.Types.ObjectId(userId),
+        status: 'approved',
+    });
+    return undisbursed
+        ? 'Member has an approved loan that has not been disbursed. Reject or disburse it before the exit.'
+        : null;
+}
+
+/**
+ * Approve an exit in one transaction: settle any loan against the payout,
+ * record and book the withdrawal and close the member's current membership period.
+ * Returns false if the request was approved or rejected since it was loaded.
+ */
+export async function completeMemberExit(
+    withdrawal: IMemberWithdrawal,
+    statement: ExitStatement,
+    approvedBy: string
+): Promise<boolean> {
+    const approverId = new mongoose.Types.ObjectId(approvedBy);
+    const session = await mongoose.startSession();
+    let alreadyDecided = false;
+
+    try {
+        await session.withTransaction(async () => {
+            // Claim the pending request first, so two approvals cannot both offset the loan
+            const claimed = await MemberWithdrawal.updateOne(
+                { _id: withdrawal._id, status: 'pending' },
+                {
+                    $set: {
+                        status: 'approved',
+                        approvedBy: approverId,
+                        approvalDate: new Date(),
+                        membershipStart: statement.membershipStart,
+                        totalContributions: statement.totalContributions,
+                        dividendsCredited: statement.dividendsCredited,
+                        interestShare: statement.interestShare,
+                        interestShareFrom: statement.interestShareFrom,
+                        grossEntitlement: statement.grossEntitlement,
+                        loanId: statement.loanId,
+                        outstandingLoanPrincipal: statement.outstandingLoanPrincipal,
+                        outstandingLoanInterest: statement.outstandingLoanInterest,
+                        outstandingLoanBalance: statement.outstandingLoanBalance,
+                        netPayout: statement.netPayout,
+                    },
+                },
+                { session }
+            );
+
+            if (claimed.matchedCount === 0) {
+                alreadyDecided = true;
+                throw new Error('Exit request was decided during approval');
+            }
+
+            if (statement.loanId && statement.outstandingLoanBalance > 0) {
+                const loan = await Loan.findOne({ _id: statement.loanId, status: 'disbursed' }).session(session);
+                if (!loan) {
+                    throw new Error('Loan to offset is no longer disbursed');
+                }
+
+                const [repayment] = await Repayment.create([{
+                    loanId: loan._id,
+                    userId: loan.userId,
+                    amount: statement.outstandingLoanBalance,
+                    paymentDate: statement.exitDate,
+                    paymentMethod: 'settlement',
+                    principalAmount: statement.outstandingLoanPrincipal,
+                    interestAmount: statement.outstandingLoanInterest,
+                    remainingBalance: 0,
+                    recordedBy: approverId,
+                    notes: 'Offset against member exit payout',
+                }], { session });
+                await syncRepaymentEntry(repayment, { session, postedBy: approvedBy });
+
+                await Loan.updateOne(
+                    { _id: loan._id },
+                    {
+                        $set: {
+                            status: 'completed',
+                            actualRepaymentDate: statement.exitDate,
+                            lastInterestPaidDate: statement.exitDate,
+                            remainingBalance: 0,
+                        },
+                        $inc: { amountPaid: statement.outstandingLoanPrincipal },
+                        $push: { repayments: repayment._id },
+                    },
+                    { session }
+                );
+            }
+
+            const approved = await MemberWithdrawal.findById(withdrawal._id).session(session);
+            if (approved) {
+                await syncWithdrawalEntry(approved, { session, postedBy: approvedBy });
+            }
+
+            const user = await User.findById(withdrawal.userId).session(session).lean();
+            if (!user) {
+                throw new Error('User not found');
+            }
+
+            const periods = getMembershipPeriods(user).map((period) => ({ ...period }));
+            periods[periods.length - 1] = {
+                ...periods[periods.length - 1],
+                exitDate: statement.exitDate,
+                withdrawalId: withdrawal._id,
+            };
+
+            await User.updateOne(
+                { _id: user._id },
+                { $set: { isActive: false, membershipPeriods: periods } },
+                { session }
+            );
+        });
+    } catch (error) {
+        if (!alreadyDecided) {
+            throw error;
+        }
+    } finally {
+        await session.endSession();
+    }
+
+    return !alreadyDecided;
+}
@@ -117,6 +117,19 @@ export const getCurrentBSDate = (): BSDate => {
     });
 };
 
+/**
+ * Nepali fiscal year a date falls in, as the BS year it starts in. The fiscal
+ * year runs from 1 Shrawan to the end of Ashadh.
+ */
+export const getBSFiscalYear = (date: Date): number => {
+    const bsDate = convertADToBS({
+        year: date.getFullYear(),
+        month: date.getMonth() + 1,
+        day: date.getDate()
+    });
+    return bsDate.month >= 4 ? bsDate.year : bsDate.year - 1;
+};
+
 /**
  * Validate BS date format and values
  */
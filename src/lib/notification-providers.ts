@@ -0,0 +1,276 @@
+import net from 'net';
+import tls from 'tls';
+import { randomUUID } from 'crypto';
+import { appendFile } from 'fs/promises';
+import { NotificationChannel } from '@/types';
+
+export interface OutgoingMessage {
+    channel: NotificationChannel;
+    to: string;
+    subject?: string;
+    body: string;
+}
+
+export interface NotificationProvider {
+    name: string;
+    send(message: OutgoingMessage): Promise<void>;
+}
+
+interface SmtpReply {
+    code: number;
+    text: string;
+}
+
+const SEND_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Minimal SMTP client: one connection per message, with STARTTLS and AUTH PLAIN
+ */
+class SmtpSession {
+    private socket!: net.Socket;
+    private buffer = '';
+    private lines: string[] = [];
+    private replies: SmtpReply[] = [];
+    private waiter?: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void };
+    private failure?: Error;
+
+    constructor(socket: net.Socket) {
+        this.attach(socket);
+    }
+
+    private attach(socket: net.Socket) {
+        this.socket = socket;
+        socket.setEncoding('utf8');
+        socket.setTimeout(SEND_TIMEOUT_MS, () => {
+            this.fail(new Error('SMTP server timed out'));
+            socket.destroy();
+        });
+        socket.on('data', (chunk: string) => {
+            this.buffer += chunk;
+            this.parse();
+        });
+        socket.on('error', (error) => this.fail(error));
+        socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+    }
+
+    private detach() {
+        this.socket.removeAllListeners('data');
+        this.socket.removeAllListeners('error');
+        this.socket.removeAllListeners('close');
+        this.socket.setTimeout(0);
+    }
+
+    // A reply ends with a line whose code is followed by a space rather than a hyphen
+    private parse() {
+        let index: number;
+        while ((index = this.buffer.indexOf('\n')) !== -1) {
+            const line = this.buffer.slice(0, index).replace(/\r$/, '');
+            this.buffer = this.buffer.slice(index + 1);
+            this.lines.push(line);
+
+            if (/^\d{3}(?: |$)/.test(line)) {
+                const reply = { code: Number(line.slice(0, 3)), text: this.lines.map((part) => part.slice(4)).join('\n') };
+                this.lines = [];
+
+                const waiter = this.waiter;
+                this.waiter = undefined;
+                if (waiter) {
+                    waiter.resolve(reply);
+                } else {
+                    this.replies.push(reply);
+                }
+            }
+        }
+    }
+
+    private fail(error: Error) {
+        this.failure = this.failure || error;
+        const waiter = this.waiter;
+        this.waiter = undefined;
+        waiter?.reject(error);
+    }
+
+    read(expected: number[]): Promise<SmtpReply> {
+        const next = this.replies.shift();
+        const reply = next
+            ? Promise.resolve(next)
+            : this.failure
+                ? Promise.reject(this.failure)
+                : new Promise<SmtpReply>((resolve, reject) => {
+                    this.waiter = { resolve, reject };
+                });
+
+        return reply.then((result) => {
+            if (!expected.includes(result.code)) {
+                throw new Error(`SMTP ${result.code}: ${result.text}`);
+            }
+            return result;
+        });
+    }
+
+    command(line: string, expected: number[]): Promise<SmtpReply> {
+        this.socket.write(`${line}\r\n`);
+        return this.read(expected);
+    }
+
+    async startTls(host: string) {
+        this.detach();
+        const secure = tls.connect({ socket: this.socket, servername: host });
+        await new Promise<void>((resolve, reject) => {
+            secure.once('secureConnect', () => resolve());
+            secure.once('error', reject);
+        });
+        this.attach(secure);
+    }
+
+    close() {
+        this.detach();
+        this.socket.end();
+    }
+}
+
+const encodeHeader = (value: string) =>
+    /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+// Base64 lines never start with ".", so the body needs no dot-stuffing
+const encodeBody = (body: string) =>
+    (Buffer.from(body.replace(/\r?\n/g, '\r\n'), 'utf8').toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+
+const addressOf = (mailbox: string) => mailbox.match(/<([^>]+)>/)?.[1] || mailbox.trim();
+
+/**
+ * Email over SMTP, configured with SMTP_HOST, SMTP_PORT, SMTP_USER,
+ * SMTP_PASSWORD, SMTP_FROM and SMTP_SECURE (implicit TLS, usually port 465)
+ */
+function createSmtpProvider(): NotificationProvider {
+    const host = process.env.SMTP_HOST || '';
+    const secure = process.env.SMTP_SECURE === 'true';
+    const port = Number(process.env.SMTP_PORT) || (secure ? 465 : 587);
+    const user = process.env.SMTP_USER;
+    const password = process.env.SMTP_PASSWORD || '';
+    const from = process.env.SMTP_FROM || user || '';
+
+    return {
+        name: 'smtp',
+        async send(message) {
+            if (!host || !from) {
+                throw new Error('SMTP_HOST and SMTP_FROM must be set');
+            }
+
+            const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+            const session = new SmtpSession(socket);
+
+            try {
+                await session.read([220]);
+                const greeting = await session.command(`EHLO ${host}`, [250]);
+
+                if (!secure && /^STARTTLS$/im.test(greeting.text)) {
+                    await session.command('STARTTLS', [220]);
+                    await session.startTls(host);
+                    await session.command(`EHLO ${host}`, [250]);
+                }
+
+                if (user) {
+                    const credentials = Buffer.from(`\0${user}\0${password}`, 'utf8').toString('base64');
+                    await session.command(`AUTH PLAIN ${credentials}`, [235]);
+                }
+
+                await session.command(`MAIL FROM:<${addressOf(from)}>`, [250]);
+                await session.command(`RCPT TO:<${message.to}>`, [250, 251]);
+                await session.command('DATA', [354]);
+
+                const headers = [
+                    `From: ${from}`,
+                    `To: ${message.to}`,
+                    `Subject: ${encodeHeader(message.subject || '')}`,
+                    `Date: ${new Date().toUTCString()}`,
+                    `Message-ID: <${randomUUID()}@${addressOf(from).split('@')[1] || host}>`,
+                    'MIME-Version: 1.0',
+                    'Content-Type: text/plain; charset=UTF-8',
+                    'Content-Transfer-Encoding: base64',
+                ];
+                await session.command(`${headers.join('\r\n')}\r\n\r\n${encodeBody(message.body)}\r\n.`, [250]);
+                await session.command('QUIT', [221]).catch(() => undefined);
+            } finally {
+                session.close();
+            }
+        },
+    };
+}
+
+/**
+ * SMS through any gateway that accepts a JSON POST, configured with
+ * SMS_HTTP_URL, SMS_HTTP_TOKEN (sent as a bearer token) and SMS_HTTP_SENDER
+ */
+function createHttpSmsProvider(): NotificationProvider {
+    const url = process.env.SMS_HTTP_URL || '';
+    const token = process.env.SMS_HTTP_TOKEN;
+    const sender = process.env.SMS_HTTP_SENDER;
+
+    return {
+        name: 'http-sms',
+        async send(message) {
+            if (!url) {
+                throw new Error('SMS_HTTP_URL must be set');
+            }
+
+            const response = await fetch(url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+                },
+                body: JSON.stringify({ to: message.to, message: message.body, sender }),
+                signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+            });
+
+            if (!response.ok) {
+                const detail = await response.text().catch(() => '');
+                throw new Error(`SMS gateway returned ${response.status}${detail ? `: ${detail.slice(0, 500)}` : ''}`);
+            }
+        },
+    };
+}
+
+/**
+ * Development provider: prints messages, and appends them as JSON lines to
+ * NOTIFICATIONS_LOG_FILE when it is set
+ */
+function createConsoleProvider(): NotificationProvider {
+    const file = process.env.NOTIFICATIONS_LOG_FILE;
+
+    return {
+        name: 'console',
+        async send(message) {
+            console.log(`[${message.channel}] to ${message.to}${message.subject ? ` - ${message.subject}` : ''}\n${message.body}`);
+
+            if (file) {
+                await appendFile(file, `${JSON.stringify({ ...message, sentAt: new Date().toISOString() })}\n`, 'utf8');
+            }
+        },
+    };
+}
+
+const PROVIDER_FACTORIES: Record<string, () => NotificationProvider> = {
+    smtp: createSmtpProvider,
+    'http-sms': createHttpSmsProvider,
+    console: createConsoleProvider,
+};
+
+/**
+ * Provider for a channel, chosen by EMAIL_PROVIDER or SMS_PROVIDER. Without
+ * one, SMTP or the HTTP gateway is used when configured and the console otherwise.
+ */
+export function getNotificationProvider(channel: NotificationChannel): NotificationProvider {
+    const configured = channel === 'email' ? process.env.EMAIL_PROVIDER : process.env.SMS_PROVIDER;
+    const fallback = channel === 'email'
+        ? (process.env.SMTP_HOST ? 'smtp' : 'console')
+        : (process.env.SMS_HTTP_URL ? 'http-sms' : 'console');
+
+    const factory = PROVIDER_FACTORIES[configured || fallback];
+    if (!factory) {
+        throw new Error(`Unknown ${channel} provider "${configured}"`);
+    }
+
+    return factory();
+}
@@ -0,0 +1,126 @@
+import { ContributionCalendar, NotificationEvent, NotificationLanguage } from '@/types';
+import { convertADToBS, getBSMonthNamesEnglish, getNepaliMonthNames } from '@/lib/nepali-date';
+import { formatContributionMonth } from '@/lib/periods';
+
+export interface NotificationParams {
+    'registration-approved': { memberId: string };
+    'contribution-due': { month: string; amount: number; dueDate: Date };
+    'contribution-approved': { month: string; amount: number };
+    'loan-status-changed': { status: 'approved' | 'rejected' | 'disbursed' | 'completed'; amount: number; reason?: string };
+    'password-reset': { resetUrl: string; expiresInMinutes: number };
+}
+
+export interface RenderedNotification {
+    subject: string;
+    body: string; // Email body
+    sms: string; // Short enough for one or two SMS segments
+}
+
+interface TemplateContext {
+    name: string;
+    communityName: string;
+    calendar: ContributionCalendar; // Months and due dates are named in the group's calendar
+}
+
+type Template<E extends NotificationEvent> = (params: NotificationParams[E], context: TemplateContext) => RenderedNotification;
+
+const formatAmount = (amount: number, language: NotificationLanguage) =>
+    `${language === 'ne' ? 'रु.' : 'NPR'} ${amount.toLocaleString('en-US')}`;
+
+const formatMonth = (month: string, context: TemplateContext, language: NotificationLanguage) =>
+    formatContributionMonth(month, context.calendar, language);
+
+const formatDay = (date: Date, context: TemplateContext, language: NotificationLanguage) => {
+    if (context.calendar === 'BS') {
+        const bs = convertADToBS({ year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() });
+        const names = language === 'ne' ? getNepaliMonthNames() : getBSMonthNamesEnglish();
+        return `${bs.day} ${names[bs.month - 1]} ${bs.year}`;
+    }
+    return date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+};
+
+const LOAN_STATUS_LABELS: Record<NotificationParams['loan-status-changed']['status'], Record<NotificationLanguage, string>> = {
+    approved: { en: 'approved', ne: 'स्वीकृत' },
+    rejected: { en: 'rejected', ne: 'अस्वीकृत' },
+    disbursed: { en: 'disbursed', ne: 'वितरण' },
+    completed: { en: 'fully repaid', ne: 'चुक्ता' },
+};
+
+const signOff = (context: TemplateContext, language: NotificationLanguage) =>
+    language === 'ne' ? `\n\nधन्यवाद,\n${context.communityName}` : `\n\nThank you,\n${context.communityName}`;
+
+const TEMPLATES: { [E in NotificationEvent]: Record<NotificationLanguage, Template<E>> } = {
+    'registration-approved': {
+        en: ({ memberId }, context) => ({
+            subject: `Welcome to ${context.communityName}`,
+            body: `Dear ${context.name},\n\nYour membership has been approved. Your member ID is ${memberId}.${signOff(context, 'en')}`,
+            sms: `${context.communityName}: Your membership is approved. Member ID: ${memberId}`,
+        }),
+        ne: ({ memberId }, context) => ({
+            subject: `${context.communityName} मा स्वागत छ`,
+            body: `नमस्ते ${context.name},\n\nतपाईंको सदस्यता स्वीकृत भएको छ। तपाईंको सदस्य नम्बर ${memberId} हो।${signOff(context, 'ne')}`,
+            sms: `${context.communityName}: तपाईंको सदस्यता स्वीकृत भयो। सदस्य नम्बर: ${memberId}`,
+        }),
+    },
+    'contribution-due': {
+        en: ({ month, amount, dueDate }, context) => ({
+            subject: `Contribution for ${formatMonth(month, context, 'en')} is due`,
+            body: `Dear ${context.name},\n\nThis is a reminder that your ${formatAmount(amount, 'en')} contribution for ${formatMonth(month, context, 'en')} is due by ${formatDay(dueDate, context, 'en')}.${signOff(context, 'en')}`,
+            sms: `${context.communityName}: Your ${formatAmount(amount, 'en')} contribution for ${formatMonth(month, context, 'en')} is due by ${formatDay(dueDate, context, 'en')}.`,
+        }),
+        ne: ({ month, amount, dueDate }, context) => ({
+            subject: `${formatMonth(month, context, 'ne')} को मासिक बचत तिर्ने सम्झना`,
+            body: `नमस्ते ${context.name},\n\n${formatMonth(month, context, 'ne')} को मासिक बचत ${formatAmount(amount, 'ne')} ${formatDay(dueDate, context, 'ne')} भित्र तिर्नुहोला।${signOff(context, 'ne')}`,
+            sms: `${context.communityName}: ${formatMonth(month, context, 'ne')} को बचत ${formatAmount(amount, 'ne')} ${formatDay(dueDate, context, 'ne')} भित्र तिर्नुहोला।`,
+        }),
+    },
+    'contribution-approved': {
+        en: ({ month, amount }, context) => ({
+            subject: `Contribution for ${formatMonth(month, context, 'en')} received`,
+            body: `Dear ${context.name},\n\nWe have received your ${formatAmount(amount, 'en')} contribution for ${formatMonth(month, context, 'en')}.${signOff(context, 'en')}`,
+            sms: `${context.communityName}: ${formatAmount(amount, 'en')} contribution for ${formatMonth(month, context, 'en')} received. Thank you.`,
+        }),
+        ne: ({ month, amount }, context) => ({
+            subject: `${formatMonth(month, context, 'ne')} को बचत प्राप्त भयो`,
+            body: `नमस्ते ${context.name},\n\n${formatMonth(month, context, 'ne')} को तपाईंको बचत ${formatAmount(amount, 'ne')} प्राप्त भएको छ।${signOff(context, 'ne')}`,
+            sms: `${context.communityName}: ${formatMonth(month, context, 'ne')} को बचत ${formatAmount(amount, 'ne')} प्राप्त भयो। धन्यवाद।`,
+        }),
+    },
+    'loan-status-changed': {
+        en: ({ status, amount, reason }, context) => ({
+            subject: `Your loan has been ${LOAN_STATUS_LABELS[status].en}`,
+            body: `Dear ${context.name},\n\nYour ${formatAmount(amount, 'en')} loan has been ${LOAN_STATUS_LABELS[status].en}.${reason ? `\nReason: ${reason}` : ''}${signOff(context, 'en')}`,
+            sms: `${context.communityName}: Your ${formatAmount(amount, 'en')} loan has been ${LOAN_STATUS_LABELS[status].en}.${reason ? ` Reason: ${reason}` : ''}`,
+        }),
+        ne: ({ status, amount, reason }, context) => ({
+            subject: `तपाईंको ऋण ${LOAN_STATUS_LABELS[status].ne} भयो`,
+            body: `नमस्ते ${context.name},\n\nतपाईंको ${formatAmount(amount, 'ne')} को ऋण ${LOAN_STATUS_LABELS[status].ne} भएको छ।${reason ? `\nकारण: ${reason}` : ''}${signOff(context, 'ne')}`,
+            sms: `${context.communityName}: तपाईंको ${formatAmount(amount, 'ne')} को ऋण ${LOAN_STATUS_LABELS[status].ne} भयो।${reason ? ` कारण: ${reason}` : ''}`,
+        }),
+    },
+    'password-reset': {
+        en: ({ resetUrl, expiresInMinutes }, context) => ({
+            subject: `Reset your ${context.communityName} password`,
+            body: `Dear ${context.name},\n\nWe received a request to reset your password. Open this link within ${expiresInMinutes} minutes to choose a new one:\n\n${resetUrl}\n\nIf you did not ask for this, you can ignore this message and your password will stay the same.${signOff(context, 'en')}`,
+            sms: `${context.communityName}: Reset your password within ${expiresInMinutes} minutes at ${resetUrl} . Ignore this if you did not ask for it.`,
+        }),
+        ne: ({ resetUrl, expiresInMinutes }, context) => ({
+            subject: `${context.communityName} को पासवर्ड परिवर्तन`,
+            body: `नमस्ते ${context.name},\n\nतपाईंको पासवर्ड परिवर्तन गर्ने अनुरोध प्राप्त भएको छ। ${expiresInMinutes} मिनेटभित्र यो लिङ्क खोलेर नयाँ पासवर्ड राख्नुहोस्:\n\n${resetUrl}\n\nतपाईंले अनुरोध गर्नुभएको होइन भने यो सन्देश बेवास्ता गर्नुहोस्, पासवर्ड परिवर्तन हुने छैन।${signOff(context, 'ne')}`,
+            sms: `${context.communityName}: ${expiresInMinutes} मिनेटभित्र ${resetUrl} मा नयाँ पासवर्ड राख्नुहोस्। अनुरोध नगरेको भए बेवास्ता गर्नुहोस्।`,
+        }),
+    },
+};
+
+/**
+ * Render an event's message in the member's language
+ */
+export function renderNotification<E extends NotificationEvent>(
+    event: E,
+    language: NotificationLanguage,
+    params: NotificationParams[E],
+    context: TemplateContext
+): RenderedNotification {
+    const template = TEMPLATES[event][language] as Template<E>;
+    return template(params, context);
+}
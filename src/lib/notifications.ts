@@ -0,0 +1,231 @@
+import Notification from '@/models/Notification';
+import User from '@/models/User';
+import Contribution from '@/models/Contribution';
+import { COMMUNITY_CONFIG } from '@/config/community';
+import { getSettings } from '@/lib/settings';
+import { getContributionDueDate } from '@/lib/penalties';
+import { getContributionMonth } from '@/lib/periods';
+import { getNotificationProvider } from '@/lib/notification-providers';
+import { renderNotification, NotificationParams } from '@/lib/notification-templates';
+import { ILoan, INotification, NotificationChannel, NotificationEvent } from '@/types';
+
+export interface NotificationRetryResult {
+    retried: number;
+    sent: number;
+    failed: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STALE_PENDING_MS = 15 * 60 * 1000; // A message still pending after this was interrupted mid-send
+const MAX_RETRIES_PER_RUN = 500;
+
+/**
+ * When a message that has failed its attempts so far should be tried again,
+ * or undefined when it has no attempts left
+ */
+function getNextAttemptAt(attempts: number, now: Date): Date | undefined {
+    const { MAX_ATTEMPTS, RETRY_DELAYS_MINUTES } = COMMUNITY_CONFIG.NOTIFICATION_RULES;
+
+    if (attempts >= MAX_ATTEMPTS) {
+        return undefined;
+    }
+
+    const delay = RETRY_DELAYS_MINUTES[Math.min(attempts, RETRY_DELAYS_MINUTES.length) - 1];
+    return new Date(now.getTime() + delay * 60 * 1000);
+}
+
+/**
+ * Hand a logged message to its channel's provider and record the outcome
+ */
+async function deliver(notification: INotification): Promise<boolean> {
+    const now = new Date();
+    notification.attempts += 1;
+
+    try {
+        const provider = getNotificationProvider(notification.channel);
+        notification.provider = provider.name;
+
+        await provider.send({
+            channel: notification.channel,
+            to: notification.recipient,
+            subject: notification.subject,
+            body: notification.body,
+        });
+
+        notification.status = 'sent';
+        notification.sentAt = now;
+        notification.nextAttemptAt = undefined;
+        notification.lastError = undefined;
+    } catch (error) {
+        notification.status = 'failed';
+        notification.lastError = (error instanceof Error ? error.message : String(error)).slice(0, 2000);
+        notification.nextAttemptAt = getNextAttemptAt(notification.attempts, now);
+    }
+
+    await notification.save();
+    return notification.status === 'sent';
+}
+
+/**
+ * Send a member an event's message by email and SMS, in their preferred
+ * language, through whichever channels they have contact details for. Each
+ * message is logged and failures are retried later, so this never throws.
+ * Returns the number of messages queued.
+ */
+export async function notifyUser<E extends NotificationEvent>(
+    userId: string,
+    event: E,
+    params: NotificationParams[E],
+    options: { dedupeKey?: string } = {}
+): Promise<number> {
+    try {
+        const user = await User.findById(userId).select('name email phone preferredLanguage').lean();
+        if (!user) {
+            return 0;
+        }
+
+        const { communityName, contributionCalendar } = await getSettings();
+        const language = user.preferredLanguage || 'en';
+        const message = renderNotification(event, language, params, {
+            name: user.name,
+            communityName,
+            calendar: contributionCalendar,
+        });
+
+        const recipients: [NotificationChannel, string | undefined][] = [
+            ['email', user.email],
+            ['sms', user.phone],
+        ];
+
+        let queued = 0;
+        for (const [channel, recipient] of recipients) {
+            if (!recipient) {
+                continue;
+            }
+
+            let notification: INotification;
+            try {
+                notification = await Notification.create({
+                    userId,
+                    event,
+                    channel,
+                    language,
+                    recipient,
+                    subject: channel === 'email' ? message.subject : undefined,
+                    body: channel === 'email' ? message.body : message.sms,
+                    status: 'pending',
+                    dedupeKey: options.dedupeKey,
+                });
+            } catch (error: any) {
+                // Already sent for this record
+                if (error?.code === 11000) {
+                    continue;
+                }
+                throw error;
+            }
+
+            queued += 1;
+            await deliver(notification);
+        }
+
+        return queued;
+    } catch (error) {
+        console.error(`Failed to send ${event} notification:`, error);
+        return 0;
+    }
+}
+
+/**
+ * Tell the borrower their loan has moved to its current status
+ */
+export function notifyLoanStatusChange(loan: ILoan): Promise<number> {
+    if (loan.status === 'pending') {
+        return Promise.resolve(0);
+    }
+
+    // _id reads the same whether or not the borrower has been populated
+    return notifyUser(loan.userId._id.toString(), 'loan-status-changed', {
+        status: loan.status,
+        amount: loan.approvedAmount || loan.requestedAmount,
+        reason: loan.status === 'rejected' ? loan.rejectionReason : undefined,
+    });
+}
+
+/**
+ * Try again every failed message whose retry is due, and any left pending by
+ * an interrupted send. Each message is claimed atomically, so concurrent runs
+ * never send the same one twice.
+ */
+export async function retryFailedNotifications(now: Date = new Date()): Promise<NotificationRetryResult> {
+    const result: NotificationRetryResult = { retried: 0, sent: 0, failed: 0 };
+    const staleBefore = new Date(now.getTime() - STALE_PENDING_MS);
+
+    while (result.retried < MAX_RETRIES_PER_RUN) {
+        const notification = await Notification.findOneAndUpdate(
+            {
+                attempts: { $lt: COMMUNITY_CONFIG.NOTIFICATION_RULES.MAX_ATTEMPTS },
+                $or: [
+                    { status: 'failed', nextAttemptAt: { $lte: now } },
+                    { status: 'pending', updatedAt: { $lte: staleBefore } },
+                ],
+            },
+            { $set: { status: 'pending' }, $unset: { nextAttemptAt: 1 } },
+            { new: true, sort: { createdAt: 1 } }
+        );
+
+        if (!notification) {
+            break;
+        }
+
+        result.retried += 1;
+        if (await deliver(notification)) {
+            result.sent += 1;
+        } else {
+            result.failed += 1;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Remind members of unpaid contributions falling due within the next few days.
+ * Each contribution is reminded about once.
+ */
+export async function sendContributionReminders(asOfDate: Date = new Date()) {
+    const windowEnd = new Date(asOfDate.getTime() + COMMUNITY_CONFIG.NOTIFICATION_RULES.REMINDER_DAYS_BEFORE_DUE * DAY_MS);
+    const { contributionCalendar } = await getSettings();
+
+    // Member-submitted payments awaiting approval already have a paid date
+    const contributions = await Contribution.find({
+        paidStatus: 'pending',
+        paidDate: { $exists: false },
+        month: {
+            $in: [getContributionMonth(asOfDate, contributionCalendar), getContributionMonth(windowEnd, contributionCalendar)],
+        },
+    }).lean();
+
+    let contributionsReminded = 0;
+    let messagesQueued = 0;
+
+    for (const contribution of contributions) {
+        const dueDate = getContributionDueDate(contribution.month, contributionCalendar);
+        if (dueDate < asOfDate || dueDate > windowEnd) {
+            continue;
+        }
+
+        const queued = await notifyUser(
+            contribution.userId.toString(),
+            'contribution-due',
+            { month: contribution.month, amount: contribution.amount, dueDate },
+            { dedupeKey: `contribution-due:${contribution._id}` }
+        );
+
+        if (queued > 0) {
+            contributionsReminded += 1;
+            messagesQueued += queued;
+        }
+    }
+
+    return { contributionsReminded, messagesQueued };
+}
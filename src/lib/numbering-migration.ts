@@ -0,0 +1,138 @@
+import { Model } from 'mongoose';
+import Contribution from '@/models/Contribution';
+import Repayment from '@/models/Repayment';
+import HistoricalInterest from '@/models/HistoricalInterest';
+import User from '@/models/User';
+import { formatSequenceNumber, getCounterKey, NumberSequence, parseSequenceNumber, setCounter } from '@/lib/counters';
+
+export interface ReceiptRenumberResult {
+    total: number;
+    renumbered: number;
+}
+
+export interface NumberingMigrationResult {
+    receipts: Record<'contributions' | 'repayments' | 'historicalInterest', ReceiptRenumberResult>;
+    members: {
+        total: number;
+        matched: number;
+        unmatched: string[]; // Member IDs that do not follow the configured format and were left alone
+    };
+    counters: { key: string; seq: number }[];
+}
+
+interface ReceiptSource {
+    sequence: NumberSequence;
+    model: Model<any>;
+    dateField: string;
+    filter: Record<string, unknown>;
+}
+
+interface NumberedRecord {
+    _id: unknown;
+    receiptNumber?: string;
+    legacyReceiptNumber?: string;
+    createdAt: Date;
+    [field: string]: unknown;
+}
+
+/**
+ * Give every receipt of one kind a sequential number in the order the money
+ * was received, keeping the number it had before as legacyReceiptNumber.
+ * Numbering is deterministic, so running it again changes nothing.
+ */
+async function renumberReceipts(source: ReceiptSource, counters: Map<string, number>): Promise<ReceiptRenumberResult> {
+    const records = (await source.model.find(source.filter)
+        .select(`receiptNumber legacyReceiptNumber ${source.dateField} createdAt`)
+        .lean()) as NumberedRecord[];
+
+    const dated = records
+        .map((record) => ({ record, date: new Date((record[source.dateField] as Date) || record.createdAt) }))
+        .sort((a, b) =>
+            a.date.getTime() - b.date.getTime() ||
+            new Date(a.record.createdAt).getTime() - new Date(b.record.createdAt).getTime() ||
+            String(a.record._id).localeCompare(String(b.record._id))
+        );
+
+    const positions = new Map<string, number>();
+    const changes = dated.flatMap(({ record, date }) => {
+        const key = getCounterKey(source.sequence, date);
+        const seq = (positions.get(key) || 0) + 1;
+        positions.set(key, seq);
+
+        const receiptNumber = formatSequenceNumber(source.sequence, seq, date);
+        return record.receiptNumber === receiptNumber ? [] : [{ record, receiptNumber }];
+    });
+
+    // Clear the old numbers first so the unique index never sees two records with the same one
+    for (const { record } of changes) {
+        await source.model.updateOne(
+            { _id: record._id },
+            {
+                $unset: { receiptNumber: 1 },
+                ...(!record.legacyReceiptNumber && record.receiptNumber
+                    ? { $set: { legacyReceiptNumber: record.receiptNumber } }
+                    : {}),
+            }
+        );
+    }
+    for (const { record, receiptNumber } of changes) {
+        await source.model.updateOne({ _id: record._id }, { $set: { receiptNumber } });
+    }
+
+    positions.forEach((seq, key) => counters.set(key, seq));
+
+    return { total: records.length, renumbered: changes.length };
+}
+
+/**
+ * Move receipts and member IDs onto the counters. Receipts are renumbered in
+ * date order; member IDs are kept, since members already quote them, and the
+ * member counter starts after the highest one that follows the format. Run it
+ * while no payments or members are being recorded.
+ */
+export async function migrateRecordNumbers(): Promise<NumberingMigrationResult> {
+    const receiptCounters = new Map<string, number>();
+
+    const receipts = {
+        contributions: await renumberReceipts(
+            { sequence: 'contribution-receipt', model: Contribution, dateField: 'paidDate', filter: { paidStatus: 'paid' } },
+            receiptCounters
+        ),
+        repayments: await renumberReceipts(
+            { sequence: 'repayment-receipt', model: Repayment, dateField: 'paymentDate', filter: {} },
+            receiptCounters
+        ),
+        historicalInterest: await renumberReceipts(
+            { sequence: 'historical-interest-receipt', model: HistoricalInterest, dateField: 'interestDate', filter: {} },
+            receiptCounters
+        ),
+    };
+
+    // Every receipt was just numbered from 1, so these counters are set exactly
+    for (const [key, seq] of receiptCounters) {
+        await setCounter(key, seq);
+    }
+
+    const users = await User.find().select('memberId').lean();
+    const memberCounters = new Map<string, number>();
+    const unmatched: string[] = [];
+
+    for (const user of users) {
+        const parsed = parseSequenceNumber('member-id', user.memberId);
+        if (!parsed) {
+            unmatched.push(user.memberId);
+            continue;
+        }
+        memberCounters.set(parsed.key, Math.max(memberCounters.get(parsed.key) || 0, parsed.seq));
+    }
+
+    for (const [key, seq] of memberCounters) {
+        await setCounter(key, seq, true);
+    }
+
+    return {
+        receipts,
+        members: { total: users.length, matched: users.length - unmatched.length, unmatched },
+        counters: [...receiptCounters, ...memberCounters].map(([key, seq]) => ({ key, seq })),
+    };
+}
@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+import User from '@/models/User';
+import { COMMUNITY_CONFIG } from '@/config/community';
+import { validatePassword } from '@/lib/auth';
+import { getSettings } from '@/lib/settings';
+import { getNotificationProvider } from '@/lib/notification-providers';
+import { renderNotification } from '@/lib/notification-templates';
+import { NotificationChannel } from '@/types';
+
+const hashResetToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Account an email address or phone number belongs to, and the channel to
+ * send its reset link on. A phone number shared by several accounts matches none.
+ */
+async function findResetAccount(identifier: string) {
+    const channel: NotificationChannel = identifier.includes('@') ? 'email' : 'sms';
+    const query = channel === 'email'
+        ? { email: identifier.toLowerCase() }
+        : { phone: identifier };
+
+    const users = await User.find({ ...query, isActive: true, hasLoginAccess: true })
+        .select('name email phone preferredLanguage')
+        .limit(2);
+
+    if (users.length !== 1) {
+        return null;
+    }
+    const user = users[0];
+    return { user, channel, recipient: channel === 'email' ? user.email! : user.phone! };
+}
+
+/**
+ * Send a single-use reset link to the account an email address or phone
+ * number belongs to. Only the token's hash is stored, and a new request
+ * replaces any earlier link. Callers answer the same way whether or not an
+ * account matched, so this never reports which one it was.
+ */
+export async function requestPasswordReset(identifier: string, baseUrl: string): Promise<void> {
+    const account = await findResetAccount(identifier.trim());
+    if (!account) {
+        return;
+    }
+
+    const { user, channel, recipient } = account;
+    const { TOKEN_TTL_MINUTES } = COMMUNITY_CONFIG.PASSWORD_RESET;
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    // Saving the document would recompute hasLoginAccess without the password loaded
+    await User.updateOne(
+        { _id: user._id },
+        {
+            $set: {
+                passwordResetTokenHash: hashResetToken(token),
+                passwordResetExpires: new Date(Date.now() + TOKEN_TTL_MINUTES * 60 * 1000),
+            },
+        }
+    );
+
+    const { communityName, contributionCalendar } = await getSettings();
+    const resetUrl = new URL(`/reset-password?token=${token}`, baseUrl).toString();
+    const message = renderNotification(
+        'password-reset',
+        user.preferredLanguage || 'en',
+        { resetUrl, expiresInMinutes: TOKEN_TTL_MINUTES },
+        { name: user.name, communityName, calendar: contributionCalendar }
+    );
+
+    // Sent straight to the provider rather than through the notification log,
+    // which would keep a working link in the database
+    try {
+        await getNotificationProvider(channel).send({
+            channel,
+            to: recipient,
+            subject: channel === 'email' ? message.subject : undefined,
+            body: channel === 'email' ? message.body : message.sms,
+        });
+    } catch (error) {
+        console.error(`Failed to send password reset ${channel}:`, error);
+    }
+}
+
+/**
+ * Set a new password with a reset token. The token is claimed atomically, so
+ * it works once, and every session signed in before the reset is ended.
+ */
+export async function resetPassword(token: string, password: string): Promise<{ error?: string }> {
+    const passwordValidation = validatePassword(password);
+    if (!passwordValidation.isValid) {
+        return { error: passwordValidation.message };
+    }
+
+    const user = await User.findOneAndUpdate(
+        {
+            passwordResetTokenHash: hashResetToken(token),
+            passwordResetExpires: { $gt: new Date() },
+            isActive: true,
+        },
+        { $unset: { passwordResetTokenHash: 1, passwordResetExpires: 1 } },
+        { new: true }
+    ).select('+password');
+
+    if (!user) {
+        return { error: 'This reset link is invalid or has expired. Please request a new one.' };
+    }
+
+    user.password = password;
+    user.sessionVersion = (user.sessionVersion || 0) + 1;
+    await user.save();
+
+    return {};
+}
@@ -0,0 +1,201 @@
+import mongoose from 'mongoose';
+import Contribution from '@/models/Contribution';
+import Loan from '@/models/Loan';
+import Repayment from '@/models/Repayment';
+import { calculateLoanPayoff } from '@/lib/loan-calculations';
+import { syncContributionEntry, syncRepaymentEntry } from '@/lib/ledger';
+import { getClosedPeriodError } from '@/lib/period-close';
+import { IContribution, ILoan, IRepayment } from '@/types';
+
+export interface OpenLoan {
+    loan: ILoan;
+    repayments: { amount: number; paymentDate: Date; principalAmount: number; interestAmount: number }[];
+}
+
+export interface PaymentDetails {
+    amount: number;
+    date: Date;
+    paymentMethod: 'bank_transfer' | 'mobile_money';
+    note: string;
+    recordedBy: string;
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Split a payment on an open loan into interest accrued to the payment date
+ * and principal, or null when it is more than the loan's payoff
+ */
+export function splitLoanPayment(openLoan: OpenLoan, amount: number, date: Date) {
+    const { outstandingPrincipal, outstandingInterest } = calculateLoanPayoff(openLoan.loan, openLoan.repayments, date);
+    const interestAmount = roundCurrency(Math.min(amount, outstandingInterest));
+    const principalAmount = roundCurrency(amount - interestAmount);
+
+    if (principalAmount > outstandingPrincipal + 0.01) {
+        return null;
+    }
+    return {
+        principalAmount,
+        interestAmount,
+        remainingPrincipal: roundCurrency(Math.max(0, outstandingPrincipal - principalAmount)),
+    };
+}
+
+/**
+ * Mark a pending contribution paid by a payment received outside the admin
+ * forms, and post it to the ledger
+ */
+export async function payContribution(
+    contributionId: string | mongoose.Types.ObjectId,
+    payment: PaymentDetails
+): Promise<IContribution> {
+    const contribution = await Contribution.findById(contributionId);
+
+    if (!contribution) {
+        throw new Error('Contribution no longer exists');
+    }
+    if (contribution.paidStatus === 'paid') {
+        throw new Error(`Contribution for ${contribution.month} is already paid`);
+    }
+    if (Math.abs(contribution.amount - payment.amount) >= 0.01) {
+        throw new Error('Payment amount does not match the contribution');
+    }
+
+    const closedError = await getClosedPeriodError({ months: [contribution.month], dates: [payment.date] });
+    if (closedError) {
+        throw new Error(closedError);
+    }
+
+    const session = await mongoose.startSession();
+    let paid: IContribution | null = null;
+    let alreadyPaid = false;
+
+    try {
+        await session.withTransaction(async () => {
+            // Claim the contribution, so a second payment for it cannot also be posted
+            paid = await Contribution.findOneAndUpdate(
+                { _id: contribution._id, paidStatus: { $ne: 'paid' } },
+                {
+                    $set: {
+                        paidStatus: 'paid',
+                        paidDate: payment.date,
+                        paymentMethod: payment.paymentMethod,
+                        notes: [contribution.notes, payment.note].filter(Boolean).join('; '),
+                        recordedBy: new mongoose.Types.ObjectId(payment.recordedBy),
+                    },
+                },
+                { new: true, session }
+            );
+
+            if (!paid) {
+                alreadyPaid = true;
+                throw new Error('Contribution was paid during posting');
+            }
+
+            // Saved again so the receipt is numbered
+            await paid.save({ session });
+            await syncContributionEntry(paid, { session, postedBy: payment.recordedBy });
+        });
+    } catch (error) {
+        if (!alreadyPaid) {
+            throw error;
+        }
+    } finally {
+        await session.endSession();
+    }
+
+    if (alreadyPaid || !paid) {
+        throw new Error(`Contribution for ${contribution.month} is already paid`);
+    }
+
+    return paid;
+}
+
+/**
+ * Record a payment received outside the admin forms as a loan repayment. The
+ * interest and principal split is worked out at posting time, since other
+ * payments may have been recorded since the payment was started or matched.
+ */
+export async function payLoan(
+    loanId: string | mongoose.Types.ObjectId,
+    payment: PaymentDetails
+): Promise<{ loan: ILoan; repayment: IRepayment }> {
+    const loan = await Loan.findById(loanId);
+
+    if (!loan || loan.status !== 'disbursed' || loan.remainingBalance <= 0) {
+        throw new Error('Loan is no longer open for repayments');
+    }
+
+    const closedError = await getClosedPeriodError({ dates: [payment.date] });
+    if (closedError) {
+        throw new Error(closedError);
+    }
+
+    const repayments = await Repayment.find({ loanId: loan._id })
+        .select('amount paymentDate principalAmount interestAmount')
+        .lean();
+    const split = splitLoanPayment({ loan, repayments }, payment.amount, payment.date);
+    if (!split) {
+        throw new Error('Payment is more than the loan balance and interest due');
+    }
+
+    const loanUpdate: Record<string, any> = {
+        $set: { remainingBalance: split.remainingPrincipal },
+        $inc: { amountPaid: split.principalAmount },
+    };
+    if (split.remainingPrincipal <= 0) {
+        loanUpdate.$set.status = 'completed';
+        loanUpdate.$set.actualRepaymentDate = payment.date;
+    }
+
+    // Write the repayment and update the loan atomically
+    const session = await mongoose.startSession();
+    let savedRepayment: IRepayment | null = null;
+    let loanChanged = false;
+
+    try {
+        await session.withTransaction(async () => {
+            const [repayment] = await Repayment.create([{
+                loanId: loan._id,
+                userId: loan.userId,
+                amount: payment.amount,
+                paymentDate: payment.date,
+                paymentMethod: payment.paymentMethod,
+                principalAmount: split.principalAmount,
+                interestAmount: split.interestAmount,
+                remainingBalance: split.remainingPrincipal,
+                recordedBy: new mongoose.Types.ObjectId(payment.recordedBy),
+                notes: payment.note,
+            }], { session });
+
+            // Guard against a concurrent repayment or settlement on the same loan
+            const result = await Loan.updateOne(
+                { _id: loan._id, status: 'disbursed', repayments: { $size: loan.repayments.length } },
+                { ...loanUpdate, $push: { repayments: repayment._id } },
+                { session }
+            );
+
+            if (result.matchedCount === 0) {
+                loanChanged = true;
+                throw new Error('Loan was modified during posting');
+            }
+
+            await syncRepaymentEntry(repayment, { session, postedBy: payment.recordedBy });
+
+            savedRepayment = repayment;
+        });
+    } catch (error) {
+        if (!loanChanged) {
+            throw error;
+        }
+    } finally {
+        await session.endSession();
+    }
+
+    if (loanChanged || !savedRepayment) {
+        throw new Error('Loan was updated by another payment while this one was being posted');
+    }
+
+    const updatedLoan = await Loan.findById(loan._id);
+    return { loan: updatedLoan || loan, repayment: savedRepayment };
+}
@@ -0,0 +1,194 @@
+export interface PdfTextOptions {
+    size?: number;
+    bold?: boolean;
+    align?: 'left' | 'center' | 'right';
+    gray?: number; // 0 is black, 1 is white
+}
+
+export interface PdfLineOptions {
+    width?: number;
+    gray?: number;
+}
+
+// Glyph widths of the standard Helvetica fonts for characters 32-126, in 1/1000 em
+const HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+const DEFAULT_WIDTH = 556;
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+/**
+ * Text in the PDF's WinAnsi encoding as an escaped string literal. The
+ * standard fonts have no Devanagari glyphs, so characters outside Latin-1
+ * print as "?".
+ */
+function encodeText(text: string): string {
+    let encoded = '';
+    for (const char of text) {
+        const code = char.codePointAt(0) || 63;
+        if (char === '(' || char === ')' || char === '\\') {
+            encoded += `\\${char}`;
+        } else if (code >= 32 && code <= 126) {
+            encoded += char;
+        } else if (code >= 160 && code <= 255) {
+            encoded += `\\${code.toString(8)}`;
+        } else {
+            encoded += '?';
+        }
+    }
+    return `(${encoded})`;
+}
+
+/**
+ * Minimal single-font PDF writer for printable documents: text, lines and
+ * shaded boxes on A4 pages, portrait or landscape. Coordinates are in points
+ * from the top left.
+ */
+export class PdfDocument {
+    readonly width: number;
+    readonly height: number;
+    private pages: string[][] = [];
+
+    constructor(options: { landscape?: boolean } = {}) {
+        this.width = options.landscape ? 841.89 : 595.28;
+        this.height = options.landscape ? 595.28 : 841.89;
+        this.addPage();
+    }
+
+    addPage() {
+        this.pages.push([]);
+    }
+
+    private get content(): string[] {
+        return this.pages[this.pages.length - 1];
+    }
+
+    textWidth(text: string, size = 10, bold = false): number {
+        const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+        let total = 0;
+        for (const char of text) {
+            const code = char.codePointAt(0) || 0;
+            total += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH;
+        }
+        return (total * size) / 1000;
+    }
+
+    /**
+     * Shorten text with an ellipsis so it fits within maxWidth
+     */
+    fitText(text: string, maxWidth: number, size = 10, bold = false): string {
+        if (this.textWidth(text, size, bold) <= maxWidth) {
+            return text;
+        }
+
+        let fitted = text;
+        while (fitted && this.textWidth(`${fitted}...`, size, bold) > maxWidth) {
+            fitted = fitted.slice(0, -1);
+        }
+        return `${fitted.trimEnd()}...`;
+    }
+
+    /**
+     * Split text into lines no wider than maxWidth
+     */
+    wrapText(text: string, maxWidth: number, size = 10, bold = false): string[] {
+        const lines: string[] = [];
+        let current = '';
+
+        for (const word of text.split(/\s+/).filter(Boolean)) {
+            const candidate = current ? `${current} ${word}` : word;
+            if (current && this.textWidth(candidate, size, bold) > maxWidth) {
+                lines.push(current);
+                current = word;
+            } else {
+                current = candidate;
+            }
+        }
+
+        if (current) {
+            lines.push(current);
+        }
+        return lines;
+    }
+
+    text(text: string, x: number, y: number, options: PdfTextOptions = {}) {
+        const { size = 10, bold = false, align = 'left', gray = 0 } = options;
+        const width = this.textWidth(text, size, bold);
+        const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+
+        this.content.push(
+            `BT ${formatNumber(gray)} g /${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ` +
+            `${formatNumber(left)} ${formatNumber(this.height - y)} Td ${encodeText(text)} Tj ET`
+        );
+    }
+
+    line(x1: number, y1: number, x2: number, y2: number, options: PdfLineOptions = {}) {
+        const { width = 0.5, gray = 0 } = options;
+        this.content.push(
+            `${formatNumber(gray)} G ${formatNumber(width)} w ` +
+            `${formatNumber(x1)} ${formatNumber(this.height - y1)} m ${formatNumber(x2)} ${formatNumber(this.height - y2)} l S`
+        );
+    }
+
+    rect(x: number, y: number, width: number, height: number, fillGray = 0.95) {
+        this.content.push(
+            `${formatNumber(fillGray)} g ${formatNumber(x)} ${formatNumber(this.height - y - height)} ` +
+            `${formatNumber(width)} ${formatNumber(height)} re f`
+        );
+    }
+
+    /**
+     * Serialise the document. Everything written is ASCII, so string lengths
+     * are byte offsets for the cross-reference table.
+     */
+    toBuffer(): Buffer {
+        const objects: string[] = [];
+        const pageCount = this.pages.length;
+        // 1: catalog, 2: page tree, 3-4: fonts, then a page and its content stream per page
+        const pageIds = this.pages.map((_, index) => 5 + index * 2);
+
+        objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+        objects.push(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageCount} >>`);
+        objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+        objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+        this.pages.forEach((operations, index) => {
+            const stream = operations.join('\n');
+            objects.push(
+                `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] ` +
+                `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+            );
+            objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+        });
+
+        let output = '%PDF-1.4\n';
+        const offsets = objects.map((body, index) => {
+            const offset = output.length;
+            output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+            return offset;
+        });
+
+        const xrefOffset = output.length;
+        output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+        output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+        output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+        return Buffer.from(output, 'latin1');
+    }
+}
@@ -0,0 +1,173 @@
+import mongoose from 'mongoose';
+import Contribution from '@/models/Contribution';
+import Loan from '@/models/Loan';
+import Repayment from '@/models/Repayment';
+import Penalty from '@/models/Penalty';
+import { COMMUNITY_CONFIG } from '@/config/community';
+import { matchRepaymentsToSchedule } from '@/lib/loan-schedule';
+import { formatContributionMonth, getContributionMonth, getPeriodDay } from '@/lib/periods';
+import { getSettings } from '@/lib/settings';
+import { ContributionCalendar } from '@/types';
+
+export interface PenaltyAssessmentResult {
+    asOfDate: Date;
+    contributionsMarkedOverdue: number;
+    contributionPenaltiesCreated: number;
+    loanPenaltiesCreated: number;
+    totalAssessed: number;
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Last moment a contribution for the given month (YYYY-MM) can be paid without
+ * a late fee: the end of the grace day of that month in the group's calendar
+ */
+export function getContributionDueDate(month: string, calendar: ContributionCalendar = 'AD'): Date {
+    const { GRACE_DAY } = COMMUNITY_CONFIG.PENALTY_RULES.CONTRIBUTION_LATE_FEE;
+    const dueDate = getPeriodDay(month, GRACE_DAY, calendar);
+    dueDate.setHours(23, 59, 59, 999);
+    return dueDate;
+}
+
+/**
+ * Mark unpaid contributions past their due day as overdue and charge late fees
+ */
+async function assessContributionPenalties(asOfDate: Date, assessedBy?: string) {
+    const rule = COMMUNITY_CONFIG.PENALTY_RULES.CONTRIBUTION_LATE_FEE;
+    const { contributionCalendar } = await getSettings();
+    const currentMonth = getContributionMonth(asOfDate, contributionCalendar);
+
+    const unpaidContributions = await Contribution.find({
+        paidStatus: { $in: ['pending', 'overdue'] },
+        month: { $lte: currentMonth },
+    }).lean();
+
+    const lateContributions = unpaidContributions.filter((contribution) => {
+        const dueDate = getContributionDueDate(contribution.month, contributionCalendar);
+        // Member-submitted payments made before the due date are awaiting approval, not late
+        const paidOnTime = contribution.paidDate && new Date(contribution.paidDate) <= dueDate;
+        return asOfDate > dueDate && !paidOnTime;
+    });
+
+    const overdueResult = await Contribution.updateMany(
+        {
+            _id: { $in: lateContributions.map((contribution) => contribution._id) },
+            paidStatus: 'pending',
+        },
+        { $set: { paidStatus: 'overdue' } }
+    );
+
+    let penaltiesCreated = 0;
+    let totalAssessed = 0;
+
+    if (rule.ENABLED && rule.FLAT_FEE > 0) {
+        for (const contribution of lateContributions) {
+            const result = await Penalty.updateOne(
+                { contributionId: contribution._id, type: 'contribution_late_fee' },
+                {
+                    $setOnInsert: {
+                        userId: contribution.userId,
+                        amount: rule.FLAT_FEE,
+                        reason: `Late contribution for ${formatContributionMonth(contribution.month, contributionCalendar)} (due by day ${rule.GRACE_DAY})`,
+                        month: contribution.month,
+                        assessedDate: asOfDate,
+                        assessedBy: assessedBy ? new mongoose.Types.ObjectId(assessedBy) : undefined,
+                        status: 'outstanding',
+                    },
+                },
+                { upsert: true }
+            );
+
+            if (result.upsertedCount > 0) {
+                penaltiesCreated++;
+                totalAssessed += rule.FLAT_FEE;
+            }
+        }
+    }
+
+    return {
+        contributionsMarkedOverdue: overdueResult.modifiedCount,
+        penaltiesCreated,
+        totalAssessed,
+    };
+}
+
+/**
+ * Charge a percentage of the unpaid amount on installments past their grace period
+ */
+async function assessLoanPenalties(asOfDate: Date, assessedBy?: string) {
+    const rule = COMMUNITY_CONFIG.PENALTY_RULES.LOAN_INSTALLMENT_OVERDUE;
+
+    if (!rule.ENABLED || rule.PERCENTAGE <= 0) {
+        return { penaltiesCreated: 0, totalAssessed: 0 };
+    }
+
+    const graceMs = rule.GRACE_DAYS * 24 * 60 * 60 * 1000;
+    const scheduledLoans = await Loan.find({
+        status: 'disbursed',
+        'schedule.0': { $exists: true },
+    }).lean();
+
+    let penaltiesCreated = 0;
+    let totalAssessed = 0;
+
+    for (const loan of scheduledLoans) {
+        const repayments = await Repayment.find({ loanId: loan._id }).lean();
+        const installments = matchRepaymentsToSchedule(loan.schedule || [], repayments as any[], asOfDate);
+
+        for (const installment of installments) {
+            const pastGrace = asOfDate.getTime() > new Date(installment.dueDate).getTime() + graceMs;
+            if (installment.status !== 'overdue' || !pastGrace) {
+                continue;
+            }
+
+            const amount = roundCurrency(installment.outstandingAmount * (rule.PERCENTAGE / 100));
+            if (amount <= 0) {
+                continue;
+            }
+
+            const result = await Penalty.updateOne(
+                { loanId: loan._id, installmentNumber: installment.installmentNumber },
+                {
+                    $setOnInsert: {
+                        userId: loan.userId,
+                        type: 'loan_installment_overdue',
+                        amount,
+                        reason: `Installment ${installment.installmentNumber} overdue since ${new Date(installment.dueDate).toISOString().split('T')[0]} (${rule.PERCENTAGE}% of unpaid amount)`,
+                        assessedDate: asOfDate,
+                        assessedBy: assessedBy ? new mongoose.Types.ObjectId(assessedBy) : undefined,
+                        status: 'outstanding',
+                    },
+                },
+                { upsert: true }
+            );
+
+            if (result.upsertedCount > 0) {
+                penaltiesCreated++;
+                totalAssessed += amount;
+            }
+        }
+    }
+
+    return { penaltiesCreated, totalAssessed };
+}
+
+/**
+ * Run all penalty rules as of the given date. Safe to run repeatedly: each late
+ * contribution and overdue installment is charged at most once.
+ */
+export async function assessLatePenalties(asOfDate?: Date, assessedBy?: string): Promise<PenaltyAssessmentResult> {
+    const now = asOfDate || new Date();
+
+    const contributionResult = await assessContributionPenalties(now, assessedBy);
+    const loanResult = await assessLoanPenalties(now, assessedBy);
+
+    return {
+        asOfDate: now,
+        contributionsMarkedOverdue: contributionResult.contributionsMarkedOverdue,
+        contributionPenaltiesCreated: contributionResult.penaltiesCreated,
+        loanPenaltiesCreated: loanResult.penaltiesCreated,
+        totalAssessed: roundCurrency(contributionResult.totalAssessed + loanResult.totalAssessed),
+    };
+}
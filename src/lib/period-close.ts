@@ -0,0 +1,312 @@
+import mongoose, { Types } from 'mongoose';
+import Contribution from '@/models/Contribution';
+import Loan from '@/models/Loan';
+import Repayment from '@/models/Repayment';
+import MemberWithdrawal from '@/models/MemberWithdrawal';
+import PeriodClose from '@/models/PeriodClose';
+import { getIncomeForPeriod } from '@/lib/dividends';
+import { getTrialBalance } from '@/lib/ledger';
+import { getSettings } from '@/lib/settings';
+import { COMMUNITY_CONFIG } from '@/config/community';
+import {
+    formatContributionMonth,
+    formatFiscalYear,
+    getFiscalYearMonths,
+    getFiscalYearRange,
+    getPeriodEnd,
+    getPeriodStart,
+} from '@/lib/periods';
+import { IPeriodClose, IPeriodCloseTotals, PeriodCloseType } from '@/types';
+
+// Records a lock check is asked about: dated records by their dates and
+// contributions by their month key
+export interface PeriodLockTarget {
+    dates?: (Date | string | null | undefined)[];
+    months?: (string | null | undefined)[];
+}
+
+const MIN_REOPEN_REASON_LENGTH = 10;
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Dates, months and label of a month or fiscal year, or an error when the
+ * period is malformed. Months follow the group's calendar.
+ */
+async function resolvePeriod(periodType: PeriodCloseType, period: string) {
+    if (periodType === 'month') {
+        if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(period)) {
+            return { error: 'Month must be in format YYYY-MM' };
+        }
+        const { contributionCalendar } = await getSettings();
+        return {
+            label: formatContributionMonth(period, contributionCalendar),
+            startDate: getPeriodStart(period, contributionCalendar),
+            endDate: getPeriodEnd(period, contributionCalendar),
+            months: [period],
+        };
+    }
+
+    const fiscalYear = Number(period);
+    if (!/^\d{4}$/.test(period) || fiscalYear < 2000 || fiscalYear > 2200) {
+        return { error: 'Fiscal year must be a BS year between 2000 and 2200' };
+    }
+    const { start, end } = getFiscalYearRange(fiscalYear);
+    return {
+        label: `FY ${formatFiscalYear(fiscalYear)}`,
+        startDate: start,
+        endDate: end,
+        months: getFiscalYearMonths(fiscalYear),
+    };
+}
+
+/**
+ * Totals for a period as they stand now: contributions for its months, money
+ * moved within its dates and the ledger balances at its end
+ */
+export async function getPeriodTotals(startDate: Date, endDate: Date, months: string[]): Promise<IPeriodCloseTotals> {
+    const [contributions, loans, repayments, withdrawals, income, trialBalance] = await Promise.all([
+        Contribution.aggregate([
+            { $match: { month: { $in: months } } },
+            {
+                $group: {
+                    _id: { $cond: [{ $eq: ['$paidStatus', 'paid'] }, 'paid', 'pending'] },
+                    total: { $sum: '$amount' },
+                },
+            },
+        ]),
+        // Loans without a recorded disbursement date are booked on the approval date
+        Loan.aggregate([
+            { $match: { status: { $in: ['disbursed', 'completed'] } } },
+            { $addFields: { bookedDate: { $ifNull: ['$disbursementDate', '$approvalDate'] } } },
+            { $match: { bookedDate: { $gte: startDate, $lte: endDate } } },
+            { $group: { _id: null, total: { $sum: { $ifNull: ['$approvedAmount', '$requestedAmount'] } } } },
+        ]),
+        Repayment.aggregate([
+            { $match: { paymentDate: { $gte: startDate, $lte: endDate } } },
+            { $group: { _id: null, total: { $sum: '$principalAmount' } } },
+        ]),
+        MemberWithdrawal.aggregate([
+            { $match: { status: 'approved', exitDate: { $gte: startDate, $lte: endDate } } },
+            { $group: { _id: null, total: { $sum: '$netPayout' } } },
+        ]),
+        getIncomeForPeriod(startDate, endDate),
+        getTrialBalance(endDate),
+    ]);
+
+    const contributionTotal = (key: string) => contributions.find((row) => row._id === key)?.total || 0;
+    const balanceOf = (code: string) => trialBalance.accounts.find((account) => account.code === code)?.balance || 0;
+
+    return {
+        contributionsPaid: roundCurrency(contributionTotal('paid')),
+        contributionsPending: roundCurrency(contributionTotal('pending')),
+        loansDisbursed: roundCurrency(loans[0]?.total || 0),
+        principalRepaid: roundCurrency(repayments[0]?.total || 0),
+        interestCollected: income.repaymentInterest,
+        historicalInterest: income.historicalInterest,
+        penaltiesCollected: income.penaltiesCollected,
+        withdrawalsPaid: roundCurrency(withdrawals[0]?.total || 0),
+        cashBalance: balanceOf('CASH'),
+        loansReceivable: balanceOf('LOANS_RECEIVABLE'),
+        memberSavings: balanceOf('MEMBER_SAVINGS'),
+    };
+}
+
+/**
+ * Close an ended month or fiscal year and snapshot its totals. A reopened
+ * period is closed again with fresh totals.
+ */
+export async function closePeriod(
+    periodType: PeriodCloseType,
+    period: string,
+    closedBy: string,
+    notes?: string
+): Promise<{ periodClose?: IPeriodClose; error?: string }> {
+    const resolved = await resolvePeriod(periodType, period);
+    if (resolved.error) {
+        return { error: resolved.error };
+    }
+    const { label, startDate, endDate, months } = resolved as Required<typeof resolved>;
+
+    if (endDate >= new Date()) {
+        return { error: `${label} has not ended yet` };
+    }
+
+    const existing = await PeriodClose.findOne({ periodType, period });
+    if (existing?.status === 'closed') {
+        return { error: `${label} is already closed` };
+    }
+
+    const closedAt = new Date();
+    const closerId = new mongoose.Types.ObjectId(closedBy);
+    const periodClose = existing || new PeriodClose({ periodType, period });
+
+    periodClose.label = label;
+    periodClose.startDate = startDate;
+    periodClose.endDate = endDate;
+    periodClose.months = months;
+    periodClose.status = 'closed';
+    periodClose.totals = await getPeriodTotals(startDate, endDate, months);
+    periodClose.closedBy = closerId;
+    periodClose.closedAt = closedAt;
+    periodClose.notes = notes;
+    periodClose.history = [
+        ...(periodClose.history || []),
+        { action: 'close', by: closerId, date: closedAt, reason: notes },
+    ];
+
+    await periodClose.save();
+    return { periodClose };
+}
+
+/**
+ * Why a period cannot be reopened with the given reason, or null when it can
+ */
+async function getReopenError(periodClose: IPeriodClose, reason: string): Promise<string | null> {
+    if (periodClose.status !== 'closed') {
+        return `${periodClose.label} is not closed`;
+    }
+
+    if (reason.length < MIN_REOPEN_REASON_LENGTH) {
+        return `A reason of at least ${MIN_REOPEN_REASON_LENGTH} characters is required to reopen a period`;
+    }
+
+    // A month inside a closed fiscal year would stay locked
+    if (periodClose.periodType === 'month') {
+        const fiscalYear = await PeriodClose.findOne({
+            periodType: 'fiscal_year',
+            status: 'closed',
+            months: periodClose.period,
+        });
+        if (fiscalYear) {
+            return `${fiscalYear.label} is closed. Reopen the fiscal year first.`;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Reopen a period, keeping the reason on it alongside every earlier close and reopen
+ */
+async function applyReopen(
+    periodClose: IPeriodClose,
+    reopenedBy: Types.ObjectId,
+    reason: string,
+    confirmedBy?: Types.ObjectId
+): Promise<IPeriodClose> {
+    const reopenedAt = new Date();
+
+    periodClose.status = 'reopened';
+    periodClose.reopenedBy = reopenedBy;
+    periodClose.reopenedAt = reopenedAt;
+    periodClose.reopenReason = reason;
+    periodClose.pendingReopen = undefined;
+    periodClose.history = [
+        ...(periodClose.history || []),
+        { action: 'reopen', by: reopenedBy, confirmedBy, date: reopenedAt, reason },
+    ];
+
+    await periodClose.save();
+    return periodClose;
+}
+
+/**
+ * Ask to reopen a closed period so its records can be corrected. Under dual
+ * control the period stays closed until a different admin confirms; otherwise
+ * it is reopened straight away.
+ */
+export async function requestPeriodReopen(
+    periodClose: IPeriodClose,
+    requestedBy: string,
+    reason: string
+): Promise<{ periodClose?: IPeriodClose; pendingConfirmation?: boolean; error?: string }> {
+    if (periodClose.pendingReopen) {
+        return { error: `A reopen of ${periodClose.label} is already awaiting confirmation by a second admin` };
+    }
+
+    const trimmedReason = reason?.trim() || '';
+    const reopenError = await getReopenError(periodClose, trimmedReason);
+    if (reopenError) {
+        return { error: reopenError };
+    }
+
+    const requesterId = new mongoose.Types.ObjectId(requestedBy);
+    const { ENABLED, PERIOD_REOPEN } = COMMUNITY_CONFIG.DUAL_CONTROL;
+
+    if (!ENABLED || !PERIOD_REOPEN) {
+        return { periodClose: await applyReopen(periodClose, requesterId, trimmedReason) };
+    }
+
+    // Only one reopen can wait at a time, even when two admins ask at once
+    const held = await PeriodClose.updateOne(
+        { _id: periodClose._id, status: 'closed', pendingReopen: { $exists: false } },
+        { $set: { pendingReopen: { requestedBy: requesterId, requestedDate: new Date(), reason: trimmedReason } } }
+    );
+    if (held.matchedCount === 0) {
+        return { error: `${periodClose.label} was changed by another admin. Refresh and try again.` };
+    }
+
+    const updated = await PeriodClose.findById(periodClose._id);
+    return { periodClose: updated || periodClose, pendingConfirmation: true };
+}
+
+/**
+ * Carry out a reopen another admin asked for. The period is checked again,
+ * since a fiscal year around it may have been closed in the meantime.
+ */
+export async function confirmPeriodReopen(
+    periodClose: IPeriodClose,
+    confirmedBy: string
+): Promise<{ periodClose?: IPeriodClose; error?: string }> {
+    const pending = periodClose.pendingReopen;
+    if (!pending) {
+        return { error: `${periodClose.label} has no reopen awaiting confirmation` };
+    }
+
+    const reopenError = await getReopenError(periodClose, pending.reason);
+    if (reopenError) {
+        return { error: reopenError };
+    }
+
+    return {
+        periodClose: await applyReopen(
+            periodClose,
+            pending.requestedBy,
+            pending.reason,
+            new mongoose.Types.ObjectId(confirmedBy)
+        ),
+    };
+}
+
+/**
+ * Closed period containing any of the dates or contribution months, if there is one
+ */
+export async function findClosedPeriod(target: PeriodLockTarget): Promise<IPeriodClose | null> {
+    const dates = (target.dates || [])
+        .filter((date): date is Date | string => !!date)
+        .map((date) => new Date(date))
+        .filter((date) => !isNaN(date.getTime()));
+    const months = (target.months || []).filter((month): month is string => !!month);
+
+    const conditions: any[] = dates.map((date) => ({ startDate: { $lte: date }, endDate: { $gte: date } }));
+    if (months.length > 0) {
+        conditions.push({ months: { $in: months } });
+    }
+    if (conditions.length === 0) {
+        return null;
+    }
+
+    return PeriodClose.findOne({ status: 'closed', $or: conditions }).sort({ startDate: 1 });
+}
+
+/**
+ * Error for a change touching a closed period, or null when every date and
+ * month is still open
+ */
+export async function getClosedPeriodError(target: PeriodLockTarget): Promise<string | null> {
+    const closed = await findClosedPeriod(target);
+    return closed
+        ? `${closed.label} is closed. An admin must reopen it before records in it can be changed.`
+        : null;
+}
@@ -0,0 +1,168 @@
+// @ts-ignore - Library doesn't have proper TypeScript support
+import { ADToBS, BSToAD } from 'bikram-sambat-js';
+import { getBSMonthNamesEnglish, getNepaliMonthNames } from '@/lib/nepali-date';
+import { ContributionCalendar } from '@/types';
+
+/*
+ * Contribution months are stored as AD "YYYY-MM" keys. Every BS month starts
+ * between the 12th and 20th of an AD month, so each AD month pairs with
+ * exactly one BS month: the one that starts in it. Groups keeping their books
+ * in BS see and enter BS months, and due dates follow the BS month, while the
+ * stored key, the contribution schedule and every month comparison stay as
+ * they are.
+ */
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const parseMonth = (month: string) => month.split('-').map(Number) as [number, number];
+
+const toDate = (isoDate: string) => {
+    const [year, month, day] = isoDate.split('-').map(Number);
+    return new Date(year, month - 1, day);
+};
+
+/**
+ * Move a "YYYY-MM" key by a number of months, in either calendar
+ */
+export function shiftMonth(month: string, months: number): string {
+    const [year, monthNumber] = parseMonth(month);
+    const index = year * 12 + monthNumber - 1 + months;
+    return `${Math.floor(index / 12)}-${pad((index % 12) + 1)}`;
+}
+
+/**
+ * BS month ("YYYY-MM") that starts in an AD month
+ */
+export function toBSMonth(month: string): string {
+    const [year, monthNumber] = parseMonth(month);
+    // By the 28th the BS month that started this AD month is always under way
+    return (ADToBS(new Date(year, monthNumber - 1, 28)) as string).slice(0, 7);
+}
+
+/**
+ * AD month ("YYYY-MM") a BS month starts in, which is its stored key
+ */
+export function toADMonth(bsMonth: string): string {
+    return (BSToAD(`${bsMonth}-01`) as string).slice(0, 7);
+}
+
+/**
+ * First day of a contribution month in the group's calendar
+ */
+export function getPeriodStart(month: string, calendar: ContributionCalendar = 'AD'): Date {
+    if (calendar === 'BS') {
+        return toDate(BSToAD(`${toBSMonth(month)}-01`));
+    }
+    const [year, monthNumber] = parseMonth(month);
+    return new Date(year, monthNumber - 1, 1);
+}
+
+/**
+ * Last moment of a contribution month in the group's calendar
+ */
+export function getPeriodEnd(month: string, calendar: ContributionCalendar = 'AD'): Date {
+    const end = getPeriodStart(shiftMonth(month, 1), calendar);
+    end.setMilliseconds(-1);
+    return end;
+}
+
+/**
+ * Day of a contribution month in the group's calendar, e.g. the grace day.
+ * Days past the end of the month fall on its last day.
+ */
+export function getPeriodDay(month: string, day: number, calendar: ContributionCalendar = 'AD'): Date {
+    const date = getPeriodStart(month, calendar);
+    date.setDate(date.getDate() + day - 1);
+    const end = getPeriodEnd(month, calendar);
+    return date > end ? new Date(end.getFullYear(), end.getMonth(), end.getDate()) : date;
+}
+
+/**
+ * Stored key of the contribution month a date falls in
+ */
+export function getContributionMonth(date: Date = new Date(), calendar: ContributionCalendar = 'AD'): string {
+    const month = `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+    if (calendar === 'BS' && date < getPeriodStart(month, 'BS')) {
+        return shiftMonth(month, -1);
+    }
+    return month;
+}
+
+/**
+ * Nepali fiscal year (Shrawan to Ashadh) a contribution month belongs to, as
+ * the BS year it starts in
+ */
+export function getFiscalYearOfMonth(month: string): number {
+    const [year, monthNumber] = parseMonth(toBSMonth(month));
+    return monthNumber >= 4 ? year : year - 1;
+}
+
+/**
+ * Nepali fiscal year a date falls in
+ */
+export function getFiscalYearOfDate(date: Date = new Date()): number {
+    return getFiscalYearOfMonth(getContributionMonth(date, 'BS'));
+}
+
+/**
+ * Stored keys of the twelve contribution months in a fiscal year, Shrawan first
+ */
+export function getFiscalYearMonths(fiscalYear: number): string[] {
+    const shrawan = toADMonth(`${fiscalYear}-04`);
+    return Array.from({ length: 12 }, (_, i) => shiftMonth(shrawan, i));
+}
+
+/**
+ * 1 Shrawan to the last moment of Ashadh, as AD dates
+ */
+export function getFiscalYearRange(fiscalYear: number): { start: Date; end: Date } {
+    const months = getFiscalYearMonths(fiscalYear);
+    return {
+        start: getPeriodStart(months[0], 'BS'),
+        end: getPeriodEnd(months[11], 'BS'),
+    };
+}
+
+/**
+ * "2081/82"
+ */
+export function formatFiscalYear(fiscalYear: number): string {
+    return `${fiscalYear}/${pad((fiscalYear + 1) % 100)}`;
+}
+
+/**
+ * Name of a contribution month in the group's calendar, e.g. "July 2024",
+ * "Shrawan 2081" or "श्रावण 2081". Nepali names only apply to BS months.
+ */
+export function formatContributionMonth(
+    month: string,
+    calendar: ContributionCalendar = 'AD',
+    language: 'en' | 'ne' = 'en'
+): string {
+    if (calendar === 'BS') {
+        const [year, monthNumber] = parseMonth(toBSMonth(month));
+        const names = language === 'ne' ? getNepaliMonthNames() : getBSMonthNamesEnglish();
+        return `${names[monthNumber - 1]} ${year}`;
+    }
+
+    const [year, monthNumber] = parseMonth(month);
+    return new Date(year, monthNumber - 1, 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+}
+
+/**
+ * Stored key for a month entered in the group's calendar, or null when it is
+ * not a valid "YYYY-MM"
+ */
+export function parseContributionMonth(input: string, calendar: ContributionCalendar = 'AD'): string | null {
+    if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(input)) {
+        return null;
+    }
+    if (calendar === 'BS') {
+        try {
+            return toADMonth(input);
+        } catch {
+            return null;
+        }
+    }
+    return input;
+}
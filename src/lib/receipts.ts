@@ -0,0 +1,259 @@
+import Contribution from '@/models/Contribution';
+import Repayment from '@/models/Repayment';
+import { getSettings } from '@/lib/settings';
+import { convertADToBS, getBSMonthNamesEnglish } from '@/lib/nepali-date';
+import { PdfDocument } from '@/lib/pdf';
+import { formatContributionMonth } from '@/lib/periods';
+import { ContributionCalendar } from '@/types';
+
+export type ReceiptType = 'contribution' | 'repayment';
+
+export const RECEIPT_TYPES: ReceiptType[] = ['contribution', 'repayment'];
+
+export interface Receipt {
+    type: ReceiptType;
+    title: string;
+    receiptNumber: string;
+    communityName: string;
+    date: Date;
+    userId: string;
+    member: {
+        name: string;
+        memberId: string;
+        phone?: string;
+    };
+    amount: number;
+    details: [string, string][];
+    notes?: string;
+    recordedBy?: string;
+}
+
+const ONES = [
+    '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+    'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const twoDigitWords = (value: number) =>
+    value < 20 ? ONES[value] : [TENS[Math.floor(value / 10)], ONES[value % 10]].filter(Boolean).join(' ');
+
+const threeDigitWords = (value: number) =>
+    [value >= 100 ? `${ONES[Math.floor(value / 100)]} Hundred` : '', twoDigitWords(value % 100)].filter(Boolean).join(' ');
+
+// Nepali grouping: thousand, lakh (100,000) and crore (10,000,000)
+function integerWords(value: number): string {
+    if (value === 0) {
+        return 'Zero';
+    }
+
+    const crore = Math.floor(value / 10000000);
+    const lakh = Math.floor((value % 10000000) / 100000);
+    const thousand = Math.floor((value % 100000) / 1000);
+
+    return [
+        crore ? `${integerWords(crore)} Crore` : '',
+        lakh ? `${twoDigitWords(lakh)} Lakh` : '',
+        thousand ? `${twoDigitWords(thousand)} Thousand` : '',
+        threeDigitWords(value % 1000),
+    ].filter(Boolean).join(' ');
+}
+
+/**
+ * Amount as written on a receipt, e.g. "Rupees Twelve Thousand Five Hundred Only"
+ */
+export function amountInWords(amount: number): string {
+    const totalPaisa = Math.round(Math.abs(amount) * 100);
+    const rupees = Math.floor(totalPaisa / 100);
+    const paisa = totalPaisa % 100;
+
+    return `Rupees ${integerWords(rupees)}${paisa ? ` and ${twoDigitWords(paisa)} Paisa` : ''} Only`;
+}
+
+export const formatReceiptAmount = (amount: number) =>
+    `NPR ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const formatADLong = (date: Date) =>
+    date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+/**
+ * Date in Bikram Sambat, e.g. "21 Poush 2081 BS"
+ */
+export function formatBSLong(date: Date): string {
+    const bs = convertADToBS({ year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() });
+    return `${bs.day} ${getBSMonthNamesEnglish()[bs.month - 1]} ${bs.year} BS`;
+}
+
+const formatPaymentMethod = (method?: string) =>
+    method ? method.replace(/_/g, ' ').replace(/^\w/, (letter) => letter.toUpperCase()) : 'Not recorded';
+
+/**
+ * Receipt for a paid contribution, or null when there is none to give
+ */
+async function getContributionReceipt(id: string, communityName: string, calendar: ContributionCalendar): Promise<Receipt | null> {
+    const contribution = await Contribution.findById(id);
+
+    // Contributions paid before receipts were numbered have none until the records are renumbered
+    if (!contribution || contribution.paidStatus !== 'paid' || !contribution.receiptNumber) {
+        return null;
+    }
+
+    await contribution.populate('userId', 'name memberId phone');
+    await contribution.populate('recordedBy', 'name');
+
+    const member = contribution.userId as any;
+    const recordedBy = contribution.recordedBy as any;
+    const paidDate = new Date(contribution.paidDate || contribution.updatedAt);
+
+    return {
+        type: 'contribution',
+        title: 'Contribution Receipt',
+        receiptNumber: contribution.receiptNumber as string,
+        communityName,
+        date: paidDate,
+        userId: member._id.toString(),
+        member: { name: member.name, memberId: member.memberId, phone: member.phone },
+        amount: contribution.amount,
+        details: [
+            ['Contribution for', formatContributionMonth(contribution.month, calendar)],
+            ['Payment method', formatPaymentMethod(contribution.paymentMethod)],
+            ['Amount', formatReceiptAmount(contribution.amount)],
+        ],
+        notes: contribution.notes,
+        recordedBy: recordedBy?.name,
+    };
+}
+
+/**
+ * Receipt for a loan repayment, with its principal and interest split
+ */
+async function getRepaymentReceipt(id: string, communityName: string): Promise<Receipt | null> {
+    const repayment = await Repayment.findById(id)
+        .populate('userId', 'name memberId phone')
+        .populate('recordedBy', 'name')
+        .populate('loanId', 'approvedAmount requestedAmount disbursementDate');
+
+    if (!repayment) {
+        return null;
+    }
+
+    const member = repayment.userId as any;
+    const recordedBy = repayment.recordedBy as any;
+    const loan = repayment.loanId as any;
+    const paymentDate = new Date(repayment.paymentDate);
+
+    const details: [string, string][] = [];
+    if (loan) {
+        details.push(['Loan amount', formatReceiptAmount(loan.approvedAmount || loan.requestedAmount)]);
+        if (loan.disbursementDate) {
+            details.push(['Disbursed on', formatADLong(new Date(loan.disbursementDate))]);
+        }
+    }
+    details.push(
+        ['Payment method', formatPaymentMethod(repayment.paymentMethod)],
+        ['Principal', formatReceiptAmount(repayment.principalAmount)],
+        ['Interest', formatReceiptAmount(repayment.interestAmount)],
+        ['Total paid', formatReceiptAmount(repayment.amount)],
+        ['Principal outstanding after payment', formatReceiptAmount(repayment.remainingBalance)]
+    );
+
+    return {
+        type: 'repayment',
+        title: 'Loan Repayment Receipt',
+        receiptNumber: repayment.receiptNumber,
+        communityName,
+        date: paymentDate,
+        userId: member._id.toString(),
+        member: { name: member.name, memberId: member.memberId, phone: member.phone },
+        amount: repayment.amount,
+        details,
+        notes: repayment.notes,
+        recordedBy: recordedBy?.name,
+    };
+}
+
+/**
+ * Load a receipt by type and record ID
+ */
+export async function getReceipt(type: ReceiptType, id: string): Promise<Receipt | null> {
+    const { communityName, contributionCalendar } = await getSettings();
+
+    return type === 'contribution'
+        ? getContributionReceipt(id, communityName, contributionCalendar)
+        : getRepaymentReceipt(id, communityName);
+}
+
+/**
+ * Lay a receipt out on a single A4 page
+ */
+export function renderReceiptPdf(receipt: Receipt): Buffer {
+    const pdf = new PdfDocument();
+    const left = 50;
+    const right = pdf.width - 50;
+    const centre = pdf.width / 2;
+    let y = 60;
+
+    pdf.text(receipt.communityName, centre, y, { size: 18, bold: true, align: 'center' });
+    y += 22;
+    pdf.text(receipt.title, centre, y, { size: 12, align: 'center', gray: 0.3 });
+    y += 16;
+    pdf.line(left, y, right, y, { width: 1 });
+
+    y += 22;
+    pdf.text(`Receipt No: ${receipt.receiptNumber}`, left, y, { bold: true });
+    pdf.text(`Date: ${formatADLong(receipt.date)}`, right, y, { align: 'right' });
+    y += 15;
+    pdf.text(`Miti: ${formatBSLong(receipt.date)}`, right, y, { align: 'right' });
+
+    y += 28;
+    pdf.text('Received from', left, y, { size: 9, gray: 0.4 });
+    y += 16;
+    pdf.text(receipt.member.name, left, y, { size: 12, bold: true });
+    y += 15;
+    pdf.text(`Member ID: ${receipt.member.memberId}`, left, y);
+    if (receipt.member.phone) {
+        y += 14;
+        pdf.text(`Phone: ${receipt.member.phone}`, left, y);
+    }
+
+    y += 26;
+    for (const [label, value] of receipt.details) {
+        pdf.text(label, left, y, { gray: 0.3 });
+        pdf.text(value, right, y, { align: 'right' });
+        y += 6;
+        pdf.line(left, y, right, y, { gray: 0.85 });
+        y += 14;
+    }
+
+    const words = pdf.wrapText(`In words: ${amountInWords(receipt.amount)}`, right - left - 20, 9);
+    const boxHeight = 34 + words.length * 12;
+    y += 6;
+    pdf.rect(left, y, right - left, boxHeight, 0.94);
+    pdf.text('Amount Received', left + 10, y + 20, { size: 12, bold: true });
+    pdf.text(formatReceiptAmount(receipt.amount), right - 10, y + 20, { size: 14, bold: true, align: 'right' });
+    words.forEach((line, index) => {
+        pdf.text(line, left + 10, y + 38 + index * 12, { size: 9, gray: 0.2 });
+    });
+    y += boxHeight + 24;
+
+    if (receipt.notes) {
+        for (const line of pdf.wrapText(`Notes: ${receipt.notes}`, right - left, 9)) {
+            pdf.text(line, left, y, { size: 9, gray: 0.3 });
+            y += 12;
+        }
+        y += 12;
+    }
+
+    y += 40;
+    pdf.text(`Recorded by: ${receipt.recordedBy || '-'}`, left, y);
+    pdf.line(right - 150, y - 4, right, y - 4);
+    pdf.text('Authorised signature', right - 75, y + 10, { size: 9, align: 'center', gray: 0.4 });
+
+    pdf.text(
+        `Generated on ${new Date().toLocaleString('en-US')}. This receipt is computer generated.`,
+        centre,
+        pdf.height - 40,
+        { size: 8, align: 'center', gray: 0.5 }
+    );
+
+    return pdf.toBuffer();
+}
@@ -0,0 +1,116 @@
+import Settings from '@/models/Settings';
+import { getDefaultCommunitySettings } from '@/config/community';
+import { ICommunitySettings } from '@/types';
+
+export interface CurrentSettings extends ICommunitySettings {
+    version: number; // 0 until an admin first saves settings
+}
+
+export type SettingsChanges = Partial<Omit<ICommunitySettings, 'policies'>> & {
+    policies?: Partial<ICommunitySettings['policies']>;
+};
+
+/**
+ * Settings currently in force: the latest saved version, or the config defaults
+ */
+export async function getSettings(): Promise<CurrentSettings> {
+    const current = await Settings.getCurrent();
+
+    if (!current) {
+        return { ...getDefaultCommunitySettings(), version: 0 };
+    }
+
+    return {
+        communityName: current.communityName,
+        openingDate: new Date(current.openingDate),
+        monthlyContributionAmount: current.monthlyContributionAmount,
+        annualInterestRate: current.annualInterestRate,
+        contributionCalendar: current.contributionCalendar || 'AD',
+        policies: {
+            historicalContributions: current.policies.historicalContributions,
+            monthlyContribution: current.policies.monthlyContribution,
+            catchUpPolicy: current.policies.catchUpPolicy,
+        },
+        version: current.version,
+    };
+}
+
+/**
+ * Validate changes from the settings form, returning an error message or null
+ */
+export function validateSettingsChanges(changes: SettingsChanges): string | null {
+    if (changes.communityName !== undefined && !String(changes.communityName).trim()) {
+        return 'Community name is required';
+    }
+    if (changes.openingDate !== undefined) {
+        const openingDate = new Date(changes.openingDate);
+        if (isNaN(openingDate.getTime()) || openingDate > new Date()) {
+            return 'Opening date must be a valid date that is not in the future';
+        }
+    }
+    if (changes.monthlyContributionAmount !== undefined &&
+        (isNaN(Number(changes.monthlyContributionAmount)) || Number(changes.monthlyContributionAmount) <= 0)) {
+        return 'Monthly contribution amount must be positive';
+    }
+    if (changes.annualInterestRate !== undefined &&
+        (isNaN(Number(changes.annualInterestRate)) || Number(changes.annualInterestRate) < 0 || Number(changes.annualInterestRate) > 100)) {
+        return 'Interest rate must be between 0 and 100';
+    }
+    if (changes.contributionCalendar !== undefined && !['AD', 'BS'].includes(changes.contributionCalendar)) {
+        return 'Contribution calendar must be AD or BS';
+    }
+    if (changes.policies) {
+        const emptyPolicy = Object.values(changes.policies).some((text) => text !== undefined && !String(text).trim());
+        if (emptyPolicy) {
+            return 'Policy text cannot be empty';
+        }
+    }
+    return null;
+}
+
+/**
+ * Save changed settings as a new version on top of the current one. Returns
+ * null when nothing actually changed.
+ */
+export async function updateSettings(changes: SettingsChanges, changedBy: string, changeNote?: string) {
+    const { version, ...current } = await getSettings();
+
+    const next: ICommunitySettings = {
+        communityName: changes.communityName !== undefined ? String(changes.communityName).trim() : current.communityName,
+        openingDate: changes.openingDate !== undefined ? new Date(changes.openingDate) : current.openingDate,
+        monthlyContributionAmount: changes.monthlyContributionAmount !== undefined
+            ? Number(changes.monthlyContributionAmount)
+            : current.monthlyContributionAmount,
+        annualInterestRate: changes.annualInterestRate !== undefined
+            ? Number(changes.annualInterestRate)
+            : current.annualInterestRate,
+        contributionCalendar: changes.contributionCalendar ?? current.contributionCalendar,
+        policies: { ...current.policies },
+    };
+
+    for (const key of Object.keys(current.policies) as (keyof ICommunitySettings['policies'])[]) {
+        const text = changes.policies?.[key];
+        if (text !== undefined) {
+            next.policies[key] = String(text).trim();
+        }
+    }
+
+    const unchanged = next.communityName === current.communityName &&
+        next.openingDate.getTime() === current.openingDate.getTime() &&
+        next.monthlyContributionAmount === current.monthlyContributionAmount &&
+        next.annualInterestRate === current.annualInterestRate &&
+        next.contributionCalendar === current.contributionCalendar &&
+        JSON.stringify(next.policies) === JSON.stringify(current.policies);
+
+    if (unchanged) {
+        return null;
+    }
+
+    // The unique version index stops two admins saving the same version at once
+    return Settings.create({
+        ...next,
+        version: version + 1,
+        changedBy,
+        changeNote: changeNote?.trim() || undefined,
+    });
+}
@@ -0,0 +1,438 @@
+import User from '@/models/User';
+import Contribution from '@/models/Contribution';
+import Loan from '@/models/Loan';
+import Repayment from '@/models/Repayment';
+import Penalty from '@/models/Penalty';
+import MemberWithdrawal from '@/models/MemberWithdrawal';
+import GuaranteeRecovery from '@/models/GuaranteeRecovery';
+import { getSettings } from '@/lib/settings';
+import { PdfDocument } from '@/lib/pdf';
+import { formatADLong, formatBSLong, formatReceiptAmount } from '@/lib/receipts';
+import { formatContributionMonth } from '@/lib/periods';
+import { ContributionCalendar } from '@/types';
+
+export type StatementEntryType =
+    | 'contribution'
+    | 'loan_disbursement'
+    | 'repayment'
+    | 'penalty'
+    | 'penalty_payment'
+    | 'penalty_waiver'
+    | 'withdrawal'
+    | 'guarantee_recovery';
+
+export interface StatementBalances {
+    savings: number;
+    loanPrincipal: number;
+    penalties: number; // Assessed but neither paid nor waived
+}
+
+export interface StatementEntry {
+    date: Date;
+    type: StatementEntryType;
+    description: string;
+    reference?: string;
+    amount: number;
+    principal?: number;
+    interest?: number;
+    balances: StatementBalances; // After this entry
+}
+
+export interface MemberStatement {
+    communityName: string;
+    member: {
+        userId: string;
+        name: string;
+        memberId: string;
+        phone?: string;
+    };
+    from: Date;
+    to: Date;
+    openingBalances: StatementBalances;
+    closingBalances: StatementBalances;
+    totals: {
+        contributions: number;
+        loansDisbursed: number;
+        principalRepaid: number;
+        interestPaid: number;
+        penaltiesAssessed: number;
+        penaltiesPaid: number;
+        penaltiesWaived: number;
+        savingsWithdrawn: number;
+    };
+    entries: StatementEntry[];
+}
+
+interface StatementEvent extends Omit<StatementEntry, 'balances'> {
+    change: Partial<StatementBalances>;
+}
+
+// Same-day events are listed in the order the money would have moved
+const TYPE_ORDER: StatementEntryType[] = [
+    'contribution',
+    'loan_disbursement',
+    'repayment',
+    'penalty',
+    'penalty_payment',
+    'penalty_waiver',
+    'guarantee_recovery',
+    'withdrawal',
+];
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Every event that moved one of the member's balances up to the given date
+ */
+async function getMemberEvents(userId: string, to: Date, calendar: ContributionCalendar): Promise<StatementEvent[]> {
+    const [contributions, loans, repayments, penalties, withdrawals, recoveries] = await Promise.all([
+        Contribution.find({ userId, paidStatus: 'paid' }).lean(),
+        Loan.find({ userId, status: { $in: ['disbursed', 'completed'] } }).lean(),
+        Repayment.find({ userId, paymentDate: { $lte: to } }).lean(),
+        Penalty.find({ userId, assessedDate: { $lte: to } }).lean(),
+        MemberWithdrawal.find({ userId, status: 'approved', exitDate: { $lte: to } }).lean(),
+        GuaranteeRecovery.find({ userId, recoveryDate: { $lte: to } }).lean(),
+    ]);
+
+    const events: StatementEvent[] = [];
+
+    for (const contribution of contributions) {
+        events.push({
+            date: new Date(contribution.paidDate || contribution.createdAt),
+            type: 'contribution',
+            description: `Contribution for ${formatContributionMonth(contribution.month, calendar)}`,
+            reference: contribution.receiptNumber,
+            amount: contribution.amount,
+            change: { savings: contribution.amount },
+        });
+    }
+
+    for (const loan of loans) {
+        const principal = loan.approvedAmount || loan.requestedAmount;
+        events.push({
+            date: new Date(loan.disbursementDate || loan.approvalDate || loan.requestDate),
+            type: 'loan_disbursement',
+            description: `Loan disbursed: ${loan.purpose}`,
+            amount: principal,
+            change: { loanPrincipal: principal },
+        });
+    }
+
+    for (const repayment of repayments) {
+        const principal = repayment.principalAmount || 0;
+        const interest = repayment.interestAmount || 0;
+        events.push({
+            date: new Date(repayment.paymentDate),
+            type: 'repayment',
+            description: repayment.paymentMethod === 'settlement'
+                ? 'Loan settlement'
+                : repayment.paymentMethod === 'guarantee_recovery'
+                    ? 'Loan repayment recovered from guarantors'
+                    : 'Loan repayment',
+            reference: repayment.receiptNumber,
+            amount: repayment.amount,
+            principal,
+            interest,
+            change: { loanPrincipal: -principal },
+        });
+    }
+
+    for (const penalty of penalties) {
+        events.push({
+            date: new Date(penalty.assessedDate),
+            type: 'penalty',
+            description: `Penalty assessed: ${penalty.reason}`,
+            amount: penalty.amount,
+            change: { penalties: penalty.amount },
+        });
+
+        if (penalty.status === 'paid') {
+            events.push({
+                date: new Date(penalty.paidDate || penalty.assessedDate),
+                type: 'penalty_payment',
+                description: `Penalty paid: ${penalty.reason}`,
+                amount: penalty.amount,
+                change: { penalties: -penalty.amount },
+            });
+        } else if (penalty.status === 'waived') {
+            events.push({
+                date: new Date(penalty.waivedDate || penalty.assessedDate),
+                type: 'penalty_waiver',
+                description: `Penalty waived: ${penalty.reason}`,
+                amount: penalty.amount,
+                change: { penalties: -penalty.amount },
+            });
+        }
+    }
+
+    for (const withdrawal of withdrawals) {
+        events.push({
+            date: new Date(withdrawal.exitDate),
+            type: 'withdrawal',
+            description: 'Savings paid out on leaving',
+            amount: withdrawal.totalContributions,
+            change: { savings: -withdrawal.totalContributions },
+        });
+    }
+
+    for (const recovery of recoveries) {
+        events.push({
+            date: new Date(recovery.recoveryDate),
+            type: 'guarantee_recovery',
+            description: 'Savings applied to a guaranteed loan',
+            amount: recovery.amount,
+            change: { savings: -recovery.amount },
+        });
+    }
+
+    return events
+        .filter((event) => event.date <= to)
+        .sort((a, b) =>
+            a.date.getTime() - b.date.getTime() || TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type)
+        );
+}
+
+function applyChange(balances: StatementBalances, change: Partial<StatementBalances>): StatementBalances {
+    return {
+        savings: roundCurrency(balances.savings + (change.savings || 0)),
+        loanPrincipal: roundCurrency(balances.loanPrincipal + (change.loanPrincipal || 0)),
+        penalties: roundCurrency(balances.penalties + (change.penalties || 0)),
+    };
+}
+
+/**
+ * A member's statement for a period: balances brought forward from before it,
+ * each movement within it with the balances after it, and the balances carried
+ * forward. Both dates are inclusive; the period starts at the member's join
+ * date unless given. Returns null when the member does not exist.
+ */
+export async function getMemberStatement(
+    userId: string,
+    period: { from?: Date; to: Date }
+): Promise<MemberStatement | null> {
+    const user = await User.findById(userId).select('name memberId phone joinDate').lean();
+
+    if (!user) {
+        return null;
+    }
+
+    const from = period.from || new Date(user.joinDate);
+    const { to } = period;
+
+    const { communityName, contributionCalendar } = await getSettings();
+    const events = await getMemberEvents(userId, to, contributionCalendar);
+
+    let balances: StatementBalances = { savings: 0, loanPrincipal: 0, penalties: 0 };
+    let openingBalances = balances;
+    const entries: StatementEntry[] = [];
+    const totals = {
+        contributions: 0,
+        loansDisbursed: 0,
+        principalRepaid: 0,
+        interestPaid: 0,
+        penaltiesAssessed: 0,
+        penaltiesPaid: 0,
+        penaltiesWaived: 0,
+        savingsWithdrawn: 0,
+    };
+
+    for (const { change, ...event } of events) {
+        balances = applyChange(balances, change);
+
+        if (event.date < from) {
+            openingBalances = balances;
+            continue;
+        }
+
+        entries.push({ ...event, balances });
+
+        if (event.type === 'contribution') {
+            totals.contributions += event.amount;
+        } else if (event.type === 'loan_disbursement') {
+            totals.loansDisbursed += event.amount;
+        } else if (event.type === 'repayment') {
+            totals.principalRepaid += event.principal || 0;
+            totals.interestPaid += event.interest || 0;
+        } else if (event.type === 'penalty') {
+            totals.penaltiesAssessed += event.amount;
+        } else if (event.type === 'penalty_payment') {
+            totals.penaltiesPaid += event.amount;
+        } else if (event.type === 'penalty_waiver') {
+            totals.penaltiesWaived += event.amount;
+        } else {
+            totals.savingsWithdrawn += event.amount;
+        }
+    }
+
+    return {
+        communityName,
+        member: { userId, name: user.name, memberId: user.memberId, phone: user.phone },
+        from,
+        to,
+        openingBalances,
+        closingBalances: balances,
+        totals: Object.fromEntries(
+            Object.entries(totals).map(([key, value]) => [key, roundCurrency(value)])
+        ) as MemberStatement['totals'],
+        entries,
+    };
+}
+
+const formatDate = (date: Date) => date.toISOString().split('T')[0];
+
+/**
+ * Statement as CSV rows, opening and closing balances included
+ */
+export function getStatementCsvRows(statement: MemberStatement): Record<string, unknown>[] {
+    const row = (
+        date: Date,
+        type: string,
+        description: string,
+        balances: StatementBalances,
+        entry?: StatementEntry
+    ) => ({
+        Date: formatDate(date),
+        'Date (BS)': formatBSLong(date),
+        Type: type,
+        Description: description,
+        Reference: entry?.reference || '',
+        Amount: entry?.amount ?? '',
+        Principal: entry?.principal ?? '',
+        Interest: entry?.interest ?? '',
+        'Savings Balance': balances.savings,
+        'Loan Principal Balance': balances.loanPrincipal,
+        'Penalties Outstanding': balances.penalties,
+    });
+
+    return [
+        row(statement.from, 'opening', 'Opening balance', statement.openingBalances),
+        ...statement.entries.map((entry) => row(entry.date, entry.type, entry.description, entry.balances, entry)),
+        row(statement.to, 'closing', 'Closing balance', statement.closingBalances),
+    ];
+}
+
+const formatStatementAmount = (amount?: number) =>
+    amount === undefined ? '' : amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Lay a statement out on landscape A4 pages, repeating the column headings on each page
+ */
+export function renderStatementPdf(statement: MemberStatement): Buffer {
+    const pdf = new PdfDocument({ landscape: true });
+    const left = 40;
+    const right = pdf.width - 40;
+    const bottom = pdf.height - 50;
+    const columns = [
+        { label: 'Date', x: left, align: 'left' as const },
+        { label: 'Description', x: left + 70, align: 'left' as const },
+        { label: 'Amount', x: left + 390, align: 'right' as const },
+        { label: 'Principal', x: left + 465, align: 'right' as const },
+        { label: 'Interest', x: left + 535, align: 'right' as const },
+        { label: 'Savings', x: left + 615, align: 'right' as const },
+        { label: 'Loan', x: left + 690, align: 'right' as const },
+        { label: 'Penalties', x: right, align: 'right' as const },
+    ];
+    const descriptionWidth = columns[2].x - columns[1].x - 60;
+    let y = 50;
+
+    const tableHeader = () => {
+        pdf.rect(left - 4, y - 12, right - left + 8, 18, 0.92);
+        for (const column of columns) {
+            pdf.text(column.label, column.x, y, { size: 9, bold: true, align: column.align });
+        }
+        y += 18;
+    };
+
+    const tableRow = (cells: string[], options: { bold?: boolean } = {}) => {
+        if (y > bottom) {
+            pdf.addPage();
+            y = 50;
+            tableHeader();
+        }
+        cells.forEach((cell, index) => {
+            const text = index === 1 ? pdf.fitText(cell, descriptionWidth, 9, options.bold) : cell;
+            pdf.text(text, columns[index].x, y, { size: 9, bold: options.bold, align: columns[index].align });
+        });
+        y += 5;
+        pdf.line(left, y, right, y, { gray: 0.88 });
+        y += 11;
+    };
+
+    const balanceCells = (balances: StatementBalances) => [
+        formatStatementAmount(balances.savings),
+        formatStatementAmount(balances.loanPrincipal),
+        formatStatementAmount(balances.penalties),
+    ];
+
+    pdf.text(statement.communityName, pdf.width / 2, y, { size: 16, bold: true, align: 'center' });
+    y += 18;
+    pdf.text('Member Account Statement', pdf.width / 2, y, { size: 11, align: 'center', gray: 0.3 });
+    y += 12;
+    pdf.line(left, y, right, y, { width: 1 });
+
+    y += 20;
+    pdf.text(statement.member.name, left, y, { size: 12, bold: true });
+    pdf.text(
+        `Period: ${formatADLong(statement.from)} to ${formatADLong(statement.to)}`,
+        right,
+        y,
+        { align: 'right' }
+    );
+    y += 14;
+    pdf.text(`Member ID: ${statement.member.memberId}`, left, y);
+    pdf.text(`${formatBSLong(statement.from)} to ${formatBSLong(statement.to)}`, right, y, { align: 'right', gray: 0.3 });
+    y += 26;
+
+    tableHeader();
+    tableRow(
+        [formatDate(statement.from), 'Opening balance', '', '', '', ...balanceCells(statement.openingBalances)],
+        { bold: true }
+    );
+    for (const entry of statement.entries) {
+        tableRow([
+            formatDate(entry.date),
+            entry.reference ? `${entry.description} (${entry.reference})` : entry.description,
+            formatStatementAmount(entry.amount),
+            formatStatementAmount(entry.principal),
+            formatStatementAmount(entry.interest),
+            ...balanceCells(entry.balances),
+        ]);
+    }
+    tableRow(
+        [formatDate(statement.to), 'Closing balance', '', '', '', ...balanceCells(statement.closingBalances)],
+        { bold: true }
+    );
+
+    const summary: [string, number][] = [
+        ['Contributions', statement.totals.contributions],
+        ['Loans disbursed', statement.totals.loansDisbursed],
+        ['Principal repaid', statement.totals.principalRepaid],
+        ['Interest paid', statement.totals.interestPaid],
+        ['Penalties assessed', statement.totals.penaltiesAssessed],
+        ['Penalties paid', statement.totals.penaltiesPaid],
+        ['Penalties waived', statement.totals.penaltiesWaived],
+        ['Savings withdrawn', statement.totals.savingsWithdrawn],
+    ];
+
+    if (y + 40 + summary.length * 14 > bottom) {
+        pdf.addPage();
+        y = 50;
+    }
+    y += 20;
+    pdf.text('Totals for the period', left, y, { size: 10, bold: true });
+    y += 16;
+    for (const [label, value] of summary) {
+        pdf.text(label, left, y, { size: 9, gray: 0.3 });
+        pdf.text(formatReceiptAmount(value), left + 260, y, { size: 9, align: 'right' });
+        y += 14;
+    }
+
+    pdf.text(
+        `Generated on ${new Date().toLocaleString('en-US')}. This statement is computer generated.`,
+        pdf.width / 2,
+        pdf.height - 30,
+        { size: 8, align: 'center', gray: 0.5 }
+    );
+
+    return pdf.toBuffer();
+}
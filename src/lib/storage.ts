@@ -0,0 +1,110 @@
+import path from 'path';
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises';
+
+export interface StorageBackend {
+    name: string;
+    put(key: string, data: Buffer, contentType: string): Promise<void>;
+    get(key: string): Promise<Buffer>;
+    delete(key: string): Promise<void>;
+}
+
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Files on local disk under UPLOAD_DIR (./uploads by default). Only suits a
+ * single server with a persistent disk.
+ */
+function createLocalStorage(): StorageBackend {
+    const root = path.resolve(process.env.UPLOAD_DIR || 'uploads');
+
+    // Keys are generated by the app, but never let one point outside the upload directory
+    const resolve = (key: string) => {
+        const file = path.resolve(root, key);
+        if (!file.startsWith(root + path.sep)) {
+            throw new Error(`Invalid storage key "${key}"`);
+        }
+        return file;
+    };
+
+    return {
+        name: 'local',
+        async put(key, data) {
+            const file = resolve(key);
+            await mkdir(path.dirname(file), { recursive: true });
+            await writeFile(file, data);
+        },
+        async get(key) {
+            return readFile(resolve(key));
+        },
+        async delete(key) {
+            await unlink(resolve(key)).catch((error) => {
+                if (error.code !== 'ENOENT') throw error;
+            });
+        },
+    };
+}
+
+/**
+ * Any object store or file server that takes PUT, GET and DELETE on
+ * STORAGE_HTTP_URL/<key>, with STORAGE_HTTP_TOKEN sent as a bearer token
+ */
+function createHttpStorage(): StorageBackend {
+    const baseUrl = (process.env.STORAGE_HTTP_URL || '').replace(/\/+$/, '');
+    const token = process.env.STORAGE_HTTP_TOKEN;
+
+    const call = async (method: string, key: string, body?: Buffer, contentType?: string) => {
+        if (!baseUrl) {
+            throw new Error('STORAGE_HTTP_URL must be set');
+        }
+
+        const response = await fetch(`${baseUrl}/${key.split('/').map(encodeURIComponent).join('/')}`, {
+            method,
+            headers: {
+                ...(contentType ? { 'Content-Type': contentType } : {}),
+                ...(token ? { Authorization: `Bearer ${token}` } : {}),
+            },
+            body: body ? new Uint8Array(body) : undefined,
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+
+        if (!response.ok && !(method === 'DELETE' && response.status === 404)) {
+            throw new Error(`Storage server returned ${response.status} for ${method} ${key}`);
+        }
+        return response;
+    };
+
+    return {
+        name: 'http',
+        async put(key, data, contentType) {
+            await call('PUT', key, data, contentType);
+        },
+        async get(key) {
+            const response = await call('GET', key);
+            return Buffer.from(await response.arrayBuffer());
+        },
+        async delete(key) {
+            await call('DELETE', key);
+        },
+    };
+}
+
+const BACKEND_FACTORIES: Record<string, () => StorageBackend> = {
+    local: createLocalStorage,
+    http: createHttpStorage,
+};
+
+/**
+ * Storage backend by name, or the one new files go to (STORAGE_BACKEND,
+ * local by default). Files are read back from the backend they were written
+ * to, so switching backends does not strand earlier uploads.
+ */
+export function getStorageBackend(name?: string): StorageBackend {
+    const backend = name || process.env.STORAGE_BACKEND || 'local';
+
+    const factory = BACKEND_FACTORIES[backend];
+    if (!factory) {
+        throw new Error(`Unknown storage backend "${backend}"`);
+    }
+
+    return factory();
+}
@@ -0,0 +1,233 @@
+import { randomUUID } from 'crypto';
+import Contribution from '@/models/Contribution';
+import Loan from '@/models/Loan';
+import Repayment from '@/models/Repayment';
+import User from '@/models/User';
+import WalletPayment from '@/models/WalletPayment';
+import { calculateLoanPayoff } from '@/lib/loan-calculations';
+import { matchRepaymentsToSchedule } from '@/lib/loan-schedule';
+import { payContribution, payLoan } from '@/lib/payments';
+import { getWalletProvider, WalletCheckout } from '@/lib/wallet-providers';
+import { IContribution, ILoan, IWalletPayment, WalletPaymentPurpose } from '@/types';
+
+export interface WalletPaymentRequest {
+    userId: string;
+    purpose: WalletPaymentPurpose;
+    targetId: string; // Contribution or loan being paid
+    provider: string;
+    amount?: number; // Loans only; defaults to the next installment
+    siteUrl: string;
+}
+
+export interface WalletCallbackResult {
+    payment?: IWalletPayment;
+    paidContribution?: IContribution;
+    completedLoan?: ILoan;
+    error?: string;
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Amount due on a member's open loan: the next unpaid installment, capped at
+ * the payoff so the last installment never overpays
+ */
+async function loanPaymentAmount(loan: ILoan, requested?: number): Promise<{ amount?: number; error?: string }> {
+    const repayments = await Repayment.find({ loanId: loan._id })
+        .select('amount paymentDate principalAmount interestAmount')
+        .lean();
+    const now = new Date();
+    const { payoff } = calculateLoanPayoff(loan, repayments, now);
+
+    if (requested !== undefined) {
+        if (requested > payoff + 0.01) {
+            return { error: `Amount is more than the loan payoff of ${payoff}` };
+        }
+        return { amount: roundCurrency(requested) };
+    }
+
+    const next = matchRepaymentsToSchedule(loan.schedule || [], repayments, now)
+        .find((installment) => installment.status !== 'paid');
+    if (!next) {
+        return { error: 'This loan has no installment due; enter the amount to pay' };
+    }
+    return { amount: roundCurrency(Math.min(next.outstandingAmount, payoff)) };
+}
+
+/**
+ * Start paying a member's own pending contribution or open loan through a
+ * wallet, returning where to send their browser
+ */
+export async function startWalletPayment(
+    request: WalletPaymentRequest
+): Promise<{ payment?: IWalletPayment; checkout?: WalletCheckout; error?: string }> {
+    const provider = getWalletProvider(request.provider);
+    if (!provider) {
+        return { error: 'This payment provider is not available' };
+    }
+
+    const user = await User.findById(request.userId).select('name email phone');
+    if (!user) {
+        return { error: 'User not found' };
+    }
+
+    let amount: number;
+    let description: string;
+
+    if (request.purpose === 'contribution') {
+        const contribution = await Contribution.findOne({ _id: request.targetId, userId: request.userId });
+        if (!contribution) {
+            return { error: 'Contribution not found' };
+        }
+        if (contribution.paidStatus === 'paid') {
+            return { error: `Contribution for ${contribution.month} is already paid` };
+        }
+        amount = contribution.amount;
+        description = `Contribution ${contribution.month}`;
+    } else {
+        const loan = await Loan.findOne({ _id: request.targetId, userId: request.userId });
+        if (!loan || loan.status !== 'disbursed' || loan.remainingBalance <= 0) {
+            return { error: 'Loan is not open for repayments' };
+        }
+        const due = await loanPaymentAmount(loan, request.amount);
+        if (due.error) {
+            return { error: due.error };
+        }
+        amount = due.amount!;
+        description = 'Loan repayment';
+    }
+
+    if (amount < 1) {
+        return { error: 'Amount must be at least 1' };
+    }
+
+    const payment = await WalletPayment.create({
+        orderId: randomUUID(),
+        userId: request.userId,
+        purpose: request.purpose,
+        ...(request.purpose === 'contribution' ? { contributionId: request.targetId } : { loanId: request.targetId }),
+        amount,
+        provider: provider.name,
+    });
+
+    try {
+        const checkout = await provider.initiate({
+            orderId: payment.orderId,
+            amount,
+            description,
+            callbackUrl: `${request.siteUrl}/api/payments/callback/${provider.name}`,
+            siteUrl: request.siteUrl,
+            customer: { name: user.name, email: user.email, phone: user.phone },
+        });
+
+        if (checkout.reference) {
+            payment.providerReference = checkout.reference;
+            await payment.save();
+        }
+        return { payment, checkout };
+    } catch (error) {
+        payment.status = 'failed';
+        payment.failureReason = error instanceof Error ? error.message : 'Provider did not accept the payment';
+        await payment.save();
+        return { error: `Could not start the ${provider.label} payment` };
+    }
+}
+
+/**
+ * Settle a payment from the provider's callback. Only the first verified
+ * callback for a payment posts it: the status change is claimed atomically,
+ * so a provider retrying the redirect or a member reloading the page is a
+ * no-op. A payment the member cancelled can still complete, since the money
+ * may have left their wallet before they gave up on the page.
+ */
+export async function completeWalletPayment(
+    providerName: string,
+    params: URLSearchParams
+): Promise<WalletCallbackResult> {
+    const provider = getWalletProvider(providerName);
+    if (!provider) {
+        return { error: 'Unknown payment provider' };
+    }
+
+    let verification;
+    try {
+        verification = await provider.verify(params);
+    } catch (error) {
+        console.error(`Rejected ${providerName} callback:`, error);
+        return { error: 'Payment could not be verified' };
+    }
+
+    const payment = await WalletPayment.findOne({ orderId: verification.orderId, provider: provider.name });
+    if (!payment) {
+        return { error: 'Payment not found' };
+    }
+    // A checkout ID issued up front must be the one the provider reports on
+    if (payment.providerReference && verification.providerReference && payment.providerReference !== verification.providerReference) {
+        return { error: 'Payment could not be verified' };
+    }
+
+    if (verification.status !== 'completed') {
+        const updated = await WalletPayment.findOneAndUpdate(
+            { _id: payment._id, status: 'initiated' },
+            { $set: { status: verification.status, failureReason: verification.failureReason } },
+            { new: true }
+        );
+        return { payment: updated || payment };
+    }
+
+    const amountMatches = verification.amount !== undefined && Math.abs(verification.amount - payment.amount) < 0.01;
+    const claimed = await WalletPayment.findOneAndUpdate(
+        { _id: payment._id, status: { $in: ['initiated', 'cancelled'] } },
+        {
+            $set: amountMatches
+                ? {
+                    status: 'completed',
+                    providerReference: verification.providerReference,
+                    completedAt: new Date(),
+                }
+                : {
+                    status: 'failed',
+                    providerReference: verification.providerReference,
+                    failureReason: `Provider reported ${verification.amount} instead of ${payment.amount}`,
+                },
+        },
+        { new: true }
+    );
+
+    // Already settled by an earlier callback
+    if (!claimed) {
+        return { payment };
+    }
+    if (claimed.status !== 'completed') {
+        return { payment: claimed };
+    }
+
+    const details = {
+        amount: claimed.amount,
+        date: claimed.completedAt!,
+        paymentMethod: 'mobile_money' as const,
+        note: `${provider.label} ${claimed.providerReference || claimed.orderId}`,
+        recordedBy: claimed.userId.toString(),
+    };
+    const result: WalletCallbackResult = { payment: claimed };
+
+    try {
+        if (claimed.purpose === 'contribution') {
+            result.paidContribution = await payContribution(claimed.contributionId!, details);
+            claimed.recordId = result.paidContribution._id;
+        } else {
+            const { loan, repayment } = await payLoan(claimed.loanId!, details);
+            claimed.recordId = repayment._id;
+            if (loan.status === 'completed') {
+                result.completedLoan = loan;
+            }
+        }
+    } catch (error) {
+        // The money has been taken, so this needs an admin to post or refund it
+        claimed.postingError = error instanceof Error ? error.message : 'Failed to post payment';
+        console.error(`Wallet payment ${claimed.orderId} received but not posted:`, error);
+    }
+    await claimed.save();
+
+    return result;
+}
@@ -0,0 +1,290 @@
+import crypto from 'crypto';
+
+export interface WalletOrder {
+    orderId: string;
+    amount: number;
+    description: string;
+    callbackUrl: string; // Where the provider sends the member back to, for this provider
+    siteUrl: string;
+    customer: { name: string; email?: string; phone?: string };
+}
+
+// Where to send the member's browser to pay. Providers that take a form POST
+// list the fields; the rest are a plain redirect.
+export interface WalletCheckout {
+    url: string;
+    method: 'GET' | 'POST';
+    fields?: Record<string, string>;
+    reference?: string; // Provider's ID for the checkout, when it issues one up front
+}
+
+export interface WalletVerification {
+    orderId: string;
+    status: 'completed' | 'failed' | 'cancelled';
+    providerReference?: string;
+    amount?: number;
+    failureReason?: string;
+}
+
+export interface WalletProvider {
+    name: string;
+    label: string;
+    initiate(order: WalletOrder): Promise<WalletCheckout>;
+    /**
+     * Check the parameters the provider sent the member back with. Throws when
+     * they are not authentic, so a forged callback never changes a payment.
+     */
+    verify(params: URLSearchParams): Promise<WalletVerification>;
+}
+
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+
+const isLive = () => process.env.WALLET_MODE === 'live';
+
+const hmac = (secret: string, message: string, encoding: 'hex' | 'base64') =>
+    crypto.createHmac('sha256', secret).update(message).digest(encoding);
+
+const signaturesMatch = (expected: string, actual: string) => {
+    const expectedBuffer = Buffer.from(expected);
+    const actualBuffer = Buffer.from(actual);
+    return expectedBuffer.length === actualBuffer.length && crypto.timingSafeEqual(expectedBuffer, actualBuffer);
+};
+
+const simulatorSecret = () => process.env.WALLET_SIMULATOR_SECRET || 'local-wallet-simulator';
+
+/**
+ * Signatures for the simulator's checkout link and its callback, so neither
+ * the amount nor the outcome can be edited in the browser
+ */
+export function signSimulatorCheckout(orderId: string, amount: string, returnUrl: string): string {
+    return hmac(simulatorSecret(), `checkout|${orderId}|${amount}|${returnUrl}`, 'hex');
+}
+
+export function signSimulatorResult(orderId: string, amount: string, status: string, transactionId: string): string {
+    return hmac(simulatorSecret(), `result|${orderId}|${amount}|${status}|${transactionId}`, 'hex');
+}
+
+export function verifySimulatorCheckout(params: URLSearchParams): boolean {
+    const orderId = params.get('orderId') || '';
+    const amount = params.get('amount') || '';
+    const returnUrl = params.get('returnUrl') || '';
+    return signaturesMatch(signSimulatorCheckout(orderId, amount, returnUrl), params.get('signature') || '');
+}
+
+/**
+ * Offline stand-in for a wallet: /api/payments/simulator shows a checkout page
+ * with Pay and Cancel buttons and calls back with an HMAC-signed result, the
+ * same round trip as a real provider
+ */
+function createSimulatorProvider(): WalletProvider {
+    return {
+        name: 'simulator',
+        label: 'Wallet Simulator',
+        async initiate(order) {
+            const amount = order.amount.toFixed(2);
+            return {
+                url: `${order.siteUrl}/api/payments/simulator`,
+                method: 'GET',
+                fields: {
+                    orderId: order.orderId,
+                    amount,
+                    description: order.description,
+                    returnUrl: order.callbackUrl,
+                    signature: signSimulatorCheckout(order.orderId, amount, order.callbackUrl),
+                },
+            };
+        },
+        async verify(params) {
+            const orderId = params.get('orderId') || '';
+            const amount = params.get('amount') || '';
+            const status = params.get('status') || '';
+            const transactionId = params.get('transactionId') || '';
+            const signature = params.get('signature') || '';
+
+            if (!signaturesMatch(signSimulatorResult(orderId, amount, status, transactionId), signature)) {
+                throw new Error('Invalid simulator signature');
+            }
+
+            return {
+                orderId,
+                status: status === 'COMPLETE' ? 'completed' : 'cancelled',
+                providerReference: transactionId || undefined,
+                amount: Number(amount),
+            };
+        },
+    };
+}
+
+/**
+ * eSewa ePay v2: the member's browser posts a signed form to eSewa, which
+ * redirects back with a base64 JSON "data" parameter signed with the same
+ * secret. Configured with ESEWA_PRODUCT_CODE and ESEWA_SECRET_KEY.
+ */
+function createEsewaProvider(): WalletProvider {
+    const productCode = process.env.ESEWA_PRODUCT_CODE || '';
+    const secret = process.env.ESEWA_SECRET_KEY || '';
+    const formUrl = isLive()
+        ? 'https://epay.esewa.com.np/api/epay/main/v2/form'
+        : 'https://rc-epay.esewa.com.np/api/epay/main/v2/form';
+
+    const sign = (fields: Record<string, string>, names: string) =>
+        hmac(secret, names.split(',').map((name) => `${name}=${fields[name] ?? ''}`).join(','), 'base64');
+
+    return {
+        name: 'esewa',
+        label: 'eSewa',
+        async initiate(order) {
+            if (!productCode || !secret) {
+                throw new Error('ESEWA_PRODUCT_CODE and ESEWA_SECRET_KEY must be set');
+            }
+
+            const amount = order.amount.toFixed(2);
+            const fields: Record<string, string> = {
+                amount,
+                tax_amount: '0',
+                total_amount: amount,
+                transaction_uuid: order.orderId,
+                product_code: productCode,
+                product_service_charge: '0',
+                product_delivery_charge: '0',
+                // eSewa appends "?data=" itself, so only the failure URL carries a query
+                success_url: order.callbackUrl,
+                failure_url: `${order.callbackUrl}?orderId=${encodeURIComponent(order.orderId)}&status=cancelled`,
+                signed_field_names: 'total_amount,transaction_uuid,product_code',
+            };
+            fields.signature = sign(fields, fields.signed_field_names);
+
+            return { url: formUrl, method: 'POST', fields };
+        },
+        async verify(params) {
+            const data = params.get('data');
+
+            // The failure redirect carries no payment data, so it can only cancel
+            if (!data) {
+                return { orderId: params.get('orderId') || '', status: 'cancelled' };
+            }
+
+            let payload: Record<string, string>;
+            try {
+                payload = JSON.parse(Buffer.from(data, 'base64').toString('utf8'));
+            } catch {
+                throw new Error('Malformed eSewa response');
+            }
+
+            const names = payload.signed_field_names || '';
+            if (!secret || !names || !signaturesMatch(sign(payload, names), payload.signature || '')) {
+                throw new Error('Invalid eSewa signature');
+            }
+            // Without these in the signed fields the amount or order could have been swapped
+            if (!['transaction_uuid', 'total_amount', 'status'].every((name) => names.split(',').includes(name))) {
+                throw new Error('eSewa response does not sign the order, amount and status');
+            }
+
+            const status = payload.status === 'COMPLETE'
+                ? 'completed'
+                : String(payload.status).includes('REFUND') ? 'failed' : 'cancelled';
+
+            return {
+                orderId: payload.transaction_uuid,
+                status,
+                providerReference: payload.transaction_code,
+                amount: Number(String(payload.total_amount).replace(/,/g, '')),
+                failureReason: payload.status === 'COMPLETE' ? undefined : `eSewa status ${payload.status}`,
+            };
+        },
+    };
+}
+
+/**
+ * Khalti ePayment: checkouts are created through Khalti's API and the result
+ * is confirmed with a server-side lookup rather than trusting the redirect.
+ * Configured with KHALTI_SECRET_KEY.
+ */
+function createKhaltiProvider(): WalletProvider {
+    const secret = process.env.KHALTI_SECRET_KEY || '';
+    const apiUrl = isLive() ? 'https://khalti.com/api/v2' : 'https://dev.khalti.com/api/v2';
+
+    const call = async (path: string, body: object) => {
+        if (!secret) {
+            throw new Error('KHALTI_SECRET_KEY must be set');
+        }
+
+        const response = await fetch(`${apiUrl}${path}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Key ${secret}`,
+            },
+            body: JSON.stringify(body),
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            throw new Error(`Khalti returned ${response.status}${detail ? `: ${detail.slice(0, 500)}` : ''}`);
+        }
+        return response.json();
+    };
+
+    return {
+        name: 'khalti',
+        label: 'Khalti',
+        async initiate(order) {
+            const result = await call('/epayment/initiate/', {
+                return_url: order.callbackUrl,
+                website_url: order.siteUrl,
+                amount: Math.round(order.amount * 100), // Paisa
+                purchase_order_id: order.orderId,
+                purchase_order_name: order.description,
+                customer_info: order.customer,
+            });
+
+            return { url: result.payment_url, method: 'GET', reference: result.pidx };
+        },
+        async verify(params) {
+            const pidx = params.get('pidx');
+            if (!pidx) {
+                throw new Error('Khalti response has no payment ID');
+            }
+
+            const lookup = await call('/epayment/lookup/', { pidx });
+            // Pending and expired checkouts count as cancelled, which a later callback can still complete
+            const status = lookup.status === 'Completed'
+                ? 'completed'
+                : String(lookup.status).includes('Refunded') ? 'failed' : 'cancelled';
+
+            return {
+                orderId: params.get('purchase_order_id') || '',
+                status,
+                providerReference: pidx,
+                amount: Number(lookup.total_amount) / 100,
+                failureReason: status === 'completed' ? undefined : `Khalti status ${lookup.status}`,
+            };
+        },
+    };
+}
+
+const PROVIDER_FACTORIES: Record<string, () => WalletProvider> = {
+    simulator: createSimulatorProvider,
+    esewa: createEsewaProvider,
+    khalti: createKhaltiProvider,
+};
+
+/**
+ * Providers members can pay with, from the comma-separated WALLET_PROVIDERS.
+ * Without it only the simulator is offered, and nothing in production.
+ */
+export function getWalletProviders(): WalletProvider[] {
+    const configured = process.env.WALLET_PROVIDERS
+        ?? (process.env.NODE_ENV === 'production' ? '' : 'simulator');
+
+    return configured
+        .split(',')
+        .map((name) => name.trim())
+        .filter((name) => PROVIDER_FACTORIES[name])
+        .map((name) => PROVIDER_FACTORIES[name]());
+}
+
+export function getWalletProvider(name: string): WalletProvider | undefined {
+    return getWalletProviders().find((provider) => provider.name === name);
+}
@@ -12,6 +12,9 @@ const publicRoutes = [
   '/api/auth/register',
   '/api/auth/forgot-password',
   '/api/auth/reset-password',
+  '/api/jobs/tick', // Checks its own cron secret
+  '/api/payments/callback', // Verified against the wallet provider instead
+  '/api/payments/simulator', // Checks its own signed checkout links
 ];
 
 // Routes that require admin role
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getTokenFromRequest, verifyToken, JWTPayload } from '@/lib/auth-edge';
+import { getAuditContext, runWithAuditContext } from '@/lib/audit';
+import { isSessionCurrent } from '@/lib/auth';
 
 export interface AuthenticatedRequest extends NextRequest {
   user: JWTPayload;
@@ -27,10 +29,29 @@ export function withAuth(handler: (req: AuthenticatedRequest) => Promise<NextRes
         );
       }
 
+      // Tokens issued before the user's last password reset no longer count
+      if (!(await isSessionCurrent(payload))) {
+        return NextResponse.json(
+          { success: false, message: 'Session has ended. Please sign in again.' },
+          { status: 401 }
+        );
+      }
+
       // Add user info to request
       (req as AuthenticatedRequest).user = payload;
 
-      return handler(req as AuthenticatedRequest);
+      // Attribute writes made by this request to the signed-in user
+      const actor = { actorId: payload.userId, actorEmail: payload.email, actorRole: payload.role };
+      const auditContext = getAuditContext();
+      if (auditContext) {
+        Object.assign(auditContext, actor);
+        return handler(req as AuthenticatedRequest);
+      }
+
+      return runWithAuditContext(
+        { route: req.nextUrl.pathname, method: req.method, ...actor },
+        () => handler(req as AuthenticatedRequest)
+      );
     } catch (error) {
       console.error('Authentication middleware error:', error);
       return NextResponse.json(
@@ -166,7 +187,13 @@ export function withValidation<T>(schema: {
 export function withErrorHandling(handler: (req: NextRequest) => Promise<NextResponse> | NextResponse) {
   return async (req: NextRequest): Promise<NextResponse> => {
     try {
-      return await handler(req);
+      // Every API write is audited against the route that made it
+      const auditContext = {
+        route: req.nextUrl.pathname,
+        method: req.method,
+        ipAddress: req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || undefined,
+      };
+      return await runWithAuditContext(auditContext, () => handler(req));
     } catch (error: any) {
       console.error('API Error:', error);
       
@@ -0,0 +1,64 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IAttachment } from '@/types';
+import { auditPlugin } from '@/lib/audit';
+
+type IAttachmentModel = Model<IAttachment>;
+
+const AttachmentSchema: Schema = new Schema(
+  {
+    ownerType: {
+      type: String,
+      enum: ['contribution', 'repayment'],
+      required: [true, 'Owner type is required'],
+    },
+    ownerId: {
+      type: Schema.Types.ObjectId,
+      required: [true, 'Owner ID is required'],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    fileName: {
+      type: String,
+      required: [true, 'File name is required'],
+      trim: true,
+      maxlength: [255, 'File name cannot exceed 255 characters'],
+    },
+    contentType: {
+      type: String,
+      required: [true, 'Content type is required'],
+    },
+    size: {
+      type: Number,
+      required: [true, 'Size is required'],
+      min: [1, 'File is empty'],
+    },
+    storage: {
+      type: String,
+      required: [true, 'Storage backend is required'],
+    },
+    storageKey: {
+      type: String,
+      required: [true, 'Storage key is required'],
+    },
+    uploadedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Uploaded by is required'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Index for listing a contribution's or repayment's attachments
+AttachmentSchema.index({ ownerType: 1, ownerId: 1 });
+
+AttachmentSchema.plugin(auditPlugin, { entityType: 'Attachment' });
+
+const Attachment = (mongoose.models.Attachment || mongoose.model<IAttachment, IAttachmentModel>('Attachment', AttachmentSchema)) as IAttachmentModel;
+
+export default Attachment;
@@ -0,0 +1,110 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IAuditLog } from '@/types';
+
+type IAuditLogModel = Model<IAuditLog>;
+
+const AuditChangeSchema: Schema = new Schema(
+  {
+    field: {
+      type: String,
+      required: true,
+    },
+    before: Schema.Types.Mixed,
+    after: Schema.Types.Mixed,
+  },
+  { _id: false }
+);
+
+const AuditLogSchema: Schema = new Schema(
+  {
+    action: {
+      type: String,
+      enum: ['create', 'update', 'delete'],
+      required: [true, 'Action is required'],
+    },
+    entityType: {
+      type: String,
+      enum: [
+        'User',
+        'Contribution',
+        'Loan',
+        'Repayment',
+        'Penalty',
+        'HistoricalInterest',
+        'DividendDistribution',
+        'Dividend',
+        'MemberWithdrawal',
+        'GuaranteeRecovery',
+        'LoanProduct',
+        'Settings',
+        'ContributionRate',
+        'ScheduledJob',
+        'Attachment',
+        'PeriodClose',
+      ],
+      required: [true, 'Entity type is required'],
+    },
+    entityId: {
+      type: Schema.Types.ObjectId,
+      required: [true, 'Entity ID is required'],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    actorEmail: {
+      type: String,
+    },
+    actorRole: {
+      type: String,
+      enum: ['admin', 'member', 'system'],
+      default: 'system',
+    },
+    route: {
+      type: String,
+    },
+    method: {
+      type: String,
+    },
+    ipAddress: {
+      type: String,
+    },
+    changes: {
+      type: [AuditChangeSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// Append-only: entries can be written but never changed or removed
+const rejectMutation = function () {
+  throw new Error('Audit log entries cannot be modified or deleted');
+};
+
+AuditLogSchema.pre('save', function () {
+  if (!this.isNew) {
+    rejectMutation();
+  }
+});
+AuditLogSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  rejectMutation
+);
+
+// Indexes for browsing by entity, member and admin
+AuditLogSchema.index({ createdAt: -1 });
+AuditLogSchema.index({ entityType: 1, entityId: 1, createdAt: -1 });
+AuditLogSchema.index({ userId: 1, createdAt: -1 });
+AuditLogSchema.index({ actorId: 1, createdAt: -1 });
+
+const AuditLog = (mongoose.models.AuditLog ||
+  mongoose.model<IAuditLog, IAuditLogModel>('AuditLog', AuditLogSchema)) as IAuditLogModel;
+
+export default AuditLog;
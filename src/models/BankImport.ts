@@ -0,0 +1,85 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IBankImport } from '@/types';
+
+type IBankImportModel = Model<IBankImport>;
+
+const CandidateSchema: Schema = new Schema(
+  {
+    kind: { type: String, enum: ['contribution', 'repayment'], required: true },
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    memberName: { type: String, required: true },
+    memberId: { type: String, required: true },
+    contributionId: { type: Schema.Types.ObjectId, ref: 'Contribution' },
+    month: String,
+    loanId: { type: Schema.Types.ObjectId, ref: 'Loan' },
+    principalAmount: Number,
+    interestAmount: Number,
+    score: { type: Number, required: true },
+    reasons: { type: [String], default: [] },
+  },
+  { _id: false }
+);
+
+const RowSchema: Schema = new Schema(
+  {
+    rowNumber: { type: Number, required: true },
+    date: { type: Date, required: true },
+    description: { type: String, default: '' },
+    reference: String,
+    amount: { type: Number, required: true, min: [0, 'Amount cannot be negative'] },
+    fingerprint: { type: String, required: true },
+    status: {
+      type: String,
+      enum: ['matched', 'ambiguous', 'unmatched', 'duplicate', 'posting', 'posted', 'ignored'],
+      required: true,
+    },
+    candidates: { type: [CandidateSchema], default: [] },
+    postedKind: { type: String, enum: ['contribution', 'repayment'] },
+    postedRecordId: Schema.Types.ObjectId,
+    postedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    postedAt: Date,
+    error: String,
+  },
+  { _id: false }
+);
+
+// The contributions and repayments it posts are audited; the import itself is a working record
+const BankImportSchema: Schema = new Schema(
+  {
+    fileName: {
+      type: String,
+      required: [true, 'File name is required'],
+      trim: true,
+    },
+    format: {
+      type: String,
+      required: [true, 'Statement format is required'],
+    },
+    uploadedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    rows: {
+      type: [RowSchema],
+      default: [],
+    },
+    skippedRows: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Index for spotting credits already posted from an earlier upload
+BankImportSchema.index({ 'rows.fingerprint': 1 });
+
+// Index for listing recent imports
+BankImportSchema.index({ createdAt: -1 });
+
+const BankImport = (mongoose.models.BankImport || mongoose.model<IBankImport, IBankImportModel>('BankImport', BankImportSchema)) as IBankImportModel;
+
+export default BankImport;
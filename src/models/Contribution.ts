@@ -1,11 +1,16 @@
 import mongoose, { Schema, Model } from 'mongoose';
 import { IContribution } from '@/types';
+import { auditPlugin } from '@/lib/audit';
+import { getContributionSchedule } from '@/lib/contribution-amounts';
+import { nextSequenceNumber } from '@/lib/counters';
+import { formatFiscalYear, getFiscalYearMonths, toBSMonth } from '@/lib/periods';
 
 // Define interface for static methods
 interface IContributionModel extends Model<IContribution> {
   createMonthlyContributions(year: number, month: number): Promise<IContribution[]>;
   getUserTotalSavings(userId: string): Promise<{ totalSavings: number; contributionCount: number }>;
   getMonthlyStats(year: number, month: number): Promise<any>;
+  getFiscalYearStats(fiscalYear: number): Promise<any>;
 }
 
 const ContributionSchema: Schema = new Schema(
@@ -19,7 +24,6 @@ const ContributionSchema: Schema = new Schema(
       type: Number,
       required: [true, 'Amount is required'],
       min: [0, 'Amount must be positive'],
-      default: 2000, // Default monthly contribution
     },
     month: {
       type: String,
@@ -56,6 +60,14 @@ const ContributionSchema: Schema = new Schema(
         return this.paidStatus === 'paid';
       },
     },
+    receiptNumber: {
+      type: String,
+      unique: true,
+      sparse: true,
+    },
+    legacyReceiptNumber: {
+      type: String,
+    },
   },
   {
     timestamps: true,
@@ -84,11 +96,23 @@ ContributionSchema.pre('save', function (this: IContribution, next) {
   next();
 });
 
+// Pre-save middleware to number the receipt once the contribution is paid, in the period it was paid in
+ContributionSchema.pre('save', async function (this: IContribution) {
+  if (this.paidStatus === 'paid' && !this.receiptNumber) {
+    this.receiptNumber = await nextSequenceNumber('contribution-receipt', {
+      date: this.paidDate,
+      session: this.$session(),
+    });
+  }
+});
+
 // Static methods
 ContributionSchema.statics.createMonthlyContributions = async function (year: number, month: number) {
   const User = mongoose.model('User');
   const activeUsers = await User.find({ isActive: true, role: 'member' });
   
+  const schedule = await getContributionSchedule();
+
   const monthStr = `${year}-${String(month).padStart(2, '0')}`;
   const contributions = [];
   
@@ -102,7 +126,7 @@ ContributionSchema.statics.createMonthlyContributions = async function (year: nu
     if (!existing) {
       contributions.push({
         userId: user._id,
-        amount: 2000,
+        amount: schedule.amountFor(monthStr, user._id.toString()),
         month: monthStr,
         year,
         paidStatus: 'pending',
@@ -169,6 +193,57 @@ ContributionSchema.statics.getMonthlyStats = async function (year: number, month
   return result;
 };
 
+// Static method for paid, pending and overdue totals in each month of a Nepali
+// fiscal year (Shrawan to Ashadh), whichever calendar the months are kept in
+ContributionSchema.statics.getFiscalYearStats = async function (fiscalYear: number) {
+  const months = getFiscalYearMonths(fiscalYear);
+
+  const stats = await this.aggregate([
+    { $match: { month: { $in: months } } },
+    {
+      $group: {
+        _id: { month: '$month', paidStatus: '$paidStatus' },
+        count: { $sum: 1 },
+        totalAmount: { $sum: '$amount' },
+      },
+    },
+  ]);
+
+  const emptyTotals = () => ({
+    paid: { count: 0, totalAmount: 0 },
+    pending: { count: 0, totalAmount: 0 },
+    overdue: { count: 0, totalAmount: 0 },
+  });
+
+  const totals = emptyTotals();
+  const monthly = months.map((month) => {
+    const result = emptyTotals();
+
+    stats
+      .filter((stat) => stat._id.month === month)
+      .forEach((stat) => {
+        const status = stat._id.paidStatus as keyof typeof result;
+        if (result[status]) {
+          result[status] = { count: stat.count, totalAmount: stat.totalAmount };
+          totals[status].count += stat.count;
+          totals[status].totalAmount += stat.totalAmount;
+        }
+      });
+
+    return { month, bsMonth: toBSMonth(month), ...result };
+  });
+
+  return {
+    fiscalYear,
+    label: formatFiscalYear(fiscalYear),
+    months: monthly,
+    totals,
+  };
+};
+
+// Record every change in the audit log
+ContributionSchema.plugin(auditPlugin, { entityType: 'Contribution' });
+
 const Contribution = (mongoose.models.Contribution || mongoose.model<IContribution, IContributionModel>('Contribution', ContributionSchema)) as IContributionModel;
 
 export default Contribution;
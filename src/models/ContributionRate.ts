@@ -0,0 +1,65 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IContributionRate } from '@/types';
+import { auditPlugin } from '@/lib/audit';
+
+// Define interface for static methods
+interface IContributionRateModel extends Model<IContributionRate> {
+  getSchedule(): Promise<IContributionRate[]>;
+}
+
+const ContributionRateSchema: Schema = new Schema(
+  {
+    effectiveFrom: {
+      type: String,
+      required: [true, 'Effective month is required'],
+      match: [/^\d{4}-\d{2}$/, 'Month must be in format YYYY-MM'],
+    },
+    effectiveTo: {
+      type: String,
+      match: [/^\d{4}-\d{2}$/, 'Month must be in format YYYY-MM'],
+      validate: {
+        validator: function (this: IContributionRate, value: string) {
+          return !value || (!!this.userId && value >= this.effectiveFrom);
+        },
+        message: 'Only member overrides can end, and not before they start',
+      },
+    },
+    amount: {
+      type: Number,
+      required: [true, 'Amount is required'],
+      min: [1, 'Amount must be positive'],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Note cannot exceed 500 characters'],
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Created by is required'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One community amount per month, and one override per member per month
+ContributionRateSchema.index({ userId: 1, effectiveFrom: 1 }, { unique: true });
+
+// Static methods
+ContributionRateSchema.statics.getSchedule = async function () {
+  return this.find().sort({ effectiveFrom: -1 }).lean();
+};
+
+// Record every change in the audit log
+ContributionRateSchema.plugin(auditPlugin, { entityType: 'ContributionRate' });
+
+const ContributionRate = (mongoose.models.ContributionRate || mongoose.model<IContributionRate, IContributionRateModel>('ContributionRate', ContributionRateSchema)) as IContributionRateModel;
+
+export default ContributionRate;
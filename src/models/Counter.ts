@@ -0,0 +1,26 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { ICounter } from '@/types';
+
+type ICounterModel = Model<ICounter>;
+
+// Counters only hand out numbers; the numbered records are audited themselves
+const CounterSchema: Schema = new Schema(
+  {
+    _id: {
+      type: String,
+      required: [true, 'Counter key is required'],
+    },
+    seq: {
+      type: Number,
+      default: 0,
+      min: [0, 'Sequence cannot be negative'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const Counter = (mongoose.models.Counter || mongoose.model<ICounter, ICounterModel>('Counter', CounterSchema)) as ICounterModel;
+
+export default Counter;
@@ -0,0 +1,84 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IDividend } from '@/types';
+import { auditPlugin } from '@/lib/audit';
+
+// Define interface for static methods
+interface IDividendModel extends Model<IDividend> {
+  getUserTotalDividends(userId: string): Promise<{ totalDividends: number; dividendCount: number }>;
+}
+
+const DividendSchema: Schema = new Schema(
+  {
+    distributionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'DividendDistribution',
+      required: [true, 'Distribution ID is required'],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    year: {
+      type: Number,
+      required: [true, 'Dividend year is required'],
+    },
+    weightedAverageBalance: {
+      type: Number,
+      required: true,
+      min: [0, 'Weighted balance cannot be negative'],
+    },
+    closingBalance: {
+      type: Number,
+      required: true,
+      min: [0, 'Closing balance cannot be negative'],
+    },
+    sharePercentage: {
+      type: Number,
+      required: true,
+      min: [0, 'Share percentage cannot be negative'],
+      max: [100, 'Share percentage cannot exceed 100'],
+    },
+    amount: {
+      type: Number,
+      required: [true, 'Dividend amount is required'],
+      min: [0, 'Dividend amount cannot be negative'],
+    },
+    creditedDate: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One credit per member per distribution
+DividendSchema.index({ distributionId: 1, userId: 1 }, { unique: true });
+
+// Indexes for queries
+DividendSchema.index({ userId: 1, year: -1 });
+
+// Static methods
+DividendSchema.statics.getUserTotalDividends = async function (userId: string) {
+  const result = await this.aggregate([
+    { $match: { userId: new mongoose.Types.ObjectId(userId) } },
+    {
+      $group: {
+        _id: null,
+        totalDividends: { $sum: '$amount' },
+        dividendCount: { $sum: 1 },
+      },
+    },
+  ]);
+
+  return result.length > 0 ? result[0] : { totalDividends: 0, dividendCount: 0 };
+};
+
+// Record every change in the audit log
+DividendSchema.plugin(auditPlugin, { entityType: 'Dividend' });
+
+const Dividend = (mongoose.models.Dividend || mongoose.model<IDividend, IDividendModel>('Dividend', DividendSchema)) as IDividendModel;
+
+export default Dividend;
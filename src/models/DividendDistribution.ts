@@ -0,0 +1,91 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IDividendDistribution } from '@/types';
+import { auditPlugin } from '@/lib/audit';
+
+type IDividendDistributionModel = Model<IDividendDistribution>;
+
+const DividendDistributionSchema: Schema = new Schema(
+  {
+    year: {
+      type: Number,
+      required: [true, 'Distribution year is required'],
+      min: [2020, 'Year must be 2020 or later'],
+    },
+    periodStart: {
+      type: Date,
+      required: [true, 'Period start is required'],
+    },
+    periodEnd: {
+      type: Date,
+      required: [true, 'Period end is required'],
+    },
+    repaymentInterest: {
+      type: Number,
+      default: 0,
+    },
+    historicalInterest: {
+      type: Number,
+      default: 0,
+    },
+    penaltiesCollected: {
+      type: Number,
+      default: 0,
+    },
+    totalIncome: {
+      type: Number,
+      required: [true, 'Total income is required'],
+      min: [0, 'Total income cannot be negative'],
+    },
+    reservePercentage: {
+      type: Number,
+      required: [true, 'Reserve percentage is required'],
+      min: [0, 'Reserve percentage cannot be negative'],
+      max: [100, 'Reserve percentage cannot exceed 100'],
+    },
+    reserveAmount: {
+      type: Number,
+      required: true,
+      min: [0, 'Reserve amount cannot be negative'],
+    },
+    distributedAmount: {
+      type: Number,
+      required: true,
+      min: [0, 'Distributed amount cannot be negative'],
+    },
+    totalWeightedBalance: {
+      type: Number,
+      required: true,
+    },
+    memberCount: {
+      type: Number,
+      required: true,
+    },
+    postedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Posted by is required'],
+    },
+    postedDate: {
+      type: Date,
+      default: Date.now,
+    },
+    notes: {
+      type: String,
+      maxlength: [500, 'Notes cannot exceed 500 characters'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A year can only be distributed once
+DividendDistributionSchema.index({ year: 1 }, { unique: true });
+
+// Record every change in the audit log
+DividendDistributionSchema.plugin(auditPlugin, { entityType: 'DividendDistribution' });
+
+const DividendDistribution = (mongoose.models.DividendDistribution ||
+  mongoose.model<IDividendDistribution, IDividendDistributionModel>('DividendDistribution', DividendDistributionSchema)) as IDividendDistributionModel;
+
+export default DividendDistribution;
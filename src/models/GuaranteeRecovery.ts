@@ -0,0 +1,91 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IGuaranteeRecovery } from '@/types';
+import { auditPlugin } from '@/lib/audit';
+
+// Define interface for static methods
+interface IGuaranteeRecoveryModel extends Model<IGuaranteeRecovery> {
+  getUserTotalRecovered(userId: string, since?: Date): Promise<number>;
+}
+
+const GuaranteeRecoverySchema: Schema = new Schema(
+  {
+    loanId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Loan',
+      required: [true, 'Loan ID is required'],
+    },
+    borrowerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Borrower is required'],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Guarantor is required'],
+    },
+    repaymentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Repayment',
+      required: [true, 'Repayment is required'],
+    },
+    amount: {
+      type: Number,
+      required: [true, 'Recovered amount is required'],
+      min: [0, 'Recovered amount must be positive'],
+    },
+    principalAmount: {
+      type: Number,
+      required: [true, 'Principal amount is required'],
+      min: [0, 'Principal amount must be positive'],
+    },
+    interestAmount: {
+      type: Number,
+      required: [true, 'Interest amount is required'],
+      min: [0, 'Interest amount must be positive'],
+    },
+    recoveryDate: {
+      type: Date,
+      required: [true, 'Recovery date is required'],
+    },
+    recordedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Recorded by is required'],
+    },
+    notes: {
+      type: String,
+      maxlength: [500, 'Notes cannot exceed 500 characters'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for queries
+GuaranteeRecoverySchema.index({ loanId: 1, recoveryDate: -1 });
+GuaranteeRecoverySchema.index({ userId: 1, recoveryDate: -1 });
+
+// Static methods
+GuaranteeRecoverySchema.statics.getUserTotalRecovered = async function (userId: string, since?: Date) {
+  const match: Record<string, any> = { userId: new mongoose.Types.ObjectId(userId) };
+  if (since) {
+    match.recoveryDate = { $gt: since };
+  }
+
+  const result = await this.aggregate([
+    { $match: match },
+    { $group: { _id: null, total: { $sum: '$amount' } } },
+  ]);
+
+  return result.length > 0 ? result[0].total : 0;
+};
+
+// Record every change in the audit log
+GuaranteeRecoverySchema.plugin(auditPlugin, { entityType: 'GuaranteeRecovery' });
+
+const GuaranteeRecovery = (mongoose.models.GuaranteeRecovery ||
+  mongoose.model<IGuaranteeRecovery, IGuaranteeRecoveryModel>('GuaranteeRecovery', GuaranteeRecoverySchema)) as IGuaranteeRecoveryModel;
+
+export default GuaranteeRecovery;
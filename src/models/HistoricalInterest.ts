@@ -1,5 +1,8 @@
 import mongoose, { Schema, Model } from 'mongoose';
 import { Document, Types } from 'mongoose';
+import { auditPlugin } from '@/lib/audit';
+import { nextSequenceNumber } from '@/lib/counters';
+import { formatContributionMonth, formatFiscalYear, getFiscalYearMonths, getPeriodStart, shiftMonth } from '@/lib/periods';
 
 // Historical Interest interface
 export interface IHistoricalInterest extends Document {
@@ -13,6 +16,7 @@ export interface IHistoricalInterest extends Document {
     borrowerName?: string; // For easier tracking without complex joins (legacy support)
     recordedBy: Types.ObjectId;
     receiptNumber?: string;
+    legacyReceiptNumber?: string; // Number it had before sequential numbering
     notes?: string;
     createdAt: Date;
     updatedAt: Date;
@@ -23,6 +27,7 @@ interface IHistoricalInterestModel extends Model<IHistoricalInterest> {
     getTotalHistoricalInterest(): Promise<number>;
     getHistoricalInterestByDateRange(startDate: Date, endDate: Date): Promise<IHistoricalInterest[]>;
     getHistoricalInterestByYear(year: number): Promise<{ totalAmount: number; monthlyBreakdown: any[] }>;
+    getHistoricalInterestByFiscalYear(fiscalYear: number): Promise<{ label: string; totalAmount: number; monthlyBreakdown: any[] }>;
 }
 
 const HistoricalInterestSchema: Schema = new Schema(
@@ -81,6 +86,10 @@ const HistoricalInterestSchema: Schema = new Schema(
             sparse: true,
             trim: true,
         },
+        legacyReceiptNumber: {
+            type: String,
+            trim: true,
+        },
         notes: {
             type: String,
             maxlength: [500, 'Notes cannot exceed 500 characters'],
@@ -99,12 +108,13 @@ HistoricalInterestSchema.index({ userId: 1, interestDate: -1 });
 HistoricalInterestSchema.index({ loanId: 1, interestDate: -1 });
 HistoricalInterestSchema.index({ recordedBy: 1, interestDate: -1 });
 
-// Pre-save middleware to generate receipt number
+// Pre-save middleware to generate receipt number, in the period the interest was collected in
 HistoricalInterestSchema.pre('save', async function (this: IHistoricalInterest, next) {
     if (!this.receiptNumber && this.isNew) {
-        const HistoricalInterestModel = this.constructor as mongoose.Model<IHistoricalInterest>;
-        const count = await HistoricalInterestModel.countDocuments();
-        this.receiptNumber = `HI${Date.now()}${String(count + 1).padStart(3, '0')}`;
+        this.receiptNumber = await nextSequenceNumber('historical-interest-receipt', {
+            date: this.interestDate,
+            session: this.$session(),
+        });
     }
     next();
 });
@@ -185,6 +195,56 @@ HistoricalInterestSchema.statics.getHistoricalInterestByYear = async function (y
     };
 };
 
+// Static method to get historical interest in a Nepali fiscal year with a
+// breakdown by BS month, Shrawan first
+HistoricalInterestSchema.statics.getHistoricalInterestByFiscalYear = async function (fiscalYear: number) {
+    const months = getFiscalYearMonths(fiscalYear);
+    // Each BS month runs from its first day to the first day of the next
+    const boundaries = [...months, shiftMonth(months[11], 1)].map((month) => getPeriodStart(month, 'BS'));
+
+    const result = await this.aggregate([
+        {
+            $match: {
+                interestDate: {
+                    $gte: boundaries[0],
+                    $lt: boundaries[12],
+                },
+            },
+        },
+        {
+            $bucket: {
+                groupBy: '$interestDate',
+                boundaries,
+                output: {
+                    monthlyAmount: { $sum: '$amount' },
+                    count: { $sum: 1 },
+                },
+            },
+        },
+    ]);
+
+    const monthlyBreakdown = months.map((month, i) => {
+        const monthData = result.find(r => new Date(r._id).getTime() === boundaries[i].getTime());
+        return {
+            month,
+            monthName: formatContributionMonth(month, 'BS'),
+            amount: monthData ? monthData.monthlyAmount : 0,
+            count: monthData ? monthData.count : 0,
+        };
+    });
+
+    const totalAmount = result.reduce((sum, r) => sum + r.monthlyAmount, 0);
+
+    return {
+        label: formatFiscalYear(fiscalYear),
+        totalAmount,
+        monthlyBreakdown,
+    };
+};
+
+// Record every change in the audit log
+HistoricalInterestSchema.plugin(auditPlugin, { entityType: 'HistoricalInterest' });
+
 const HistoricalInterest = (mongoose.models.HistoricalInterest ||
     mongoose.model<IHistoricalInterest, IHistoricalInterestModel>('HistoricalInterest', HistoricalInterestSchema)) as IHistoricalInterestModel;
 
@@ -0,0 +1,75 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IJobRun } from '@/types';
+
+type IJobRunModel = Model<IJobRun>;
+
+// Runs are the scheduler's own history, so they are not audited
+const JobRunSchema: Schema = new Schema(
+  {
+    jobName: {
+      type: String,
+      enum: [
+        'generate-monthly-contributions',
+        'mark-overdue-contributions',
+        'snapshot-loan-interest',
+        'send-contribution-reminders',
+        'retry-notifications',
+      ],
+      required: [true, 'Job name is required'],
+    },
+    runKey: {
+      type: String,
+      required: [true, 'Run key is required'],
+    },
+    trigger: {
+      type: String,
+      enum: ['schedule', 'manual'],
+      required: [true, 'Trigger is required'],
+    },
+    status: {
+      type: String,
+      enum: ['running', 'succeeded', 'failed'],
+      default: 'running',
+      required: true,
+    },
+    attempts: {
+      type: Number,
+      default: 1,
+      min: [1, 'Attempts must be at least 1'],
+    },
+    startedAt: {
+      type: Date,
+      required: [true, 'Start time is required'],
+    },
+    finishedAt: {
+      type: Date,
+    },
+    lockedUntil: {
+      type: Date,
+    },
+    result: {
+      type: Schema.Types.Mixed,
+    },
+    error: {
+      type: String,
+      maxlength: [2000, 'Error cannot exceed 2000 characters'],
+    },
+    triggeredBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A job runs at most once per period; inserting the run takes the lock
+JobRunSchema.index({ jobName: 1, runKey: 1 }, { unique: true });
+
+// Index for run history
+JobRunSchema.index({ startedAt: -1 });
+
+const JobRun = (mongoose.models.JobRun || mongoose.model<IJobRun, IJobRunModel>('JobRun', JobRunSchema)) as IJobRunModel;
+
+export default JobRun;
@@ -0,0 +1,121 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IJournalEntry, IJournalLine } from '@/types';
+
+type IJournalEntryModel = Model<IJournalEntry>;
+
+const JournalLineSchema: Schema = new Schema(
+  {
+    account: {
+      type: String,
+      enum: [
+        'CASH',
+        'LOANS_RECEIVABLE',
+        'MEMBER_SAVINGS',
+        'DIVIDENDS_PAYABLE',
+        'RETAINED_EARNINGS',
+        'INTEREST_INCOME',
+        'PENALTY_INCOME',
+      ],
+      required: [true, 'Account is required'],
+    },
+    debit: {
+      type: Number,
+      default: 0,
+      min: [0, 'Debit cannot be negative'],
+    },
+    credit: {
+      type: Number,
+      default: 0,
+      min: [0, 'Credit cannot be negative'],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  { _id: false }
+);
+
+const JournalEntrySchema: Schema = new Schema(
+  {
+    entryDate: {
+      type: Date,
+      required: [true, 'Entry date is required'],
+    },
+    description: {
+      type: String,
+      required: [true, 'Description is required'],
+      maxlength: [300, 'Description cannot exceed 300 characters'],
+    },
+    sourceType: {
+      type: String,
+      enum: [
+        'contribution',
+        'loan_disbursement',
+        'repayment',
+        'penalty',
+        'historical_interest',
+        'dividend_distribution',
+        'member_withdrawal',
+        'guarantee_recovery',
+      ],
+      required: [true, 'Source type is required'],
+    },
+    sourceId: {
+      type: Schema.Types.ObjectId,
+      required: [true, 'Source ID is required'],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    loanId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Loan',
+    },
+    lines: {
+      type: [JournalLineSchema],
+      validate: {
+        validator: function (lines: IJournalLine[]) {
+          const debits = lines.reduce((sum, line) => sum + (line.debit || 0), 0);
+          const credits = lines.reduce((sum, line) => sum + (line.credit || 0), 0);
+          return lines.length >= 2 && debits > 0 && Math.abs(debits - credits) < 0.005;
+        },
+        message: 'Journal entry must have at least two lines and equal debits and credits',
+      },
+    },
+    status: {
+      type: String,
+      enum: ['posted', 'reversed', 'reversal'],
+      default: 'posted',
+      required: true,
+    },
+    reversalOf: {
+      type: Schema.Types.ObjectId,
+      ref: 'JournalEntry',
+    },
+    postedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Each source document has at most one live entry; corrections reverse it first
+JournalEntrySchema.index(
+  { sourceType: 1, sourceId: 1 },
+  { unique: true, partialFilterExpression: { status: 'posted' } }
+);
+
+// Indexes for reports
+JournalEntrySchema.index({ entryDate: 1 });
+JournalEntrySchema.index({ 'lines.account': 1, entryDate: 1 });
+JournalEntrySchema.index({ loanId: 1 });
+
+const JournalEntry = (mongoose.models.JournalEntry ||
+  mongoose.model<IJournalEntry, IJournalEntryModel>('JournalEntry', JournalEntrySchema)) as IJournalEntryModel;
+
+export default JournalEntry;
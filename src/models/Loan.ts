@@ -1,5 +1,9 @@
 import mongoose, { Schema, Model } from 'mongoose';
 import { ILoan } from '@/types';
+import { COMMUNITY_CONFIG } from '@/config/community';
+import { auditPlugin } from '@/lib/audit';
+import { generateInstallmentSchedule } from '@/lib/loan-schedule';
+import { getSettings } from '@/lib/settings';
 
 // Define interface for static methods
 interface ILoanModel extends Model<ILoan> {
@@ -10,6 +14,142 @@ interface ILoanModel extends Model<ILoan> {
   getUserLoanHistory(userId: string): Promise<ILoan[]>;
 }
 
+const RepaymentPlanSchema: Schema = new Schema(
+  {
+    termMonths: {
+      type: Number,
+      required: [true, 'Loan term is required'],
+      min: [1, 'Loan term must be at least 1 month'],
+      max: [120, 'Loan term cannot exceed 120 months'],
+    },
+    frequency: {
+      type: String,
+      enum: ['monthly', 'quarterly'],
+      default: 'monthly',
+      required: true,
+    },
+    method: {
+      type: String,
+      enum: ['equal_principal', 'emi'],
+      default: 'emi',
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const InstallmentSchema: Schema = new Schema(
+  {
+    installmentNumber: { type: Number, required: true },
+    dueDate: { type: Date, required: true },
+    openingBalance: { type: Number, required: true },
+    principalAmount: { type: Number, required: true },
+    interestAmount: { type: Number, required: true },
+    totalAmount: { type: Number, required: true },
+    closingBalance: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const PendingActionSchema: Schema = new Schema(
+  {
+    action: {
+      type: String,
+      enum: ['approve', 'disburse'],
+      required: true,
+    },
+    requestedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    requestedDate: {
+      type: Date,
+      default: Date.now,
+      required: true,
+    },
+    approvedAmount: Number,
+    interestRate: Number,
+    repaymentPlan: RepaymentPlanSchema,
+    disbursementDate: Date,
+  },
+  { _id: false }
+);
+
+const GuarantorSchema: Schema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Guarantor is required'],
+    },
+    amount: {
+      type: Number,
+      required: [true, 'Guaranteed amount is required'],
+      min: [0, 'Guaranteed amount must be positive'],
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'accepted', 'declined'],
+      default: 'pending',
+      required: true,
+    },
+    respondedDate: {
+      type: Date,
+    },
+    recoveredAmount: {
+      type: Number,
+      default: 0,
+      min: [0, 'Recovered amount must be positive'],
+    },
+  },
+  { _id: false }
+);
+
+const ProductTermsSchema: Schema = new Schema(
+  {
+    name: { type: String, required: true },
+    interestRate: { type: Number, required: true },
+    minAmount: { type: Number, required: true },
+    maxAmount: { type: Number, required: true },
+    maxTermMonths: { type: Number, required: true },
+    interestMethod: {
+      type: String,
+      enum: ['equal_principal', 'emi'],
+      required: true,
+    },
+    requiresGuarantor: { type: Boolean, required: true },
+  },
+  { _id: false }
+);
+
+const SignoffSchema: Schema = new Schema(
+  {
+    action: {
+      type: String,
+      enum: ['approve', 'disburse'],
+      required: true,
+    },
+    requestedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    requestedDate: {
+      type: Date,
+      required: true,
+    },
+    confirmedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    confirmedDate: {
+      type: Date,
+    },
+  },
+  { _id: false }
+);
+
 const LoanSchema: Schema = new Schema(
   {
     userId: {
@@ -20,8 +160,8 @@ const LoanSchema: Schema = new Schema(
     requestedAmount: {
       type: Number,
       required: [true, 'Requested amount is required'],
-      min: [1000, 'Minimum loan amount is 1000'],
-      max: [200000, 'Maximum loan amount is 200000'],
+      min: [COMMUNITY_CONFIG.LOAN_ELIGIBILITY.MIN_AMOUNT, `Minimum loan amount is ${COMMUNITY_CONFIG.LOAN_ELIGIBILITY.MIN_AMOUNT}`],
+      max: [COMMUNITY_CONFIG.LOAN_ELIGIBILITY.MAX_AMOUNT, `Maximum loan amount is ${COMMUNITY_CONFIG.LOAN_ELIGIBILITY.MAX_AMOUNT}`],
     },
     approvedAmount: {
       type: Number,
@@ -35,8 +175,7 @@ const LoanSchema: Schema = new Schema(
     },
     interestRate: {
       type: Number,
-      required: [true, 'Interest rate is required'],
-      default: 16, // 16% annual interest rate
+      required: [true, 'Interest rate is required'], // Defaults to the community rate in settings
       min: [0, 'Interest rate must be positive'],
       max: [100, 'Interest rate cannot exceed 100%'],
     },
@@ -95,13 +234,16 @@ const LoanSchema: Schema = new Schema(
       type: String,
       maxlength: [500, 'Collateral description cannot exceed 500 characters'],
     },
-    guarantor: {
-      type: String,
-      maxlength: [100, 'Guarantor name cannot exceed 100 characters'],
+    guarantors: {
+      type: [GuarantorSchema],
+      default: undefined,
     },
-    guarantorContact: {
-      type: String,
-      maxlength: [50, 'Guarantor contact cannot exceed 50 characters'],
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'LoanProduct',
+    },
+    productTerms: {
+      type: ProductTermsSchema,
     },
     rejectionReason: {
       type: String,
@@ -115,6 +257,20 @@ const LoanSchema: Schema = new Schema(
       type: Date,
       description: 'Date when interest was last paid for yearly settlement',
     },
+    repaymentPlan: {
+      type: RepaymentPlanSchema,
+    },
+    schedule: {
+      type: [InstallmentSchema],
+      default: undefined,
+    },
+    pendingAction: {
+      type: PendingActionSchema,
+    },
+    approvalHistory: {
+      type: [SignoffSchema],
+      default: undefined,
+    },
   },
   {
     timestamps: true,
@@ -126,6 +282,17 @@ LoanSchema.index({ userId: 1, status: 1 });
 LoanSchema.index({ status: 1, requestDate: -1 });
 LoanSchema.index({ approvedBy: 1, approvalDate: -1 });
 LoanSchema.index({ expectedRepaymentDate: 1, status: 1 });
+LoanSchema.index({ 'pendingAction.action': 1 }, { sparse: true });
+LoanSchema.index({ 'guarantors.userId': 1, status: 1 });
+LoanSchema.index({ productId: 1 }, { sparse: true });
+
+// New loans without a rate (or a product setting one) take the current community rate
+LoanSchema.pre('validate', async function (this: ILoan) {
+  if (this.isNew && (this.interestRate === undefined || this.interestRate === null)) {
+    const { annualInterestRate } = await getSettings();
+    this.interestRate = annualInterestRate;
+  }
+});
 
 // Pre-save middleware for loan status management
 LoanSchema.pre('save', function (this: ILoan, next) {
@@ -155,6 +322,21 @@ LoanSchema.pre('save', function (this: ILoan, next) {
     this.disbursementDate = new Date();
   }
 
+  // (Re)generate the installment schedule while no repayments have been recorded
+  const scheduleStart = this.disbursementDate || this.approvalDate;
+  const scheduleInputsChanged = ['repaymentPlan', 'approvedAmount', 'interestRate', 'approvalDate', 'disbursementDate']
+    .some((path) => this.isModified(path));
+
+  if (this.repaymentPlan && this.approvedAmount && scheduleStart && scheduleInputsChanged && this.repayments.length === 0) {
+    this.schedule = generateInstallmentSchedule(
+      this.approvedAmount,
+      this.interestRate,
+      this.repaymentPlan,
+      new Date(scheduleStart)
+    );
+    this.expectedRepaymentDate = this.schedule[this.schedule.length - 1].dueDate;
+  }
+
   next();
 });
 
@@ -228,6 +410,9 @@ LoanSchema.statics.getUserLoanHistory = async function (userId: string) {
     .sort({ requestDate: -1 });
 };
 
+// Record every change in the audit log
+LoanSchema.plugin(auditPlugin, { entityType: 'Loan' });
+
 const Loan = (mongoose.models.Loan || mongoose.model<ILoan, ILoanModel>('Loan', LoanSchema)) as ILoanModel;
 
 export default Loan;
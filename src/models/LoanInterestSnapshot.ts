@@ -0,0 +1,62 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { ILoanInterestSnapshot } from '@/types';
+
+type ILoanInterestSnapshotModel = Model<ILoanInterestSnapshot>;
+
+// Written by the interest snapshot job and never edited, like ledger entries
+const LoanInterestSnapshotSchema: Schema = new Schema(
+  {
+    loanId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Loan',
+      required: [true, 'Loan ID is required'],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    month: {
+      type: String,
+      required: [true, 'Month is required'],
+      match: [/^\d{4}-\d{2}$/, 'Month must be in format YYYY-MM'],
+    },
+    asOfDate: {
+      type: Date,
+      required: [true, 'Snapshot date is required'],
+    },
+    principal: {
+      type: Number,
+      required: [true, 'Principal is required'],
+      min: [0, 'Principal must be positive'],
+    },
+    amountPaid: {
+      type: Number,
+      default: 0,
+      min: [0, 'Amount paid must be positive'],
+    },
+    totalInterest: {
+      type: Number,
+      required: [true, 'Total interest is required'],
+      min: [0, 'Total interest must be positive'],
+    },
+    remainingBalance: {
+      type: Number,
+      required: [true, 'Remaining balance is required'],
+      min: [0, 'Remaining balance must be positive'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One snapshot per loan per month
+LoanInterestSnapshotSchema.index({ loanId: 1, month: 1 }, { unique: true });
+
+// Index for monthly reports
+LoanInterestSnapshotSchema.index({ month: 1 });
+
+const LoanInterestSnapshot = (mongoose.models.LoanInterestSnapshot || mongoose.model<ILoanInterestSnapshot, ILoanInterestSnapshotModel>('LoanInterestSnapshot', LoanInterestSnapshotSchema)) as ILoanInterestSnapshotModel;
+
+export default LoanInterestSnapshot;
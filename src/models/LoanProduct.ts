@@ -0,0 +1,94 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { ILoanProduct } from '@/types';
+import { COMMUNITY_CONFIG } from '@/config/community';
+import { auditPlugin } from '@/lib/audit';
+import { MAX_TERM_MONTHS } from '@/lib/loan-schedule';
+
+// Define interface for static methods
+interface ILoanProductModel extends Model<ILoanProduct> {
+  getActiveProducts(): Promise<ILoanProduct[]>;
+}
+
+const { MIN_AMOUNT, MAX_AMOUNT } = COMMUNITY_CONFIG.LOAN_ELIGIBILITY;
+
+const LoanProductSchema: Schema = new Schema(
+  {
+    name: {
+      type: String,
+      required: [true, 'Product name is required'],
+      trim: true,
+      maxlength: [60, 'Product name cannot exceed 60 characters'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Description cannot exceed 500 characters'],
+    },
+    interestRate: {
+      type: Number,
+      required: [true, 'Interest rate is required'],
+      min: [0, 'Interest rate must be positive'],
+      max: [100, 'Interest rate cannot exceed 100%'],
+    },
+    minAmount: {
+      type: Number,
+      required: [true, 'Minimum amount is required'],
+      min: [MIN_AMOUNT, `Minimum amount cannot be below ${MIN_AMOUNT}`],
+    },
+    maxAmount: {
+      type: Number,
+      required: [true, 'Maximum amount is required'],
+      max: [MAX_AMOUNT, `Maximum amount cannot exceed ${MAX_AMOUNT}`],
+      validate: {
+        validator: function (this: ILoanProduct, value: number) {
+          return value >= this.minAmount;
+        },
+        message: 'Maximum amount cannot be less than the minimum amount',
+      },
+    },
+    maxTermMonths: {
+      type: Number,
+      required: [true, 'Maximum term is required'],
+      min: [1, 'Maximum term must be at least 1 month'],
+      max: [MAX_TERM_MONTHS, `Maximum term cannot exceed ${MAX_TERM_MONTHS} months`],
+    },
+    interestMethod: {
+      type: String,
+      enum: ['equal_principal', 'emi'],
+      default: 'emi',
+      required: true,
+    },
+    requiresGuarantor: {
+      type: Boolean,
+      default: false,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Created by is required'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Product names are unique, ignoring case
+LoanProductSchema.index({ name: 1 }, { unique: true, collation: { locale: 'en', strength: 2 } });
+LoanProductSchema.index({ isActive: 1, name: 1 });
+
+// Static methods
+LoanProductSchema.statics.getActiveProducts = async function () {
+  return this.find({ isActive: true }).sort({ name: 1 }).lean();
+};
+
+// Record every change in the audit log
+LoanProductSchema.plugin(auditPlugin, { entityType: 'LoanProduct' });
+
+const LoanProduct = (mongoose.models.LoanProduct || mongoose.model<ILoanProduct, ILoanProductModel>('LoanProduct', LoanProductSchema)) as ILoanProductModel;
+
+export default LoanProduct;
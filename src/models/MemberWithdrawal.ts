@@ -0,0 +1,134 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IMemberWithdrawal } from '@/types';
+import { auditPlugin } from '@/lib/audit';
+
+// Define interface for static methods
+interface IMemberWithdrawalModel extends Model<IMemberWithdrawal> {
+  getTotalPaidOut(): Promise<number>;
+}
+
+const MemberWithdrawalSchema: Schema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    membershipStart: {
+      type: Date,
+      required: [true, 'Membership start is required'],
+    },
+    exitDate: {
+      type: Date,
+      required: [true, 'Exit date is required'],
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'approved', 'rejected'],
+      default: 'pending',
+      required: true,
+    },
+    totalContributions: {
+      type: Number,
+      required: true,
+      min: [0, 'Contributions cannot be negative'],
+    },
+    dividendsCredited: {
+      type: Number,
+      default: 0,
+      min: [0, 'Dividends cannot be negative'],
+    },
+    interestShare: {
+      type: Number,
+      default: 0,
+      min: [0, 'Interest share cannot be negative'],
+    },
+    interestShareFrom: {
+      type: Date,
+    },
+    grossEntitlement: {
+      type: Number,
+      required: true,
+    },
+    loanId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Loan',
+    },
+    outstandingLoanPrincipal: {
+      type: Number,
+      default: 0,
+    },
+    outstandingLoanInterest: {
+      type: Number,
+      default: 0,
+    },
+    outstandingLoanBalance: {
+      type: Number,
+      default: 0,
+    },
+    netPayout: {
+      type: Number,
+      required: true,
+    },
+    paymentMethod: {
+      type: String,
+      enum: ['cash', 'bank_transfer', 'mobile_money'],
+    },
+    reason: {
+      type: String,
+      maxlength: [500, 'Reason cannot exceed 500 characters'],
+    },
+    notes: {
+      type: String,
+      maxlength: [500, 'Notes cannot exceed 500 characters'],
+    },
+    requestedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Requested by is required'],
+    },
+    approvedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    approvalDate: {
+      type: Date,
+    },
+    rejectionReason: {
+      type: String,
+      maxlength: [500, 'Rejection reason cannot exceed 500 characters'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Only one open exit request per member
+MemberWithdrawalSchema.index(
+  { userId: 1 },
+  { unique: true, partialFilterExpression: { status: 'pending' } }
+);
+
+// Indexes for queries
+MemberWithdrawalSchema.index({ status: 1, exitDate: -1 });
+
+// Static methods
+// Everything returned to members who left: the cash payout and any part offset
+// against their loans, since the offset repayment brought no cash in
+MemberWithdrawalSchema.statics.getTotalPaidOut = async function () {
+  const result = await this.aggregate([
+    { $match: { status: 'approved' } },
+    { $group: { _id: null, total: { $sum: '$grossEntitlement' } } },
+  ]);
+
+  return result.length > 0 ? result[0].total : 0;
+};
+
+// Record every change in the audit log
+MemberWithdrawalSchema.plugin(auditPlugin, { entityType: 'MemberWithdrawal' });
+
+const MemberWithdrawal = (mongoose.models.MemberWithdrawal ||
+  mongoose.model<IMemberWithdrawal, IMemberWithdrawalModel>('MemberWithdrawal', MemberWithdrawalSchema)) as IMemberWithdrawalModel;
+
+export default MemberWithdrawal;
@@ -0,0 +1,86 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { INotification } from '@/types';
+
+type INotificationModel = Model<INotification>;
+
+// The delivery log is the notification service's own record, so it is not audited
+const NotificationSchema: Schema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    event: {
+      type: String,
+      enum: ['registration-approved', 'contribution-due', 'contribution-approved', 'loan-status-changed', 'password-reset'],
+      required: [true, 'Event is required'],
+    },
+    channel: {
+      type: String,
+      enum: ['email', 'sms'],
+      required: [true, 'Channel is required'],
+    },
+    language: {
+      type: String,
+      enum: ['en', 'ne'],
+      default: 'en',
+    },
+    recipient: {
+      type: String,
+      required: [true, 'Recipient is required'],
+      trim: true,
+    },
+    subject: {
+      type: String,
+      trim: true,
+    },
+    body: {
+      type: String,
+      required: [true, 'Message body is required'],
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'sent', 'failed'],
+      default: 'pending',
+      required: true,
+    },
+    provider: {
+      type: String,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+      min: [0, 'Attempts cannot be negative'],
+    },
+    nextAttemptAt: {
+      type: Date,
+    },
+    lastError: {
+      type: String,
+      maxlength: [2000, 'Error cannot exceed 2000 characters'],
+    },
+    sentAt: {
+      type: Date,
+    },
+    dedupeKey: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// The same reminder is never queued twice for a channel
+NotificationSchema.index({ dedupeKey: 1, channel: 1 }, { unique: true, partialFilterExpression: { dedupeKey: { $type: 'string' } } });
+
+// Index for picking up messages due for a retry
+NotificationSchema.index({ status: 1, nextAttemptAt: 1 });
+
+// Index for a member's notification history
+NotificationSchema.index({ userId: 1, createdAt: -1 });
+
+const Notification = (mongoose.models.Notification || mongoose.model<INotification, INotificationModel>('Notification', NotificationSchema)) as INotificationModel;
+
+export default Notification;
@@ -0,0 +1,144 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IPenalty } from '@/types';
+import { auditPlugin } from '@/lib/audit';
+
+// Define interface for static methods
+interface IPenaltyModel extends Model<IPenalty> {
+  getTotalCollected(): Promise<number>;
+  getUserOutstanding(userId: string): Promise<{ totalOutstanding: number; penaltyCount: number }>;
+}
+
+const PenaltySchema: Schema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    type: {
+      type: String,
+      enum: ['contribution_late_fee', 'loan_installment_overdue'],
+      required: [true, 'Penalty type is required'],
+    },
+    amount: {
+      type: Number,
+      required: [true, 'Penalty amount is required'],
+      min: [0, 'Penalty amount must be positive'],
+    },
+    reason: {
+      type: String,
+      required: [true, 'Penalty reason is required'],
+      maxlength: [200, 'Reason cannot exceed 200 characters'],
+    },
+    contributionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Contribution',
+    },
+    month: {
+      type: String,
+      match: [/^\d{4}-\d{2}$/, 'Month must be in format YYYY-MM'],
+    },
+    loanId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Loan',
+    },
+    installmentNumber: {
+      type: Number,
+      min: [1, 'Installment number must be positive'],
+    },
+    assessedDate: {
+      type: Date,
+      default: Date.now,
+      required: true,
+    },
+    assessedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    status: {
+      type: String,
+      enum: ['outstanding', 'paid', 'waived'],
+      default: 'outstanding',
+      required: true,
+    },
+    paidDate: {
+      type: Date,
+    },
+    paymentMethod: {
+      type: String,
+      enum: ['cash', 'bank_transfer', 'mobile_money'],
+    },
+    collectedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    waivedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    waivedDate: {
+      type: Date,
+    },
+    waiverReason: {
+      type: String,
+      maxlength: [500, 'Waiver reason cannot exceed 500 characters'],
+      required: function (this: IPenalty) {
+        return this.status === 'waived';
+      },
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One penalty per late contribution and per overdue installment
+PenaltySchema.index(
+  { contributionId: 1, type: 1 },
+  { unique: true, partialFilterExpression: { contributionId: { $exists: true } } }
+);
+PenaltySchema.index(
+  { loanId: 1, installmentNumber: 1 },
+  { unique: true, partialFilterExpression: { loanId: { $exists: true } } }
+);
+
+// Indexes for queries
+PenaltySchema.index({ userId: 1, status: 1 });
+PenaltySchema.index({ status: 1, paidDate: -1 });
+
+// Static methods
+PenaltySchema.statics.getTotalCollected = async function () {
+  const result = await this.aggregate([
+    { $match: { status: 'paid' } },
+    { $group: { _id: null, total: { $sum: '$amount' } } },
+  ]);
+
+  return result.length > 0 ? result[0].total : 0;
+};
+
+PenaltySchema.statics.getUserOutstanding = async function (userId: string) {
+  const result = await this.aggregate([
+    {
+      $match: {
+        userId: new mongoose.Types.ObjectId(userId),
+        status: 'outstanding',
+      },
+    },
+    {
+      $group: {
+        _id: null,
+        totalOutstanding: { $sum: '$amount' },
+        penaltyCount: { $sum: 1 },
+      },
+    },
+  ]);
+
+  return result.length > 0 ? result[0] : { totalOutstanding: 0, penaltyCount: 0 };
+};
+
+// Record every change in the audit log
+PenaltySchema.plugin(auditPlugin, { entityType: 'Penalty' });
+
+const Penalty = (mongoose.models.Penalty || mongoose.model<IPenalty, IPenaltyModel>('Penalty', PenaltySchema)) as IPenaltyModel;
+
+export default Penalty;
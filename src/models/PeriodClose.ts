@@ -0,0 +1,162 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IPeriodClose } from '@/types';
+import { auditPlugin } from '@/lib/audit';
+
+type IPeriodCloseModel = Model<IPeriodClose>;
+
+const PeriodCloseTotalsSchema = new Schema(
+  {
+    contributionsPaid: { type: Number, default: 0 },
+    contributionsPending: { type: Number, default: 0 },
+    loansDisbursed: { type: Number, default: 0 },
+    principalRepaid: { type: Number, default: 0 },
+    interestCollected: { type: Number, default: 0 },
+    historicalInterest: { type: Number, default: 0 },
+    penaltiesCollected: { type: Number, default: 0 },
+    withdrawalsPaid: { type: Number, default: 0 },
+    cashBalance: { type: Number, default: 0 },
+    loansReceivable: { type: Number, default: 0 },
+    memberSavings: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+const PeriodCloseEventSchema = new Schema(
+  {
+    action: {
+      type: String,
+      enum: ['close', 'reopen'],
+      required: true,
+    },
+    by: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    confirmedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    date: {
+      type: Date,
+      required: true,
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Reason cannot exceed 500 characters'],
+    },
+  },
+  { _id: false }
+);
+
+const PeriodReopenRequestSchema = new Schema(
+  {
+    requestedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    requestedDate: {
+      type: Date,
+      required: true,
+    },
+    reason: {
+      type: String,
+      trim: true,
+      required: true,
+      maxlength: [500, 'Reason cannot exceed 500 characters'],
+    },
+  },
+  { _id: false }
+);
+
+const PeriodCloseSchema: Schema = new Schema(
+  {
+    periodType: {
+      type: String,
+      enum: ['month', 'fiscal_year'],
+      required: [true, 'Period type is required'],
+    },
+    period: {
+      type: String,
+      required: [true, 'Period is required'],
+      match: [/^\d{4}(-\d{2})?$/, 'Period must be a YYYY-MM month or a YYYY fiscal year'],
+    },
+    label: {
+      type: String,
+      required: [true, 'Label is required'],
+    },
+    startDate: {
+      type: Date,
+      required: [true, 'Start date is required'],
+    },
+    endDate: {
+      type: Date,
+      required: [true, 'End date is required'],
+    },
+    months: {
+      type: [String],
+      default: [],
+    },
+    status: {
+      type: String,
+      enum: ['closed', 'reopened'],
+      default: 'closed',
+    },
+    totals: {
+      type: PeriodCloseTotalsSchema,
+      required: true,
+    },
+    closedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Closed by is required'],
+    },
+    closedAt: {
+      type: Date,
+      required: [true, 'Closed date is required'],
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Notes cannot exceed 500 characters'],
+    },
+    reopenedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    reopenedAt: {
+      type: Date,
+    },
+    reopenReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Reason cannot exceed 500 characters'],
+    },
+    pendingReopen: {
+      type: PeriodReopenRequestSchema,
+    },
+    history: {
+      type: [PeriodCloseEventSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A period is closed at most once; reopening and closing again reuses the document
+PeriodCloseSchema.index({ periodType: 1, period: 1 }, { unique: true });
+
+// Indexes for the lock checks on dated records and contribution months
+PeriodCloseSchema.index({ status: 1, startDate: 1, endDate: 1 });
+PeriodCloseSchema.index({ status: 1, months: 1 });
+
+// Record every change in the audit log
+PeriodCloseSchema.plugin(auditPlugin, { entityType: 'PeriodClose' });
+
+const PeriodClose = (mongoose.models.PeriodClose || mongoose.model<IPeriodClose, IPeriodCloseModel>('PeriodClose', PeriodCloseSchema)) as IPeriodCloseModel;
+
+export default PeriodClose;
@@ -1,5 +1,7 @@
 import mongoose, { Schema } from 'mongoose';
 import { IRepayment } from '@/types';
+import { auditPlugin } from '@/lib/audit';
+import { nextSequenceNumber } from '@/lib/counters';
 
 const RepaymentSchema: Schema = new Schema(
   {
@@ -25,7 +27,7 @@ const RepaymentSchema: Schema = new Schema(
     },
     paymentMethod: {
       type: String,
-      enum: ['cash', 'bank_transfer', 'mobile_money', 'settlement'],
+      enum: ['cash', 'bank_transfer', 'mobile_money', 'settlement', 'guarantee_recovery'],
     },
     principalAmount: {
       type: Number,
@@ -56,6 +58,9 @@ const RepaymentSchema: Schema = new Schema(
       unique: true,
       sparse: true,
     },
+    legacyReceiptNumber: {
+      type: String,
+    },
   },
   {
     timestamps: true,
@@ -67,16 +72,20 @@ RepaymentSchema.index({ loanId: 1, paymentDate: -1 });
 RepaymentSchema.index({ userId: 1, paymentDate: -1 });
 RepaymentSchema.index({ paymentDate: -1 });
 
-// Pre-save middleware to generate receipt number
+// Pre-save middleware to generate receipt number, in the period the payment was made in
 RepaymentSchema.pre('save', async function (this: IRepayment, next) {
   if (!this.receiptNumber && this.isNew) {
-    const RepaymentModel = this.constructor as mongoose.Model<IRepayment>;
-    const count = await RepaymentModel.countDocuments();
-    this.receiptNumber = `RPT${Date.now()}${String(count + 1).padStart(3, '0')}`;
+    this.receiptNumber = await nextSequenceNumber('repayment-receipt', {
+      date: this.paymentDate,
+      session: this.$session(),
+    });
   }
   next();
 });
 
+// Record every change in the audit log
+RepaymentSchema.plugin(auditPlugin, { entityType: 'Repayment' });
+
 const Repayment = mongoose.models.Repayment || mongoose.model<IRepayment>('Repayment', RepaymentSchema);
 
 export default Repayment;
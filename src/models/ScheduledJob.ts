@@ -0,0 +1,64 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IScheduledJob } from '@/types';
+import { auditPlugin } from '@/lib/audit';
+
+type IScheduledJobModel = Model<IScheduledJob>;
+
+const ScheduledJobSchema: Schema = new Schema(
+  {
+    name: {
+      type: String,
+      enum: [
+        'generate-monthly-contributions',
+        'mark-overdue-contributions',
+        'snapshot-loan-interest',
+        'send-contribution-reminders',
+        'retry-notifications',
+      ],
+      required: [true, 'Job name is required'],
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    frequency: {
+      type: String,
+      enum: ['hourly', 'daily', 'monthly'],
+      required: [true, 'Frequency is required'],
+    },
+    dayOfMonth: {
+      type: Number,
+      min: [1, 'Day of month must be between 1 and 28'],
+      max: [28, 'Day of month must be between 1 and 28'],
+      required: [
+        function (this: IScheduledJob) {
+          return this.frequency === 'monthly';
+        },
+        'Day of month is required for monthly jobs',
+      ],
+    },
+    hour: {
+      type: Number,
+      required: [true, 'Hour is required'],
+      min: [0, 'Hour must be between 0 and 23'],
+      max: [23, 'Hour must be between 0 and 23'],
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One schedule per job
+ScheduledJobSchema.index({ name: 1 }, { unique: true });
+
+// Record every change in the audit log
+ScheduledJobSchema.plugin(auditPlugin, { entityType: 'ScheduledJob' });
+
+const ScheduledJob = (mongoose.models.ScheduledJob || mongoose.model<IScheduledJob, IScheduledJobModel>('ScheduledJob', ScheduledJobSchema)) as IScheduledJobModel;
+
+export default ScheduledJob;
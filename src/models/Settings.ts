@@ -0,0 +1,98 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { ISettings } from '@/types';
+import { auditPlugin } from '@/lib/audit';
+
+// Define interface for static methods
+interface ISettingsModel extends Model<ISettings> {
+  getCurrent(): Promise<ISettings | null>;
+}
+
+const PoliciesSchema: Schema = new Schema(
+  {
+    historicalContributions: {
+      type: String,
+      required: [true, 'Historical contributions policy is required'],
+      maxlength: [1000, 'Policy text cannot exceed 1000 characters'],
+    },
+    monthlyContribution: {
+      type: String,
+      required: [true, 'Monthly contribution policy is required'],
+      maxlength: [1000, 'Policy text cannot exceed 1000 characters'],
+    },
+    catchUpPolicy: {
+      type: String,
+      required: [true, 'Catch-up policy is required'],
+      maxlength: [1000, 'Policy text cannot exceed 1000 characters'],
+    },
+  },
+  { _id: false }
+);
+
+// Versions are never edited; saving settings adds the next version
+const SettingsSchema: Schema = new Schema(
+  {
+    version: {
+      type: Number,
+      required: [true, 'Version is required'],
+      min: [1, 'Version must be at least 1'],
+    },
+    communityName: {
+      type: String,
+      required: [true, 'Community name is required'],
+      trim: true,
+      maxlength: [100, 'Community name cannot exceed 100 characters'],
+    },
+    openingDate: {
+      type: Date,
+      required: [true, 'Opening date is required'],
+    },
+    monthlyContributionAmount: {
+      type: Number,
+      required: [true, 'Monthly contribution amount is required'],
+      min: [1, 'Monthly contribution amount must be positive'],
+    },
+    annualInterestRate: {
+      type: Number,
+      required: [true, 'Annual interest rate is required'],
+      min: [0, 'Interest rate must be positive'],
+      max: [100, 'Interest rate cannot exceed 100%'],
+    },
+    // Versions saved before the option existed were kept in AD
+    contributionCalendar: {
+      type: String,
+      enum: ['AD', 'BS'],
+      default: 'AD',
+    },
+    policies: {
+      type: PoliciesSchema,
+      required: true,
+    },
+    changedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    changeNote: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Change note cannot exceed 500 characters'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One document per version, newest first
+SettingsSchema.index({ version: -1 }, { unique: true });
+
+// Static methods
+SettingsSchema.statics.getCurrent = async function () {
+  return this.findOne().sort({ version: -1 }).lean();
+};
+
+// Record every change in the audit log
+SettingsSchema.plugin(auditPlugin, { entityType: 'Settings' });
+
+const Settings = (mongoose.models.Settings || mongoose.model<ISettings, ISettingsModel>('Settings', SettingsSchema)) as ISettingsModel;
+
+export default Settings;
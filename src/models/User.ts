@@ -1,6 +1,8 @@
 import mongoose, { Schema, Model } from 'mongoose';
 import bcrypt from 'bcryptjs';
 import { IUser } from '@/types';
+import { auditPlugin } from '@/lib/audit';
+import { nextSequenceNumber } from '@/lib/counters';
 
 // Define interface for static methods
 interface IUserModel extends Model<IUser> {
@@ -8,6 +10,23 @@ interface IUserModel extends Model<IUser> {
   findByEmail(email: string): Promise<IUser | null>;
 }
 
+const MembershipPeriodSchema: Schema = new Schema(
+  {
+    joinDate: {
+      type: Date,
+      required: [true, 'Join date is required'],
+    },
+    exitDate: {
+      type: Date,
+    },
+    withdrawalId: {
+      type: Schema.Types.ObjectId,
+      ref: 'MemberWithdrawal',
+    },
+  },
+  { _id: false }
+);
+
 const UserSchema: Schema = new Schema(
   {
     name: {
@@ -71,9 +90,30 @@ const UserSchema: Schema = new Schema(
       type: Date,
       default: Date.now,
     },
+    membershipPeriods: {
+      type: [MembershipPeriodSchema],
+      default: undefined,
+    },
+    preferredLanguage: {
+      type: String,
+      enum: ['en', 'ne'],
+      default: 'en',
+    },
     lastLogin: {
       type: Date,
     },
+    sessionVersion: {
+      type: Number,
+      default: 0,
+    },
+    passwordResetTokenHash: {
+      type: String,
+      select: false,
+    },
+    passwordResetExpires: {
+      type: Date,
+      select: false,
+    },
   },
   {
     timestamps: true,
@@ -92,6 +132,9 @@ const UserSchema: Schema = new Schema(
 // Index for better query performance (email and memberId unique indexes are already defined in schema)
 UserSchema.index({ role: 1, isActive: 1 });
 
+// Index for looking up a password reset by its token
+UserSchema.index({ passwordResetTokenHash: 1 }, { sparse: true });
+
 // Pre-save middleware to hash password and update hasLoginAccess
 UserSchema.pre('save', async function (next) {
   // Update hasLoginAccess based on email and password presence
@@ -122,22 +165,14 @@ UserSchema.statics.findByEmail = function (email: string) {
   return this.findOne({ email }).select('+password');
 };
 
-// Generate unique member ID
+// Next member ID from the member-id counter
 UserSchema.statics.generateMemberId = async function (): Promise<string> {
-  const count = await this.countDocuments();
-  const memberId = `CSL${String(count + 1).padStart(4, '0')}`;
-
-  // Check if ID already exists (edge case)
-  const existingUser = await this.findOne({ memberId });
-  if (existingUser) {
-    // If exists, try with current timestamp
-    const timestamp = Date.now().toString().slice(-4);
-    return `CSL${timestamp}`;
-  }
-
-  return memberId;
+  return nextSequenceNumber('member-id');
 };
 
+// Record every change in the audit log
+UserSchema.plugin(auditPlugin, { entityType: 'User' });
+
 const User = (mongoose.models.User || mongoose.model<IUser, IUserModel>('User', UserSchema)) as IUserModel;
 
 export default User;
@@ -0,0 +1,84 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IWalletPayment } from '@/types';
+
+type IWalletPaymentModel = Model<IWalletPayment>;
+
+// The contribution or repayment a payment posts is audited; the payment itself is the provider's trail
+const WalletPaymentSchema: Schema = new Schema(
+  {
+    orderId: {
+      type: String,
+      required: [true, 'Order ID is required'],
+      unique: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    purpose: {
+      type: String,
+      enum: ['contribution', 'repayment'],
+      required: [true, 'Purpose is required'],
+    },
+    contributionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Contribution',
+      required: function(this: IWalletPayment) {
+        return this.purpose === 'contribution';
+      },
+    },
+    loanId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Loan',
+      required: function(this: IWalletPayment) {
+        return this.purpose === 'repayment';
+      },
+    },
+    amount: {
+      type: Number,
+      required: [true, 'Amount is required'],
+      min: [1, 'Amount must be at least 1'],
+    },
+    provider: {
+      type: String,
+      required: [true, 'Provider is required'],
+    },
+    status: {
+      type: String,
+      enum: ['initiated', 'completed', 'failed', 'cancelled'],
+      default: 'initiated',
+      required: true,
+    },
+    providerReference: {
+      type: String,
+    },
+    recordId: {
+      type: Schema.Types.ObjectId,
+    },
+    failureReason: {
+      type: String,
+      maxlength: [500, 'Failure reason cannot exceed 500 characters'],
+    },
+    postingError: {
+      type: String,
+      maxlength: [500, 'Posting error cannot exceed 500 characters'],
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A provider transaction can only ever settle one payment
+WalletPaymentSchema.index({ provider: 1, providerReference: 1 }, { unique: true, partialFilterExpression: { providerReference: { $type: 'string' } } });
+
+// Index for a member's payment history
+WalletPaymentSchema.index({ userId: 1, createdAt: -1 });
+
+const WalletPayment = (mongoose.models.WalletPayment || mongoose.model<IWalletPayment, IWalletPaymentModel>('WalletPayment', WalletPaymentSchema)) as IWalletPaymentModel;
+
+export default WalletPayment;
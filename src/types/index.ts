@@ -1,6 +1,12 @@
 import { Document, Types } from 'mongoose';
 
 // User Types
+export interface IMembershipPeriod {
+  joinDate: Date;
+  exitDate?: Date;
+  withdrawalId?: Types.ObjectId; // Exit settlement that closed this period
+}
+
 export interface IUser extends Document {
   _id: Types.ObjectId;
   name: string;
@@ -12,8 +18,13 @@ export interface IUser extends Document {
   status: 'pending' | 'approved' | 'rejected';
   isActive: boolean;
   hasLoginAccess: boolean; // True when both email and password are provided
-  joinDate: Date;
+  joinDate: Date; // Start of the current membership period
+  membershipPeriods?: IMembershipPeriod[]; // Filled once a member exits or rejoins
+  preferredLanguage: NotificationLanguage; // For SMS and email notifications
   lastLogin?: Date;
+  sessionVersion: number; // Raised by a password reset; tokens carrying an older version are refused
+  passwordResetTokenHash?: string; // SHA-256 of the emailed or texted token, never the token itself
+  passwordResetExpires?: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
 }
 
@@ -22,7 +33,7 @@ export interface IUserLogin {
   password: string;
 }
 
-export interface IUserRegister extends Omit<IUser, '_id' | 'comparePassword' | 'lastLogin'> {
+export interface IUserRegister extends Omit<IUser, '_id' | 'comparePassword' | 'lastLogin' | 'preferredLanguage'> {
   confirmPassword: string;
 }
 
@@ -43,6 +54,7 @@ export interface IMemberEdit {
   phone?: string;
   password?: string;
   isActive?: boolean;
+  preferredLanguage?: NotificationLanguage;
 }
 
 // Contribution Types
@@ -57,11 +69,86 @@ export interface IContribution extends Document {
   paymentMethod?: 'cash' | 'bank_transfer' | 'mobile_money';
   notes?: string;
   recordedBy: Types.ObjectId; // Admin who recorded the payment
+  receiptNumber?: string; // Assigned when the contribution is paid
+  legacyReceiptNumber?: string; // Number it had before sequential numbering
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Loan Repayment Plan Types
+export type LoanRepaymentFrequency = 'monthly' | 'quarterly';
+export type LoanAmortizationMethod = 'equal_principal' | 'emi';
+
+export interface ILoanRepaymentPlan {
+  termMonths: number;
+  frequency: LoanRepaymentFrequency;
+  method: LoanAmortizationMethod;
+}
+
+export interface ILoanInstallment {
+  installmentNumber: number;
+  dueDate: Date;
+  openingBalance: number;
+  principalAmount: number;
+  interestAmount: number;
+  totalAmount: number;
+  closingBalance: number;
+}
+
+// Loan Product Types
+// Terms a loan is offered on, e.g. Regular, Emergency or Business
+export interface ILoanProductTerms {
+  name: string;
+  interestRate: number; // Percentage (e.g., 16 for 16%)
+  minAmount: number;
+  maxAmount: number;
+  maxTermMonths: number;
+  interestMethod: LoanAmortizationMethod;
+  requiresGuarantor: boolean;
+}
+
+export interface ILoanProduct extends ILoanProductTerms, Document {
+  _id: Types.ObjectId;
+  description?: string;
+  isActive: boolean; // Inactive products can't be picked for new loans
+  createdBy: Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
 }
 
 // Loan Types
+// Maker-checker sign-off for loan approval and disbursement
+export type LoanApprovalAction = 'approve' | 'disburse';
+
+export interface ILoanPendingAction {
+  action: LoanApprovalAction;
+  requestedBy: Types.ObjectId; // Admin who proposed the transition
+  requestedDate: Date;
+  approvedAmount?: number;
+  interestRate?: number;
+  repaymentPlan?: ILoanRepaymentPlan;
+  disbursementDate?: Date;
+}
+
+// Members who stand surety for a loan
+export type GuarantorStatus = 'pending' | 'accepted' | 'declined';
+
+export interface ILoanGuarantor {
+  userId: Types.ObjectId;
+  amount: number; // Portion of the loan this member guarantees
+  status: GuarantorStatus;
+  respondedDate?: Date;
+  recoveredAmount: number; // Taken from their savings after a default
+}
+
+export interface ILoanSignoff {
+  action: LoanApprovalAction;
+  requestedBy: Types.ObjectId;
+  requestedDate: Date;
+  confirmedBy?: Types.ObjectId; // Second admin, when dual control applied
+  confirmedDate?: Date;
+}
+
 export interface ILoan extends Document {
   _id: Types.ObjectId;
   userId: Types.ObjectId;
@@ -80,15 +167,41 @@ export interface ILoan extends Document {
   remainingBalance: number;
   purpose?: string;
   collateral?: string;
-  guarantor?: string;
-  guarantorContact?: string;
+  guarantors?: ILoanGuarantor[];
+  productId?: Types.ObjectId;
+  productTerms?: ILoanProductTerms; // Copied at request time so product edits don't change the loan
   rejectionReason?: string;
   repayments: Types.ObjectId[];
   lastInterestPaidDate?: Date;
+  repaymentPlan?: ILoanRepaymentPlan; // Optional installment plan
+  schedule?: ILoanInstallment[]; // Generated from repaymentPlan
+  pendingAction?: ILoanPendingAction; // Awaiting a second admin's confirmation
+  approvalHistory?: ILoanSignoff[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Loan eligibility rules, checked when a loan is requested and again at approval
+export type LoanEligibilityRule =
+  | 'amount_range'
+  | 'savings_multiple'
+  | 'contributions_current'
+  | 'no_active_loan'
+  | 'liquidity';
+
+export interface ILoanEligibilityCheck {
+  rule: LoanEligibilityRule;
+  label: string;
+  passed: boolean;
+  reason: string;
+}
+
+export interface ILoanEligibility {
+  eligible: boolean;
+  amount: number;
+  checks: ILoanEligibilityCheck[];
+}
+
 // Repayment Types
 export interface IRepayment extends Document {
   _id: Types.ObjectId;
@@ -96,13 +209,524 @@ export interface IRepayment extends Document {
   userId: Types.ObjectId;
   amount: number;
   paymentDate: Date;
-  paymentMethod?: 'cash' | 'bank_transfer' | 'mobile_money';
+  paymentMethod?: 'cash' | 'bank_transfer' | 'mobile_money' | 'settlement' | 'guarantee_recovery';
   principalAmount: number;
   interestAmount: number;
   remainingBalance: number;
   recordedBy: Types.ObjectId; // Admin who recorded the payment
   notes?: string;
   receiptNumber?: string;
+  legacyReceiptNumber?: string; // Number it had before sequential numbering
+  createdAt: Date;
+}
+
+// Guarantee Recovery Types
+// Outstanding loan balance moved from a guarantor's savings onto a defaulted loan
+export interface IGuaranteeRecovery extends Document {
+  _id: Types.ObjectId;
+  loanId: Types.ObjectId;
+  borrowerId: Types.ObjectId;
+  userId: Types.ObjectId; // Guarantor whose savings were used
+  repaymentId: Types.ObjectId;
+  amount: number;
+  principalAmount: number;
+  interestAmount: number;
+  recoveryDate: Date;
+  recordedBy: Types.ObjectId;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Penalty Types
+export type PenaltyType = 'contribution_late_fee' | 'loan_installment_overdue';
+export type PenaltyStatus = 'outstanding' | 'paid' | 'waived';
+
+export interface IPenalty extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  type: PenaltyType;
+  amount: number;
+  reason: string;
+  contributionId?: Types.ObjectId; // For contribution late fees
+  month?: string; // Contribution month, format: "YYYY-MM"
+  loanId?: Types.ObjectId; // For overdue loan installments
+  installmentNumber?: number;
+  assessedDate: Date;
+  assessedBy?: Types.ObjectId; // Empty when assessed by a scheduled job
+  status: PenaltyStatus;
+  paidDate?: Date;
+  paymentMethod?: 'cash' | 'bank_transfer' | 'mobile_money';
+  collectedBy?: Types.ObjectId;
+  waivedBy?: Types.ObjectId;
+  waivedDate?: Date;
+  waiverReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Member Exit Types
+export type MemberWithdrawalStatus = 'pending' | 'approved' | 'rejected';
+
+export interface IMemberWithdrawal extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  membershipStart: Date;
+  exitDate: Date;
+  status: MemberWithdrawalStatus;
+  totalContributions: number; // Paid savings being returned
+  dividendsCredited: number; // Posted dividends during this membership
+  interestShare: number; // Share of income not yet distributed as dividends
+  interestShareFrom?: Date;
+  grossEntitlement: number;
+  loanId?: Types.ObjectId; // Loan netted off against the payout
+  outstandingLoanPrincipal: number;
+  outstandingLoanInterest: number;
+  outstandingLoanBalance: number;
+  netPayout: number;
+  paymentMethod?: 'cash' | 'bank_transfer' | 'mobile_money';
+  reason?: string;
+  notes?: string;
+  requestedBy: Types.ObjectId;
+  approvedBy?: Types.ObjectId;
+  approvalDate?: Date;
+  rejectionReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Dividend Types
+export interface IDividendDistribution extends Document {
+  _id: Types.ObjectId;
+  year: number;
+  periodStart: Date;
+  periodEnd: Date;
+  repaymentInterest: number;
+  historicalInterest: number;
+  penaltiesCollected: number;
+  totalIncome: number;
+  reservePercentage: number; // Percentage of income retained by the group
+  reserveAmount: number;
+  distributedAmount: number;
+  totalWeightedBalance: number;
+  memberCount: number;
+  postedBy: Types.ObjectId;
+  postedDate: Date;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IDividend extends Document {
+  _id: Types.ObjectId;
+  distributionId: Types.ObjectId;
+  userId: Types.ObjectId;
+  year: number;
+  weightedAverageBalance: number; // Average paid savings held over the year
+  closingBalance: number;
+  sharePercentage: number;
+  amount: number;
+  creditedDate: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Ledger Types
+export type LedgerAccountCode =
+  | 'CASH'
+  | 'LOANS_RECEIVABLE'
+  | 'MEMBER_SAVINGS'
+  | 'DIVIDENDS_PAYABLE'
+  | 'RETAINED_EARNINGS'
+  | 'INTEREST_INCOME'
+  | 'PENALTY_INCOME';
+
+export type LedgerAccountType = 'asset' | 'liability' | 'equity' | 'income';
+
+export type JournalSourceType =
+  | 'contribution'
+  | 'loan_disbursement'
+  | 'repayment'
+  | 'penalty'
+  | 'historical_interest'
+  | 'dividend_distribution'
+  | 'member_withdrawal'
+  | 'guarantee_recovery';
+
+export interface IJournalLine {
+  account: LedgerAccountCode;
+  debit: number;
+  credit: number;
+  userId?: Types.ObjectId; // Member sub-ledger for savings and dividends
+}
+
+export interface IJournalEntry extends Document {
+  _id: Types.ObjectId;
+  entryDate: Date;
+  description: string;
+  sourceType: JournalSourceType;
+  sourceId: Types.ObjectId;
+  userId?: Types.ObjectId;
+  loanId?: Types.ObjectId;
+  lines: IJournalLine[];
+  status: 'posted' | 'reversed' | 'reversal';
+  reversalOf?: Types.ObjectId;
+  postedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Period Close Types
+export type PeriodCloseType = 'month' | 'fiscal_year';
+
+export type PeriodCloseStatus = 'closed' | 'reopened';
+
+// Figures as they stood when the period was closed
+export interface IPeriodCloseTotals {
+  contributionsPaid: number; // For the period's contribution months
+  contributionsPending: number;
+  loansDisbursed: number;
+  principalRepaid: number;
+  interestCollected: number;
+  historicalInterest: number;
+  penaltiesCollected: number;
+  withdrawalsPaid: number; // Net exit payouts
+  cashBalance: number; // Ledger balances at the period end
+  loansReceivable: number;
+  memberSavings: number;
+}
+
+export interface IPeriodCloseEvent {
+  action: 'close' | 'reopen';
+  by: Types.ObjectId;
+  confirmedBy?: Types.ObjectId; // Second admin who confirmed a reopen
+  date: Date;
+  reason?: string;
+}
+
+// A reopen proposed by one admin, waiting for a different admin to confirm it
+export interface IPeriodReopenRequest {
+  requestedBy: Types.ObjectId;
+  requestedDate: Date;
+  reason: string;
+}
+
+// A closed month or fiscal year. Records dated inside it, and contributions
+// for its months, cannot be changed until it is reopened.
+export interface IPeriodClose extends Document {
+  _id: Types.ObjectId;
+  periodType: PeriodCloseType;
+  period: string; // Stored month key "YYYY-MM", or the BS fiscal year, e.g. "2081"
+  label: string; // e.g. "Shrawan 2081" or "FY 2081/82"
+  startDate: Date;
+  endDate: Date;
+  months: string[]; // Contribution months the period covers
+  status: PeriodCloseStatus;
+  totals: IPeriodCloseTotals;
+  closedBy: Types.ObjectId;
+  closedAt: Date;
+  notes?: string;
+  reopenedBy?: Types.ObjectId;
+  reopenedAt?: Date;
+  reopenReason?: string;
+  pendingReopen?: IPeriodReopenRequest;
+  history: IPeriodCloseEvent[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Community Settings Types
+// Calendar the group keeps its books in: contribution months, their due dates
+// and the names shown for them follow it
+export type ContributionCalendar = 'AD' | 'BS';
+
+export interface ICommunityPolicies {
+  historicalContributions: string;
+  monthlyContribution: string;
+  catchUpPolicy: string;
+}
+
+export interface ICommunitySettings {
+  communityName: string;
+  openingDate: Date;
+  monthlyContributionAmount: number; // NPR, until the first entry in the contribution schedule
+  annualInterestRate: number; // Percentage, for loans without a product and new member calculations
+  contributionCalendar: ContributionCalendar;
+  policies: ICommunityPolicies;
+}
+
+// Each change is saved as a new version; the highest version is current
+export interface ISettings extends ICommunitySettings, Document {
+  _id: Types.ObjectId;
+  version: number;
+  changedBy?: Types.ObjectId; // Empty for the defaults seeded from config
+  changeNote?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Contribution Schedule Types
+// An amount applies from its month until a later entry replaces it. Entries
+// with a userId override the community amount for that member only.
+export interface IContributionRate extends Document {
+  _id: Types.ObjectId;
+  effectiveFrom: string; // Format: "YYYY-MM"
+  effectiveTo?: string; // Format: "YYYY-MM", member overrides only
+  amount: number; // NPR
+  userId?: Types.ObjectId;
+  note?: string;
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Scheduled Job Types
+export type JobName =
+  | 'generate-monthly-contributions'
+  | 'mark-overdue-contributions'
+  | 'snapshot-loan-interest'
+  | 'send-contribution-reminders'
+  | 'retry-notifications';
+
+export type JobFrequency = 'hourly' | 'daily' | 'monthly';
+
+export type JobRunStatus = 'running' | 'succeeded' | 'failed';
+
+// Schedule for a recurring job; the job itself is defined in code
+export interface IScheduledJob extends Document {
+  _id: Types.ObjectId;
+  name: JobName;
+  enabled: boolean;
+  frequency: JobFrequency;
+  dayOfMonth?: number; // Monthly jobs, 1-28
+  hour: number; // Server local time, 0-23; unused by hourly jobs
+  updatedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One run per job and period; the run document doubles as the lock
+export interface IJobRun extends Document {
+  _id: Types.ObjectId;
+  jobName: JobName;
+  runKey: string; // Period for scheduled runs ("YYYY-MM", "YYYY-MM-DD" or "YYYY-MM-DDTHH"), unique per manual run
+  trigger: 'schedule' | 'manual';
+  status: JobRunStatus;
+  attempts: number;
+  startedAt: Date;
+  finishedAt?: Date;
+  lockedUntil?: Date;
+  result?: Record<string, unknown>;
+  error?: string;
+  triggeredBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Month-end position of a loan, recorded by the interest snapshot job
+export interface ILoanInterestSnapshot extends Document {
+  _id: Types.ObjectId;
+  loanId: Types.ObjectId;
+  userId: Types.ObjectId;
+  month: string; // Format: "YYYY-MM"
+  asOfDate: Date;
+  principal: number;
+  amountPaid: number;
+  totalInterest: number;
+  remainingBalance: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Notification Types
+export type NotificationLanguage = 'en' | 'ne';
+
+export type NotificationChannel = 'email' | 'sms';
+
+export type NotificationStatus = 'pending' | 'sent' | 'failed';
+
+export type NotificationEvent =
+  | 'registration-approved'
+  | 'contribution-due'
+  | 'contribution-approved'
+  | 'loan-status-changed'
+  | 'password-reset';
+
+// Delivery log: one document per message per channel, kept after sending
+export interface INotification extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  event: NotificationEvent;
+  channel: NotificationChannel;
+  language: NotificationLanguage;
+  recipient: string; // Email address or phone number
+  subject?: string; // Email only
+  body: string;
+  status: NotificationStatus;
+  provider?: string;
+  attempts: number;
+  nextAttemptAt?: Date; // Set while a failed message still has retries left
+  lastError?: string;
+  sentAt?: Date;
+  dedupeKey?: string; // Stops reminders being sent twice for the same record
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Bank Statement Import Types
+export type BankDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'DD-MMM-YYYY' | 'BS';
+
+// Which CSV columns hold what in a bank's statement export
+export interface IBankStatementFormat {
+  label: string;
+  date: string;
+  description: string;
+  reference?: string;
+  credit?: string;
+  debit?: string;
+  amount?: string; // Signed amount column, for banks without separate credit and debit columns
+  dateFormat: BankDateFormat;
+}
+
+export type BankImportRowStatus = 'matched' | 'ambiguous' | 'unmatched' | 'duplicate' | 'posting' | 'posted' | 'ignored';
+
+// A pending contribution or open loan a bank credit could pay
+export interface IBankImportCandidate {
+  kind: 'contribution' | 'repayment';
+  userId: Types.ObjectId;
+  memberName: string;
+  memberId: string;
+  contributionId?: Types.ObjectId;
+  month?: string;
+  loanId?: Types.ObjectId;
+  principalAmount?: number;
+  interestAmount?: number;
+  score: number;
+  reasons: string[];
+}
+
+export interface IBankImportRow {
+  rowNumber: number; // Row in the uploaded file
+  date: Date;
+  description: string;
+  reference?: string;
+  amount: number;
+  fingerprint: string; // Identifies the same bank credit across uploads
+  status: BankImportRowStatus;
+  candidates: IBankImportCandidate[]; // Best first
+  postedKind?: 'contribution' | 'repayment';
+  postedRecordId?: Types.ObjectId;
+  postedBy?: Types.ObjectId;
+  postedAt?: Date;
+  error?: string; // Why the last attempt to post it failed
+}
+
+// One uploaded bank statement and the review of its credits
+export interface IBankImport extends Document {
+  _id: Types.ObjectId;
+  fileName: string;
+  format: string; // Key in BANK_STATEMENT_FORMATS, or 'custom'
+  uploadedBy: Types.ObjectId;
+  rows: IBankImportRow[];
+  skippedRows: number; // Debits and lines that are not transactions
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Wallet Payment Types
+export type WalletPaymentPurpose = 'contribution' | 'repayment';
+
+export type WalletPaymentStatus = 'initiated' | 'completed' | 'failed' | 'cancelled';
+
+// A payment a member starts from the dashboard and finishes on a wallet
+// provider's checkout page; orderId is the reference the provider echoes back
+export interface IWalletPayment extends Document {
+  _id: Types.ObjectId;
+  orderId: string;
+  userId: Types.ObjectId;
+  purpose: WalletPaymentPurpose;
+  contributionId?: Types.ObjectId;
+  loanId?: Types.ObjectId;
+  amount: number;
+  provider: string;
+  status: WalletPaymentStatus;
+  providerReference?: string; // The provider's transaction ID, set once verified
+  recordId?: Types.ObjectId; // Contribution paid or repayment created
+  failureReason?: string;
+  postingError?: string; // Money was received but the payment could not be posted
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Attachment Types
+export type AttachmentOwnerType = 'contribution' | 'repayment';
+
+// Proof of payment, e.g. a bank slip or wallet screenshot. The file itself is
+// in the storage backend under storageKey; this is its metadata.
+export interface IAttachment extends Document {
+  _id: Types.ObjectId;
+  ownerType: AttachmentOwnerType;
+  ownerId: Types.ObjectId;
+  userId: Types.ObjectId; // Member the payment belongs to
+  fileName: string;
+  contentType: string;
+  size: number; // Bytes
+  storage: string; // Backend the file was written to
+  storageKey: string;
+  uploadedBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One document per sequence and period, e.g. "repayment-receipt:RPT-2081-"
+export interface ICounter extends Document<string> {
+  _id: string;
+  seq: number; // Last number issued
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Audit Log Types
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export type AuditEntityType =
+  | 'User'
+  | 'Contribution'
+  | 'Loan'
+  | 'Repayment'
+  | 'Penalty'
+  | 'HistoricalInterest'
+  | 'DividendDistribution'
+  | 'Dividend'
+  | 'MemberWithdrawal'
+  | 'GuaranteeRecovery'
+  | 'LoanProduct'
+  | 'Settings'
+  | 'ContributionRate'
+  | 'ScheduledJob'
+  | 'Attachment'
+  | 'PeriodClose';
+
+export interface IAuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface IAuditLog extends Document {
+  _id: Types.ObjectId;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: Types.ObjectId;
+  userId?: Types.ObjectId; // Member the record belongs to
+  actorId?: Types.ObjectId; // Empty for system jobs and public routes
+  actorEmail?: string;
+  actorRole: 'admin' | 'member' | 'system';
+  route?: string;
+  method?: string;
+  ipAddress?: string;
+  changes: IAuditChange[];
   createdAt: Date;
 }
 
@@ -155,6 +779,12 @@ export interface IDashboardStats {
   totalInterestEarned: number; // all-time interest collected
   activeLoansPrincipal: number; // principal amount of active loans
   loanToSavingsRatio: number; // loans / total savings ratio
+  // Current contribution month and Nepali fiscal year (Shrawan to Ashadh)
+  currentMonth: string; // "YYYY-MM"
+  fiscalYear: number; // BS year the fiscal year starts in
+  fiscalYearContributions: number; // paid contributions for the fiscal year's months
+  fiscalYearInterestEarned: number; // repayment and historical interest dated in the fiscal year
+  fiscalYearLoansDisbursed: number;
 }
 
 export interface LoanSummary {
@@ -173,6 +803,8 @@ export interface CommunityFinances {
   totalContributionsAllTime: number;
   totalActiveLoans: number;
   totalInterestCollected: number;
+  totalPenaltiesCollected: number;
+  totalWithdrawals: number; // Exit entitlements returned to members who left, loan offsets included
   availableLiquidFunds: number;
   expectedAnnualInterest: number;
   loanSummaries: LoanSummary[];
@@ -233,7 +865,9 @@ export interface UserFilter extends PaginationQuery {
 export interface ContributionFilter extends PaginationQuery {
   userId?: string;
   month?: string;
+  bsMonth?: string; // BS "YYYY-MM", matched to the month it starts in
   year?: number;
+  fiscalYear?: number; // Nepali fiscal year, as the BS year it starts in
   status?: 'paid' | 'pending' | 'overdue';
 }
 
@@ -243,4 +877,5 @@ export interface LoanFilter extends PaginationQuery {
   fromDate?: string;
   toDate?: string;
   search?: string;
+  awaitingConfirmation?: boolean;
 }